@@ -1,23 +1,94 @@
-import { createHmac, timingSafeEqual } from "node:crypto";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 
 // ─── Schema Permissions ───────────────────────────────────────────────
 
-/** Per-schema access: "r" (read), "w" (write), or "rw" (both). Use "*" key for all schemas. */
-export type SchemaPermission = "r" | "w" | "rw";
+/**
+ * Access granted by a permissions entry: "-" (none) or a combination of
+ * scopes, each at most once:
+ * - "r" read, "c" create, "u" update, "d" delete
+ * - "b" bulk: array inserts, filter-based updates and deletes, and batches,
+ *   on top of the operation's own scope
+ * - "w" write: create, update, delete and bulk together
+ *
+ * So "r", "w" and "rw" keep their meaning, and e.g. "rc" can insert but
+ * never delete. Entries are keyed by target:
+ * - "*": every schema
+ * - "schema": every table and function of a schema
+ * - "schema.table": one table or view, overriding its schema's entry
+ * - "schema.table.column": narrows a column of a readable table to "r"
+ *   (read-only) or "-" (hidden)
+ */
+export type SchemaPermission = string;
 export type SchemaPermissions = Record<string, SchemaPermission>;
 
+/** A single operation a permissions entry can grant */
+export type Operation = "c" | "r" | "u" | "d" | "b";
+/** What a check asks for: one operation, or "w" for all of create, update and delete */
+export type Access = Operation | "w";
+
+/** Access names used in error messages */
+export const ACCESS_NAMES: Record<Access, string> = {
+  c: "create",
+  r: "read",
+  u: "update",
+  d: "delete",
+  b: "bulk",
+  w: "write",
+};
+
+/**
+ * Column values that every row a key reads or writes must have, e.g.
+ * `{"public": {"tenant_id": "42"}}`. Keyed by target like permissions ("*",
+ * "schema" or "schema.table"); a table's own entry replaces its schema's, so
+ * `{}` exempts a table.
+ */
+export type RowFilters = Record<string, Record<string, string>>;
+
+/** Signed key contents beyond the label and permissions */
+export interface KeyClaims {
+  rows?: RowFilters;
+  /** Database role the key's requests run as */
+  role?: string;
+  /** Unix time (seconds) from which the key is rejected as expired */
+  exp?: number;
+  /** Unix time (seconds) before which the key is not valid yet */
+  nbf?: number;
+}
+
+/**
+ * A secret keys are signed and verified with. A key signed with a secret
+ * that has an id starts with that id, so verification only tries that secret.
+ */
+export interface SigningSecret {
+  id?: string;
+  secret: string;
+}
+
+/** The parts of a TableInfo that permissions are keyed by */
+export interface TableRef {
+  schema: string;
+  name: string;
+}
+
 declare module "fastify" {
   interface FastifyRequest {
     apiKeyLabel?: string;
     /** null = full access (legacy key). undefined = auth disabled. */
     apiKeyPermissions?: SchemaPermissions | null;
+    /** Row filters of the key, if it has any */
+    apiKeyRowFilters?: RowFilters;
+    /** Database role signed into the key, if any */
+    apiKeyRole?: string;
+    /** Claims of a verified JWT, for request.jwt.claims */
+    apiKeyTokenClaims?: Record<string, unknown>;
   }
 }
 
 const KEY_PREFIX = "pgcrud_";
 const LABEL_PATTERN = /^[a-zA-Z0-9_-]+$/;
-const VALID_PERMISSIONS = new Set(["r", "w", "rw"]);
+const SCOPE_PATTERN = /^(?:-|(?!.*(.).*\1)[rwcudb]+)$/;
+const COLUMN_PERMISSIONS = new Set(["r", "-"]);
 
 const PUBLIC_PATHS = ["/api/_health", "/docs"];
 
@@ -39,46 +110,128 @@ function fromBase64url(b64: string): string {
 
 // ─── Permissions validation ───────────────────────────────────────────
 
+/** Describe what is wrong with one permissions entry, or return null if it is valid */
+function permissionEntryError(target: string, perm: unknown): string | null {
+  if (!target || target.trim() === "") {
+    return "Schema name must not be empty";
+  }
+  const parts = target.split(".");
+  if (parts.length > 3 || parts.some((p) => p.trim() === "" || (parts.length > 1 && p === "*"))) {
+    return `Invalid permission target "${target}". Expected "schema", "schema.table" or "schema.table.column"`;
+  }
+  if (parts.length === 3) {
+    return COLUMN_PERMISSIONS.has(perm as string)
+      ? null
+      : `Invalid permission "${perm}" for column "${target}". Must be "r" (read-only) or "-" (hidden)`;
+  }
+  return typeof perm === "string" && SCOPE_PATTERN.test(perm)
+    ? null
+    : `Invalid permission "${perm}" for ${parts.length === 2 ? "table" : "schema"} "${target}". Must be "-" or a combination of "r", "w", "c", "u", "d" and "b" (e.g. "rw" or "rcu")`;
+}
+
 export function validatePermissions(permissions: SchemaPermissions): void {
   const entries = Object.entries(permissions);
   if (entries.length === 0) {
     throw new Error("Permissions must contain at least one schema entry");
   }
-  for (const [schema, perm] of entries) {
-    if (!schema || schema.trim() === "") {
-      throw new Error("Schema name must not be empty");
+  for (const [target, perm] of entries) {
+    const error = permissionEntryError(target, perm);
+    if (error) throw new Error(error);
+  }
+}
+
+/** Describe what is wrong with one row filter entry, or return null if it is valid */
+function rowFilterEntryError(target: string, filter: unknown): string | null {
+  const parts = target.split(".");
+  if (target !== "*" && (parts.length > 2 || parts.some((p) => p.trim() === "" || p === "*"))) {
+    return `Invalid row filter target "${target}". Expected "*", "schema" or "schema.table"`;
+  }
+  if (typeof filter !== "object" || filter === null || Array.isArray(filter)) {
+    return `Row filter for "${target}" must be an object of column values`;
+  }
+  for (const [column, value] of Object.entries(filter)) {
+    if (column.trim() === "" || typeof value !== "string") {
+      return `Invalid row filter "${column}" for "${target}". Expected a column name with a string value`;
+    }
+  }
+  return null;
+}
+
+export function validateRowFilters(rows: RowFilters): void {
+  for (const [target, filter] of Object.entries(rows)) {
+    const error = rowFilterEntryError(target, filter);
+    if (error) throw new Error(error);
+  }
+}
+
+function isTimestamp(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/** Describe what is wrong with a key's claims, or return null if they are valid */
+function claimsError(claims: Record<string, unknown>): string | null {
+  const { rows, role, exp, nbf } = claims;
+  if (rows !== undefined) {
+    if (typeof rows !== "object" || rows === null || Array.isArray(rows)) {
+      return "Row filters must be an object of targets";
     }
-    if (!VALID_PERMISSIONS.has(perm)) {
-      throw new Error(`Invalid permission "${perm}" for schema "${schema}". Must be "r", "w", or "rw"`);
+    for (const [target, filter] of Object.entries(rows)) {
+      const error = rowFilterEntryError(target, filter);
+      if (error) return error;
     }
   }
+  if (role !== undefined && (typeof role !== "string" || role.trim() === "")) {
+    return "Role must not be empty";
+  }
+  for (const [name, value] of Object.entries({ exp, nbf })) {
+    if (value !== undefined && !isTimestamp(value)) return `"${name}" must be a Unix timestamp in seconds`;
+  }
+  if (isTimestamp(exp) && isTimestamp(nbf) && exp <= nbf) {
+    return "Expiry must be after the not-before time";
+  }
+  return null;
 }
 
 // ─── Key Generation ──────────────────────────────────────────────────
 
 /**
- * Generate an API key, optionally embedding schema permissions.
+ * Generate an API key, optionally embedding schema permissions and claims.
  *
  * - Without permissions: `pgcrud_{label}.{hmac}` (full access)
  * - With permissions:    `pgcrud_{label}:{base64url_json}.{hmac}`
+ * - With claims:         `pgcrud_{label}:{base64url_json}:{base64url_claims}.{hmac}`,
+ *   where the permissions part is empty for a full-access key
+ * - With a secret id:    `pgcrud_{id}.{data}.{hmac}` for any of the above
  *
  * The HMAC covers the full data portion, making permissions tamper-proof.
  */
-export function generateApiKey(label: string, secret: string, permissions?: SchemaPermissions): string {
+export function generateApiKey(
+  label: string,
+  secret: string | SigningSecret,
+  permissions?: SchemaPermissions,
+  claims?: KeyClaims,
+): string {
   if (!LABEL_PATTERN.test(label)) {
     throw new Error("Label must contain only alphanumeric characters, hyphens, and underscores");
   }
+  const signing = typeof secret === "string" ? { secret } : secret;
+  if (signing.id !== undefined && !LABEL_PATTERN.test(signing.id)) {
+    throw new Error("Secret id must contain only alphanumeric characters, hyphens, and underscores");
+  }
 
-  let data: string;
+  let data = label;
   if (permissions) {
     validatePermissions(permissions);
-    const encoded = toBase64url(JSON.stringify(permissions));
-    data = `${label}:${encoded}`;
-  } else {
-    data = label;
+    data += `:${toBase64url(JSON.stringify(permissions))}`;
+  }
+  if (claims && Object.values(claims).some((value) => value !== undefined)) {
+    const error = claimsError({ ...claims });
+    if (error) throw new Error(error);
+    data += `${permissions ? "" : ":"}:${toBase64url(JSON.stringify(claims))}`;
   }
 
-  const hmac = createHmac("sha256", secret).update(data).digest("hex");
+  if (signing.id !== undefined) data = `${signing.id}.${data}`;
+  const hmac = createHmac("sha256", signing.secret).update(data).digest("hex");
   return `${KEY_PREFIX}${data}.${hmac}`;
 }
 
@@ -89,44 +242,81 @@ export interface VerifyResult {
   label?: string;
   /** null = full access (legacy key without permissions). Only set when valid. */
   permissions?: SchemaPermissions | null;
+  /** Only set when the key has row filters */
+  rowFilters?: RowFilters;
+  /** Only set when the key carries a database role */
+  role?: string;
+  /** Only set for JWTs: the token's claims */
+  tokenClaims?: Record<string, unknown>;
+  /** Why a correctly signed key was rejected */
+  reason?: "expired" | "not_yet_valid" | "revoked";
 }
 
-interface ParsedKeyData {
+/** Answers whether a key was revoked, by its label or its fingerprint */
+export interface RevocationCheck {
+  isRevoked(label: string, fingerprint: string): boolean;
+}
+
+/** What a verified key or token carries */
+export interface KeyData {
   label: string;
   permissions: SchemaPermissions | null;
+  claims: KeyClaims;
+  /** Everything a JWT carried, passed on as request.jwt.claims */
+  tokenClaims?: Record<string, unknown>;
+}
+
+/** Verifies credentials other than pgcrud_ keys, e.g. JWTs; exp and nbf are left to verifyApiKey */
+export interface TokenCheck {
+  verify(token: string): KeyData | null;
+}
+
+export interface VerifyOptions {
+  /** Unix time in seconds to check exp and nbf against; defaults to the clock */
+  now?: number;
+  revocations?: RevocationCheck;
+  /** Accept credentials without the pgcrud_ prefix that this verifies */
+  tokens?: TokenCheck;
+}
+
+/** Decode a base64url JSON object, or return null */
+function decodeObject(encoded: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(fromBase64url(encoded));
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Parse the data portion of a key into label + optional permissions.
+ * Parse the data portion of a key into label + optional permissions and claims.
  * Returns null if the data is malformed.
  */
-function parseKeyData(data: string): ParsedKeyData | null {
-  const colonIndex = data.indexOf(":");
+function parseKeyData(data: string): KeyData | null {
+  const [label, permEncoded, claimsEncoded, ...rest] = data.split(":");
+  if (!LABEL_PATTERN.test(label) || rest.length > 0) return null;
 
-  if (colonIndex <= 0) {
+  if (permEncoded === undefined) {
     // Legacy format: label only (full access)
-    return LABEL_PATTERN.test(data) ? { label: data, permissions: null } : null;
+    return { label, permissions: null, claims: {} };
   }
 
-  // New format: label:base64url_permissions
-  const label = data.slice(0, colonIndex);
-  if (!LABEL_PATTERN.test(label)) return null;
-
-  const permEncoded = data.slice(colonIndex + 1);
-  if (permEncoded.length === 0) return null;
-
-  try {
-    const parsed = JSON.parse(fromBase64url(permEncoded));
-    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
-      return null;
-    }
-    for (const val of Object.values(parsed)) {
-      if (!VALID_PERMISSIONS.has(val as string)) return null;
+  // label:base64url_permissions[:base64url_claims]; permissions may only be empty before claims
+  let permissions: SchemaPermissions | null = null;
+  if (permEncoded.length > 0 || claimsEncoded === undefined) {
+    const parsed = decodeObject(permEncoded);
+    if (!parsed) return null;
+    for (const [target, perm] of Object.entries(parsed)) {
+      if (permissionEntryError(target, perm)) return null;
     }
-    return { label, permissions: parsed as SchemaPermissions };
-  } catch {
-    return null;
+    permissions = parsed as SchemaPermissions;
   }
+
+  if (claimsEncoded === undefined) return { label, permissions, claims: {} };
+  const claims = decodeObject(claimsEncoded);
+  if (!claims || claimsError(claims)) return null;
+  return { label, permissions, claims: claims as KeyClaims };
 }
 
 function verifyHmac(data: string, providedHmac: string, secret: string): boolean {
@@ -138,38 +328,85 @@ function verifyHmac(data: string, providedHmac: string, secret: string): boolean
   return timingSafeEqual(providedBuffer, expectedBuffer);
 }
 
-export function verifyApiKey(key: string, secret: string): VerifyResult {
-  if (!key.startsWith(KEY_PREFIX)) {
-    return { valid: false };
-  }
+/** Identifies a key in revocation lists without revealing it: a prefix of its SHA-256 */
+export function keyFingerprint(key: string): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
 
+/**
+ * Check a pgcrud_ key's HMAC against one secret or a list of them. A key
+ * naming a secret id is only checked against the secret with that id; other
+ * keys are checked against all of them, so keys stay valid while their
+ * secret is rotated out.
+ */
+function verifySignedKey(key: string, secrets: string | readonly SigningSecret[]): KeyData | null {
   const withoutPrefix = key.slice(KEY_PREFIX.length);
   const dotIndex = withoutPrefix.lastIndexOf(".");
-  if (dotIndex <= 0) {
-    return { valid: false };
-  }
+  if (dotIndex <= 0) return null;
 
-  const data = withoutPrefix.slice(0, dotIndex);
+  const signed = withoutPrefix.slice(0, dotIndex);
   const providedHmac = withoutPrefix.slice(dotIndex + 1);
+  if (providedHmac.length === 0) return null;
 
-  if (providedHmac.length === 0) {
-    return { valid: false };
-  }
+  const idIndex = signed.indexOf(".");
+  const secretId = idIndex === -1 ? undefined : signed.slice(0, idIndex);
+  if (secretId !== undefined && !LABEL_PATTERN.test(secretId)) return null;
 
-  const parsed = parseKeyData(data);
+  const parsed = parseKeyData(signed.slice(idIndex + 1));
+  if (!parsed) return null;
+
+  const candidates = typeof secrets === "string" ? [{ secret: secrets }] : secrets;
+  const verified = candidates.some(
+    ({ id, secret }) => (secretId === undefined || id === secretId) && verifyHmac(signed, providedHmac, secret),
+  );
+  return verified ? parsed : null;
+}
+
+/**
+ * Verify a pgcrud_ key, or another credential accepted by `options.tokens`,
+ * then check its validity times and the revocation list.
+ */
+export function verifyApiKey(
+  key: string,
+  secrets: string | readonly SigningSecret[],
+  options: VerifyOptions = {},
+): VerifyResult {
+  const parsed = key.startsWith(KEY_PREFIX) ? verifySignedKey(key, secrets) : options.tokens?.verify(key);
   if (!parsed) {
     return { valid: false };
   }
 
-  if (!verifyHmac(data, providedHmac, secret)) {
-    return { valid: false };
+  const { exp, nbf } = parsed.claims;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (exp !== undefined && now >= exp) {
+    return { valid: false, reason: "expired" };
+  }
+  if (nbf !== undefined && now < nbf) {
+    return { valid: false, reason: "not_yet_valid" };
+  }
+  if (options.revocations?.isRevoked(parsed.label, keyFingerprint(key))) {
+    return { valid: false, reason: "revoked" };
   }
 
-  return { valid: true, label: parsed.label, permissions: parsed.permissions };
+  const result: VerifyResult = { valid: true, label: parsed.label, permissions: parsed.permissions };
+  if (parsed.claims.rows) result.rowFilters = parsed.claims.rows;
+  if (parsed.claims.role) result.role = parsed.claims.role;
+  if (parsed.tokenClaims) result.tokenClaims = parsed.tokenClaims;
+  return result;
 }
 
 // ─── Permission Checking ─────────────────────────────────────────────
 
+/**
+ * Check if one permissions entry grants an access. "w" grants every
+ * operation but read, and "w" access is granted by "w" or by "cud".
+ */
+function grants(perm: SchemaPermission | undefined, access: Access): boolean {
+  if (!perm || perm === "-") return false;
+  if (access === "w") return perm.includes("w") || ["c", "u", "d"].every((op) => perm.includes(op));
+  return perm.includes(access) || (access !== "r" && perm.includes("w"));
+}
+
 /**
  * Check if a permissions set grants the requested access on a schema.
  * - null/undefined permissions = full access (legacy key or auth disabled)
@@ -178,12 +415,10 @@ export function verifyApiKey(key: string, secret: string): VerifyResult {
 export function hasPermission(
   permissions: SchemaPermissions | null | undefined,
   schema: string,
-  access: "r" | "w",
+  access: Access,
 ): boolean {
   if (permissions === null || permissions === undefined) return true;
-  const perm = permissions[schema] ?? permissions["*"];
-  if (!perm) return false;
-  return perm === "rw" || perm === access;
+  return grants(permissions[schema] ?? permissions["*"], access);
 }
 
 /**
@@ -195,13 +430,99 @@ export function hasAnyPermission(
 ): boolean {
   if (permissions === null || permissions === undefined) return true;
   const perm = permissions[schema] ?? permissions["*"];
-  return !!perm;
+  return !!perm && perm !== "-";
+}
+
+/** A table's own entry, else its schema's, else the wildcard */
+function tablePermission(permissions: SchemaPermissions, table: TableRef): SchemaPermission | undefined {
+  return permissions[`${table.schema}.${table.name}`] ?? permissions[table.schema] ?? permissions["*"];
+}
+
+/**
+ * Check if a permissions set grants the requested access on a table. A
+ * "schema.table" entry overrides the schema and wildcard entries.
+ */
+export function hasTablePermission(
+  permissions: SchemaPermissions | null | undefined,
+  table: TableRef,
+  access: Access,
+): boolean {
+  if (permissions === null || permissions === undefined) return true;
+  return grants(tablePermission(permissions, table), access);
+}
+
+/**
+ * The first of `accesses` a permissions set does not grant on a table, or
+ * undefined if it grants them all.
+ */
+export function findMissingAccess(
+  permissions: SchemaPermissions | null | undefined,
+  table: TableRef,
+  accesses: readonly Access[],
+): Access | undefined {
+  return accesses.find((access) => !hasTablePermission(permissions, table, access));
+}
+
+/**
+ * Check if a permissions set grants any access (read or write) on a table.
+ */
+export function hasAnyTablePermission(
+  permissions: SchemaPermissions | null | undefined,
+  table: TableRef,
+): boolean {
+  if (permissions === null || permissions === undefined) return true;
+  const perm = tablePermission(permissions, table);
+  return !!perm && perm !== "-";
+}
+
+/**
+ * The rule narrowing one column: "r" (read-only), "-" (hidden), or
+ * undefined when the column has the table's access.
+ */
+export function columnPermission(
+  permissions: SchemaPermissions | null | undefined,
+  table: TableRef,
+  column: string,
+): "r" | "-" | undefined {
+  return permissions?.[`${table.schema}.${table.name}.${column}`] as "r" | "-" | undefined;
+}
+
+/**
+ * Check if a permissions set has column rules for a table, or for any table
+ * when `table` is omitted.
+ */
+export function hasColumnRules(permissions: SchemaPermissions | null | undefined, table?: TableRef): boolean {
+  if (permissions === null || permissions === undefined) return false;
+  const prefix = table ? `${table.schema}.${table.name}.` : "";
+  return Object.keys(permissions).some((target) => target.startsWith(prefix) && target.split(".").length === 3);
+}
+
+/**
+ * Check if a permissions set has table or column entries in a schema.
+ * Functions reach every table of their schema, so such entries could not
+ * bind them.
+ */
+export function hasTableRules(permissions: SchemaPermissions | null | undefined, schema: string): boolean {
+  if (permissions === null || permissions === undefined) return false;
+  return Object.keys(permissions).some((target) => target.startsWith(`${schema}.`));
+}
+
+/**
+ * Check if a permissions set covers every schema, present and future: a
+ * legacy key, auth disabled, or a "*" entry granting every operation, such as
+ * "rw". Needed for server administration.
+ */
+export function hasFullAccess(permissions: SchemaPermissions | null | undefined): boolean {
+  if (permissions === null || permissions === undefined) return true;
+  return (["r", "w", "b"] as const).every((access) => grants(permissions["*"], access));
 }
 
 // ─── Parse permissions string ────────────────────────────────────────
 
 /**
  * Parse a CLI permissions string like "public:rw,reporting:r" into SchemaPermissions.
+ * Targets may also name a table ("public.orders:r") or a column
+ * ("public.users.password_hash:-").
  */
 export function parsePermissionsString(input: string): SchemaPermissions {
   const result: SchemaPermissions = {};
@@ -209,14 +530,13 @@ export function parsePermissionsString(input: string): SchemaPermissions {
   for (const pair of pairs) {
     const colonIdx = pair.lastIndexOf(":");
     if (colonIdx <= 0) {
-      throw new Error(`Invalid permission format "${pair}". Expected "schema:permission" (e.g., "public:rw")`);
+      throw new Error(`Invalid permission format "${pair}". Expected "target:permission" (e.g., "public:rw" or "public.orders:r")`);
     }
-    const schema = pair.slice(0, colonIdx).trim();
+    const target = pair.slice(0, colonIdx).trim();
     const perm = pair.slice(colonIdx + 1).trim();
-    if (!VALID_PERMISSIONS.has(perm)) {
-      throw new Error(`Invalid permission "${perm}" for schema "${schema}". Must be "r", "w", or "rw"`);
-    }
-    result[schema] = perm as SchemaPermission;
+    const error = permissionEntryError(target, perm);
+    if (error) throw new Error(error);
+    result[target] = perm as SchemaPermission;
   }
   if (Object.keys(result).length === 0) {
     throw new Error("No permissions specified");
@@ -224,8 +544,66 @@ export function parsePermissionsString(input: string): SchemaPermissions {
   return result;
 }
 
+/**
+ * Parse a CLI row filter string like "public:tenant_id=42,public.plans:" into
+ * RowFilters. Repeating a target adds columns to it; a target without a
+ * column exempts it.
+ */
+export function parseRowFiltersString(input: string): RowFilters {
+  const result: RowFilters = {};
+  const pairs = input.split(",").map((s) => s.trim()).filter(Boolean);
+  for (const pair of pairs) {
+    const colonIdx = pair.indexOf(":");
+    if (colonIdx <= 0) {
+      throw new Error(`Invalid row filter format "${pair}". Expected "target:column=value" (e.g., "public:tenant_id=42")`);
+    }
+    const target = pair.slice(0, colonIdx).trim();
+    const condition = pair.slice(colonIdx + 1).trim();
+    const filter = result[target] ?? {};
+    if (condition) {
+      const eqIdx = condition.indexOf("=");
+      if (eqIdx <= 0) {
+        throw new Error(`Invalid row filter format "${pair}". Expected "target:column=value" (e.g., "public:tenant_id=42")`);
+      }
+      filter[condition.slice(0, eqIdx).trim()] = condition.slice(eqIdx + 1).trim();
+    }
+    const error = rowFilterEntryError(target, filter);
+    if (error) throw new Error(error);
+    result[target] = filter;
+  }
+  if (Object.keys(result).length === 0) {
+    throw new Error("No row filters specified");
+  }
+  return result;
+}
+
+const DURATION_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Parse a key expiry or not-before time: a duration from `now` ("90d", "12h",
+ * "30m", "45s") or a date ("2026-01-31", "2026-01-31T12:00:00Z"). Returns
+ * Unix time in seconds.
+ */
+export function parseKeyTimestamp(input: string, now = Date.now()): number {
+  const duration = /^(\d+)([smhd])$/.exec(input.trim());
+  if (duration) {
+    return Math.floor(now / 1000) + Number(duration[1]) * DURATION_SECONDS[duration[2]];
+  }
+  const time = Date.parse(input);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time "${input}". Expected a duration (e.g., "90d") or a date (e.g., "2026-01-31")`);
+  }
+  return Math.floor(time / 1000);
+}
+
 // ─── Auth Hook ───────────────────────────────────────────────────────
 
+const REJECTION_MESSAGES: Record<NonNullable<VerifyResult["reason"]>, string> = {
+  expired: "API key has expired.",
+  not_yet_valid: "API key is not valid yet.",
+  revoked: "API key has been revoked.",
+};
+
 export function extractApiKey(request: FastifyRequest): string | null {
   const authHeader = request.headers.authorization;
   if (authHeader?.startsWith("Bearer ")) {
@@ -240,7 +618,11 @@ export function extractApiKey(request: FastifyRequest): string | null {
   return null;
 }
 
-export function registerAuthHook(app: FastifyInstance, secret: string): void {
+export function registerAuthHook(
+  app: FastifyInstance,
+  secrets: string | readonly SigningSecret[],
+  options: Omit<VerifyOptions, "now"> = {},
+): void {
   app.addHook("onRequest", async (request: FastifyRequest, reply: FastifyReply) => {
     if (isPublicPath(request.url)) {
       return;
@@ -255,16 +637,19 @@ export function registerAuthHook(app: FastifyInstance, secret: string): void {
       return;
     }
 
-    const result = verifyApiKey(key, secret);
+    const result = verifyApiKey(key, secrets, options);
     if (!result.valid) {
       reply.status(401).send({
         error: "Unauthorized",
-        message: "Invalid API key.",
+        message: result.reason ? REJECTION_MESSAGES[result.reason] : "Invalid API key.",
       });
       return;
     }
 
     request.apiKeyLabel = result.label;
     request.apiKeyPermissions = result.permissions;
+    request.apiKeyRowFilters = result.rowFilters;
+    request.apiKeyRole = result.role;
+    request.apiKeyTokenClaims = result.tokenClaims;
   });
 }
@@ -1,12 +1,21 @@
-import { generateApiKey, parsePermissionsString, SchemaPermissions } from "./api-key.js";
-import dotenv from "dotenv";
-dotenv.config();
+import {
+  generateApiKey, keyFingerprint, parseKeyTimestamp, parsePermissionsString, parseRowFiltersString,
+  SchemaPermissions, RowFilters, SigningSecret, Access, ACCESS_NAMES,
+} from "./api-key.js";
+import { Pool } from "pg";
+import { config, parseApiSecrets } from "../config.js";
+import { introspectDatabase } from "../db/introspector.js";
+import { checkRowFilters, RowFilterReport } from "./scope.js";
 
 const args = process.argv.slice(2);
 
-let secret: string | undefined;
+let secret: SigningSecret | undefined;
 let label: string | undefined;
 let permissions: SchemaPermissions | undefined;
+let rows: RowFilters | undefined;
+let role: string | undefined;
+let exp: number | undefined;
+let nbf: number | undefined;
 
 // Parse --schemas flag from args
 const schemasIdx = args.indexOf("--schemas");
@@ -26,24 +35,88 @@ if (schemasIdx !== -1) {
   args.splice(schemasIdx, 2);
 }
 
+// Parse --rows flag from args
+const rowsIdx = args.indexOf("--rows");
+if (rowsIdx !== -1) {
+  const rowsValue = args[rowsIdx + 1];
+  if (!rowsValue) {
+    console.error("Error: --rows requires a value (e.g., --rows public:tenant_id=42)");
+    process.exit(1);
+  }
+  try {
+    rows = parseRowFiltersString(rowsValue);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  args.splice(rowsIdx, 2);
+}
+
+// Parse --role flag from args
+const roleIdx = args.indexOf("--role");
+if (roleIdx !== -1) {
+  role = args[roleIdx + 1]?.trim();
+  if (!role) {
+    console.error("Error: --role requires a value (e.g., --role api_reader)");
+    process.exit(1);
+  }
+  args.splice(roleIdx, 2);
+}
+
+// Parse --expires and --not-before flags from args
+for (const flag of ["--expires", "--not-before"]) {
+  const idx = args.indexOf(flag);
+  if (idx === -1) continue;
+  const value = args[idx + 1];
+  if (!value) {
+    console.error(`Error: ${flag} requires a value (e.g., ${flag} 90d or ${flag} 2026-01-31)`);
+    process.exit(1);
+  }
+  try {
+    if (flag === "--expires") exp = parseKeyTimestamp(value);
+    else nbf = parseKeyTimestamp(value);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  args.splice(idx, 2);
+}
+
+// Keys are signed with the first secret, and carry its id if it has one
+const envSecret = parseApiSecrets(process.env.API_SECRETS, process.env.API_SECRET)[0];
+
 if (args.length === 2) {
   // npm run generate-key -- <API_SECRET> <label>
-  secret = args[0];
+  secret = parseApiSecrets(args[0])[0];
   label = args[1];
-} else if (args.length === 1 && process.env.API_SECRET) {
+} else if (args.length === 1 && envSecret) {
   // npm run generate-key -- <label>  (secret from .env)
-  secret = process.env.API_SECRET;
+  secret = envSecret;
   label = args[0];
 } else {
-  console.error("Usage: npm run generate-key -- <API_SECRET> <label> [--schemas schema:perm,...]");
-  console.error("       npm run generate-key -- <label> [--schemas schema:perm,...]  (uses API_SECRET from .env)");
+  console.error("Usage: npm run generate-key -- <API_SECRET> <label> [--schemas target:perm,...] [--rows target:column=value,...] [--role name] [--expires when] [--not-before when]");
+  console.error("       npm run generate-key -- <label> [--schemas target:perm,...] [--rows ...] [--role ...] [--expires ...]  (uses API_SECRETS or API_SECRET from .env)");
   console.error("\nExamples:");
   console.error("  npm run generate-key -- my-secret admin");
+  console.error("  npm run generate-key -- k2:my-new-secret admin");
   console.error("  npm run generate-key -- my-secret reader --schemas public:r");
   console.error("  npm run generate-key -- my-secret service --schemas public:rw,reporting:r");
   console.error("  npm run generate-key -- my-secret full-access --schemas '*:rw'");
-  console.error("\nPermission values: r (read), w (write), rw (read+write)");
-  console.error("Use * as schema name for wildcard (all schemas).");
+  console.error("  npm run generate-key -- my-secret orders-reader --schemas public.orders:r");
+  console.error("  npm run generate-key -- my-secret ingestion --schemas public:rcb");
+  console.error("  npm run generate-key -- my-secret support --schemas 'public:rw,public.users.password_hash:-,public.users.role:r'");
+  console.error("  npm run generate-key -- my-secret tenant-42 --schemas public:rw --rows public:tenant_id=42,public.plans:");
+  console.error("  npm run generate-key -- my-secret analyst --schemas reporting:r --role api_reader");
+  console.error("  npm run generate-key -- my-secret contractor --schemas public:r --expires 90d");
+  console.error("\nTargets: schema, schema.table, or schema.table.column. Use * for all schemas.");
+  console.error("Permission values: r (read), w (write), rw (read+write), - (none), or a combination of r, w,");
+  console.error("  c (create), u (update), d (delete) and b (bulk inserts, filtered updates/deletes and batches)");
+  console.error("Column rules narrow table access: r (read-only) or - (hidden).");
+  console.error("Row filters pin a column of every table that has it (target: *, schema or schema.table);");
+  console.error("a target without a column exempts it. They are checked against DATABASE_URL when it can be reached.");
+  console.error("A role makes the key's queries run as that database role (SET LOCAL ROLE).");
+  console.error("A secret given as id:secret (as in API_SECRETS) puts its id in front of the key.");
+  console.error("--expires and --not-before take a duration from now (30m, 12h, 90d) or a date.");
   process.exit(1);
 }
 
@@ -52,17 +125,61 @@ if (!secret || !label) {
   process.exit(1);
 }
 
-const key = generateApiKey(label, secret, permissions);
-console.log(`\nGenerated API key for label "${label}":\n`);
+// Check row filters against DATABASE_URL, when it can be reached
+if (rows) {
+  const pool = new Pool({ connectionString: config.databaseUrl, connectionTimeoutMillis: 10_000, statement_timeout: 30_000 });
+  let report: RowFilterReport | undefined;
+  try {
+    report = checkRowFilters(rows, await introspectDatabase(pool));
+  } catch (err) {
+    console.error(`Warning: row filters not checked against the database: ${(err as Error).message}`);
+  } finally {
+    await pool.end();
+  }
+  if (report?.denied.length) {
+    console.error(
+      `Warning: row filters deny these tables, which lack the filtered columns: ${report.denied.join(", ")}. ` +
+      "Exempt shared tables with a 'schema.table:' entry.",
+    );
+  }
+  if (report?.errors.length) {
+    for (const error of report.errors) console.error(`Error: ${error}`);
+    process.exit(1);
+  }
+}
+
+const key = generateApiKey(label, secret, permissions, { rows, role, exp, nbf });
+console.log(`\nGenerated API key for label "${label}"${secret.id ? ` with secret "${secret.id}"` : ""}:\n`);
 console.log(`  ${key}\n`);
 if (permissions) {
-  console.log("Schema permissions:");
-  for (const [schema, perm] of Object.entries(permissions)) {
-    const permDesc = perm === "rw" ? "read+write" : perm === "r" ? "read-only" : "write-only";
-    console.log(`  ${schema}: ${permDesc}`);
+  console.log("Permissions:");
+  const descriptions: Record<string, string> = { rw: "read+write", r: "read-only", w: "write-only", "-": "no access" };
+  const describe = (perm: string) =>
+    descriptions[perm] ?? [...perm].map((access) => ACCESS_NAMES[access as Access]).join("+");
+  for (const [target, perm] of Object.entries(permissions)) {
+    const isColumn = target.split(".").length === 3;
+    console.log(`  ${target}: ${isColumn && perm === "-" ? "hidden" : describe(perm)}`);
   }
   console.log();
 }
+if (rows) {
+  console.log("Row filters:");
+  for (const [target, filter] of Object.entries(rows)) {
+    const conditions = Object.entries(filter).map(([column, value]) => `${column} = ${value}`);
+    console.log(`  ${target}: ${conditions.join(", ") || "not filtered"}`);
+  }
+  console.log();
+}
+if (role) {
+  console.log(`Database role: ${role}\n`);
+}
+if (nbf !== undefined) {
+  console.log(`Not before: ${new Date(nbf * 1000).toISOString()}`);
+}
+if (exp !== undefined) {
+  console.log(`Expires:    ${new Date(exp * 1000).toISOString()}`);
+}
+console.log(`Fingerprint: ${keyFingerprint(key)}  (add it to the revocation list to revoke this key alone)\n`);
 console.log("Use via header:");
 console.log(`  Authorization: Bearer ${key}`);
 console.log(`  X-API-Key: ${key}\n`);
@@ -0,0 +1,168 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify, JsonWebKey, KeyObject } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { KeyData, SchemaPermissions, TokenCheck, parsePermissionsString, validatePermissions } from "./api-key.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface JwtVerifierOptions {
+  /** Shared secret for HS256 tokens */
+  secret?: string | null;
+  /** PEM public key for RS256 or ES256 tokens */
+  publicKey?: string | null;
+  /** JSON Web Key Set with RS256 or ES256 public keys, picked by the token's `kid` */
+  jwks?: { keys: JsonWebKey[] } | null;
+  /** Required `aud`, if set */
+  audience?: string | null;
+  /** Required `iss`, if set */
+  issuer?: string | null;
+  /** Claim with the token's permissions, as an object or a "target:perm,..." string */
+  permissionsClaim: string;
+}
+
+export interface JwtFileOptions extends Omit<JwtVerifierOptions, "publicKey" | "jwks"> {
+  publicKeyFile?: string | null;
+  jwksFile?: string | null;
+}
+
+interface PublicKey {
+  key: KeyObject;
+  kid?: string;
+  alg?: string;
+}
+
+// ─── Signatures ──────────────────────────────────────────────────────
+
+/** Decode a base64url JSON object, or return null */
+function decodeObject(encoded: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether a public key can check `alg`: RSA for RS256, P-256 for ES256 */
+function fitsAlgorithm(candidate: PublicKey, alg: string): boolean {
+  if (candidate.alg !== undefined && candidate.alg !== alg) return false;
+  const { asymmetricKeyType, asymmetricKeyDetails } = candidate.key;
+  return alg === "RS256"
+    ? asymmetricKeyType === "rsa"
+    : asymmetricKeyType === "ec" && asymmetricKeyDetails?.namedCurve === "prime256v1";
+}
+
+function verifyPublicKey(candidate: PublicKey, alg: string, input: string, signature: Buffer): boolean {
+  // JWTs carry ECDSA signatures as r || s rather than DER
+  const key = alg === "ES256" ? { key: candidate.key, dsaEncoding: "ieee-p1363" as const } : candidate.key;
+  return verify("sha256", Buffer.from(input), key, signature);
+}
+
+// ─── Claims ──────────────────────────────────────────────────────────
+
+/**
+ * Prefix of a JWT's label. Key labels cannot contain ":", so a token's `sub`
+ * never takes the API_KEY_ROLES entry or revocations of a key.
+ */
+const JWT_LABEL_PREFIX = "jwt:";
+
+/** The permissions in a token's claim, or null if missing or invalid */
+function permissionsOf(value: unknown): SchemaPermissions | null {
+  try {
+    const permissions = typeof value === "string" ? parsePermissionsString(value) : value;
+    if (typeof permissions !== "object" || permissions === null || Array.isArray(permissions)) return null;
+    validatePermissions(permissions as SchemaPermissions);
+    return permissions as SchemaPermissions;
+  } catch {
+    return null;
+  }
+}
+
+function hasAudience(aud: unknown, audience: string): boolean {
+  return aud === audience || (Array.isArray(aud) && aud.includes(audience));
+}
+
+// ─── Verifier ────────────────────────────────────────────────────────
+
+/**
+ * Verify JWTs signed with HS256 (shared secret) or RS256/ES256 (public key
+ * or JWKS). The algorithm must fit the key, so a public key is never used as
+ * an HMAC secret. A token is accepted with a string `sub`, the configured
+ * `aud` and `iss`, and valid permissions in the permissions claim; its `exp`
+ * and `nbf` are checked by verifyApiKey. Its label is "jwt:<sub>".
+ */
+export function createJwtVerifier(opts: JwtVerifierOptions): TokenCheck {
+  const publicKeys: PublicKey[] = [];
+  if (opts.publicKey) publicKeys.push({ key: createPublicKey(opts.publicKey) });
+  for (const jwk of opts.jwks?.keys ?? []) {
+    if (jwk.use !== undefined && jwk.use !== "sig") continue;
+    publicKeys.push({
+      key: createPublicKey({ key: jwk, format: "jwk" }),
+      kid: jwk.kid as string | undefined,
+      alg: jwk.alg as string | undefined,
+    });
+  }
+
+  function verifySignature(header: Record<string, unknown>, input: string, signature: Buffer): boolean {
+    const { alg, kid } = header;
+    if (alg === "HS256") {
+      if (!opts.secret) return false;
+      const expected = createHmac("sha256", opts.secret).update(input).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+    if (alg !== "RS256" && alg !== "ES256") return false;
+    return publicKeys.some(
+      (candidate) =>
+        (kid === undefined || candidate.kid === undefined || candidate.kid === kid) &&
+        fitsAlgorithm(candidate, alg) &&
+        verifyPublicKey(candidate, alg, input, signature),
+    );
+  }
+
+  function verifyToken(token: string): KeyData | null {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+    const [headerPart, payloadPart, signaturePart] = parts;
+    const header = decodeObject(headerPart);
+    const payload = decodeObject(payloadPart);
+    if (!header || !payload) return null;
+    if (!verifySignature(header, `${headerPart}.${payloadPart}`, Buffer.from(signaturePart, "base64url"))) {
+      return null;
+    }
+
+    const { sub, exp, nbf, iss, aud } = payload;
+    if (typeof sub !== "string" || sub === "") return null;
+    if (opts.issuer && iss !== opts.issuer) return null;
+    if (opts.audience && !hasAudience(aud, opts.audience)) return null;
+    if ((exp !== undefined && typeof exp !== "number") || (nbf !== undefined && typeof nbf !== "number")) return null;
+
+    const permissions = permissionsOf(payload[opts.permissionsClaim]);
+    if (!permissions) return null;
+    return {
+      label: `${JWT_LABEL_PREFIX}${sub}`,
+      permissions,
+      claims: { exp: exp as number | undefined, nbf: nbf as number | undefined },
+      tokenClaims: payload,
+    };
+  }
+
+  return { verify: verifyToken };
+}
+
+/**
+ * Create a verifier from a secret and/or key files, or return undefined when
+ * none is configured. Throws if a file cannot be read or holds no usable key.
+ */
+export async function loadJwtVerifier(opts: JwtFileOptions): Promise<TokenCheck | undefined> {
+  const { publicKeyFile, jwksFile, ...rest } = opts;
+  if (!rest.secret && !publicKeyFile && !jwksFile) return undefined;
+
+  const publicKey = publicKeyFile ? await readFile(publicKeyFile, "utf8") : null;
+  let jwks: { keys: JsonWebKey[] } | null = null;
+  if (jwksFile) {
+    jwks = JSON.parse(await readFile(jwksFile, "utf8"));
+    if (!Array.isArray(jwks?.keys)) {
+      throw new Error(`JWKS file ${jwksFile} must contain a "keys" array`);
+    }
+  }
+  return createJwtVerifier({ ...rest, publicKey, jwks });
+}
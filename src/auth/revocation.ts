@@ -0,0 +1,83 @@
+import { readFile } from "node:fs/promises";
+import { Pool } from "pg";
+import { RevocationCheck } from "./api-key.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface RevocationListOptions {
+  /** File with one label or key fingerprint per line; # starts a comment */
+  file?: string | null;
+  /** Table ("schema.table" or "table") with an `entry` column of labels or key fingerprints */
+  table?: string | null;
+  /** Pool the table is read with */
+  pool?: Pool;
+}
+
+export interface RevocationList extends RevocationCheck {
+  /** Re-read the file and table. If that fails, the previous list stays in place. */
+  reload(): Promise<{ revoked: number }>;
+  /** Reload every `seconds` */
+  poll(seconds: number): void;
+  /** Stop polling */
+  stop(): void;
+}
+
+// ─── Sources ─────────────────────────────────────────────────────────
+
+/** Entries of a revocation file: one per line, ignoring blank lines and # comments */
+export function parseRevocationFile(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/#.*/, "").trim())
+    .filter(Boolean);
+}
+
+function quoteTableName(table: string): string {
+  return table.split(".").map((part) => `"${part.replaceAll('"', '""')}"`).join(".");
+}
+
+// ─── Revocation List ─────────────────────────────────────────────────
+
+/**
+ * Labels and fingerprints of revoked keys, read from a file and/or a table.
+ * Empty until the first reload.
+ */
+export function createRevocationList(opts: RevocationListOptions): RevocationList {
+  let entries = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  async function reload(): Promise<{ revoked: number }> {
+    const loaded = new Set<string>();
+    if (opts.file) {
+      for (const entry of parseRevocationFile(await readFile(opts.file, "utf8"))) loaded.add(entry);
+    }
+    if (opts.table) {
+      const result = await opts.pool!.query(`SELECT entry FROM ${quoteTableName(opts.table)}`);
+      for (const row of result.rows) {
+        if (row.entry != null) loaded.add(String(row.entry).trim());
+      }
+    }
+    entries = loaded;
+    return { revoked: entries.size };
+  }
+
+  function poll(seconds: number): void {
+    timer = setInterval(() => {
+      reload().catch((err) => {
+        console.error("❌ Revocation list reload failed:", (err as Error).message);
+      });
+    }, seconds * 1000);
+    timer.unref();
+  }
+
+  function stop(): void {
+    if (timer) clearInterval(timer);
+  }
+
+  return {
+    isRevoked: (label, fingerprint) => entries.has(label) || entries.has(fingerprint),
+    reload,
+    poll,
+    stop,
+  };
+}
@@ -0,0 +1,252 @@
+import type { FastifyInstance } from "fastify";
+import { DatabaseSchema, TableInfo } from "../db/introspector.js";
+import type { Expansion } from "../db/query-builder.js";
+import {
+  SchemaPermissions,
+  RowFilters,
+  TableRef,
+  columnPermission,
+  hasColumnRules,
+  hasAnyPermission,
+  hasAnyTablePermission,
+} from "./api-key.js";
+
+// ─── Column Scoping ──────────────────────────────────────────────────
+//
+// Column rules in a key ("schema.table.column": "r" | "-") narrow what it
+// can do with a table it may access. Queries are built against the table as
+// the key sees it, so hidden columns cannot be selected, filtered, sorted or
+// searched on, and rows are redacted because `SELECT *` and `RETURNING *`
+// still return them. Primary key columns identify rows in URLs and cursors,
+// so a "-" rule only makes them read-only.
+//
+// Row filters in a key pin columns to values, e.g. tenant_id = 42. The
+// scoped table carries them as `rowFilter`, and the query builder adds them
+// to every WHERE clause, embedded relation and upsert, and forces them onto
+// inserted rows. A table lacking any column of the filter that applies to it
+// is denied, so a typo or a schema filter over a table without a tenant
+// column fails closed rather than leaving the table unfiltered. Shared
+// tables (lookup tables, say) are exempted with an empty entry of their own.
+
+type Permissions = SchemaPermissions | null | undefined;
+
+/** Columns of a table hidden from a key */
+export function hiddenColumns(table: TableRef & { primaryKeys: string[] }, permissions: Permissions): string[] {
+  if (!hasColumnRules(permissions, table)) return [];
+  const prefix = `${table.schema}.${table.name}.`;
+  return Object.entries(permissions!)
+    .filter(([target, perm]) => perm === "-" && target.startsWith(prefix))
+    .map(([target]) => target.slice(prefix.length))
+    .filter((column) => !table.primaryKeys.includes(column));
+}
+
+/** Whether a key may set a column: any column rule makes it read-only */
+export function isColumnWritable(table: TableRef, permissions: Permissions, column: string): boolean {
+  return columnPermission(permissions, table, column) === undefined;
+}
+
+/**
+ * The column values a key pins a table's rows to: the table's own row filter
+ * entry, else its schema's, else the wildcard's. Undefined when nothing is
+ * pinned.
+ */
+export function rowFilterOf(table: TableRef, rowFilters?: RowFilters): Record<string, string> | undefined {
+  const target = rowFilterTarget(table, rowFilters);
+  const filter = target ? rowFilters![target] : {};
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/** The row filter entry that applies to a table: its own, else its schema's, else "*" */
+function rowFilterTarget(table: TableRef, rowFilters?: RowFilters): string | undefined {
+  return [`${table.schema}.${table.name}`, table.schema, "*"].find((target) => rowFilters?.[target] !== undefined);
+}
+
+function hasColumn(table: TableInfo, column: string): boolean {
+  return table.columns.some((c) => c.name === column);
+}
+
+/** Columns that the row filter applying to a table pins but the table lacks */
+function missingFilterColumns(table: TableInfo, rowFilters?: RowFilters): string[] {
+  return Object.keys(rowFilterOf(table, rowFilters) ?? {}).filter((column) => !hasColumn(table, column));
+}
+
+/**
+ * A key's permissions with every table denied that lacks a column of the
+ * row filter applying to it. Returns the permissions themselves when there
+ * is none.
+ */
+export function denyUnfilterableTables(
+  permissions: Permissions,
+  rowFilters: RowFilters | undefined,
+  dbSchema: DatabaseSchema,
+): Permissions {
+  const denied = Array.from(dbSchema.tables.values()).filter((t) => missingFilterColumns(t, rowFilters).length > 0);
+  if (denied.length === 0) return permissions;
+  // A legacy key keeps access to everything else
+  const scoped: SchemaPermissions = { ...(permissions ?? { "*": "rw" }) };
+  for (const table of denied) scoped[`${table.schema}.${table.name}`] = "-";
+  return scoped;
+}
+
+/** Apply denyUnfilterableTables to every request, after the auth hook */
+export function registerRowFilterHook(app: FastifyInstance, dbSchema: DatabaseSchema): void {
+  app.addHook("onRequest", async (request) => {
+    request.apiKeyPermissions = denyUnfilterableTables(request.apiKeyPermissions, request.apiKeyRowFilters, dbSchema);
+  });
+}
+
+export interface RowFilterReport {
+  /** Entries that name a missing table or column; tables named with a missing column are denied */
+  errors: string[];
+  /**
+   * Tables ("schema.table") a schema or "*" entry denies because they lack
+   * some of its columns; a `schema.table:` entry exempts them
+   */
+  denied: string[];
+}
+
+/** Check a key's row filters against the database, e.g. before handing out the key */
+export function checkRowFilters(rowFilters: RowFilters, dbSchema: DatabaseSchema): RowFilterReport {
+  const report: RowFilterReport = { errors: [], denied: [] };
+  const tables = Array.from(dbSchema.tables.values());
+  for (const [target, filter] of Object.entries(rowFilters)) {
+    const columns = Object.keys(filter);
+    if (columns.length === 0) continue;
+
+    if (target.includes(".")) {
+      const table = tables.find((t) => `${t.schema}.${t.name}` === target);
+      if (!table) {
+        report.errors.push(`Row filter target "${target}" matches no table`);
+        continue;
+      }
+      for (const column of missingFilterColumns(table, rowFilters)) {
+        report.errors.push(`Table "${target}" has no column "${column}"; the key will be denied access to it`);
+      }
+      continue;
+    }
+
+    const governed = tables.filter((t) => rowFilterTarget(t, rowFilters) === target);
+    for (const column of columns) {
+      if (!governed.some((t) => hasColumn(t, column))) {
+        report.errors.push(`Row filter column "${column}" of "${target}" matches no table`);
+      }
+    }
+    for (const table of governed) {
+      if (missingFilterColumns(table, rowFilters).length > 0) report.denied.push(`${table.schema}.${table.name}`);
+    }
+  }
+  return report;
+}
+
+/**
+ * Whether a key has any non-empty row filter. Functions can read and write
+ * tables of any schema, so such a key cannot call them at all.
+ */
+export function hasRowFilters(rowFilters: RowFilters | undefined): boolean {
+  return Object.values(rowFilters ?? {}).some((filter) => Object.keys(filter).length > 0);
+}
+
+/**
+ * The whole table limited to a key's rows, for writes: hidden columns stay,
+ * so soft deletes and updated_at still apply.
+ */
+export function scopeRows(table: TableInfo, rowFilters?: RowFilters): TableInfo {
+  const rowFilter = rowFilterOf(table, rowFilters);
+  return rowFilter ? { ...table, rowFilter } : table;
+}
+
+/**
+ * The table as a key sees it: without its hidden columns, and without the
+ * foreign keys, unique constraints and indexes that involve them, limited
+ * to the key's rows. Returns the table itself when nothing is hidden or pinned.
+ */
+export function scopeTable(table: TableInfo, permissions: Permissions, rowFilters?: RowFilters): TableInfo {
+  const scoped = scopeRows(table, rowFilters);
+  const hidden = hiddenColumns(table, permissions);
+  if (hidden.length === 0) return scoped;
+  const visible = (columns: string[]) => columns.every((c) => !hidden.includes(c));
+  return {
+    ...scoped,
+    columns: table.columns.filter((c) => !hidden.includes(c.name)),
+    foreignKeys: table.foreignKeys.filter((fk) => !hidden.includes(fk.column)),
+    uniqueConstraints: table.uniqueConstraints.filter((u) => visible(u.columns)),
+    indexes: table.indexes.filter((i) => visible(i.columns)),
+  };
+}
+
+/** Scope every table of a map (the map itself when the key has no column rules or row filters) */
+export function scopeTables(
+  tables: Map<string, TableInfo>,
+  permissions: Permissions,
+  rowFilters?: RowFilters,
+): Map<string, TableInfo> {
+  if (!hasColumnRules(permissions) && !rowFilters) return tables;
+  return new Map(Array.from(tables, ([fqn, table]) => [fqn, scopeTable(table, permissions, rowFilters)]));
+}
+
+/**
+ * The schema as a key sees it: the tables it may access, scoped, the
+ * functions of schemas it may access, and the schemas holding either.
+ */
+export function scopeDatabaseSchema(dbSchema: DatabaseSchema, permissions: Permissions): DatabaseSchema {
+  const tables = new Map(
+    Array.from(dbSchema.tables)
+      .filter(([, t]) => hasAnyTablePermission(permissions, t))
+      .map(([fqn, t]) => [fqn, scopeTable(t, permissions)]),
+  );
+  const functions = new Map(Array.from(dbSchema.functions).filter(([, f]) => hasAnyPermission(permissions, f.schema)));
+  const visibleTables = Array.from(tables.values());
+  return {
+    schemas: dbSchema.schemas.filter(
+      (schema) => hasAnyPermission(permissions, schema) || visibleTables.some((t) => t.schema === schema),
+    ),
+    tables,
+    functions,
+  };
+}
+
+// ─── Enforcement ─────────────────────────────────────────────────────
+
+/** The first column in `rows` that the key may not write, if any */
+export function findUnwritableColumn(
+  table: TableRef,
+  permissions: Permissions,
+  rows: Record<string, unknown>[],
+): string | undefined {
+  if (!hasColumnRules(permissions, table)) return undefined;
+  for (const row of rows) {
+    const column = Object.keys(row).find((c) => !isColumnWritable(table, permissions, c));
+    if (column) return column;
+  }
+  return undefined;
+}
+
+function deleteColumns(row: Record<string, unknown>, columns: string[]): void {
+  for (const column of columns) delete row[column];
+}
+
+/**
+ * Remove hidden columns from result rows in place, including those of rows
+ * embedded by `expand`. Returns the rows.
+ */
+export function redactRows<T extends Record<string, unknown>>(
+  rows: T[],
+  table: TableInfo,
+  permissions: Permissions,
+  expand?: Expansion[],
+): T[] {
+  const hidden = hiddenColumns(table, permissions);
+  const embedded = (expand ?? [])
+    .map((e) => ({ name: e.relation.name, hidden: hiddenColumns(e.relation.table, permissions) }))
+    .filter((e) => e.hidden.length > 0);
+  if (hidden.length === 0 && embedded.length === 0) return rows;
+
+  for (const row of rows) {
+    deleteColumns(row, hidden);
+    for (const e of embedded) {
+      const value = row[e.name] as Record<string, unknown> | Record<string, unknown>[] | null;
+      for (const related of Array.isArray(value) ? value : value ? [value] : []) deleteColumns(related, e.hidden);
+    }
+  }
+  return rows;
+}
@@ -1,6 +1,11 @@
 import dotenv from "dotenv";
+import type { SigningSecret } from "./auth/api-key.js";
 dotenv.config();
 
+export type CountStrategy = "exact" | "estimated" | "none";
+
+export const COUNT_STRATEGIES: CountStrategy[] = ["exact", "estimated", "none"];
+
 export interface AppConfig {
   databaseUrl: string;
   databaseReadUrl: string | null;
@@ -12,12 +17,50 @@ export interface AppConfig {
   defaultPageSize: number;
   maxPageSize: number;
   maxBulkInsertRows: number;
+  /** Rows a filtered bulk PATCH/DELETE may touch before it is rolled back */
+  maxBulkAffectedRows: number;
+  /** Operations allowed in one POST /api/_batch request */
+  maxBatchOperations: number;
+  countStrategy: CountStrategy;
+  /** Per-table count strategy overrides keyed by "schema.table" */
+  tableCountStrategies: Record<string, CountStrategy>;
+  /** Cache-Control sent on list and get-by-PK responses; empty to omit the header */
+  cacheControl: string;
+  /** Per-table Cache-Control overrides keyed by "schema.table" */
+  tableCacheControl: Record<string, string>;
   bodyLimit: number;
   swaggerEnabled: boolean;
-  apiSecret: string | null;
+  /** Secrets API keys are verified with; the first one signs new keys. Empty when none is set. */
+  apiSecrets: SigningSecret[];
   apiKeysEnabled: boolean;
+  /** Shared secret for HS256 JWTs */
+  jwtSecret: string | null;
+  /** PEM public key for RS256/ES256 JWTs */
+  jwtPublicKeyFile: string | null;
+  /** JSON Web Key Set for RS256/ES256 JWTs */
+  jwtJwksFile: string | null;
+  /** Required JWT `aud` */
+  jwtAudience: string | null;
+  /** Required JWT `iss` */
+  jwtIssuer: string | null;
+  /** JWT claim holding the token's SchemaPermissions */
+  jwtPermissionsClaim: string;
+  /** Database role per API key label ("*" for any other label); a role signed into the key wins */
+  keyRoles: Record<string, string>;
+  /** Set request.jwt.claims and app.api_key_label in each request's transaction */
+  dbSessionClaims: boolean;
+  /** File listing revoked key labels and fingerprints, one per line */
+  apiKeyRevocationFile: string | null;
+  /** Table whose `entry` column lists revoked key labels and fingerprints */
+  apiKeyRevocationTable: string | null;
+  /** Seconds between revocation list reloads; 0 disables polling */
+  apiKeyRevocationInterval: number;
   corsOrigins: string | boolean;
   exposeDbErrors: boolean;
+  /** Seconds between schema hash checks that reload on change; 0 disables polling */
+  schemaReloadInterval: number;
+  /** Channel to LISTEN on for schema reload notifications, e.g. from a DDL event trigger */
+  schemaReloadChannel: string | null;
 }
 
 export function parseList(value: string | undefined): string[] {
@@ -38,6 +81,76 @@ export function parseCorsOrigins(value: string | undefined): string | boolean {
   return value;
 }
 
+export function isCountStrategy(value: unknown): value is CountStrategy {
+  return COUNT_STRATEGIES.includes(value as CountStrategy);
+}
+
+export function parseCountStrategy(value: string | undefined, fallback: CountStrategy): CountStrategy {
+  const normalized = value?.trim().toLowerCase();
+  return isCountStrategy(normalized) ? normalized : fallback;
+}
+
+/**
+ * Parse "schema.table:strategy" pairs, e.g. "public.events:estimated,logs.raw:none".
+ * Entries with an unknown strategy are ignored.
+ */
+export function parseTableCountStrategies(value: string | undefined): Record<string, CountStrategy> {
+  const result: Record<string, CountStrategy> = {};
+  for (const entry of parseList(value)) {
+    const colonIdx = entry.lastIndexOf(":");
+    if (colonIdx <= 0) continue;
+    const strategy = entry.slice(colonIdx + 1).trim().toLowerCase();
+    if (isCountStrategy(strategy)) result[entry.slice(0, colonIdx).trim()] = strategy;
+  }
+  return result;
+}
+
+/**
+ * Parse "schema.table:directives" entries separated by semicolons, since
+ * Cache-Control values contain commas, e.g.
+ * "public.countries:public, max-age=86400;public.orders:no-store".
+ */
+export function parseTableCacheControl(value: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of (value ?? "").split(";")) {
+    const colonIdx = entry.indexOf(":");
+    if (colonIdx <= 0) continue;
+    const table = entry.slice(0, colonIdx).trim();
+    if (table) result[table] = entry.slice(colonIdx + 1).trim();
+  }
+  return result;
+}
+
+/**
+ * Parse "label:role" pairs, e.g. "reporting:analyst,jwt:alice:auditor,*:api_user".
+ * The role follows the last colon, so JWT labels ("jwt:<sub>") can be mapped.
+ * Entries without a role are ignored.
+ */
+export function parseKeyRoles(value: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of parseList(value)) {
+    const colonIdx = entry.lastIndexOf(":");
+    if (colonIdx <= 0) continue;
+    const role = entry.slice(colonIdx + 1).trim();
+    if (role) result[entry.slice(0, colonIdx).trim()] = role;
+  }
+  return result;
+}
+
+/**
+ * Parse API_SECRETS, a comma-separated list of "secret" or "id:secret"
+ * entries, e.g. "k2:new-secret,k1:old-secret". Falls back to API_SECRET as a
+ * single secret without an id.
+ */
+export function parseApiSecrets(value: string | undefined, single?: string): SigningSecret[] {
+  const entries = parseList(value);
+  if (entries.length === 0) return single ? [{ secret: single }] : [];
+  return entries.map((entry) => {
+    const match = /^([a-zA-Z0-9_-]+):(.+)$/.exec(entry);
+    return match ? { id: match[1], secret: match[2] } : { secret: entry };
+  });
+}
+
 export function parseDatabaseUrl(value: string | undefined): string | null {
   if (!value || value.trim() === "") return null;
   return value.replace(/^jdbc:/, "");
@@ -54,12 +167,31 @@ export const config: AppConfig = {
   defaultPageSize: parseIntOrDefault(process.env.DEFAULT_PAGE_SIZE, 50),
   maxPageSize: parseIntOrDefault(process.env.MAX_PAGE_SIZE, 1000),
   maxBulkInsertRows: parseIntOrDefault(process.env.MAX_BULK_INSERT_ROWS, 1000),
+  maxBulkAffectedRows: parseIntOrDefault(process.env.MAX_BULK_AFFECTED_ROWS, 1000),
+  maxBatchOperations: parseIntOrDefault(process.env.MAX_BATCH_OPERATIONS, 100),
+  countStrategy: parseCountStrategy(process.env.COUNT_STRATEGY, "exact"),
+  tableCountStrategies: parseTableCountStrategies(process.env.TABLE_COUNT_STRATEGIES),
+  cacheControl: process.env.CACHE_CONTROL ?? "no-cache",
+  tableCacheControl: parseTableCacheControl(process.env.TABLE_CACHE_CONTROL),
   bodyLimit: parseIntOrDefault(process.env.BODY_LIMIT, 5 * 1024 * 1024),
   swaggerEnabled: process.env.SWAGGER_ENABLED !== "false",
-  apiSecret: process.env.API_SECRET || null,
+  apiSecrets: parseApiSecrets(process.env.API_SECRETS, process.env.API_SECRET),
   apiKeysEnabled: process.env.API_KEYS_ENABLED !== "false",
+  jwtSecret: process.env.JWT_SECRET || null,
+  jwtPublicKeyFile: process.env.JWT_PUBLIC_KEY_FILE?.trim() || null,
+  jwtJwksFile: process.env.JWT_JWKS_FILE?.trim() || null,
+  jwtAudience: process.env.JWT_AUDIENCE?.trim() || null,
+  jwtIssuer: process.env.JWT_ISSUER?.trim() || null,
+  jwtPermissionsClaim: process.env.JWT_PERMISSIONS_CLAIM?.trim() || "pgcrud_permissions",
+  keyRoles: parseKeyRoles(process.env.API_KEY_ROLES),
+  dbSessionClaims: process.env.DB_SESSION_CLAIMS === "true",
+  apiKeyRevocationFile: process.env.API_KEY_REVOCATION_FILE?.trim() || null,
+  apiKeyRevocationTable: process.env.API_KEY_REVOCATION_TABLE?.trim() || null,
+  apiKeyRevocationInterval: parseIntOrDefault(process.env.API_KEY_REVOCATION_INTERVAL, 0),
   corsOrigins: parseCorsOrigins(process.env.CORS_ORIGINS),
   exposeDbErrors: process.env.EXPOSE_DB_ERRORS === "true",
+  schemaReloadInterval: parseIntOrDefault(process.env.SCHEMA_RELOAD_INTERVAL, 0),
+  schemaReloadChannel: process.env.SCHEMA_RELOAD_CHANNEL?.trim() || null,
 };
 
 // System schemas that are never exposed (pg_temp_* and pg_toast_temp_* are
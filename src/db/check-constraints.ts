@@ -0,0 +1,208 @@
+import type { ColumnChecks } from "./introspector.js";
+
+// ─── CHECK Constraint Parsing ────────────────────────────────────────
+//
+// Turns the simple single-column CHECK constraints that pg_get_constraintdef
+// produces into JSON-schema keywords:
+//
+//   CHECK ((qty >= 0))                                  → minimum
+//   CHECK (((qty > 0) AND (qty <= 100)))                → exclusiveMinimum, maximum
+//   CHECK ((status = ANY (ARRAY['a'::text, 'b'::text]))) → enum
+//   CHECK ((char_length(code) <= 10))                   → maxLength
+//   CHECK ((zip ~ '^\d{5}$'::text))                     → pattern
+//
+// Patterns that JavaScript cannot compile the same way are left out.
+//
+// Domain constraints are the same with VALUE in place of the column. Anything
+// else (ORs, other functions, comparisons between columns) is ignored; dropping
+// a conjunct only loosens validation, so Postgres remains the final check.
+
+/** Index of the parenthesis closing the one at `open`, skipping quoted text */
+function matchingParen(expr: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function stripParens(expr: string): string {
+  let s = expr.trim();
+  while (s.startsWith("(") && matchingParen(s, 0) === s.length - 1) {
+    s = s.slice(1, -1).trim();
+  }
+  return s;
+}
+
+/** Split on a separator outside parentheses, brackets and quotes */
+function splitTopLevel(expr: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "(" || ch === "[") {
+      depth++;
+    } else if (ch === ")" || ch === "]") {
+      depth--;
+    } else if (depth === 0 && expr.startsWith(separator, i)) {
+      parts.push(expr.slice(start, i));
+      start = i + separator.length;
+      i = start - 1;
+    }
+  }
+  parts.push(expr.slice(start));
+  return parts.map((p) => p.trim());
+}
+
+/** Drop parentheses and trailing casts: ((status)::text) → status, '5'::integer → '5' */
+function stripCasts(expr: string): string {
+  let s = stripParens(expr);
+  let m: RegExpMatchArray | null;
+  while ((m = s.match(/^(.*)::[a-z_][\w ]*(?:\[\])?$/is))) {
+    s = stripParens(m[1]);
+  }
+  return s;
+}
+
+function isSubject(expr: string, column: string): boolean {
+  const s = stripCasts(expr);
+  if (s === "VALUE") return true;
+  const quoted = s.match(/^"((?:[^"]|"")*)"$/);
+  return (quoted ? quoted[1].replace(/""/g, '"') : s) === column;
+}
+
+function parseString(expr: string): string | undefined {
+  const m = stripCasts(expr).match(/^'((?:[^']|'')*)'$/s);
+  return m ? m[1].replace(/''/g, "'") : undefined;
+}
+
+function parseNumber(expr: string): number | undefined {
+  const s = parseString(expr) ?? stripCasts(expr);
+  return /^-?\d+(?:\.\d+)?(?:e[+-]?\d+)?$/i.test(s) ? Number(s) : undefined;
+}
+
+const NUMERIC_CASTS = /::(?:smallint|integer|bigint|numeric|decimal|real|double precision)$/i;
+
+/** Quoted literals are strings, unless cast to a number: Postgres prints -1 as '-1'::integer */
+function parseLiteral(expr: string): string | number | undefined {
+  const s = stripCasts(expr);
+  if (!s.startsWith("'")) return parseNumber(s);
+  return NUMERIC_CASTS.test(stripParens(expr)) ? parseNumber(s) : parseString(s);
+}
+
+/**
+ * Whether a Postgres regular expression means the same as a JavaScript one
+ * with the "u" flag, which is how Fastify compiles `pattern`. POSIX classes
+ * ([[:digit:]]) and word boundaries (\m, \M, \y) are Postgres-only.
+ */
+function isPortablePattern(pattern: string): boolean {
+  if (/\[:[a-z]+:\]|\\[mMy]/.test(pattern)) return false;
+  try {
+    new RegExp(pattern, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseTerm(term: string, column: string): ColumnChecks | null {
+  const expr = stripParens(term);
+
+  const any = expr.match(/^(.+?) = ANY \((.*)\)$/s);
+  if (any) {
+    const array = stripCasts(any[2]).match(/^ARRAY\[(.*)\]$/s);
+    if (!isSubject(any[1], column) || !array) return null;
+    const values = splitTopLevel(array[1], ",").map(parseLiteral);
+    return values.every((v) => v !== undefined) ? { enum: values as (string | number)[] } : null;
+  }
+
+  const cmp = expr.match(/^(.+?) (>=|<=|=|>|<|~) (.+)$/s);
+  if (!cmp) return null;
+  const [, left, op, right] = cmp;
+
+  if (isSubject(left, column)) {
+    if (op === "~") {
+      const pattern = parseString(right);
+      return pattern === undefined || !isPortablePattern(pattern) ? null : { pattern };
+    }
+    if (op === "=") {
+      const value = parseLiteral(right);
+      return value === undefined ? null : { enum: [value] };
+    }
+    const value = parseNumber(right);
+    if (value === undefined) return null;
+    switch (op) {
+      case ">=": return { minimum: value };
+      case ">": return { exclusiveMinimum: value };
+      case "<=": return { maximum: value };
+      default: return { exclusiveMaximum: value };
+    }
+  }
+
+  const length = stripCasts(left).match(/^(?:char_length|character_length|length)\((.*)\)$/s);
+  if (!length || !isSubject(length[1], column)) return null;
+  const n = parseNumber(right);
+  if (n === undefined) return null;
+  // Lengths are integers, so strict bounds become inclusive ones
+  switch (op) {
+    case "=": return { minLength: n, maxLength: n };
+    case ">=": return { minLength: n };
+    case ">": return { minLength: n + 1 };
+    case "<=": return { maxLength: n };
+    case "<": return { maxLength: n - 1 };
+    default: return null;
+  }
+}
+
+/** Combine two sets of keywords, keeping the tighter bound of each */
+export function mergeChecks(a: ColumnChecks, b: ColumnChecks): ColumnChecks {
+  const merged: ColumnChecks = {};
+  for (const key of ["minimum", "exclusiveMinimum", "minLength"] as const) {
+    const values = [a[key], b[key]].filter((v): v is number => v !== undefined);
+    if (values.length > 0) merged[key] = Math.max(...values);
+  }
+  for (const key of ["maximum", "exclusiveMaximum", "maxLength"] as const) {
+    const values = [a[key], b[key]].filter((v): v is number => v !== undefined);
+    if (values.length > 0) merged[key] = Math.min(...values);
+  }
+  // JSON schema allows one pattern; a second one is left to Postgres
+  const pattern = a.pattern ?? b.pattern;
+  if (pattern !== undefined) merged.pattern = pattern;
+  if (a.enum && b.enum) merged.enum = a.enum.filter((v) => b.enum!.includes(v));
+  else if (a.enum ?? b.enum) merged.enum = a.enum ?? b.enum;
+  return merged;
+}
+
+/**
+ * Parse a constraint definition from pg_get_constraintdef for one column.
+ * Returns null when no part of it maps to a JSON-schema keyword.
+ */
+export function parseCheckConstraint(definition: string, column: string): ColumnChecks | null {
+  const m = definition.match(/^CHECK \((.*)\)(?: NOT VALID)?$/s);
+  if (!m) return null;
+  const body = stripParens(m[1]);
+  if (splitTopLevel(body, " OR ").length > 1) return null;
+
+  let result: ColumnChecks | null = null;
+  for (const term of splitTopLevel(body, " AND ")) {
+    const checks = parseTerm(term, column);
+    if (checks) result = result ? mergeChecks(result, checks) : checks;
+  }
+  return result;
+}
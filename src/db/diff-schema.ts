@@ -0,0 +1,77 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { Pool } from "pg";
+import { config } from "../config.js";
+import { introspectDatabase, DatabaseSchema } from "./introspector.js";
+import { diffSchemas, describeChange, exportSchemaSnapshot, importSchemaSnapshot } from "./schema-diff.js";
+
+const args = process.argv.slice(2);
+
+// Parse --json flag from args
+const jsonIdx = args.indexOf("--json");
+const asJson = jsonIdx !== -1;
+if (asJson) args.splice(jsonIdx, 1);
+
+// Parse --export flag from args
+const exportIdx = args.indexOf("--export");
+const exporting = exportIdx !== -1;
+if (exporting) args.splice(exportIdx, 1);
+
+if ((exporting && args.length > 1) || (!exporting && (args.length < 1 || args.length > 2))) {
+  console.error("Usage: npm run diff-schema -- --export [snapshot.json]       (snapshot of DATABASE_URL)");
+  console.error("       npm run diff-schema -- <snapshot.json> [--json]       (snapshot → DATABASE_URL)");
+  console.error("       npm run diff-schema -- <from.json> <to.json> [--json] (offline)");
+  console.error("\nExits with status 2 when a change can break existing clients.");
+  process.exit(1);
+}
+
+async function introspectLive(): Promise<DatabaseSchema> {
+  const pool = new Pool({ connectionString: config.databaseUrl, statement_timeout: 30_000 });
+  try {
+    return await introspectDatabase(pool);
+  } finally {
+    await pool.end();
+  }
+}
+
+function readSnapshot(file: string): DatabaseSchema {
+  try {
+    return importSchemaSnapshot(JSON.parse(readFileSync(file, "utf8")));
+  } catch (err) {
+    console.error(`Error: cannot read ${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+try {
+  if (exporting) {
+    const snapshot = JSON.stringify(exportSchemaSnapshot(await introspectLive()), null, 2);
+    if (args[0]) {
+      writeFileSync(args[0], snapshot + "\n");
+      console.error(`Schema snapshot written to ${args[0]}`);
+    } else {
+      console.log(snapshot);
+    }
+    process.exit(0);
+  }
+
+  const from = readSnapshot(args[0]);
+  const to = args[1] ? readSnapshot(args[1]) : await introspectLive();
+  const diff = diffSchemas(from, to);
+
+  if (asJson) {
+    console.log(JSON.stringify(diff, null, 2));
+  } else if (!diff.changed) {
+    console.log("No schema changes.");
+  } else {
+    for (const change of diff.changes) {
+      console.log(`${change.breaking ? "BREAKING " : "         "}${describeChange(change)}`);
+    }
+    if (diff.changes.length === 0) {
+      console.log("No table, column or key changes (other details such as indexes, comments or functions differ).");
+    }
+  }
+  process.exit(diff.breaking ? 2 : 0);
+} catch (err) {
+  console.error(`Error: ${(err as Error).message}`);
+  process.exit(1);
+}
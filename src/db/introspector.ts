@@ -1,6 +1,7 @@
 import { createHash } from "node:crypto";
 import { Pool } from "pg";
 import { config, SYSTEM_SCHEMAS } from "../config.js";
+import { parseCheckConstraint, mergeChecks } from "./check-constraints.js";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -13,6 +14,28 @@ export interface ColumnInfo {
   defaultValue: string | null;
   maxLength: number | null;
   ordinalPosition: number;
+  /** Labels of an enum type, in sort order */
+  enumValues?: string[];
+  /** Validation keywords derived from the column's (and its domain's) CHECK constraints */
+  checks?: ColumnChecks;
+  /** Identity column: "always" rejects explicit values, "by_default" accepts them */
+  identity?: "always" | "by_default";
+  /** Stored generated column (GENERATED ALWAYS AS (...) STORED), computed on every write */
+  isGenerated?: boolean;
+  /** COMMENT ON COLUMN text */
+  description?: string;
+}
+
+/** JSON-schema keywords that simple CHECK constraints translate to */
+export interface ColumnChecks {
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: (string | number)[];
 }
 
 export interface ForeignKey {
@@ -23,20 +46,80 @@ export interface ForeignKey {
   refColumn: string;
 }
 
+export interface UniqueConstraint {
+  name: string;
+  columns: string[];
+}
+
+export interface IndexInfo {
+  name: string;
+  /** Key columns in index order; expressions appear as their SQL text */
+  columns: string[];
+  /** Access method: btree, hash, gin, gist, brin, ... */
+  method: string;
+  unique: boolean;
+  /** WHERE clause of a partial index, or null */
+  predicate: string | null;
+}
+
+export type RelationKind = "table" | "view" | "materialized_view" | "foreign_table";
+
+export type WriteOperation = "insert" | "update" | "delete";
+
 export interface TableInfo {
   schema: string;
   name: string;
+  kind: RelationKind;
+  /** Whether rows can be inserted, updated or deleted (false for read-only views and materialized views) */
+  writable: boolean;
+  /** Set when a view supports only some writes, e.g. through INSTEAD OF triggers */
+  writeOperations?: WriteOperation[];
   columns: ColumnInfo[];
   primaryKeys: string[];
   foreignKeys: ForeignKey[];
+  uniqueConstraints: UniqueConstraint[];
+  /** Indexes other than those backing the primary key, unique and exclusion constraints */
+  indexes: IndexInfo[];
   /** Fully qualified name: "schema"."table" */
   fqn: string;
   /** URL-safe path segment: schema__table (or just table for public) */
   routePath: string;
+  /** COMMENT ON TABLE / VIEW text */
+  description?: string;
+  /** Column values every row must have; set on tables scoped to an API key's row filters */
+  rowFilter?: Record<string, string>;
+}
+
+export type Volatility = "immutable" | "stable" | "volatile";
+
+export interface FunctionArg {
+  name: string;
+  /** Type as PostgreSQL formats it (e.g. "integer", "text[]"), used to cast bound values */
+  dataType: string;
+  udtName: string;
+  hasDefault: boolean;
+}
+
+export interface FunctionInfo {
+  schema: string;
+  name: string;
+  /** Input arguments in declaration order */
+  args: FunctionArg[];
+  /** pg_type name of the return type, e.g. "int4", "void" or a composite type */
+  returnType: string;
+  /** Whether the function returns rows (a composite type, RETURNS TABLE or OUT parameters) */
+  returnsRow: boolean;
+  returnsSet: boolean;
+  volatility: Volatility;
+  /** Fully qualified name: "schema"."function" */
+  fqn: string;
+  /** URL-safe path segment: schema__function */
+  routePath: string;
 }
 
 export interface DatabaseSchema {
   tables: Map<string, TableInfo>; // keyed by fqn
+  functions: Map<string, FunctionInfo>; // keyed by fqn
   schemas: string[];
 }
 
@@ -48,17 +131,66 @@ const COLUMNS_QUERY = `
     c.table_name,
     c.column_name,
     c.data_type,
+    c.udt_schema,
     c.udt_name,
     c.is_nullable,
     c.column_default,
     c.character_maximum_length,
-    c.ordinal_position
+    c.ordinal_position,
+    c.is_identity,
+    c.identity_generation,
+    c.is_generated,
+    t.table_type,
+    t.is_insertable_into,
+    v.is_updatable,
+    v.is_trigger_insertable_into,
+    v.is_trigger_updatable,
+    v.is_trigger_deletable,
+    col_description(cls.oid, c.ordinal_position::int) AS column_comment,
+    obj_description(cls.oid, 'pg_class') AS table_comment
   FROM information_schema.columns c
   JOIN information_schema.tables t
     ON c.table_schema = t.table_schema AND c.table_name = t.table_name
-  WHERE t.table_type = 'BASE TABLE'
+  LEFT JOIN information_schema.views v
+    ON v.table_schema = c.table_schema AND v.table_name = c.table_name
+  JOIN pg_catalog.pg_namespace n ON n.nspname = c.table_schema
+  JOIN pg_catalog.pg_class cls ON cls.relnamespace = n.oid AND cls.relname = c.table_name
+  WHERE t.table_type IN ('BASE TABLE', 'VIEW', 'FOREIGN')
     AND c.table_schema = ANY($1)
-  ORDER BY c.table_schema, c.table_name, c.ordinal_position;
+  UNION ALL
+  -- information_schema does not list materialized views
+  SELECT
+    n.nspname,
+    cls.relname,
+    a.attname,
+    CASE WHEN ty.typcategory = 'A' THEN 'ARRAY' ELSE format_type(ty.oid, NULL) END,
+    tn.nspname,
+    ty.typname,
+    CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END,
+    NULL,
+    CASE WHEN a.atttypid IN ('bpchar'::regtype, 'varchar'::regtype) AND a.atttypmod > 0 THEN a.atttypmod - 4 END,
+    a.attnum,
+    'NO',
+    NULL,
+    'NEVER',
+    'MATERIALIZED VIEW',
+    'NO',
+    NULL,
+    NULL,
+    NULL,
+    NULL,
+    col_description(cls.oid, a.attnum),
+    obj_description(cls.oid, 'pg_class')
+  FROM pg_catalog.pg_class cls
+  JOIN pg_catalog.pg_namespace n ON n.oid = cls.relnamespace
+  JOIN pg_catalog.pg_attribute a ON a.attrelid = cls.oid AND a.attnum > 0 AND NOT a.attisdropped
+  JOIN pg_catalog.pg_type ct ON ct.oid = a.atttypid
+  -- Domains resolve to their base type, as in information_schema.columns
+  JOIN pg_catalog.pg_type ty ON ty.oid = CASE WHEN ct.typtype = 'd' THEN ct.typbasetype ELSE ct.oid END
+  JOIN pg_catalog.pg_namespace tn ON tn.oid = ty.typnamespace
+  WHERE cls.relkind = 'm'
+    AND n.nspname = ANY($1)
+  ORDER BY table_schema, table_name, ordinal_position;
 `;
 
 const PRIMARY_KEYS_QUERY = `
@@ -97,6 +229,138 @@ const FOREIGN_KEYS_QUERY = `
   ORDER BY tc.table_schema, tc.table_name, kcu.column_name, tc.constraint_name;
 `;
 
+const UNIQUE_CONSTRAINTS_QUERY = `
+  SELECT
+    tc.table_schema,
+    tc.table_name,
+    tc.constraint_name,
+    kcu.column_name,
+    kcu.ordinal_position
+  FROM information_schema.table_constraints tc
+  JOIN information_schema.key_column_usage kcu
+    ON tc.constraint_name = kcu.constraint_name
+    AND tc.table_schema = kcu.table_schema
+    AND tc.table_name = kcu.table_name
+  WHERE tc.constraint_type = 'UNIQUE'
+    AND tc.table_schema = ANY($1)
+  ORDER BY tc.table_schema, tc.table_name, tc.constraint_name, kcu.ordinal_position;
+`;
+
+// Indexes created with CREATE INDEX, i.e. not the ones PostgreSQL builds for
+// primary key, unique and exclusion constraints. Only key columns are listed,
+// not INCLUDE columns.
+const INDEXES_QUERY = `
+  SELECT
+    n.nspname AS table_schema,
+    t.relname AS table_name,
+    i.relname AS index_name,
+    am.amname AS method,
+    ix.indisunique AS is_unique,
+    pg_get_expr(ix.indpred, ix.indrelid) AS predicate,
+    ARRAY(
+      SELECT COALESCE(a.attname::text, pg_get_indexdef(ix.indexrelid, k.ord::int, true))
+      FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+      LEFT JOIN pg_catalog.pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+      WHERE k.ord <= ix.indnkeyatts
+      ORDER BY k.ord
+    ) AS columns
+  FROM pg_catalog.pg_index ix
+  JOIN pg_catalog.pg_class t ON t.oid = ix.indrelid
+  JOIN pg_catalog.pg_class i ON i.oid = ix.indexrelid
+  JOIN pg_catalog.pg_am am ON am.oid = i.relam
+  JOIN pg_catalog.pg_namespace n ON n.oid = t.relnamespace
+  WHERE n.nspname = ANY($1)
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_catalog.pg_constraint con
+      WHERE con.conindid = ix.indexrelid AND con.conrelid = ix.indrelid AND con.contype IN ('p', 'u', 'x')
+    )
+  ORDER BY n.nspname, t.relname, i.relname;
+`;
+
+const ENUMS_QUERY = `
+  SELECT
+    n.nspname AS enum_schema,
+    t.typname AS enum_name,
+    array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS labels
+  FROM pg_catalog.pg_enum e
+  JOIN pg_catalog.pg_type t ON t.oid = e.enumtypid
+  JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+  GROUP BY n.nspname, t.typname;
+`;
+
+// Single-column CHECK constraints on tables, plus the CHECK constraints of
+// each column's domain (whose definitions refer to VALUE instead of the column)
+const CHECK_CONSTRAINTS_QUERY = `
+  SELECT
+    n.nspname AS table_schema,
+    cls.relname AS table_name,
+    a.attname AS column_name,
+    pg_get_constraintdef(con.oid) AS definition
+  FROM pg_catalog.pg_constraint con
+  JOIN pg_catalog.pg_class cls ON cls.oid = con.conrelid
+  JOIN pg_catalog.pg_namespace n ON n.oid = cls.relnamespace
+  JOIN pg_catalog.pg_attribute a ON a.attrelid = cls.oid AND a.attnum = con.conkey[1]
+  WHERE con.contype = 'c'
+    AND array_length(con.conkey, 1) = 1
+    AND n.nspname = ANY($1)
+  UNION ALL
+  SELECT
+    c.table_schema,
+    c.table_name,
+    c.column_name,
+    pg_get_constraintdef(con.oid)
+  FROM information_schema.columns c
+  JOIN pg_catalog.pg_namespace dn ON dn.nspname = c.domain_schema
+  JOIN pg_catalog.pg_type dt ON dt.typnamespace = dn.oid AND dt.typname = c.domain_name
+  JOIN pg_catalog.pg_constraint con ON con.contypid = dt.oid AND con.contype = 'c'
+  WHERE c.table_schema = ANY($1)
+  ORDER BY table_schema, table_name, column_name, definition;
+`;
+
+// Plain functions only (no procedures, aggregates or window functions), excluding
+// those installed by extensions. Arrays list the input arguments in order.
+const FUNCTIONS_QUERY = `
+  SELECT
+    n.nspname AS function_schema,
+    p.proname AS function_name,
+    p.provolatile AS volatility,
+    p.proretset AS returns_set,
+    rt.typname AS return_type,
+    rt.typtype = 'p' AS returns_pseudo,
+    (rt.typtype = 'c' OR (rt.oid = 'record'::regtype AND p.proallargtypes IS NOT NULL)) AS returns_row,
+    p.pronargdefaults AS default_count,
+    COALESCE(args.names, '{}') AS arg_names,
+    COALESCE(args.types, '{}') AS arg_types,
+    COALESCE(args.udt_names, '{}') AS arg_udt_names,
+    COALESCE(args.pseudo, false) AS has_pseudo_arg
+  FROM pg_catalog.pg_proc p
+  JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+  JOIN pg_catalog.pg_type rt ON rt.oid = p.prorettype
+  LEFT JOIN LATERAL (
+    SELECT
+      array_agg(a.name ORDER BY a.ord) AS names,
+      array_agg(format_type(a.type, NULL) ORDER BY a.ord) AS types,
+      array_agg(COALESCE(bt.typname, t.typname)::text ORDER BY a.ord) AS udt_names,
+      bool_or(t.typtype = 'p') AS pseudo
+    FROM unnest(
+      COALESCE(p.proallargtypes, p.proargtypes::oid[]),
+      COALESCE(p.proargmodes, array_fill('i'::"char", ARRAY[p.pronargs::int])),
+      COALESCE(p.proargnames, array_fill(''::text, ARRAY[p.pronargs::int]))
+    ) WITH ORDINALITY AS a(type, mode, name, ord)
+    JOIN pg_catalog.pg_type t ON t.oid = a.type
+    LEFT JOIN pg_catalog.pg_type bt ON bt.oid = t.typbasetype
+    WHERE a.mode IN ('i', 'b', 'v')
+  ) args ON true
+  WHERE p.prokind = 'f'
+    AND n.nspname = ANY($1)
+    AND rt.typname NOT IN ('trigger', 'event_trigger')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_catalog.pg_depend d
+      WHERE d.classid = 'pg_catalog.pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+    )
+  ORDER BY n.nspname, p.proname;
+`;
+
 const SCHEMAS_QUERY = `
   SELECT schema_name
   FROM information_schema.schemata
@@ -107,6 +371,44 @@ const SCHEMAS_QUERY = `
 
 // ─── Helper Functions ────────────────────────────────────────────────
 
+const RELATION_KINDS: Record<string, RelationKind> = {
+  "BASE TABLE": "table",
+  VIEW: "view",
+  "MATERIALIZED VIEW": "materialized_view",
+  FOREIGN: "foreign_table",
+};
+
+/** Human-readable relation kind for messages, e.g. "materialized view" */
+export function describeKind(table: TableInfo): string {
+  return table.kind.replace("_", " ");
+}
+
+/** Whether a table supports a write operation */
+export function supportsWrite(table: TableInfo, operation: WriteOperation): boolean {
+  return table.writable && (table.writeOperations?.includes(operation) ?? true);
+}
+
+/** Why a table refuses a write, e.g. "read-only view" or "view that does not support delete" */
+export function describeWriteLimit(table: TableInfo, operation: WriteOperation): string {
+  return table.writable
+    ? `${describeKind(table)} that does not support ${operation}`
+    : `read-only ${describeKind(table)}`;
+}
+
+/**
+ * The writes a relation supports. information_schema.tables only reports
+ * whether a view is auto-updatable for inserts; its updates and deletes, and
+ * writes through INSTEAD OF triggers, come from information_schema.views.
+ */
+function writeOperationsOf(row: any): WriteOperation[] {
+  if (row.table_type !== "VIEW") return row.is_insertable_into === "YES" ? ["insert", "update", "delete"] : [];
+  const operations: WriteOperation[] = [];
+  if (row.is_insertable_into === "YES" || row.is_trigger_insertable_into === "YES") operations.push("insert");
+  if (row.is_updatable === "YES" || row.is_trigger_updatable === "YES") operations.push("update");
+  if (row.is_updatable === "YES" || row.is_trigger_deletable === "YES") operations.push("delete");
+  return operations;
+}
+
 function makeFqn(schema: string, table: string): string {
   return `"${schema}"."${table}"`;
 }
@@ -130,7 +432,12 @@ function resolveTargetSchemas(allSchemaNames: string[]): string[] {
   return targetSchemas;
 }
 
-function buildTableMap(colRows: any[]): Map<string, TableInfo> {
+/** Enum labels keyed by "schema.type" */
+function buildEnumMap(enumRows: any[]): Map<string, string[]> {
+  return new Map(enumRows.map((row) => [`${row.enum_schema}.${row.enum_name}`, row.labels]));
+}
+
+function buildTableMap(colRows: any[], enums: Map<string, string[]>): Map<string, TableInfo> {
   const tables = new Map<string, TableInfo>();
   const excludedTables = new Set(config.excludeTables);
 
@@ -146,14 +453,21 @@ function buildTableMap(colRows: any[]): Map<string, TableInfo> {
           ? row.table_name
           : `${row.table_schema}__${row.table_name}`;
 
+      const writes = writeOperationsOf(row);
       tables.set(fqn, {
         schema: row.table_schema,
         name: row.table_name,
+        kind: RELATION_KINDS[row.table_type],
+        writable: writes.length > 0,
+        ...(writes.length > 0 && writes.length < 3 ? { writeOperations: writes } : {}),
         columns: [],
         primaryKeys: [],
         foreignKeys: [],
+        uniqueConstraints: [],
+        indexes: [],
         fqn,
         routePath,
+        ...(row.table_comment ? { description: row.table_comment } : {}),
       });
     }
 
@@ -162,10 +476,19 @@ function buildTableMap(colRows: any[]): Map<string, TableInfo> {
       dataType: row.data_type,
       udtName: row.udt_name,
       isNullable: row.is_nullable === "YES",
-      hasDefault: row.column_default !== null,
+      // information_schema reports no column_default for identity and generated columns
+      hasDefault: row.column_default !== null || row.is_identity === "YES" || row.is_generated === "ALWAYS",
       defaultValue: row.column_default,
       maxLength: row.character_maximum_length,
       ordinalPosition: row.ordinal_position,
+      ...(enums.has(`${row.udt_schema}.${row.udt_name}`)
+        ? { enumValues: enums.get(`${row.udt_schema}.${row.udt_name}`) }
+        : {}),
+      ...(row.is_identity === "YES"
+        ? { identity: row.identity_generation === "ALWAYS" ? "always" as const : "by_default" as const }
+        : {}),
+      ...(row.is_generated === "ALWAYS" ? { isGenerated: true } : {}),
+      ...(row.column_comment ? { description: row.column_comment } : {}),
     });
   }
 
@@ -192,9 +515,99 @@ function attachForeignKeys(tables: Map<string, TableInfo>, fkRows: any[]): void
   }
 }
 
+function attachUniqueConstraints(tables: Map<string, TableInfo>, uniqueRows: any[]): void {
+  for (const row of uniqueRows) {
+    const table = tables.get(makeFqn(row.table_schema, row.table_name));
+    if (!table) continue;
+    const existing = table.uniqueConstraints.find((u) => u.name === row.constraint_name);
+    if (existing) existing.columns.push(row.column_name);
+    else table.uniqueConstraints.push({ name: row.constraint_name, columns: [row.column_name] });
+  }
+}
+
+function attachIndexes(tables: Map<string, TableInfo>, indexRows: any[]): void {
+  for (const row of indexRows) {
+    tables.get(makeFqn(row.table_schema, row.table_name))?.indexes.push({
+      name: row.index_name,
+      columns: row.columns,
+      method: row.method,
+      unique: row.is_unique,
+      predicate: row.predicate,
+    });
+  }
+}
+
+function attachCheckConstraints(tables: Map<string, TableInfo>, checkRows: any[]): void {
+  for (const row of checkRows) {
+    const column = tables
+      .get(makeFqn(row.table_schema, row.table_name))
+      ?.columns.find((c) => c.name === row.column_name);
+    const checks = column && parseCheckConstraint(row.definition, column.name);
+    if (checks) column.checks = column.checks ? mergeChecks(column.checks, checks) : checks;
+  }
+}
+
+const VOLATILITIES: Record<string, Volatility> = { i: "immutable", s: "stable", v: "volatile" };
+
+/** Why a function can't be called through a named-argument RPC route, if it can't */
+function unsupportedFunctionReason(row: any): string | null {
+  if (row.has_pseudo_arg) return "it has polymorphic or pseudo-type arguments";
+  if (row.returns_pseudo && !row.returns_row && row.return_type !== "void") {
+    return `it returns ${row.return_type}`;
+  }
+  if (row.arg_names.some((name: string) => !name)) return "it has unnamed arguments";
+  return null;
+}
+
+function buildFunctionMap(fnRows: any[]): Map<string, FunctionInfo> {
+  const functions = new Map<string, FunctionInfo>();
+  const overloads = new Map<string, number>();
+  for (const row of fnRows) {
+    const fqn = makeFqn(row.function_schema, row.function_name);
+    overloads.set(fqn, (overloads.get(fqn) ?? 0) + 1);
+  }
+  // One route per name: calls to an overloaded function would be ambiguous
+  for (const [fqn, count] of overloads) {
+    if (count > 1) console.warn(`⚠️  Function ${fqn} is overloaded — not exposed`);
+  }
+
+  for (const row of fnRows) {
+    const fqn = makeFqn(row.function_schema, row.function_name);
+    if (overloads.get(fqn)! > 1) continue;
+
+    const reason = unsupportedFunctionReason(row);
+    if (reason) {
+      console.warn(`⚠️  Function ${fqn} not exposed: ${reason}`);
+      continue;
+    }
+
+    // Defaults always belong to the trailing input arguments
+    const firstDefault = row.arg_names.length - row.default_count;
+    functions.set(fqn, {
+      schema: row.function_schema,
+      name: row.function_name,
+      args: row.arg_names.map((name: string, i: number) => ({
+        name,
+        dataType: row.arg_types[i],
+        udtName: row.arg_udt_names[i],
+        hasDefault: i >= firstDefault,
+      })),
+      returnType: row.return_type,
+      returnsRow: row.returns_row,
+      returnsSet: row.returns_set,
+      volatility: VOLATILITIES[row.volatility],
+      fqn,
+      routePath: `${row.function_schema}__${row.function_name}`,
+    });
+  }
+
+  return functions;
+}
+
 function warnTableIssues(tables: Map<string, TableInfo>): void {
   for (const [fqn, table] of tables) {
-    if (table.primaryKeys.length === 0) {
+    // Views and foreign tables cannot declare primary keys, so only base tables are worth a warning
+    if (table.kind === "table" && table.primaryKeys.length === 0) {
       console.warn(`⚠️  Table ${fqn} has no primary key — update/delete by PK disabled`);
     }
     for (const fk of table.foreignKeys) {
@@ -211,8 +624,11 @@ function warnTableIssues(tables: Map<string, TableInfo>): void {
 /**
  * Compute a deterministic SHA-256 hash of the full database schema.
  * Useful for detecting schema changes between deployments / restarts.
- * The hash covers schemas, tables, columns (name, type, nullability,
- * defaults, max length, ordinal position), primary keys, and foreign keys.
+ * The hash covers schemas, tables (kind, writability, the writes a view
+ * supports and description), columns (name, type, nullability, defaults,
+ * max length, ordinal position, enum labels, CHECK-derived limits, identity,
+ * generation and description), primary keys, foreign keys, unique
+ * constraints and indexes, plus each function's signature and volatility.
  */
 export function computeDatabaseHash(schema: DatabaseSchema): string {
   const canonical: unknown[] = [];
@@ -231,6 +647,10 @@ export function computeDatabaseHash(schema: DatabaseSchema): string {
       schema: table.schema,
       name: table.name,
       fqn: table.fqn,
+      kind: table.kind,
+      writable: table.writable,
+      writeOperations: table.writeOperations,
+      description: table.description,
       columns: table.columns
         .slice()
         .sort((a, b) => a.ordinalPosition - b.ordinalPosition)
@@ -243,6 +663,11 @@ export function computeDatabaseHash(schema: DatabaseSchema): string {
           defaultValue: c.defaultValue,
           maxLength: c.maxLength,
           ordinalPosition: c.ordinalPosition,
+          enumValues: c.enumValues,
+          checks: c.checks,
+          identity: c.identity,
+          isGenerated: c.isGenerated,
+          description: c.description,
         })),
       primaryKeys: [...table.primaryKeys].sort((a, b) => a.localeCompare(b)),
       foreignKeys: table.foreignKeys
@@ -255,6 +680,28 @@ export function computeDatabaseHash(schema: DatabaseSchema): string {
           refTable: fk.refTable,
           refColumn: fk.refColumn,
         })),
+      uniqueConstraints: table.uniqueConstraints
+        .slice()
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((u) => ({ name: u.name, columns: u.columns })),
+      indexes: table.indexes
+        .slice()
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((i) => ({ name: i.name, columns: i.columns, method: i.method, unique: i.unique, predicate: i.predicate })),
+    });
+  }
+
+  const sortedFunctions = Array.from(schema.functions.values()).sort((a, b) =>
+    a.fqn.localeCompare(b.fqn)
+  );
+  for (const fn of sortedFunctions) {
+    canonical.push({
+      fqn: fn.fqn,
+      args: fn.args.map((a) => ({ name: a.name, dataType: a.dataType, hasDefault: a.hasDefault })),
+      returnType: fn.returnType,
+      returnsRow: fn.returnsRow,
+      returnsSet: fn.returnsSet,
+      volatility: fn.volatility,
     });
   }
 
@@ -269,17 +716,27 @@ export async function introspectDatabase(pool: Pool): Promise<DatabaseSchema> {
 
   console.log(`📦 Introspecting schemas: ${targetSchemas.join(", ")}`);
 
-  const [colResult, pkResult, fkResult] = await Promise.all([
+  const [colResult, pkResult, fkResult, uniqueResult, fnResult, enumResult, checkResult, indexResult] = await Promise.all([
     pool.query(COLUMNS_QUERY, [targetSchemas]),
     pool.query(PRIMARY_KEYS_QUERY, [targetSchemas]),
     pool.query(FOREIGN_KEYS_QUERY, [targetSchemas]),
+    pool.query(UNIQUE_CONSTRAINTS_QUERY, [targetSchemas]),
+    pool.query(FUNCTIONS_QUERY, [targetSchemas]),
+    // Enum types may live outside the exposed schemas
+    pool.query(ENUMS_QUERY),
+    pool.query(CHECK_CONSTRAINTS_QUERY, [targetSchemas]),
+    pool.query(INDEXES_QUERY, [targetSchemas]),
   ]);
 
-  const tables = buildTableMap(colResult.rows);
+  const tables = buildTableMap(colResult.rows, buildEnumMap(enumResult.rows));
   attachPrimaryKeys(tables, pkResult.rows);
   attachForeignKeys(tables, fkResult.rows);
+  attachUniqueConstraints(tables, uniqueResult.rows);
+  attachCheckConstraints(tables, checkResult.rows);
+  attachIndexes(tables, indexResult.rows);
   warnTableIssues(tables);
+  const functions = buildFunctionMap(fnResult.rows);
 
-  console.log(`✅ Found ${tables.size} tables across ${targetSchemas.length} schemas`);
-  return { tables, schemas: targetSchemas };
+  console.log(`✅ Found ${tables.size} tables and ${functions.size} functions across ${targetSchemas.length} schemas`);
+  return { tables, functions, schemas: targetSchemas };
 }
@@ -1,5 +1,6 @@
-import { TableInfo, ColumnInfo } from "./introspector.js";
-import { config } from "../config.js";
+import { TableInfo, ColumnInfo, ColumnChecks, ForeignKey, FunctionInfo } from "./introspector.js";
+import { mergeChecks } from "./check-constraints.js";
+import { config, CountStrategy, COUNT_STRATEGIES } from "../config.js";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -14,9 +15,17 @@ export interface ListOptions {
   sortBy?: string;
   sortOrder?: "asc" | "desc" | string;
   filters?: Record<string, unknown>;
+  /** Boolean filter expressions, e.g. "or(status.eq.active,owner_id.eq.5)" */
+  filterGroups?: string[];
   search?: string;
   searchColumns?: string[];
   select?: string[];
+  /** Opaque keyset cursor; "" requests the first page in cursor mode */
+  cursor?: string;
+  /** Related rows to embed, resolved with `parseExpand` */
+  expand?: Expansion[];
+  /** Column equality conditions that always apply, e.g. a parent key bound from a nested route */
+  match?: Record<string, unknown>;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────
@@ -60,6 +69,20 @@ function getColumnNames(table: TableInfo, select?: string[]): string {
   return "*";
 }
 
+/**
+ * Conditions keeping a query to the rows of an API key's row filter (see
+ * auth/scope.ts). `qualifier` names the relation the columns belong to.
+ */
+function renderRowFilter(table: TableInfo, bind: (value: unknown) => string, qualifier?: string): string[] {
+  const prefix = qualifier ? `${qualifier}.` : "";
+  return Object.entries(table.rowFilter ?? {}).map(([column, value]) => `${prefix}${quoteIdent(column)} = ${bind(value)}`);
+}
+
+/** A row with the table's row filter values forced onto it */
+function withRowFilter(table: TableInfo, row: Record<string, unknown>): Record<string, unknown> {
+  return table.rowFilter ? { ...row, ...table.rowFilter } : row;
+}
+
 // ─── Filter Parsing ─────────────────────────────────────────────────
 
 interface ParsedFilter {
@@ -68,6 +91,12 @@ interface ParsedFilter {
   value: unknown;
 }
 
+type FilterNode =
+  | { type: "condition"; negate: boolean; filter: ParsedFilter }
+  | { type: "group"; negate: boolean; logic: "AND" | "OR"; children: FilterNode[] };
+
+const MAX_FILTER_GROUP_DEPTH = 10;
+
 // ─── Shared WHERE Clause Builder ────────────────────────────────────
 
 interface WhereResult {
@@ -83,34 +112,36 @@ function buildWhereClauses(
 ): WhereResult {
   const values: unknown[] = [];
   let paramIdx = startParamIdx;
-  const whereClauses: string[] = [];
+  const bind = (value: unknown): string => {
+    values.push(value);
+    return `$${paramIdx++}`;
+  };
+  const whereClauses = renderRowFilter(table, bind);
+
+  // Fixed equality conditions
+  for (const [column, value] of Object.entries(opts.match ?? {})) {
+    validateFilterColumn(column, table);
+    whereClauses.push(`${quoteIdent(column)} = ${bind(value)}`);
+  }
 
   // Filters
   const filters = opts.filters ? parseFiltersFromObject(opts.filters, table) : [];
   for (const f of filters) {
-    const sqlOp = /* c8 ignore next */ FILTER_OPERATORS[f.operator] || "=";
-
-    if (f.operator === "is") {
-      whereClauses.push(`${quoteIdent(f.column)} IS ${f.value === null ? "NULL" : "NOT NULL"}`);
-    } else if (f.operator === "in" && Array.isArray(f.value)) {
-      const placeholders = f.value.map(() => `$${paramIdx++}`);
-      whereClauses.push(`${quoteIdent(f.column)} IN (${placeholders.join(", ")})`);
-      values.push(...f.value);
-    } else {
-      whereClauses.push(`${quoteIdent(f.column)} ${sqlOp} $${paramIdx++}`);
-      values.push(f.value);
-    }
+    whereClauses.push(renderFilterCondition(f, bind));
+  }
+
+  // Boolean filter groups (or / and / not, nested)
+  for (const expr of opts.filterGroups ?? []) {
+    whereClauses.push(renderFilterNode(parseFilterGroupExpression(expr, table), bind));
   }
 
   // Full-text search (ILIKE with escaped wildcards)
   if (opts.search && opts.searchColumns && opts.searchColumns.length > 0) {
-    const searchClauses = opts.searchColumns
-      .filter((c) => isValidColumn(table, c))
-      .map((c) => `${quoteIdent(c)}::text ILIKE $${paramIdx}`);
-    if (searchClauses.length > 0) {
+    const validSearchColumns = opts.searchColumns.filter((c) => isValidColumn(table, c));
+    if (validSearchColumns.length > 0) {
+      const placeholder = bind(`%${escapeLike(opts.search)}%`);
+      const searchClauses = validSearchColumns.map((c) => `${quoteIdent(c)}::text ILIKE ${placeholder}`);
       whereClauses.push(`(${searchClauses.join(" OR ")})`);
-      values.push(`%${escapeLike(opts.search)}%`);
-      paramIdx++;
     }
   }
 
@@ -121,21 +152,42 @@ function buildWhereClauses(
   return { clause, values, nextParamIdx: paramIdx };
 }
 
-// ─── SELECT (List) ───────────────────────────────────────────────────
+function renderFilterCondition(f: ParsedFilter, bind: (value: unknown) => string): string {
+  if (f.operator === "is") {
+    return `${quoteIdent(f.column)} IS ${f.value === null ? "NULL" : "NOT NULL"}`;
+  }
+  if (f.operator === "in" && Array.isArray(f.value)) {
+    return `${quoteIdent(f.column)} IN (${f.value.map(bind).join(", ")})`;
+  }
+  const sqlOp = /* c8 ignore next */ FILTER_OPERATORS[f.operator] || "=";
+  return `${quoteIdent(f.column)} ${sqlOp} ${bind(f.value)}`;
+}
 
-export function buildSelectQuery(table: TableInfo, opts: ListOptions): QueryResult {
-  const page = Math.max(1, opts.page || 1);
-  const pageSize = Math.min(config.maxPageSize, Math.max(1, opts.pageSize || config.defaultPageSize));
-  const offset = (page - 1) * pageSize;
+function renderFilterNode(node: FilterNode, bind: (value: unknown) => string): string {
+  if (node.type === "condition") {
+    const sql = renderFilterCondition(node.filter, bind);
+    return node.negate ? `NOT (${sql})` : sql;
+  }
+  const inner = node.children.map((c) => renderFilterNode(c, bind)).join(` ${node.logic} `);
+  return node.negate ? `NOT (${inner})` : `(${inner})`;
+}
 
-  const columns = getColumnNames(table, opts.select);
-  const where = buildWhereClauses(table, opts);
-  const values = [...where.values];
-  let paramIdx = where.nextParamIdx;
+// ─── SELECT (List) ───────────────────────────────────────────────────
 
-  let sql = `SELECT ${columns} FROM ${table.fqn}${where.clause}`;
+interface SortColumn {
+  column: string;
+  dir: "ASC" | "DESC";
+}
 
-  // Sorting — accept comma-separated sortBy for stable pagination on tied columns.
+function clampPageSize(pageSize: number | undefined): number {
+  return Math.min(config.maxPageSize, Math.max(1, pageSize || config.defaultPageSize));
+}
+
+/**
+ * Resolve sortBy/sortOrder into validated sort columns.
+ * Accepts comma-separated sortBy for stable pagination on tied columns.
+ */
+function resolveSortColumns(table: TableInfo, opts: ListOptions): SortColumn[] {
   const requestedCols = (opts.sortBy ?? "")
     .split(",")
     .map((s) => s.trim())
@@ -147,19 +199,34 @@ export function buildSelectQuery(table: TableInfo, opts: ListOptions): QueryResu
     .toString()
     .split(",")
     .map((s) => s.trim());
-  if (sortCols.length > 0) {
-    const orderBy = sortCols
-      .map((c, i) => {
-        const tok = orderTokens[i] ?? orderTokens[0];
-        const dir = tok.toUpperCase() === "DESC" ? "DESC" : "ASC";
-        return `${quoteIdent(c)} ${dir}`;
-      })
-      .join(", ");
-    sql += ` ORDER BY ${orderBy}`;
-  }
+  return sortCols.map((column, i) => {
+    const tok = orderTokens[i] ?? orderTokens[0];
+    return { column, dir: tok.toUpperCase() === "DESC" ? "DESC" : "ASC" };
+  });
+}
 
-  sql += ` LIMIT $${paramIdx++} OFFSET $${paramIdx++}`;
-  values.push(pageSize, offset);
+function renderOrderBy(sort: SortColumn[]): string {
+  if (sort.length === 0) return "";
+  return ` ORDER BY ${sort.map((s) => `${quoteIdent(s.column)} ${s.dir}`).join(", ")}`;
+}
+
+export function buildSelectQuery(table: TableInfo, opts: ListOptions): QueryResult {
+  const page = Math.max(1, opts.page || 1);
+  const pageSize = clampPageSize(opts.pageSize);
+  const offset = (page - 1) * pageSize;
+
+  const where = buildWhereClauses(table, opts);
+  const values = [...where.values];
+  let paramIdx = where.nextParamIdx;
+  const bind = (value: unknown): string => {
+    values.push(value);
+    return `$${paramIdx++}`;
+  };
+  const columns = withExpansions(table, getColumnNames(table, opts.select), bind, opts.expand);
+
+  let sql = `SELECT ${columns} FROM ${table.fqn}${where.clause}`;
+  sql += renderOrderBy(resolveSortColumns(table, opts));
+  sql += ` LIMIT ${bind(pageSize)} OFFSET ${bind(offset)}`;
 
   return { text: sql, values };
 }
@@ -170,6 +237,378 @@ export function buildCountQuery(table: TableInfo, opts: ListOptions): QueryResul
   return { text: sql, values: where.values };
 }
 
+// ─── COUNT strategies ───────────────────────────────────────────────
+
+export interface CountResult {
+  total: number | null;
+  totalIsEstimate: boolean;
+}
+
+/**
+ * Pick the count strategy for a list request: an explicit `count` param wins,
+ * then the per-table default, then the global default.
+ */
+export function resolveCountStrategy(table: TableInfo, requested?: unknown): CountStrategy {
+  if (COUNT_STRATEGIES.includes(requested as CountStrategy)) return requested as CountStrategy;
+  return config.tableCountStrategies[`${table.schema}.${table.name}`] ?? config.countStrategy;
+}
+
+/**
+ * Planner row estimate for the filtered list, via EXPLAIN. Without filters
+ * this is the table's pg_class.reltuples scaled to its current size, and it
+ * costs a planning pass instead of a scan.
+ */
+export function buildEstimatedCountQuery(table: TableInfo, opts: ListOptions): QueryResult {
+  const where = buildWhereClauses(table, opts);
+  const sql = `EXPLAIN (FORMAT JSON) SELECT 1 FROM ${table.fqn}${where.clause}`;
+  return { text: sql, values: where.values };
+}
+
+/**
+ * Build the total-count query for a strategy, or null when no count should run.
+ */
+export function buildTotalQuery(table: TableInfo, opts: ListOptions, strategy: CountStrategy): QueryResult | null {
+  if (strategy === "exact") return buildCountQuery(table, opts);
+  if (strategy === "estimated") return buildEstimatedCountQuery(table, opts);
+  return null;
+}
+
+/**
+ * Read the total from the rows returned by `buildTotalQuery`.
+ */
+export function parseCountResult(strategy: CountStrategy, rows: Record<string, unknown>[] | undefined): CountResult {
+  if (strategy === "exact") {
+    return { total: Number.parseInt(String(rows?.[0]?.total), 10), totalIsEstimate: false };
+  }
+  if (strategy === "estimated") {
+    const plan = (rows?.[0]?.["QUERY PLAN"] as Array<{ Plan?: { "Plan Rows"?: number } }> | undefined)?.[0]?.Plan;
+    const estimate = Number(plan?.["Plan Rows"]);
+    return Number.isFinite(estimate)
+      ? { total: Math.max(0, Math.round(estimate)), totalIsEstimate: true }
+      : { total: null, totalIsEstimate: false };
+  }
+  return { total: null, totalIsEstimate: false };
+}
+
+// ─── SELECT (Keyset / Cursor) ────────────────────────────────────────
+//
+// Cursor pagination orders by the requested sort columns plus the primary
+// key as a tiebreaker, and seeks past the last row of the previous page
+// instead of using OFFSET. Sort values are selected as text under hidden
+// aliases so the cursor round-trips exactly (e.g. microsecond timestamps).
+
+const CURSOR_COLUMN_PREFIX = "__cursor_";
+
+export interface CursorPage {
+  data: Record<string, unknown>[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+function resolveCursorSort(table: TableInfo, opts: ListOptions): SortColumn[] {
+  if (table.primaryKeys.length === 0) {
+    throw new Error(`Cursor pagination requires a primary key; ${table.fqn} has none`);
+  }
+  // Never empty here: with a primary key the sort falls back to it
+  const sort = resolveSortColumns(table, opts);
+  const lastDir = sort[sort.length - 1].dir;
+  for (const pk of table.primaryKeys) {
+    if (!sort.some((s) => s.column === pk)) sort.push({ column: pk, dir: lastDir });
+  }
+  return sort;
+}
+
+function sortSignature(sort: SortColumn[]): string[] {
+  return sort.map((s) => `${s.column}:${s.dir.toLowerCase()}`);
+}
+
+function encodeCursor(sort: SortColumn[], values: (string | null)[]): string {
+  return Buffer.from(JSON.stringify({ s: sortSignature(sort), v: values }), "utf8").toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: SortColumn[]): (string | null)[] {
+  let parsed: { s?: unknown; v?: unknown };
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  const values = parsed?.v;
+  if (
+    !Array.isArray(parsed?.s) || !Array.isArray(values) ||
+    values.length !== sort.length ||
+    values.some((v) => v !== null && typeof v !== "string")
+  ) {
+    throw new Error("Invalid cursor");
+  }
+  if (parsed.s.join(",") !== sortSignature(sort).join(",")) {
+    throw new Error("Cursor does not match the current sortBy/sortOrder; restart pagination without a cursor");
+  }
+  return values as (string | null)[];
+}
+
+/**
+ * Build the "row comes after the cursor" predicate for a mixed-direction
+ * sort, honouring Postgres' default NULLS LAST (ASC) / NULLS FIRST (DESC).
+ */
+function buildKeysetPredicate(
+  table: TableInfo,
+  sort: SortColumn[],
+  cursorValues: (string | null)[],
+  bind: (value: unknown) => string,
+): string {
+  const placeholders = cursorValues.map((v) => (v === null ? null : bind(v)));
+
+  const equals = (i: number): string => {
+    const col = quoteIdent(sort[i].column);
+    return placeholders[i] === null ? `${col} IS NULL` : `${col} = ${placeholders[i]}`;
+  };
+
+  const after = (i: number): string | null => {
+    const col = quoteIdent(sort[i].column);
+    const ph = placeholders[i];
+    if (sort[i].dir === "DESC") {
+      return ph === null ? `${col} IS NOT NULL` : `${col} < ${ph}`;
+    }
+    if (ph === null) return null;
+    const nullable = table.columns.find((c) => c.name === sort[i].column)?.isNullable;
+    return nullable ? `(${col} > ${ph} OR ${col} IS NULL)` : `${col} > ${ph}`;
+  };
+
+  const branches: string[] = [];
+  for (let i = 0; i < sort.length; i++) {
+    const step = after(i);
+    if (step === null) continue;
+    const parts = [...sort.slice(0, i).map((_, j) => equals(j)), step];
+    branches.push(parts.length > 1 ? `(${parts.join(" AND ")})` : parts[0]);
+  }
+  return branches.length > 0 ? `(${branches.join(" OR ")})` : "FALSE";
+}
+
+/**
+ * Build a keyset-paginated SELECT. An empty `opts.cursor` starts at the
+ * first page. Fetches one extra row so the caller can tell whether more
+ * pages exist; pass the rows to `buildCursorPage`.
+ */
+export function buildCursorSelectQuery(table: TableInfo, opts: ListOptions): QueryResult {
+  const pageSize = clampPageSize(opts.pageSize);
+  const sort = resolveCursorSort(table, opts);
+
+  const where = buildWhereClauses(table, opts);
+  const values = [...where.values];
+  let paramIdx = where.nextParamIdx;
+  const bind = (value: unknown): string => {
+    values.push(value);
+    return `$${paramIdx++}`;
+  };
+
+  const cursorColumns = sort
+    .map((s, i) => `${quoteIdent(s.column)}::text AS ${quoteIdent(`${CURSOR_COLUMN_PREFIX}${i}`)}`)
+    .join(", ");
+  const columns = `${withExpansions(table, getColumnNames(table, opts.select), bind, opts.expand)}, ${cursorColumns}`;
+
+  let whereClause = where.clause;
+  if (opts.cursor) {
+    const keyset = buildKeysetPredicate(table, sort, decodeCursor(opts.cursor, sort), bind);
+    whereClause = whereClause ? `${whereClause} AND ${keyset}` : ` WHERE ${keyset}`;
+  }
+
+  let sql = `SELECT ${columns} FROM ${table.fqn}${whereClause}`;
+  sql += renderOrderBy(sort);
+  sql += ` LIMIT ${bind(pageSize + 1)}`;
+
+  return { text: sql, values };
+}
+
+/**
+ * Turn the rows returned by `buildCursorSelectQuery` into a page: trims the
+ * look-ahead row, strips the hidden cursor columns and encodes `nextCursor`.
+ */
+export function buildCursorPage(
+  table: TableInfo,
+  opts: ListOptions,
+  rows: Record<string, unknown>[],
+): CursorPage {
+  const pageSize = clampPageSize(opts.pageSize);
+  const sort = resolveCursorSort(table, opts);
+  const hasMore = rows.length > pageSize;
+  const pageRows = rows.slice(0, pageSize);
+
+  let nextCursor: string | null = null;
+  if (hasMore) {
+    const last = pageRows[pageRows.length - 1];
+    nextCursor = encodeCursor(sort, sort.map((_, i) => (last[`${CURSOR_COLUMN_PREFIX}${i}`] as string | null) ?? null));
+  }
+
+  const data = pageRows.map((row) => {
+    const clean: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (!key.startsWith(CURSOR_COLUMN_PREFIX)) clean[key] = value;
+    }
+    return clean;
+  });
+
+  return { data, nextCursor, hasMore };
+}
+
+// ─── Embedding (expand=) ─────────────────────────────────────────────
+//
+// Forward FKs embed the referenced row as an object (or null), named after
+// the FK column without its "_id" suffix (customer_id → customer), or after
+// the referenced table otherwise. Reverse FKs embed the referencing rows as
+// an array named after the child table's route path, or
+// "{child}_by_{column}" when the child references this table more than once.
+// Names that collide with a column of the table are not offered.
+
+export interface Relation {
+  name: string;
+  kind: "one" | "many";
+  table: TableInfo;
+  /** Column pairs joining this table (local) to the related table (remote) */
+  columns: { local: string; remote: string }[];
+}
+
+export interface Expansion {
+  relation: Relation;
+  select?: string[];
+}
+
+function groupForeignKeys(table: TableInfo): ForeignKey[][] {
+  const groups = new Map<string, ForeignKey[]>();
+  for (const fk of table.foreignKeys) {
+    const group = groups.get(fk.constraintName);
+    if (group) group.push(fk);
+    else groups.set(fk.constraintName, [fk]);
+  }
+  return Array.from(groups.values());
+}
+
+function findTableByName(tables: Map<string, TableInfo>, schema: string, name: string): TableInfo | undefined {
+  for (const t of tables.values()) {
+    if (t.schema === schema && t.name === name) return t;
+  }
+  return undefined;
+}
+
+/**
+ * List the relations of a table that can be embedded with `expand=`.
+ * Foreign keys pointing outside the introspected tables are skipped.
+ */
+export function listRelations(table: TableInfo, tables: Map<string, TableInfo>): Relation[] {
+  const relations: Relation[] = [];
+  const taken = new Set(table.columns.map((c) => c.name));
+  const add = (relation: Relation) => {
+    if (taken.has(relation.name)) return;
+    taken.add(relation.name);
+    relations.push(relation);
+  };
+
+  for (const fks of groupForeignKeys(table)) {
+    const target = findTableByName(tables, fks[0].refSchema, fks[0].refTable);
+    if (!target) continue;
+    const column = fks[0].column;
+    const name = fks.length === 1 && column.endsWith("_id") && column.length > 3
+      ? column.slice(0, -3)
+      : target.name;
+    add({ name, kind: "one", table: target, columns: fks.map((fk) => ({ local: fk.column, remote: fk.refColumn })) });
+  }
+
+  for (const child of tables.values()) {
+    const incoming = groupForeignKeys(child).filter(
+      (fks) => fks[0].refSchema === table.schema && fks[0].refTable === table.name,
+    );
+    for (const fks of incoming) {
+      const name = incoming.length === 1
+        ? child.routePath
+        : `${child.routePath}_by_${fks.map((fk) => fk.column).join("_")}`;
+      add({ name, kind: "many", table: child, columns: fks.map((fk) => ({ local: fk.refColumn, remote: fk.column })) });
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * Reverse relations that reference exactly the table's primary key. These
+ * get nested routes such as /api/users/:id/orders, where the path id binds
+ * the child's FK columns.
+ */
+export function listNestedRelations(table: TableInfo, tables: Map<string, TableInfo>): Relation[] {
+  if (table.primaryKeys.length === 0) return [];
+  return listRelations(table, tables).filter(
+    (r) =>
+      r.kind === "many" &&
+      r.columns.length === table.primaryKeys.length &&
+      r.columns.every((c) => table.primaryKeys.includes(c.local)),
+  );
+}
+
+/**
+ * Parse an `expand` param such as "customer,order_items(id,sku)" into
+ * expansions. Each relation may carry a parenthesised column selection.
+ */
+export function parseExpand(table: TableInfo, tables: Map<string, TableInfo>, expand: string): Expansion[] {
+  const relations = listRelations(table, tables);
+  const expansions: Expansion[] = [];
+
+  for (const item of splitTopLevel(expand, "expand parameter")) {
+    if (!item) continue;
+    const match = /^([^()]+?)(?:\((.*)\))?$/s.exec(item);
+    if (!match) {
+      throw new Error(`Invalid expand item '${item}'. Expected relation or relation(col1,col2)`);
+    }
+    const [, name, selectList] = match;
+    const relation = relations.find((r) => r.name === name);
+    if (!relation) {
+      const available = relations.map((r) => r.name).join(", ") || "none";
+      throw new Error(`Unknown relation '${name}' for ${table.name}. Available: ${available}`);
+    }
+    if (expansions.some((e) => e.relation === relation)) {
+      throw new Error(`Relation '${name}' is expanded more than once`);
+    }
+    const select = selectList?.split(",").map((c) => c.trim()).filter(Boolean);
+    expansions.push({ relation, select: select && select.length > 0 ? select : undefined });
+  }
+
+  return expansions;
+}
+
+/**
+ * Render one expansion as a correlated subquery. The related table is
+ * aliased so self-referencing FKs still resolve the outer row through
+ * its fully qualified name. Embedded arrays are capped at MAX_PAGE_SIZE.
+ */
+function renderExpansion(table: TableInfo, expansion: Expansion, bind: (value: unknown) => string): string {
+  const { relation } = expansion;
+  const alias = quoteIdent("_rel");
+  const columns = getColumnNames(relation.table, expansion.select);
+  const join = [
+    ...relation.columns.map((c) => `${alias}.${quoteIdent(c.remote)} = ${table.fqn}.${quoteIdent(c.local)}`),
+    ...renderRowFilter(relation.table, bind, alias),
+  ].join(" AND ");
+  const source = `SELECT ${columns} FROM ${relation.table.fqn} AS ${alias} WHERE ${join}`;
+
+  if (relation.kind === "one") {
+    return `(SELECT row_to_json("_row") FROM (${source} LIMIT 1) "_row") AS ${quoteIdent(relation.name)}`;
+  }
+
+  const orderBy = relation.table.primaryKeys.length > 0
+    ? ` ORDER BY ${relation.table.primaryKeys.map((pk) => `${alias}.${quoteIdent(pk)}`).join(", ")}`
+    : "";
+  return `(SELECT COALESCE(json_agg("_row"), '[]'::json) FROM (${source}${orderBy} LIMIT ${config.maxPageSize}) "_row") AS ${quoteIdent(relation.name)}`;
+}
+
+function withExpansions(
+  table: TableInfo,
+  columns: string,
+  bind: (value: unknown) => string,
+  expand?: Expansion[],
+): string {
+  if (!expand || expand.length === 0) return columns;
+  return [columns, ...expand.map((e) => renderExpansion(table, e, bind))].join(", ");
+}
+
 function validateFilterColumn(column: string, table: TableInfo): void {
   if (!isValidColumn(table, column)) {
     throw new Error(
@@ -194,15 +633,18 @@ function coerceFilterValue(op: string, rawValue: string): unknown {
     return rawValue.toLowerCase() === "null" ? null : rawValue;
   }
   if (op === "in") {
-    const parts = rawValue.split(",");
-    if (parts.length > 100) {
-      throw new Error(`IN filter limited to 100 values, got ${parts.length}`);
-    }
-    return parts;
+    return limitInValues(rawValue.split(","));
   }
   return rawValue;
 }
 
+function limitInValues(parts: string[]): string[] {
+  if (parts.length > 100) {
+    throw new Error(`IN filter limited to 100 values, got ${parts.length}`);
+  }
+  return parts;
+}
+
 function parseFiltersFromObject(filters: Record<string, unknown>, table: TableInfo): ParsedFilter[] {
   const result: ParsedFilter[] = [];
   for (const [column, rawValue] of Object.entries(filters)) {
@@ -214,34 +656,174 @@ function parseFiltersFromObject(filters: Record<string, unknown>, table: TableIn
   return result;
 }
 
-// ─── SELECT (Single by PK) ──────────────────────────────────────────
+// ─── Filter Group Parsing ───────────────────────────────────────────
+//
+// Grammar (PostgREST-style):
+//   expr      := ["not."] ( group | condition )
+//   group     := ("and" | "or") "(" expr { "," expr } ")"
+//   condition := column "." operator "." value
+//
+// Values may be double-quoted to include commas or parentheses
+// ("Smith, J"); `in` takes a parenthesised list: id.in.(1,2,3).
+
+/**
+ * Split on commas that are not nested inside parentheses or double quotes.
+ */
+function splitTopLevel(input: string, context = "filter expression"): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = "";
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      current += ch;
+      if (ch === "\\" && i + 1 < input.length) {
+        current += input[++i];
+      } else if (ch === '"') {
+        inQuotes = false;
+      }
+      continue;
+    }
+    if (ch === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === "(") depth++;
+    else if (ch === ")" && --depth < 0) break;
+    current += ch;
+  }
+
+  if (depth !== 0 || inQuotes) {
+    throw new Error(`Unbalanced parentheses or quotes in ${context}: ${input}`);
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replaceAll(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+function parseGroupCondition(expr: string, table: TableInfo): ParsedFilter {
+  const firstDot = expr.indexOf(".");
+  const secondDot = firstDot > 0 ? expr.indexOf(".", firstDot + 1) : -1;
+  if (secondDot < 0) {
+    throw new Error(`Invalid filter condition '${expr}'. Expected column.operator.value`);
+  }
+
+  const column = expr.slice(0, firstDot);
+  const operator = expr.slice(firstDot + 1, secondDot);
+  const rawValue = expr.slice(secondDot + 1);
+
+  validateFilterColumn(column, table);
+  if (!FILTER_OPERATORS[operator]) {
+    throw new Error(
+      `Unknown filter operator '${operator}' in '${expr}'. ` +
+      `Available: ${Object.keys(FILTER_OPERATORS).join(", ")}`
+    );
+  }
+
+  if (operator === "in") {
+    if (!rawValue.startsWith("(") || !rawValue.endsWith(")")) {
+      throw new Error(`IN filter in '${expr}' expects a parenthesised list, e.g. ${column}.in.(a,b)`);
+    }
+    return { column, operator, value: limitInValues(splitTopLevel(rawValue.slice(1, -1)).map(unquote)) };
+  }
+
+  return { column, operator, value: coerceFilterValue(operator, unquote(rawValue)) };
+}
+
+function parseFilterNode(expr: string, table: TableInfo, depth: number): FilterNode {
+  if (expr === "") throw new Error("Empty condition in filter group");
+
+  const negate = expr.startsWith("not.");
+  const body = negate ? expr.slice(4) : expr;
+
+  const groupMatch = /^(and|or)\((.*)$/s.exec(body);
+  if (!groupMatch) {
+    return { type: "condition", negate, filter: parseGroupCondition(body, table) };
+  }
+  if (!groupMatch[2].endsWith(")")) {
+    throw new Error(`Unbalanced parentheses or quotes in filter expression: ${expr}`);
+  }
+
+  if (depth >= MAX_FILTER_GROUP_DEPTH) {
+    throw new Error(`Filter groups may be nested at most ${MAX_FILTER_GROUP_DEPTH} levels deep`);
+  }
+
+  const children = splitTopLevel(groupMatch[2].slice(0, -1)).map((item) => parseFilterNode(item, table, depth + 1));
+  return {
+    type: "group",
+    negate,
+    logic: groupMatch[1] === "or" ? "OR" : "AND",
+    children,
+  };
+}
+
+/**
+ * Parse a boolean filter expression such as
+ * `or(status.eq.active,and(owner_id.eq.5,not.total.lt.100))`.
+ * Every referenced column is validated against the table.
+ */
+function parseFilterGroupExpression(expr: string, table: TableInfo): FilterNode {
+  return parseFilterNode(expr.trim(), table, 0);
+}
+
+// ─── SELECT (Single by key) ─────────────────────────────────────────
 
 export function buildSelectByPkQuery(
   table: TableInfo,
   pkValues: Record<string, unknown>,
-  select?: string[]
+  select?: string[],
+  expand?: Expansion[],
+): QueryResult {
+  const key = Object.fromEntries(table.primaryKeys.map((pk) => [pk, pkValues[pk]]));
+  return buildSelectByKeyQuery(table, key, select, expand);
+}
+
+/** Select the row matching every column of `key`, which should be the primary key or a unique key */
+export function buildSelectByKeyQuery(
+  table: TableInfo,
+  key: Record<string, unknown>,
+  select?: string[],
+  expand?: Expansion[],
 ): QueryResult {
-  const columns = getColumnNames(table, select);
   const values: unknown[] = [];
-  const whereClauses: string[] = [];
   let paramIdx = 1;
+  const bind = (value: unknown): string => {
+    values.push(value);
+    return `$${paramIdx++}`;
+  };
 
-  for (const pk of table.primaryKeys) {
-    whereClauses.push(`${quoteIdent(pk)} = $${paramIdx++}`);
-    values.push(pkValues[pk]);
-  }
+  const whereClauses = Object.entries(key).map(([column, value]) => `${quoteIdent(column)} = ${bind(value)}`);
+  whereClauses.push(...renderRowFilter(table, bind));
+  const columns = withExpansions(table, getColumnNames(table, select), bind, expand);
 
-  const sql = `SELECT ${columns} FROM ${table.fqn} WHERE ${whereClauses.join(" AND ")} LIMIT 1`;
+  const sql = `SELECT ${columns}, ${VERSION_EXPR} AS ${quoteIdent(VERSION_COLUMN)} FROM ${table.fqn} WHERE ${whereClauses.join(" AND ")} LIMIT 1`;
   return { text: sql, values };
 }
 
 // ─── INSERT ──────────────────────────────────────────────────────────
 
+/** Identity ALWAYS and generated columns are computed by PostgreSQL and reject written values */
+export function isReadOnlyColumn(col: ColumnInfo): boolean {
+  return col.identity === "always" || col.isGenerated === true;
+}
+
 export function buildInsertQuery(
   table: TableInfo,
-  data: Record<string, unknown>
+  input: Record<string, unknown>,
+  upsert?: UpsertOptions,
 ): QueryResult {
-  const validColumns = table.columns.filter((c) => data[c.name] !== undefined);
+  const data = withRowFilter(table, input);
+  const validColumns = table.columns.filter((c) => data[c.name] !== undefined && !isReadOnlyColumn(c));
   if (validColumns.length === 0) {
     throw new Error("No valid columns provided for insert");
   }
@@ -256,7 +838,14 @@ export function buildInsertQuery(
     valParts.push("NOW()");
   }
 
-  const sql = `INSERT INTO ${table.fqn} (${colParts.join(", ")}) VALUES (${valParts.join(", ")}) RETURNING *`;
+  let sql = `INSERT INTO ${table.fqn} (${colParts.join(", ")}) VALUES (${valParts.join(", ")})`;
+  if (upsert) {
+    sql += renderOnConflict(table, colParts, upsert, (value) => {
+      values.push(value);
+      return `$${values.length}`;
+    });
+  }
+  sql += " RETURNING *";
   return { text: sql, values };
 }
 
@@ -264,8 +853,10 @@ export function buildInsertQuery(
 
 export function buildBulkInsertQuery(
   table: TableInfo,
-  rows: Record<string, unknown>[]
+  input: Record<string, unknown>[],
+  upsert?: UpsertOptions,
 ): QueryResult {
+  const rows = input.map((row) => withRowFilter(table, row));
   if (rows.length === 0) throw new Error("No rows provided for bulk insert");
   if (rows.length > config.maxBulkInsertRows) {
     throw new Error(`Bulk insert limited to ${config.maxBulkInsertRows} rows, got ${rows.length}`);
@@ -275,7 +866,7 @@ export function buildBulkInsertQuery(
   const columnSet = new Set<string>();
   for (const row of rows) {
     for (const key of Object.keys(row)) {
-      if (table.columns.some((c) => c.name === key)) {
+      if (table.columns.some((c) => c.name === key && !isReadOnlyColumn(c))) {
         columnSet.add(key);
       }
     }
@@ -305,45 +896,185 @@ export function buildBulkInsertQuery(
     rowPlaceholders.push(`(${placeholders.join(", ")})`);
   }
 
-  const sql = `INSERT INTO ${table.fqn} (${colNames}) VALUES ${rowPlaceholders.join(", ")} RETURNING *`;
+  let sql = `INSERT INTO ${table.fqn} (${colNames}) VALUES ${rowPlaceholders.join(", ")}`;
+  if (upsert) {
+    sql += renderOnConflict(table, columns.map(quoteIdent), upsert, (value) => {
+      values.push(value);
+      return `$${paramIdx++}`;
+    });
+  }
+  sql += " RETURNING *";
   return { text: sql, values };
 }
 
+// ─── Upsert (ON CONFLICT) ────────────────────────────────────────────
+
+export type ConflictAction = "update" | "ignore";
+
+export interface UpsertOptions {
+  /** Conflict target: the columns of the primary key, a unique constraint or a unique index */
+  conflictColumns: string[];
+  action: ConflictAction;
+}
+
+/**
+ * Column sets ON CONFLICT can target: the primary key, unique constraints
+ * and unique indexes without a predicate or expressions, which Postgres
+ * infers from their columns as well.
+ */
+export function listConflictTargets(table: TableInfo): string[][] {
+  const candidates = [
+    table.primaryKeys,
+    ...table.uniqueConstraints.map((u) => u.columns),
+    ...table.indexes
+      .filter((i) => i.unique && i.predicate === null && i.columns.every((c) => isValidColumn(table, c)))
+      .map((i) => i.columns),
+  ].filter((c) => c.length > 0);
+  return [...new Map(candidates.map((c) => [c.join(","), c])).values()];
+}
+
+/**
+ * Resolve the ON CONFLICT target. Defaults to the primary key; explicit
+ * columns must match one of listConflictTargets (in any order).
+ */
+export function resolveConflictTarget(table: TableInfo, columns?: string[]): string[] {
+  if (!columns || columns.length === 0) {
+    if (table.primaryKeys.length > 0) return table.primaryKeys;
+    throw new Error(`${table.name} has no primary key; specify onConflict columns of a unique constraint`);
+  }
+
+  const candidates = listConflictTargets(table);
+  const match = candidates.find((c) => c.length === columns.length && columns.every((col) => c.includes(col)));
+  if (!match) {
+    const available = candidates.map((c) => `(${c.join(",")})`).join(", ") || "none";
+    throw new Error(
+      `onConflict columns (${columns.join(",")}) must match the primary key, a unique constraint or a unique index ` +
+      `of ${table.name}. Available: ${available}`
+    );
+  }
+  return match;
+}
+
+/**
+ * Columns other than the primary key that identify a row on their own:
+ * single-column unique constraints and unique indexes without a predicate.
+ */
+export function listUniqueKeyColumns(table: TableInfo): string[] {
+  const keys = [
+    ...table.uniqueConstraints.map((u) => u.columns),
+    ...table.indexes.filter((i) => i.unique && i.predicate === null).map((i) => i.columns),
+  ];
+  const pk = table.primaryKeys.length === 1 ? table.primaryKeys[0] : undefined;
+  const columns = keys
+    .filter((k) => k.length === 1 && k[0] !== pk && isValidColumn(table, k[0]))
+    .map((k) => k[0]);
+  return [...new Set(columns)];
+}
+
+/**
+ * Columns that lead the primary key, a unique constraint or an index without
+ * a predicate, so equality and range filters on them can use an index.
+ * Only btree indexes return rows in order, so only their columns are sortable.
+ */
+export function listIndexedColumns(table: TableInfo): { filterable: string[]; sortable: string[] } {
+  const btree = [
+    table.primaryKeys,
+    ...table.uniqueConstraints.map((u) => u.columns),
+    ...table.indexes.filter((i) => i.method === "btree" && i.predicate === null).map((i) => i.columns),
+  ];
+  const other = table.indexes.filter((i) => i.method !== "btree" && i.predicate === null).map((i) => i.columns);
+  const leading = (keys: string[][]) =>
+    [...new Set(keys.filter((k) => k.length > 0).map((k) => k[0]))].filter((c) => isValidColumn(table, c));
+  const sortable = leading(btree);
+  return { filterable: [...new Set([...sortable, ...leading(other)])], sortable };
+}
+
+/**
+ * Render the ON CONFLICT clause for already-quoted inserted columns. An
+ * update with nothing but the target to set re-assigns the target, so
+ * RETURNING still yields the existing row. With a row filter, an existing
+ * row outside it is left alone and not returned.
+ */
+function renderOnConflict(
+  table: TableInfo,
+  insertedColumns: string[],
+  upsert: UpsertOptions,
+  bind: (value: unknown) => string,
+): string {
+  const target = upsert.conflictColumns.map(quoteIdent);
+  if (upsert.action === "ignore") return ` ON CONFLICT (${target.join(", ")}) DO NOTHING`;
+
+  const updates = insertedColumns.filter((c) => !target.includes(c));
+  const assigned = updates.length > 0 ? updates : target.slice(0, 1);
+  const existing = renderRowFilter(table, bind, table.fqn);
+  return ` ON CONFLICT (${target.join(", ")}) DO UPDATE SET ${assigned.map((c) => `${c} = EXCLUDED.${c}`).join(", ")}` +
+    (existing.length > 0 ? ` WHERE ${existing.join(" AND ")}` : "");
+}
+
+// ─── Row Versions (ETag) ─────────────────────────────────────────────
+
+/** Alias of the row version added to single-row reads and writes */
+export const VERSION_COLUMN = "__version";
+
+/**
+ * A row's version is its xmin system column, the id of the transaction that
+ * last wrote it, so every UPDATE changes it.
+ */
+const VERSION_EXPR = '"xmin"::text';
+
+const RETURNING_WITH_VERSION = ` RETURNING *, ${VERSION_EXPR} AS ${quoteIdent(VERSION_COLUMN)}`;
+
+/** Match the row only while its version is one of `expectedVersions` */
+function renderVersionCondition(expectedVersions: string[], bind: (value: unknown) => string): string {
+  return `${VERSION_EXPR} = ANY(${bind(expectedVersions)})`;
+}
+
 // ─── UPDATE ──────────────────────────────────────────────────────────
 
-export function buildUpdateQuery(
+function renderSetClauses(
   table: TableInfo,
-  pkValues: Record<string, unknown>,
-  data: Record<string, unknown>
-): QueryResult {
-  // Don't allow updating PK columns
+  data: Record<string, unknown>,
+  bind: (value: unknown) => string
+): string[] {
+  // Don't allow updating PK, computed or row-filtered columns
   const updateColumns = table.columns.filter(
-    (c) => data[c.name] !== undefined && !table.primaryKeys.includes(c.name)
+    (c) => data[c.name] !== undefined && !table.primaryKeys.includes(c.name) && !isReadOnlyColumn(c)
+      && table.rowFilter?.[c.name] === undefined
   );
 
   if (updateColumns.length === 0) {
     throw new Error("No valid columns provided for update");
   }
 
-  const values: unknown[] = [];
-  let paramIdx = 1;
-
-  const setClauses = updateColumns.map((c) => {
-    values.push(data[c.name]);
-    return `${quoteIdent(c.name)} = $${paramIdx++}`;
-  });
+  const setClauses = updateColumns.map((c) => `${quoteIdent(c.name)} = ${bind(data[c.name])}`);
 
   // Auto-set updated_at when the column exists and wasn't explicitly provided
   if (hasUpdatedAt(table) && data["updated_at"] === undefined) {
     setClauses.push('"updated_at" = NOW()');
   }
 
-  const whereClauses = table.primaryKeys.map((pk) => {
-    values.push(pkValues[pk]);
-    return `${quoteIdent(pk)} = $${paramIdx++}`;
-  });
+  return setClauses;
+}
+
+export function buildUpdateQuery(
+  table: TableInfo,
+  pkValues: Record<string, unknown>,
+  data: Record<string, unknown>,
+  expectedVersions?: string[]
+): QueryResult {
+  const values: unknown[] = [];
+  let paramIdx = 1;
+  const bind = (value: unknown): string => {
+    values.push(value);
+    return `$${paramIdx++}`;
+  };
 
-  const sql = `UPDATE ${table.fqn} SET ${setClauses.join(", ")} WHERE ${whereClauses.join(" AND ")} RETURNING *`;
+  const setClauses = renderSetClauses(table, data, bind);
+  const whereClauses = table.primaryKeys.map((pk) => `${quoteIdent(pk)} = ${bind(pkValues[pk])}`);
+  whereClauses.push(...renderRowFilter(table, bind));
+  if (expectedVersions) whereClauses.push(renderVersionCondition(expectedVersions, bind));
+
+  const sql = `UPDATE ${table.fqn} SET ${setClauses.join(", ")} WHERE ${whereClauses.join(" AND ")}${RETURNING_WITH_VERSION}`;
   return { text: sql, values };
 }
 
@@ -357,31 +1088,173 @@ export function hasUpdatedAt(table: TableInfo): boolean {
   return table.columns.some((c) => c.name === "updated_at");
 }
 
+function renderDelete(table: TableInfo, whereClause: string, returning = " RETURNING *"): string {
+  // Soft delete: if the table has a "deleted_at" column, set it to NOW() instead of deleting
+  if (hasSoftDelete(table)) {
+    const setCols = ['"deleted_at" = NOW()'];
+    if (hasUpdatedAt(table)) setCols.push('"updated_at" = NOW()');
+    return `UPDATE ${table.fqn} SET ${setCols.join(", ")}${whereClause}${returning}`;
+  }
+
+  return `DELETE FROM ${table.fqn}${whereClause}${returning}`;
+}
+
 export function buildDeleteQuery(
   table: TableInfo,
-  pkValues: Record<string, unknown>
+  pkValues: Record<string, unknown>,
+  expectedVersions?: string[]
 ): QueryResult {
   const values: unknown[] = [];
   let paramIdx = 1;
+  const bind = (value: unknown): string => {
+    values.push(value);
+    return `$${paramIdx++}`;
+  };
+
+  const whereClauses = table.primaryKeys.map((pk) => `${quoteIdent(pk)} = ${bind(pkValues[pk])}`);
+  whereClauses.push(...renderRowFilter(table, bind));
+  if (expectedVersions) whereClauses.push(renderVersionCondition(expectedVersions, bind));
+
+  return { text: renderDelete(table, ` WHERE ${whereClauses.join(" AND ")}`, RETURNING_WITH_VERSION), values };
+}
+
+// ─── BULK UPDATE / DELETE (by filter) ────────────────────────────────
 
-  const whereClauses = table.primaryKeys.map((pk) => {
-    values.push(pkValues[pk]);
-    return `${quoteIdent(pk)} = $${paramIdx++}`;
+/** Row selection for a bulk mutation: the same filters and groups as a list query */
+export type BulkFilter = Pick<ListOptions, "filters" | "filterGroups">;
+
+/**
+ * Render the WHERE clause of a bulk mutation. Refuses an empty filter so a
+ * missing query string can never rewrite or remove every row; a row filter
+ * alone does not count. Filter columns are validated against `filterTable`,
+ * the table as the API key sees it.
+ */
+function buildBulkWhere(
+  table: TableInfo,
+  filter: BulkFilter,
+  action: string,
+  startParamIdx: number,
+  filterTable: TableInfo,
+): WhereResult {
+  if (Object.keys(filter.filters ?? {}).length === 0 && (filter.filterGroups ?? []).length === 0) {
+    throw new Error(
+      `Bulk ${action} requires at least one filter (filter.{column}=... or an or=/and= group); refusing to ${action} every row of ${table.name}`
+    );
+  }
+  return buildWhereClauses(filterTable, { filters: filter.filters, filterGroups: filter.filterGroups }, startParamIdx);
+}
+
+export function buildBulkUpdateQuery(
+  table: TableInfo,
+  filter: BulkFilter,
+  data: Record<string, unknown>,
+  filterTable: TableInfo = table,
+): QueryResult {
+  const values: unknown[] = [];
+  const setClauses = renderSetClauses(table, data, (value) => {
+    values.push(value);
+    return `$${values.length}`;
   });
+  const where = buildBulkWhere(table, filter, "update", values.length + 1, filterTable);
 
-  const whereStr = whereClauses.join(" AND ");
+  const sql = `UPDATE ${table.fqn} SET ${setClauses.join(", ")}${where.clause} RETURNING *`;
+  return { text: sql, values: [...values, ...where.values] };
+}
 
-  // Soft delete: if the table has a "deleted_at" column, set it to NOW() instead of deleting
-  if (hasSoftDelete(table)) {
-    const setCols = ['"deleted_at" = NOW()'];
-    if (hasUpdatedAt(table)) setCols.push('"updated_at" = NOW()');
-    const sql = `UPDATE ${table.fqn} SET ${setCols.join(", ")} WHERE ${whereStr} RETURNING *`;
-    return { text: sql, values };
+export function buildBulkDeleteQuery(table: TableInfo, filter: BulkFilter, filterTable: TableInfo = table): QueryResult {
+  const where = buildBulkWhere(table, filter, "delete", 1, filterTable);
+  return { text: renderDelete(table, where.clause), values: where.values };
+}
+
+// ─── REFRESH MATERIALIZED VIEW ───────────────────────────────────────
+
+/**
+ * CONCURRENTLY keeps the view readable during the refresh but requires a
+ * unique index on it; PostgreSQL rejects the statement otherwise.
+ */
+export function buildRefreshQuery(table: TableInfo, concurrently = false): QueryResult {
+  if (table.kind !== "materialized_view") {
+    throw new Error(`${table.name} is not a materialized view`);
   }
+  return {
+    text: `REFRESH MATERIALIZED VIEW ${concurrently ? "CONCURRENTLY " : ""}${table.fqn}`,
+    values: [],
+  };
+}
 
-  const sql = `DELETE FROM ${table.fqn} WHERE ${whereStr} RETURNING *`;
+// ─── RPC (function calls) ────────────────────────────────────────────
+//
+// Arguments are passed in named notation and cast to their declared types,
+// so omitted arguments fall back to their defaults. Set-returning functions
+// are paged over a CTE, which PostgreSQL evaluates once for both the page
+// and the total.
 
-  return { text: sql, values };
+export interface RpcPage {
+  page: number;
+  pageSize: number;
+}
+
+export interface RpcResult {
+  data: unknown;
+  pagination?: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    totalIsEstimate: boolean;
+  };
+}
+
+/** Function arguments as nullable columns, for the shared type mappings */
+export function functionArgColumns(fn: FunctionInfo): ColumnInfo[] {
+  return fn.args.map((arg, i) => ({
+    name: arg.name,
+    dataType: arg.dataType,
+    udtName: arg.udtName,
+    isNullable: true,
+    hasDefault: arg.hasDefault,
+    defaultValue: null,
+    maxLength: null,
+    ordinalPosition: i + 1,
+  }));
+}
+
+export function buildRpcQuery(fn: FunctionInfo, args: Record<string, unknown>, page?: RpcPage): QueryResult {
+  const values: unknown[] = [];
+  const named = fn.args
+    .filter((arg) => args[arg.name] !== undefined)
+    .map((arg) => {
+      values.push(args[arg.name]);
+      return `${quoteIdent(arg.name)} => $${values.length}::${arg.dataType}`;
+    });
+  const call = `${fn.fqn}(${named.join(", ")})`;
+
+  if (!fn.returnsSet) {
+    const text = fn.returnsRow ? `SELECT * FROM ${call}` : `SELECT ${call} AS "result"`;
+    return { text, values };
+  }
+
+  const { page: pageNum, pageSize } = page ?? { page: 1, pageSize: config.defaultPageSize };
+  const source = fn.returnsRow ? call : `${call} AS "_rpc"("value")`;
+  const item = fn.returnsRow ? '"_page"' : '"_page"."value"';
+  values.push(pageSize, (pageNum - 1) * pageSize);
+  const text =
+    `WITH "_rpc" AS (SELECT * FROM ${source}) ` +
+    `SELECT (SELECT COUNT(*) FROM "_rpc") AS "total", ` +
+    `COALESCE((SELECT json_agg(${item}) FROM (SELECT * FROM "_rpc" LIMIT $${values.length - 1} OFFSET $${values.length}) AS "_page"), '[]') AS "data"`;
+  return { text, values };
+}
+
+export function parseRpcResult(fn: FunctionInfo, rows: Record<string, unknown>[], page?: RpcPage): RpcResult {
+  if (!fn.returnsSet) {
+    return { data: fn.returnsRow ? rows[0] : rows[0].result };
+  }
+  const { page: pageNum, pageSize } = page ?? { page: 1, pageSize: config.defaultPageSize };
+  const total = Number.parseInt(String(rows[0].total), 10);
+  return {
+    data: rows[0].data,
+    pagination: { page: pageNum, pageSize, total, totalPages: Math.ceil(total / pageSize), totalIsEstimate: false },
+  };
 }
 
 // ─── Schema Info Helpers ─────────────────────────────────────────────
@@ -508,9 +1381,21 @@ export function pgTypeToJsonSchema(col: ColumnInfo): Record<string, unknown> {
     base.maxLength = col.maxLength;
   }
 
+  // Enum labels and CHECK limits, intersected with the type's own bounds
+  if (col.enumValues || col.checks) {
+    const checks = mergeChecks(base as ColumnChecks, mergeChecks({ enum: col.enumValues }, col.checks ?? {}));
+    Object.assign(base, checks);
+  }
+
+  if (isReadOnlyColumn(col)) {
+    base.readOnly = true;
+  }
+
   // Nullable (OpenAPI 3.0 style — requires "type" to be present)
   if (col.isNullable && base.type) {
     base.nullable = true;
+    // "nullable" does not widen "enum", so null must be listed too
+    if (base.enum) base.enum = [...(base.enum as unknown[]), null];
   }
 
   return base;
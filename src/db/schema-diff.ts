@@ -0,0 +1,216 @@
+import { DatabaseSchema, TableInfo, ColumnInfo, FunctionInfo, ForeignKey, computeDatabaseHash, supportsWrite } from "./introspector.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A DatabaseSchema as JSON, for storing and diffing offline */
+export interface SchemaSnapshot {
+  version: 1;
+  databaseHash: string;
+  schemas: string[];
+  tables: TableInfo[];
+  functions: FunctionInfo[];
+}
+
+export type SchemaChangeKind =
+  | "table_added"
+  | "table_removed"
+  | "column_added"
+  | "column_removed"
+  | "column_type_changed"
+  | "column_nullability_changed"
+  | "primary_key_changed"
+  | "foreign_key_added"
+  | "foreign_key_removed";
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  /** schema.table */
+  table: string;
+  column?: string;
+  /** Previous type, nullability, primary key columns or referenced column */
+  from?: string | boolean | string[];
+  to?: string | boolean | string[];
+  /** Whether clients of the previous API can fail against the new one */
+  breaking: boolean;
+}
+
+export interface SchemaDiff {
+  fromHash: string;
+  toHash: string;
+  changed: boolean;
+  breaking: boolean;
+  changes: SchemaChange[];
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────────
+
+export function exportSchemaSnapshot(dbSchema: DatabaseSchema): SchemaSnapshot {
+  return {
+    version: 1,
+    databaseHash: computeDatabaseHash(dbSchema),
+    schemas: dbSchema.schemas,
+    tables: Array.from(dbSchema.tables.values()),
+    functions: Array.from(dbSchema.functions.values()),
+  };
+}
+
+/** Rebuild a DatabaseSchema from a parsed snapshot file. Throws if it is not one. */
+export function importSchemaSnapshot(value: unknown): DatabaseSchema {
+  const snapshot = value as Partial<SchemaSnapshot> | null;
+  if (
+    typeof snapshot !== "object" || snapshot === null || snapshot.version !== 1
+    || !Array.isArray(snapshot.schemas) || !Array.isArray(snapshot.tables) || !Array.isArray(snapshot.functions)
+  ) {
+    throw new Error("Not a version 1 schema snapshot (expected version, schemas, tables and functions)");
+  }
+  return {
+    schemas: snapshot.schemas,
+    tables: new Map(snapshot.tables.map((t) => [t.fqn, t])),
+    functions: new Map(snapshot.functions.map((f) => [f.fqn, f])),
+  };
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────
+
+function tableLabel(table: TableInfo): string {
+  return `${table.schema}.${table.name}`;
+}
+
+/** Type as written in DDL, e.g. "character varying(50)", "int4[]" or an enum name */
+function columnType(col: ColumnInfo): string {
+  let base = col.dataType;
+  if (col.dataType === "ARRAY") base = `${col.udtName.replace(/^_/, "")}[]`;
+  else if (col.dataType === "USER-DEFINED") base = col.udtName;
+  return col.maxLength ? `${base}(${col.maxLength})` : base;
+}
+
+/** Values a column accepted before still fit after lengthening or dropping its limit */
+function isWidening(from: ColumnInfo, to: ColumnInfo): boolean {
+  return from.dataType === to.dataType && from.udtName === to.udtName
+    && from.maxLength !== null && (to.maxLength === null || to.maxLength > from.maxLength);
+}
+
+function foreignKeyRef(fk: ForeignKey): string {
+  return `${fk.refSchema}.${fk.refTable}.${fk.refColumn}`;
+}
+
+function diffColumns(table: string, from: TableInfo, to: TableInfo): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const before = new Map(from.columns.map((c) => [c.name, c]));
+  const after = new Map(to.columns.map((c) => [c.name, c]));
+
+  for (const [name, col] of after) {
+    const old = before.get(name);
+    if (!old) {
+      // Inserts that omit a new required column start failing
+      const required = !col.isNullable && !col.hasDefault && !col.identity && !col.isGenerated;
+      changes.push({ kind: "column_added", table, column: name, to: columnType(col), breaking: required && supportsWrite(to, "insert") });
+      continue;
+    }
+    if (columnType(old) !== columnType(col)) {
+      changes.push({
+        kind: "column_type_changed", table, column: name,
+        from: columnType(old), to: columnType(col), breaking: !isWidening(old, col),
+      });
+    }
+    if (old.isNullable !== col.isNullable) {
+      // Writes of null start failing; readers were already handling non-null values
+      changes.push({
+        kind: "column_nullability_changed", table, column: name,
+        from: old.isNullable, to: col.isNullable, breaking: !col.isNullable,
+      });
+    }
+  }
+  for (const [name, col] of before) {
+    if (!after.has(name)) {
+      changes.push({ kind: "column_removed", table, column: name, from: columnType(col), breaking: true });
+    }
+  }
+  return changes;
+}
+
+function diffKeys(table: string, from: TableInfo, to: TableInfo): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  // Primary key order is part of composite-key URLs
+  if (from.primaryKeys.join(",") !== to.primaryKeys.join(",")) {
+    changes.push({ kind: "primary_key_changed", table, from: from.primaryKeys, to: to.primaryKeys, breaking: true });
+  }
+
+  const key = (fk: ForeignKey) => `${fk.column}->${foreignKeyRef(fk)}`;
+  const before = new Set(from.foreignKeys.map(key));
+  const after = new Set(to.foreignKeys.map(key));
+  for (const fk of to.foreignKeys) {
+    if (!before.has(key(fk))) {
+      changes.push({ kind: "foreign_key_added", table, column: fk.column, to: foreignKeyRef(fk), breaking: false });
+    }
+  }
+  // Embedding through a removed foreign key fails
+  for (const fk of from.foreignKeys) {
+    if (!after.has(key(fk))) {
+      changes.push({ kind: "foreign_key_removed", table, column: fk.column, from: foreignKeyRef(fk), breaking: true });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare the tables of two schemas: added and removed tables and columns,
+ * column type and nullability changes, primary keys and foreign keys. Each
+ * change is flagged breaking when clients of `from` can fail against `to`.
+ */
+export function diffSchemas(from: DatabaseSchema, to: DatabaseSchema): SchemaDiff {
+  const changes: SchemaChange[] = [];
+
+  for (const [fqn, table] of to.tables) {
+    const old = from.tables.get(fqn);
+    if (!old) {
+      changes.push({ kind: "table_added", table: tableLabel(table), breaking: false });
+      continue;
+    }
+    changes.push(...diffColumns(tableLabel(table), old, table), ...diffKeys(tableLabel(table), old, table));
+  }
+  for (const [fqn, table] of from.tables) {
+    if (!to.tables.has(fqn)) {
+      changes.push({ kind: "table_removed", table: tableLabel(table), breaking: true });
+    }
+  }
+
+  const fromHash = computeDatabaseHash(from);
+  const toHash = computeDatabaseHash(to);
+  return {
+    fromHash,
+    toHash,
+    changed: fromHash !== toHash,
+    breaking: changes.some((c) => c.breaking),
+    changes,
+  };
+}
+
+/** One-line description of a change, for CLI output */
+export function describeChange(change: SchemaChange): string {
+  const target = change.column ? `${change.table}.${change.column}` : change.table;
+  const fmt = (v: SchemaChange["from"]) =>
+    Array.isArray(v) ? `(${v.join(", ")})` : typeof v === "boolean" ? (v ? "NULL" : "NOT NULL") : String(v);
+
+  switch (change.kind) {
+    case "table_added":
+      return `+ table ${target}`;
+    case "table_removed":
+      return `- table ${target}`;
+    case "column_added":
+      return `+ column ${target} ${fmt(change.to)}`;
+    case "column_removed":
+      return `- column ${target} ${fmt(change.from)}`;
+    case "foreign_key_added":
+      return `+ foreign key ${target} → ${fmt(change.to)}`;
+    case "foreign_key_removed":
+      return `- foreign key ${target} → ${fmt(change.from)}`;
+    case "column_type_changed":
+      return `~ column ${target} type ${fmt(change.from)} → ${fmt(change.to)}`;
+    case "column_nullability_changed":
+      return `~ column ${target} ${fmt(change.from)} → ${fmt(change.to)}`;
+    case "primary_key_changed":
+      return `~ primary key ${target} ${fmt(change.from)} → ${fmt(change.to)}`;
+  }
+}
@@ -0,0 +1,139 @@
+import { Pool, PoolClient } from "pg";
+import { DatabaseSchema, introspectDatabase, computeDatabaseHash } from "./introspector.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ReloadResult {
+  /** False when the database still hashes the same as the schema being served */
+  changed: boolean;
+  databaseHash: string;
+  tables: number;
+  functions: number;
+}
+
+export interface SchemaReloaderOptions {
+  pool: Pool;
+  /** The schema being served at startup */
+  dbSchema: DatabaseSchema;
+  /** Start serving a changed schema. If it throws, the previous schema stays in place. */
+  apply: (dbSchema: DatabaseSchema, databaseHash: string) => Promise<void>;
+}
+
+export interface SchemaReloader {
+  /** Re-introspect and apply the schema if it changed */
+  reload(): Promise<ReloadResult>;
+  /** Check for changes every `seconds` */
+  poll(seconds: number): void;
+  /** Reload whenever a notification arrives on `channel` */
+  listen(channel: string): Promise<void>;
+  /** Stop polling and listening */
+  stop(): void;
+}
+
+const LISTEN_RETRY_MS = 5000;
+
+// ─── Reloader ────────────────────────────────────────────────────────
+
+/**
+ * Reloads the schema on demand, on a timer, or on NOTIFY. A reload requested
+ * while one is running waits for it and then runs once more, so DDL committed
+ * during an introspection is never missed; further requests share that run.
+ */
+export function createSchemaReloader(opts: SchemaReloaderOptions): SchemaReloader {
+  let currentHash = computeDatabaseHash(opts.dbSchema);
+  let running: Promise<ReloadResult> | null = null;
+  let queued: Promise<ReloadResult> | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let retry: NodeJS.Timeout | null = null;
+  let listener: PoolClient | null = null;
+  let stopped = false;
+
+  async function run(): Promise<ReloadResult> {
+    const dbSchema = await introspectDatabase(opts.pool);
+    const databaseHash = computeDatabaseHash(dbSchema);
+    const changed = databaseHash !== currentHash;
+    if (changed) {
+      await opts.apply(dbSchema, databaseHash);
+      currentHash = databaseHash;
+      console.log(`🔄 Schema reloaded: ${dbSchema.tables.size} tables, ${dbSchema.functions.size} functions`);
+    }
+    return { changed, databaseHash, tables: dbSchema.tables.size, functions: dbSchema.functions.size };
+  }
+
+  function reload(): Promise<ReloadResult> {
+    if (!running) {
+      running = run().finally(() => {
+        running = null;
+      });
+      return running;
+    }
+    queued ??= running.catch(() => undefined).then(() => {
+      queued = null;
+      return reload();
+    });
+    return queued;
+  }
+
+  /** Reload from a background trigger, where there is no caller to report a failure to */
+  function reloadInBackground(trigger: string): void {
+    reload().catch((err) => {
+      console.error(`❌ Schema reload (${trigger}) failed:`, (err as Error).message);
+    });
+  }
+
+  function poll(seconds: number): void {
+    timer = setInterval(() => reloadInBackground("poll"), seconds * 1000);
+    timer.unref();
+  }
+
+  /** Listen again after a lost connection, and reload in case DDL was missed meanwhile */
+  function relisten(channel: string): void {
+    if (stopped) return;
+    retry = setTimeout(() => {
+      listen(channel).then(
+        () => reloadInBackground("reconnect"),
+        (err) => {
+          console.error("❌ Schema reload listener could not reconnect:", (err as Error).message);
+          relisten(channel);
+        },
+      );
+    }, LISTEN_RETRY_MS);
+    retry.unref();
+  }
+
+  async function listen(channel: string): Promise<void> {
+    const client = await opts.pool.connect();
+    client.on("notification", (msg) => {
+      if (msg.channel === channel) reloadInBackground("notify");
+    });
+    client.on("error", (err) => {
+      // Failures while subscribing reject the LISTEN query below instead
+      if (listener !== client) return;
+      console.error("❌ Schema reload listener lost its connection:", err.message);
+      client.release(true);
+      listener = null;
+      relisten(channel);
+    });
+    try {
+      await client.query(`LISTEN "${channel.replaceAll('"', '""')}"`);
+    } catch (err) {
+      client.release(true);
+      throw err;
+    }
+    if (stopped) {
+      client.release(true);
+      return;
+    }
+    listener = client;
+  }
+
+  function stop(): void {
+    stopped = true;
+    if (timer) clearInterval(timer);
+    if (retry) clearTimeout(retry);
+    listener?.release(true);
+    listener = null;
+  }
+
+  return { reload, poll, listen, stop };
+}
@@ -0,0 +1,54 @@
+import type { FastifyRequest } from "fastify";
+import { config } from "../config.js";
+
+/**
+ * Who a request runs as in PostgreSQL, so that GRANTs and row-level security
+ * policies apply to the API key rather than the DATABASE_URL user.
+ */
+export interface DbSession {
+  /** Role to switch to for the transaction */
+  role?: string;
+  /** Settings readable with current_setting(), e.g. request.jwt.claims */
+  settings: Record<string, string>;
+}
+
+/**
+ * The session for a key: its signed role, else its label's role in
+ * API_KEY_ROLES (or the "*" entry), plus request.jwt.claims and
+ * app.api_key_label when DB_SESSION_CLAIMS is on. request.jwt.claims holds a
+ * JWT's own claims, or `{sub, role}` for a key. Undefined when there is
+ * nothing to set, or no key (auth disabled).
+ */
+export function resolveDbSession(
+  label: string | undefined,
+  keyRole?: string,
+  tokenClaims?: Record<string, unknown>,
+): DbSession | undefined {
+  if (label === undefined) return undefined;
+  const role = keyRole ?? config.keyRoles[label] ?? config.keyRoles["*"];
+  const claims = tokenClaims ?? { sub: label, ...(role ? { role } : {}) };
+  const settings: Record<string, string> = config.dbSessionClaims
+    ? { "request.jwt.claims": JSON.stringify(claims), "app.api_key_label": label }
+    : {};
+  if (!role && Object.keys(settings).length === 0) return undefined;
+  return { role, settings };
+}
+
+/** The session of an authenticated request */
+export function requestDbSession(request: FastifyRequest): DbSession | undefined {
+  return resolveDbSession(request.apiKeyLabel, request.apiKeyRole, request.apiKeyTokenClaims);
+}
+
+/**
+ * Apply a session for the rest of the current transaction. set_config with
+ * is_local = true is SET LOCAL with bound values, so role names and claims
+ * are never interpolated into SQL.
+ */
+export function buildSessionQuery(session: DbSession): { text: string; values: string[] } {
+  const entries = Object.entries(session.settings);
+  if (session.role) entries.unshift(["role", session.role]);
+  return {
+    text: `SELECT ${entries.map((_, i) => `set_config($${i * 2 + 1}, $${i * 2 + 2}, true)`).join(", ")}`,
+    values: entries.flat(),
+  };
+}
@@ -0,0 +1,41 @@
+import { Pool, PoolClient, QueryConfig, QueryResult } from "pg";
+import { DbSession, buildSessionQuery } from "./session.js";
+
+/** What routes and tools run their queries on: a pool, or a pool wrapped in a session */
+export interface Queryable {
+  query(query: QueryConfig): Promise<QueryResult>;
+}
+
+/**
+ * Run `fn` on a dedicated client between BEGIN and COMMIT, as `session` when
+ * one is given. Any error thrown by `fn` rolls the transaction back and is
+ * rethrown to the caller.
+ */
+export async function withTransaction<T>(
+  pool: Pool,
+  fn: (client: PoolClient) => Promise<T>,
+  session?: DbSession,
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    if (session) await client.query(buildSessionQuery(session));
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run each query as `session`, in a transaction of its own. Without a
+ * session, queries go straight to the pool.
+ */
+export function sessionPool(pool: Pool, session: DbSession | undefined): Queryable {
+  if (!session) return pool;
+  return { query: (query) => withTransaction(pool, (client) => client.query(query), session) };
+}
@@ -15,7 +15,11 @@ const PG_ERROR_MAP: Record<string, { status: number; error: string; message: str
   "22P02": { status: 400, error: "Invalid input", message: "Invalid data type provided" },
 };
 
-export function handleDbError(error: unknown, reply: FastifyReply) {
+/**
+ * Send the HTTP error for a PostgreSQL error. `context` is merged into the
+ * response body, e.g. the index of the failing batch operation.
+ */
+export function handleDbError(error: unknown, reply: FastifyReply, context: Record<string, unknown> = {}) {
   const err = error as PgError;
 
   const mapped = err.code ? PG_ERROR_MAP[err.code] : undefined;
@@ -28,6 +32,7 @@ export function handleDbError(error: unknown, reply: FastifyReply) {
         detail: err.detail ?? err.message,
         ...(err.constraint ? { constraint: err.constraint } : {}),
       } : {}),
+      ...context,
     });
   }
 
@@ -35,5 +40,6 @@ export function handleDbError(error: unknown, reply: FastifyReply) {
   return reply.status(500).send({
     error: "Internal server error",
     message: "An unexpected database error occurred",
+    ...context,
   });
 }
@@ -1,17 +1,26 @@
+import http from "node:http";
 import Fastify from "fastify";
 import cors from "@fastify/cors";
 import swagger from "@fastify/swagger";
 import swaggerUi from "@fastify/swagger-ui";
 import addFormats from "ajv-formats";
-import type { FastifyError } from "fastify";
+import type { FastifyBaseLogger, FastifyError, FastifyInstance } from "fastify";
 import { Pool } from "pg";
 import { config } from "./config.js";
 import { BUILD_VERSION, BUILD_GIT_HASH, BUILD_TIMESTAMP } from "./build-info.js";
-import { introspectDatabase, computeDatabaseHash } from "./db/introspector.js";
+import { introspectDatabase, computeDatabaseHash, DatabaseSchema } from "./db/introspector.js";
+import { createSchemaReloader, ReloadResult } from "./db/schema-reload.js";
 import { registerCrudRoutes } from "./routes/crud.js";
 import { registerSchemaRoutes } from "./routes/schema.js";
+import { registerBatchRoutes } from "./routes/batch.js";
+import { registerRpcRoutes } from "./routes/rpc.js";
+import { registerAdminRoutes } from "./routes/admin.js";
 import { registerAuthHook, verifyApiKey, extractApiKey } from "./auth/api-key.js";
-import { registerMcpRoutes } from "./mcp/routes.js";
+import { createRevocationList, RevocationList } from "./auth/revocation.js";
+import { registerRowFilterHook } from "./auth/scope.js";
+import { loadJwtVerifier } from "./auth/jwt.js";
+import type { TokenCheck } from "./auth/api-key.js";
+import { registerMcpRoutes, reloadMcpSessions, McpSessions } from "./mcp/routes.js";
 
 async function testDatabaseConnection(pool: Pool): Promise<void> {
   let client;
@@ -29,30 +38,26 @@ async function testDatabaseConnection(pool: Pool): Promise<void> {
   }
 }
 
-async function main() {
-  // ── Database connection ──
-  const pool = new Pool({
-    connectionString: config.databaseUrl,
-    statement_timeout: 30_000,
-  });
-
-  // Read replica pool (falls back to primary pool when DATABASE_READ_URL is not set)
-  const readPool = config.databaseReadUrl
-    ? new Pool({ connectionString: config.databaseReadUrl, statement_timeout: 30_000 })
-    : pool;
-
-  try {
+interface AppContext {
+  pool: Pool;
+  readPool: Pool;
+  /** MCP sessions outlive a reload: they move to the new schema instead of being dropped */
+  mcpSessions: McpSessions;
+  reload: () => Promise<ReloadResult>;
+  /** Revoked keys, when a revocation file or table is configured */
+  revocations?: RevocationList;
+  /** JWT verification, when a JWT secret or key is configured */
+  jwt?: TokenCheck;
+  logger?: FastifyBaseLogger;
+}
 
-  await testDatabaseConnection(pool);
-  if (config.databaseReadUrl) {
-    console.log("\n🔄 Testing read replica connection...");
-    await testDatabaseConnection(readPool);
-  }
-
-  // ── Introspect database ──
-  console.log("\n🔍 Introspecting database...");
-  const dbSchema = await introspectDatabase(pool);
-  const dbHash = computeDatabaseHash(dbSchema);
+/**
+ * Build a ready app serving one snapshot of the database schema. A schema
+ * reload builds a new app and swaps it in, so no route outlives its table.
+ */
+async function buildApp(dbSchema: DatabaseSchema, dbHash: string, ctx: AppContext): Promise<FastifyInstance> {
+  const { pool, readPool, revocations, jwt } = ctx;
+  const verifyOptions = { revocations, tokens: jwt };
 
   // ── Create Fastify server ──
   const isDev = process.env.NODE_ENV !== "production";
@@ -67,7 +72,8 @@ async function main() {
     : { level: "info" as const };
 
   const app = Fastify({
-    logger: loggerConfig,
+    // Reloads share the first app's logger rather than starting another transport
+    ...(ctx.logger ? { loggerInstance: ctx.logger } : { logger: loggerConfig }),
     bodyLimit: config.bodyLimit,
     ajv: {
       plugins: [addFormats] as never,
@@ -100,19 +106,13 @@ async function main() {
     origin: typeof config.corsOrigins === "string"
       ? config.corsOrigins.split(",").map((s) => s.trim())
       : config.corsOrigins,
+    exposedHeaders: ["ETag", "Last-Modified"],
   });
 
   // ── Authentication ──
   if (config.apiKeysEnabled) {
-    if (!config.apiSecret) {
-      console.error("❌ API_KEYS_ENABLED is true but API_SECRET is not set.");
-      console.error("   Set API_SECRET in .env or disable auth with API_KEYS_ENABLED=false");
-      process.exit(1);
-    }
-    registerAuthHook(app, config.apiSecret);
-    console.log("🔐 API key authentication enabled");
-  } else {
-    console.warn("⚠️  API key authentication is DISABLED");
+    registerAuthHook(app, config.apiSecrets, verifyOptions);
+    registerRowFilterHook(app, dbSchema);
   }
 
   // ── Swagger ──
@@ -127,7 +127,9 @@ async function main() {
         },
         tags: Array.from(dbSchema.tables.values()).map((t) => ({
           name: t.schema === "public" ? t.name : `${t.schema}.${t.name}`,
-          description: `CRUD operations for ${t.fqn}`,
+          description: t.description
+            ? `${t.description}\n\nCRUD operations for ${t.fqn}`
+            : `CRUD operations for ${t.fqn}`,
         })),
         ...(config.apiKeysEnabled
           ? {
@@ -136,7 +138,7 @@ async function main() {
                   bearerAuth: {
                     type: "http",
                     scheme: "bearer",
-                    description: "API key in format: pgcrud_{label}.{hmac}",
+                    description: "API key in format: pgcrud_{label}.{hmac}, or a JWT when JWT auth is configured",
                   },
                   apiKeyHeader: {
                     type: "apiKey",
@@ -200,7 +202,7 @@ async function main() {
           }, 500);
         `) as never, // Function type not assignable to swagger-ui's expected type
       },
-      ...(config.apiKeysEnabled && config.apiSecret
+      ...(config.apiKeysEnabled && (config.apiSecrets.length > 0 || jwt)
         ? {
             transformSpecification: (swaggerObject: Record<string, unknown>, request: { headers: Record<string, string | string[] | undefined> }) => {
               const authHeader = request.headers.authorization;
@@ -211,7 +213,7 @@ async function main() {
               } else if (typeof apiKeyHeader === "string") {
                 key = apiKeyHeader.trim();
               }
-              if (key && verifyApiKey(key, config.apiSecret!).valid) {
+              if (key && verifyApiKey(key, config.apiSecrets, verifyOptions).valid) {
                 return swaggerObject;
               }
               return {
@@ -248,9 +250,9 @@ async function main() {
 
       // Only expose table/schema details to authenticated requests
       const authenticated = !config.apiKeysEnabled
-        || (config.apiSecret && (() => {
+        || ((config.apiSecrets.length > 0 || jwt) && (() => {
           const key = extractApiKey(request);
-          return key ? verifyApiKey(key, config.apiSecret!).valid : false;
+          return key ? verifyApiKey(key, config.apiSecrets, verifyOptions).valid : false;
         })());
 
       if (authenticated) {
@@ -265,17 +267,108 @@ async function main() {
 
   // ── Register all CRUD routes ──
   console.log("\n🛤️  Registering routes...");
+  await registerCrudRoutes(app, pool, dbSchema, readPool);
+  await registerBatchRoutes(app, pool, dbSchema);
+  await registerRpcRoutes(app, pool, dbSchema, readPool);
+  await registerSchemaRoutes(app, dbSchema);
+  await registerAdminRoutes(app, ctx.reload, revocations);
+  await registerMcpRoutes(app, { pool, readPool, dbSchema, sessions: ctx.mcpSessions });
+
+  await app.ready();
+  return app;
+}
+
+async function main() {
+  // ── Database connection ──
+  const pool = new Pool({
+    connectionString: config.databaseUrl,
+    statement_timeout: 30_000,
+  });
+
+  // Read replica pool (falls back to primary pool when DATABASE_READ_URL is not set)
+  const readPool = config.databaseReadUrl
+    ? new Pool({ connectionString: config.databaseReadUrl, statement_timeout: 30_000 })
+    : pool;
+
+  try {
+
+  await testDatabaseConnection(pool);
+  if (config.databaseReadUrl) {
+    console.log("\n🔄 Testing read replica connection...");
+    await testDatabaseConnection(readPool);
+  }
+
+  // ── Introspect database ──
+  console.log("\n🔍 Introspecting database...");
+  const dbSchema = await introspectDatabase(pool);
+
+  // ── Authentication ──
+  const jwt = config.apiKeysEnabled
+    ? await loadJwtVerifier({
+      secret: config.jwtSecret,
+      publicKeyFile: config.jwtPublicKeyFile,
+      jwksFile: config.jwtJwksFile,
+      audience: config.jwtAudience,
+      issuer: config.jwtIssuer,
+      permissionsClaim: config.jwtPermissionsClaim,
+    })
+    : undefined;
+  if (config.apiKeysEnabled) {
+    if (config.apiSecrets.length === 0 && !jwt) {
+      console.error("❌ API_KEYS_ENABLED is true but neither API_SECRET, API_SECRETS nor a JWT secret or key is set.");
+      console.error("   Set API_SECRET in .env or disable auth with API_KEYS_ENABLED=false");
+      process.exit(1);
+    }
+    console.log("🔐 API key authentication enabled");
+    if (config.apiSecrets.length > 1) {
+      console.log(`🔑 Verifying keys with ${config.apiSecrets.length} secrets; new keys are signed with the first`);
+    }
+    if (jwt) {
+      console.log(`🎫 Accepting JWTs with permissions in the "${config.jwtPermissionsClaim}" claim`);
+    }
+  } else {
+    console.warn("⚠️  API key authentication is DISABLED");
+  }
   if (config.databaseReadUrl) {
     console.log("📖 Read replica enabled — GET requests will use the read pool");
   }
-  await registerCrudRoutes(app, pool, dbSchema, readPool);
-  await registerSchemaRoutes(app, dbSchema);
-  await registerMcpRoutes(app, { pool, readPool, dbSchema });
+
+  // ── Revocation list ──
+  const revocations = config.apiKeysEnabled && (config.apiKeyRevocationFile || config.apiKeyRevocationTable)
+    ? createRevocationList({ file: config.apiKeyRevocationFile, table: config.apiKeyRevocationTable, pool })
+    : undefined;
+  if (revocations) {
+    const { revoked } = await revocations.reload();
+    console.log(`🚫 Revocation list loaded: ${revoked} revoked labels and fingerprints`);
+  }
+
+  // ── Build the app, and rebuild it whenever the schema changes ──
+  const mcpSessions: McpSessions = new Map();
+  let app: FastifyInstance;
+  const reloader = createSchemaReloader({
+    pool,
+    dbSchema,
+    apply: async (newSchema, newHash) => {
+      const next = await buildApp(newSchema, newHash, { ...ctx, logger: app.log });
+      const previous = app;
+      app = next;
+      reloadMcpSessions(mcpSessions, newSchema);
+      await previous.close();
+    },
+  });
+  const ctx: AppContext = { pool, readPool, mcpSessions, reload: () => reloader.reload(), revocations, jwt };
+  app = await buildApp(dbSchema, computeDatabaseHash(dbSchema), ctx);
   console.log("🤖 MCP endpoint: /mcp (Streamable HTTP)");
 
   // ── Start server ──
+  // Every request goes to the app for the current schema
+  const server = http.createServer((req, res) => app.routing(req, res));
+  server.keepAliveTimeout = 72_000; // Fastify's default
   try {
-    await app.listen({ port: config.port, host: config.host });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(config.port, config.host, resolve);
+    });
     console.log(`\n🚀 Server running at http://${config.host}:${config.port}`);
     if (config.swaggerEnabled) {
       console.log(`📚 Swagger UI: http://localhost:${config.port}/docs`);
@@ -288,9 +381,26 @@ async function main() {
     process.exit(1);
   }
 
+  // ── Schema reload ──
+  if (config.schemaReloadInterval > 0) {
+    reloader.poll(config.schemaReloadInterval);
+    console.log(`🔄 Checking for schema changes every ${config.schemaReloadInterval}s`);
+  }
+  if (config.schemaReloadChannel) {
+    await reloader.listen(config.schemaReloadChannel);
+    console.log(`🔄 Reloading schema on NOTIFY ${config.schemaReloadChannel}`);
+  }
+  if (revocations && config.apiKeyRevocationInterval > 0) {
+    revocations.poll(config.apiKeyRevocationInterval);
+    console.log(`🚫 Reloading the revocation list every ${config.apiKeyRevocationInterval}s`);
+  }
+
   // ── Graceful shutdown ──
   const shutdown = async () => {
     console.log("\n🛑 Shutting down...");
+    reloader.stop();
+    revocations?.stop();
+    server.close();
     await app.close();
     await pool.end();
     if (readPool !== pool) await readPool.end();
@@ -5,8 +5,13 @@ import { Pool } from "pg";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { config } from "../config.js";
 import { introspectDatabase } from "../db/introspector.js";
-import { verifyApiKey, SchemaPermissions } from "../auth/api-key.js";
-import { createMcpServer } from "./server.js";
+import { verifyApiKey, SchemaPermissions, RowFilters, VerifyResult } from "../auth/api-key.js";
+import { createRevocationList, RevocationList } from "../auth/revocation.js";
+import { loadJwtVerifier } from "../auth/jwt.js";
+import { createSchemaReloader } from "../db/schema-reload.js";
+import { resolveDbSession, DbSession } from "../db/session.js";
+import { checkRowFilters } from "../auth/scope.js";
+import { createMcpServer, reloadMcpServer } from "./server.js";
 
 // Redirect console output to stderr so stdout stays clean for MCP JSON-RPC
 const originalLog = console.log;
@@ -17,6 +22,14 @@ console.warn = (...args: unknown[]) => originalWarn.call(console, ...args);
 console.log = (...args: unknown[]) => process.stderr.write(args.join(" ") + "\n");
 console.warn = (...args: unknown[]) => process.stderr.write(args.join(" ") + "\n");
 
+/** Longest time in seconds between checks of MCP_API_KEY while running */
+const KEY_CHECK_INTERVAL = 60;
+
+function describeRejection(result: VerifyResult): string {
+  const reasons = { expired: "has expired", not_yet_valid: "is not valid yet", revoked: "has been revoked" };
+  return result.reason ? reasons[result.reason] : "is invalid";
+}
+
 async function main(): Promise<void> {
   // ── Database connection ──
   const pool = new Pool({
@@ -48,6 +61,11 @@ async function main(): Promise<void> {
 
     // ── Resolve API key permissions ──
     let permissions: SchemaPermissions | null = null;
+    let rowFilters: RowFilters | undefined;
+    let session: DbSession | undefined;
+    let revocations: RevocationList | undefined;
+    /** Verifies MCP_API_KEY again, against the clock and the current revocation list */
+    let recheckKey: (() => VerifyResult) | undefined;
 
     if (config.apiKeysEnabled) {
       const mcpApiKey = process.env.MCP_API_KEY;
@@ -59,42 +77,91 @@ async function main(): Promise<void> {
         process.exit(1);
       }
 
-      if (!config.apiSecret) {
-        console.error("Error: API_KEYS_ENABLED is true but API_SECRET is not set.");
+      const jwt = await loadJwtVerifier({
+        secret: config.jwtSecret,
+        publicKeyFile: config.jwtPublicKeyFile,
+        jwksFile: config.jwtJwksFile,
+        audience: config.jwtAudience,
+        issuer: config.jwtIssuer,
+        permissionsClaim: config.jwtPermissionsClaim,
+      });
+      if (config.apiSecrets.length === 0 && !jwt) {
+        console.error("Error: API_KEYS_ENABLED is true but neither API_SECRET, API_SECRETS nor a JWT secret or key is set.");
         process.exit(1);
       }
 
-      const result = verifyApiKey(mcpApiKey, config.apiSecret);
+      revocations = config.apiKeyRevocationFile || config.apiKeyRevocationTable
+        ? createRevocationList({ file: config.apiKeyRevocationFile, table: config.apiKeyRevocationTable, pool })
+        : undefined;
+      await revocations?.reload();
+      const result = verifyApiKey(mcpApiKey, config.apiSecrets, { revocations, tokens: jwt });
       if (!result.valid) {
-        console.error("Error: MCP_API_KEY is invalid.");
+        console.error(`Error: MCP_API_KEY ${describeRejection(result)}.`);
         process.exit(1);
       }
+      recheckKey = () => verifyApiKey(mcpApiKey, config.apiSecrets, { revocations, tokens: jwt });
 
+      rowFilters = result.rowFilters;
+      if (rowFilters) {
+        const { errors, denied } = checkRowFilters(rowFilters, dbSchema);
+        for (const error of errors) console.warn(`⚠️  ${error}`);
+        if (denied.length > 0) console.warn(`⚠️  Row filters deny these tables, which lack the filtered columns: ${denied.join(", ")}`);
+      }
       permissions = result.permissions ?? null;
+      session = resolveDbSession(result.label, result.role, result.tokenClaims);
       console.log(`Authenticated as "${result.label}" (${permissions ? "scoped permissions" : "full access"})`);
+      if (session?.role) console.log(`Running queries as role "${session.role}"`);
     } else {
       console.log("API key authentication is disabled — full access granted");
     }
 
     // ── Create and start MCP server ──
-    const server = createMcpServer({ pool, readPool, dbSchema, permissions });
+    const server = createMcpServer({ pool, readPool, dbSchema, permissions, rowFilters, session });
 
     const transport = new StdioServerTransport();
     await server.connect(transport);
 
     console.log(`MCP server running (stdio transport, ${dbSchema.tables.size} tables)`);
 
+    // ── Schema reload ──
+    const reloader = createSchemaReloader({
+      pool,
+      dbSchema,
+      apply: async (newSchema) => reloadMcpServer(server, newSchema),
+    });
+    if (config.schemaReloadInterval > 0) reloader.poll(config.schemaReloadInterval);
+    if (config.schemaReloadChannel) await reloader.listen(config.schemaReloadChannel);
+
     // ── Graceful shutdown ──
-    const shutdown = async () => {
+    let keyTimer: NodeJS.Timeout | undefined;
+    const shutdown = async (code = 0) => {
       console.log("Shutting down MCP server...");
+      clearInterval(keyTimer);
+      revocations?.stop();
+      reloader.stop();
       await server.close();
       await pool.end();
       if (readPool !== pool) await readPool.end();
-      process.exit(0);
+      process.exit(code);
     };
 
-    process.on("SIGINT", shutdown);
-    process.on("SIGTERM", shutdown);
+    process.on("SIGINT", () => shutdown());
+    process.on("SIGTERM", () => shutdown());
+
+    // ── Key re-check: a key that expires or is revoked stops the server ──
+    if (config.apiKeyRevocationInterval > 0) revocations?.poll(config.apiKeyRevocationInterval);
+    if (recheckKey) {
+      const check = recheckKey;
+      // At least as often as the revocation list reloads
+      const seconds = Math.min(config.apiKeyRevocationInterval || KEY_CHECK_INTERVAL, KEY_CHECK_INTERVAL);
+      keyTimer = setInterval(() => {
+        const result = check();
+        if (!result.valid) {
+          console.error(`Error: MCP_API_KEY ${describeRejection(result)}.`);
+          void shutdown(1);
+        }
+      }, seconds * 1000);
+    }
   } catch (err) {
     console.error("Fatal error:", (err as Error).message);
     await pool.end().catch(() => {});
@@ -4,7 +4,8 @@ import { Pool } from "pg";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { DatabaseSchema } from "../db/introspector.js";
 import { SchemaPermissions } from "../auth/api-key.js";
-import { createMcpServer } from "./server.js";
+import { requestDbSession } from "../db/session.js";
+import { createMcpServer, reloadMcpServer } from "./server.js";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -12,6 +13,8 @@ export interface McpRouteOptions {
   pool: Pool;
   readPool: Pool;
   dbSchema: DatabaseSchema;
+  /** Open sessions, shared by the routes of every schema reload; a new map when omitted */
+  sessions?: McpSessions;
 }
 
 interface McpSession {
@@ -19,13 +22,24 @@ interface McpSession {
   server: ReturnType<typeof createMcpServer>;
 }
 
+export type McpSessions = Map<string, McpSession>;
+
+// ─── Schema Reload ───────────────────────────────────────────────────
+
+/** Move open sessions to a reloaded schema and notify their clients */
+export function reloadMcpSessions(sessions: McpSessions, dbSchema: DatabaseSchema): void {
+  for (const session of sessions.values()) {
+    reloadMcpServer(session.server, dbSchema);
+  }
+}
+
 // ─── Route Registration ──────────────────────────────────────────────
 
 export async function registerMcpRoutes(
   app: FastifyInstance,
   opts: McpRouteOptions,
 ): Promise<void> {
-  const sessions = new Map<string, McpSession>();
+  const sessions = opts.sessions ?? new Map<string, McpSession>();
   const mcpPath = "/mcp";
 
   // POST /mcp — Main JSON-RPC endpoint (initialization + requests)
@@ -54,6 +68,8 @@ export async function registerMcpRoutes(
         readPool: opts.readPool,
         dbSchema: opts.dbSchema,
         permissions,
+        rowFilters: request.apiKeyRowFilters,
+        session: requestDbSession(request),
       });
 
       await server.connect(transport);
@@ -1,21 +1,64 @@
 import { Pool } from "pg";
 import { z } from "zod";
-import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { DatabaseSchema, TableInfo } from "../db/introspector.js";
+import { McpServer, ResourceTemplate, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  DatabaseSchema,
+  TableInfo,
+  ColumnInfo,
+  FunctionInfo,
+  WriteOperation,
+  describeKind,
+  describeWriteLimit,
+  supportsWrite,
+} from "../db/introspector.js";
 import {
   buildSelectQuery,
-  buildCountQuery,
+  buildTotalQuery,
+  parseCountResult,
+  resolveCountStrategy,
+  buildCursorSelectQuery,
+  buildCursorPage,
   buildSelectByPkQuery,
   buildInsertQuery,
   buildBulkInsertQuery,
   buildUpdateQuery,
   buildDeleteQuery,
   hasSoftDelete,
+  parseExpand,
+  resolveConflictTarget,
+  buildRpcQuery,
+  parseRpcResult,
+  functionArgColumns,
+  isReadOnlyColumn,
   ListOptions,
+  Expansion,
+  UpsertOptions,
 } from "../db/query-builder.js";
-import { SchemaPermissions, hasPermission, hasAnyPermission } from "../auth/api-key.js";
-import { config } from "../config.js";
-import { mapPgType, buildAgentTable, buildApiInfo } from "../routes/schema.js";
+import {
+  Access,
+  ACCESS_NAMES,
+  SchemaPermissions,
+  RowFilters,
+  findMissingAccess,
+  hasPermission,
+  hasTableRules,
+  hasAnyTablePermission,
+} from "../auth/api-key.js";
+import {
+  scopeTable,
+  scopeTables,
+  scopeRows,
+  hasRowFilters,
+  findUnwritableColumn,
+  redactRows,
+  isColumnWritable,
+  denyUnfilterableTables,
+} from "../auth/scope.js";
+import { sessionPool, Queryable } from "../db/transaction.js";
+import { DbSession } from "../db/session.js";
+import { config, COUNT_STRATEGIES, CountStrategy } from "../config.js";
+import { mapPgType, buildScopedAgentTable, buildAgentFunction, buildApiInfo } from "../routes/schema.js";
+import { rpcAccess } from "../routes/rpc.js";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -24,12 +67,20 @@ export interface McpServerOptions {
   readPool: Pool;
   dbSchema: DatabaseSchema;
   permissions: SchemaPermissions | null;
+  /** Row filters of the key, if it has any */
+  rowFilters?: RowFilters;
+  /** Database role and settings every tool call runs with */
+  session?: DbSession;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
 const SEARCHABLE_TYPES = new Set(["varchar", "text", "char", "name"]);
 
+const EXPAND_DESCRIPTION =
+  'Related rows to embed through foreign keys, e.g. "customer,order_items(id,sku)". ' +
+  "Forward FKs embed an object, reverse FKs an array. describe_table lists the available relations.";
+
 function findTableByRoutePath(
   dbSchema: DatabaseSchema,
   routePath: string,
@@ -40,27 +91,81 @@ function findTableByRoutePath(
   return undefined;
 }
 
+/** The tables a key may access, as it sees them (without hidden columns) */
 function getAccessibleTables(
   dbSchema: DatabaseSchema,
   permissions: SchemaPermissions | null,
 ): TableInfo[] {
-  return Array.from(dbSchema.tables.values()).filter((t) =>
-    hasAnyPermission(permissions, t.schema),
-  );
+  return Array.from(dbSchema.tables.values())
+    .filter((t) => hasAnyTablePermission(permissions, t))
+    .map((t) => scopeTable(t, permissions));
+}
+
+function checkTablePermission(
+  permissions: SchemaPermissions | null,
+  table: TableInfo,
+  access: Access | Access[],
+): void {
+  const missing = findMissingAccess(permissions, table, Array.isArray(access) ? access : [access]);
+  if (missing) {
+    throw new Error(
+      `Permission denied: API key does not have ${ACCESS_NAMES[missing]} access on table "${table.schema}.${table.name}"`,
+    );
+  }
 }
 
-function checkPermission(
+function checkWritableColumns(
   permissions: SchemaPermissions | null,
-  schema: string,
-  access: "r" | "w",
+  table: TableInfo,
+  data: Record<string, unknown> | Record<string, unknown>[],
 ): void {
-  if (!hasPermission(permissions, schema, access)) {
+  const column = findUnwritableColumn(table, permissions, Array.isArray(data) ? data : [data]);
+  if (column) {
     throw new Error(
-      `Permission denied: API key does not have ${access === "r" ? "read" : "write"} access on schema "${schema}"`,
+      `Permission denied: API key does not have write access on column "${table.schema}.${table.name}.${column}"`,
     );
   }
 }
 
+/**
+ * Whether a key may call a function: it needs the function's access on the
+ * schema, and functions reach every table and row, past table rules and row
+ * filters.
+ */
+function isCallable(
+  fn: FunctionInfo,
+  permissions: SchemaPermissions | null,
+  rowFilters: RowFilters | undefined,
+): boolean {
+  return hasPermission(permissions, fn.schema, rpcAccess(fn)) &&
+    !hasTableRules(permissions, fn.schema) &&
+    !hasRowFilters(rowFilters);
+}
+
+function checkWritable(table: TableInfo, writes: WriteOperation[]): void {
+  const unsupported = writes.find((write) => !supportsWrite(table, write));
+  if (unsupported) {
+    throw new Error(`Table '${table.routePath}' is a ${describeWriteLimit(table, unsupported)}`);
+  }
+}
+
+function resolveExpand(
+  table: TableInfo,
+  dbSchema: DatabaseSchema,
+  permissions: SchemaPermissions | null,
+  rowFilters: RowFilters | undefined,
+  expand: string | undefined,
+): Expansion[] | undefined {
+  if (!expand) return undefined;
+  const expansions = parseExpand(
+    scopeTable(table, permissions, rowFilters),
+    scopeTables(dbSchema.tables, permissions, rowFilters),
+    expand,
+  );
+  for (const e of expansions) checkTablePermission(permissions, e.relation.table, "r");
+  return expansions;
+}
+
 function textResult(data: unknown): { content: Array<{ type: "text"; text: string }> } {
   return {
     content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
@@ -115,37 +220,76 @@ function formatPgError(error: unknown): string {
 
 // ─── Server Factory ──────────────────────────────────────────────────
 
+/** The schema a server works against; replaced by reloadMcpServer */
+interface SchemaState {
+  dbSchema: DatabaseSchema;
+  /** The key's permissions, denying the tables of dbSchema its row filters cannot pin */
+  permissions: SchemaPermissions | null;
+}
+
+interface ServerState extends SchemaState {
+  opts: McpServerOptions;
+  functionTools: RegisteredTool[];
+}
+
+const serverStates = new WeakMap<McpServer, ServerState>();
+
 export function createMcpServer(opts: McpServerOptions): McpServer {
-  const { pool, readPool, dbSchema, permissions } = opts;
+  const { dbSchema, rowFilters } = opts;
+  const pool = sessionPool(opts.pool, opts.session);
+  const readPool = sessionPool(opts.readPool, opts.session);
 
   const server = new McpServer({
     name: "pg-crud-api",
     version: "1.0.0",
   });
+  const permissions = denyUnfilterableTables(opts.permissions, rowFilters, dbSchema) ?? null;
+  const state: ServerState = { dbSchema, permissions, opts, functionTools: [] };
+  serverStates.set(server, state);
 
   // ── Tools ──────────────────────────────────────────────────────────
 
-  registerTools(server, pool, readPool, dbSchema, permissions);
+  registerTools(server, pool, readPool, state, rowFilters);
+  state.functionTools = registerFunctionTools(server, pool, readPool, dbSchema, permissions, rowFilters);
 
   // ── Resources ──────────────────────────────────────────────────────
 
-  registerResources(server, dbSchema, permissions);
+  registerResources(server, state, rowFilters);
 
   // ── Prompts ────────────────────────────────────────────────────────
 
-  registerPrompts(server, dbSchema, permissions);
+  registerPrompts(server, state);
 
   return server;
 }
 
+/**
+ * Switch a server to a reloaded schema: table tools, resources and prompts
+ * read it from the next call on, new tables the key's row filters cannot pin
+ * are denied, function tools are re-registered, and a connected client is
+ * told that the tool and resource lists changed.
+ */
+export function reloadMcpServer(server: McpServer, dbSchema: DatabaseSchema): void {
+  const state = serverStates.get(server)!;
+  const { pool, readPool, session, permissions, rowFilters } = state.opts;
+  state.dbSchema = dbSchema;
+  state.permissions = denyUnfilterableTables(permissions, rowFilters, dbSchema) ?? null;
+  for (const tool of state.functionTools) tool.remove();
+  state.functionTools = registerFunctionTools(
+    server, sessionPool(pool, session), sessionPool(readPool, session), dbSchema, state.permissions, rowFilters,
+  );
+  server.sendToolListChanged();
+  server.sendResourceListChanged();
+}
+
 // ─── Tool Registration ───────────────────────────────────────────────
 
 function registerTools(
   server: McpServer,
-  pool: Pool,
-  readPool: Pool,
-  dbSchema: DatabaseSchema,
-  permissions: SchemaPermissions | null,
+  pool: Queryable,
+  readPool: Queryable,
+  state: SchemaState,
+  rowFilters: RowFilters | undefined,
 ): void {
   // ── list_tables ──
   server.registerTool(
@@ -153,15 +297,18 @@ function registerTools(
     {
       title: "List Tables",
       description:
-        "List all accessible database tables with their schemas, primary keys, and column counts. " +
+        "List all accessible database tables with their schemas, descriptions, primary keys, and column counts. " +
         "Use this first to discover what tables are available.",
       annotations: { readOnlyHint: true },
     },
     async () => {
-      const tables = getAccessibleTables(dbSchema, permissions).map((t) => ({
+      const tables = getAccessibleTables(state.dbSchema, state.permissions).map((t) => ({
         name: t.name,
         schema: t.schema,
         routePath: t.routePath,
+        kind: t.kind,
+        writable: t.writable,
+        ...(t.description ? { description: t.description } : {}),
         primaryKeys: t.primaryKeys,
         columnCount: t.columns.length,
         hasPrimaryKey: t.primaryKeys.length > 0,
@@ -186,14 +333,14 @@ function registerTools(
       annotations: { readOnlyHint: true },
     },
     async ({ table: routePath }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
+      const table = findTableByRoutePath(state.dbSchema, routePath);
       if (!table) return errorResult(`Table '${routePath}' not found`);
 
-      if (!hasAnyPermission(permissions, table.schema)) {
-        return errorResult(`Permission denied: no access to schema "${table.schema}"`);
+      if (!hasAnyTablePermission(state.permissions, table)) {
+        return errorResult(`Permission denied: no access to table "${table.schema}.${table.name}"`);
       }
 
-      const agentTable = buildAgentTable(table, dbSchema.tables);
+      const agentTable = buildScopedAgentTable(table, state.dbSchema.tables, state.permissions);
       return textResult(agentTable);
     },
   );
@@ -207,7 +354,9 @@ function registerTools(
         "Query records from a table with optional filtering, pagination, sorting, and full-text search.\n\n" +
         "Filters use the format: { \"column\": \"operator:value\" }\n" +
         "Operators: eq, neq, gt, gte, lt, lte, like, ilike, is, in\n" +
-        "Examples: { \"status\": \"eq:active\" }, { \"age\": \"gte:18\" }, { \"name\": \"ilike:john\" }, { \"id\": \"in:1,2,3\" }, { \"deleted_at\": \"is:null\" }",
+        "Examples: { \"status\": \"eq:active\" }, { \"age\": \"gte:18\" }, { \"name\": \"ilike:john\" }, { \"id\": \"in:1,2,3\" }, { \"deleted_at\": \"is:null\" }\n\n" +
+        "For OR / NOT logic use filterGroups, each an expression of column.operator.value conditions:\n" +
+        "Examples: [\"or(status.eq.active,owner_id.eq.5)\"], [\"and(total.gte.100,not.or(status.eq.cancelled,status.eq.refunded))\"], [\"or(id.in.(1,2,3),name.eq.\\\"Smith, J\\\")\"]",
       inputSchema: {
         table: z.string().describe("Table route path (e.g., 'users')"),
         page: z.number().int().min(1).optional().describe("Page number (default: 1)"),
@@ -217,21 +366,30 @@ function registerTools(
         sortOrder: z.enum(["asc", "desc"]).optional().describe("Sort direction (default: asc)"),
         filters: z.record(z.string(), z.string()).optional()
           .describe('Filter conditions as { "column": "operator:value" }'),
+        filterGroups: z.array(z.string()).optional()
+          .describe('Boolean filter expressions, e.g. "or(status.eq.active,owner_id.eq.5)". Combined with filters using AND.'),
         search: z.string().optional().describe("Full-text search term (ILIKE across text columns)"),
         searchColumns: z.array(z.string()).optional()
           .describe("Columns to search in (defaults to all text/varchar columns)"),
         select: z.array(z.string()).optional().describe("Columns to return (defaults to all)"),
+        count: z.enum(COUNT_STRATEGIES as [CountStrategy, ...CountStrategy[]]).optional()
+          .describe('How to compute pagination.total: "exact", "estimated" (fast planner estimate) or "none" (skip counting). Defaults to the table\'s configured strategy.'),
+        cursor: z.string().optional()
+          .describe('Keyset pagination for large tables: pass "" for the first page, then the returned nextCursor. Skips the total count; page is ignored.'),
+        expand: z.string().optional()
+          .describe(EXPAND_DESCRIPTION),
       },
       annotations: { readOnlyHint: true },
     },
-    async ({ table: routePath, page, pageSize, sortBy, sortOrder, filters, search, searchColumns, select }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
+    async ({ table: routePath, page, pageSize, sortBy, sortOrder, filters, filterGroups, search, searchColumns, select, count, cursor, expand }) => {
+      const table = findTableByRoutePath(state.dbSchema, routePath);
       if (!table) return errorResult(`Table '${routePath}' not found`);
 
       try {
-        checkPermission(permissions, table.schema, "r");
+        checkTablePermission(state.permissions, table, "r");
+        const visible = scopeTable(table, state.permissions, rowFilters);
 
-        const defaultSearchColumns = table.columns
+        const defaultSearchColumns = visible.columns
           .filter((c) => SEARCHABLE_TYPES.has(c.udtName))
           .map((c) => c.name);
 
@@ -241,25 +399,44 @@ function registerTools(
           sortBy,
           sortOrder,
           filters: filters && Object.keys(filters).length > 0 ? filters : undefined,
+          filterGroups: filterGroups && filterGroups.length > 0 ? filterGroups : undefined,
           search,
           searchColumns: searchColumns ?? defaultSearchColumns,
           select,
+          cursor,
+          expand: resolveExpand(table, state.dbSchema, state.permissions, rowFilters, expand),
         };
 
+        if (opts.cursor !== undefined) {
+          const result = await readPool.query(buildCursorSelectQuery(visible, opts));
+          const cursorPage = buildCursorPage(visible, opts, result.rows);
+          return textResult({
+            data: redactRows(cursorPage.data, table, state.permissions, opts.expand),
+            pagination: {
+              pageSize: opts.pageSize!,
+              nextCursor: cursorPage.nextCursor,
+              hasMore: cursorPage.hasMore,
+            },
+          });
+        }
+
+        const countStrategy = resolveCountStrategy(table, count);
+        const totalQuery = buildTotalQuery(visible, opts, countStrategy);
         const [dataResult, countResult] = await Promise.all([
-          readPool.query(buildSelectQuery(table, opts)),
-          readPool.query(buildCountQuery(table, opts)),
+          readPool.query(buildSelectQuery(visible, opts)),
+          totalQuery ? readPool.query(totalQuery) : null,
         ]);
 
-        const total = Number.parseInt(countResult.rows[0].total, 10);
+        const { total, totalIsEstimate } = parseCountResult(countStrategy, countResult?.rows);
 
         return textResult({
-          data: dataResult.rows,
+          data: redactRows(dataResult.rows, table, state.permissions, opts.expand),
           pagination: {
             page: opts.page!,
             pageSize: opts.pageSize!,
             total,
-            totalPages: Math.ceil(total / opts.pageSize!),
+            totalPages: total === null ? null : Math.ceil(total / opts.pageSize!),
+            totalIsEstimate,
           },
         });
       } catch (error) {
@@ -279,11 +456,12 @@ function registerTools(
         table: z.string().describe("Table route path (e.g., 'users')"),
         id: z.string().describe("Primary key value (comma-separated for composite keys)"),
         select: z.array(z.string()).optional().describe("Columns to return (defaults to all)"),
+        expand: z.string().optional().describe(EXPAND_DESCRIPTION),
       },
       annotations: { readOnlyHint: true },
     },
-    async ({ table: routePath, id, select }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
+    async ({ table: routePath, id, select, expand }) => {
+      const table = findTableByRoutePath(state.dbSchema, routePath);
       if (!table) return errorResult(`Table '${routePath}' not found`);
 
       if (table.primaryKeys.length === 0) {
@@ -291,15 +469,18 @@ function registerTools(
       }
 
       try {
-        checkPermission(permissions, table.schema, "r");
+        checkTablePermission(state.permissions, table, "r");
         const pkValues = parsePkValues(table, id);
-        const result = await readPool.query(buildSelectByPkQuery(table, pkValues, select));
+        const expansions = resolveExpand(table, state.dbSchema, state.permissions, rowFilters, expand);
+        const result = await readPool.query(
+          buildSelectByPkQuery(scopeTable(table, state.permissions, rowFilters), pkValues, select, expansions),
+        );
 
         if (result.rows.length === 0) {
           return errorResult("Record not found");
         }
 
-        return textResult(result.rows[0]);
+        return textResult(redactRows(result.rows, table, state.permissions, expansions)[0]);
       } catch (error) {
         return errorResult(formatPgError(error));
       }
@@ -324,18 +505,21 @@ function registerTools(
       annotations: { readOnlyHint: false, destructiveHint: false },
     },
     async ({ table: routePath, data }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
+      const table = findTableByRoutePath(state.dbSchema, routePath);
       if (!table) return errorResult(`Table '${routePath}' not found`);
 
       try {
-        checkPermission(permissions, table.schema, "w");
+        checkTablePermission(state.permissions, table, Array.isArray(data) ? ["c", "b"] : "c");
+        checkWritable(table, ["insert"]);
+        checkWritableColumns(state.permissions, table, data);
+        const target = scopeRows(table, rowFilters);
 
         if (Array.isArray(data)) {
-          const result = await pool.query(buildBulkInsertQuery(table, data));
-          return textResult({ data: result.rows, count: result.rows.length });
+          const result = await pool.query(buildBulkInsertQuery(target, data));
+          return textResult({ data: redactRows(result.rows, table, state.permissions), count: result.rows.length });
         } else {
-          const result = await pool.query(buildInsertQuery(table, data));
-          return textResult(result.rows[0]);
+          const result = await pool.query(buildInsertQuery(target, data));
+          return textResult(redactRows(result.rows, table, state.permissions)[0]);
         }
       } catch (error) {
         return errorResult(formatPgError(error));
@@ -343,6 +527,61 @@ function registerTools(
     },
   );
 
+  // ── upsert_record ──
+  server.registerTool(
+    "upsert_record",
+    {
+      title: "Upsert Record",
+      description:
+        "Insert one or more records, resolving duplicates with ON CONFLICT. The conflict target defaults to the primary key; " +
+        "pass onConflict with the columns of a unique constraint or index (see describe_table) to match on those instead. " +
+        "action 'update' (default) overwrites the provided columns of the existing row; 'ignore' skips duplicates.",
+      inputSchema: {
+        table: z.string().describe("Table route path (e.g., 'users')"),
+        data: z.union([
+          z.record(z.string(), z.unknown()),
+          z.array(z.record(z.string(), z.unknown())).min(1).max(config.maxBulkInsertRows),
+        ]).describe("Record data (object or array of objects)"),
+        onConflict: z.array(z.string()).optional()
+          .describe("Conflict target columns: the primary key (default), a unique constraint or a unique index"),
+        action: z.enum(["update", "ignore"]).optional()
+          .describe("What to do with duplicates (default: update)"),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    },
+    async ({ table: routePath, data, onConflict, action }) => {
+      const table = findTableByRoutePath(state.dbSchema, routePath);
+      if (!table) return errorResult(`Table '${routePath}' not found`);
+
+      try {
+        // Merging duplicates updates existing rows
+        const accesses: Access[] = action === "ignore" ? ["c"] : ["c", "u"];
+        if (Array.isArray(data)) accesses.push("b");
+        checkTablePermission(state.permissions, table, accesses);
+        checkWritable(table, action === "ignore" ? ["insert"] : ["insert", "update"]);
+        checkWritableColumns(state.permissions, table, data);
+        const upsert: UpsertOptions = {
+          conflictColumns: resolveConflictTarget(table, onConflict),
+          action: action ?? "update",
+        };
+        const target = scopeRows(table, rowFilters);
+
+        if (Array.isArray(data)) {
+          const result = await pool.query(buildBulkInsertQuery(target, data, upsert));
+          return textResult({ data: redactRows(result.rows, table, state.permissions), count: result.rows.length });
+        }
+
+        const result = await pool.query(buildInsertQuery(target, data, upsert));
+        if (result.rows.length === 0) {
+          return textResult({ ignored: true, message: "A record with the same conflict key already exists" });
+        }
+        return textResult(redactRows(result.rows, table, state.permissions)[0]);
+      } catch (error) {
+        return errorResult(formatPgError(error));
+      }
+    },
+  );
+
   // ── update_record ──
   server.registerTool(
     "update_record",
@@ -350,16 +589,18 @@ function registerTools(
       title: "Update Record",
       description:
         "Update an existing record by primary key. Only provide the fields you want to change (partial update). " +
-        "Primary key columns cannot be updated. Returns the full updated record.",
+        "Primary key columns cannot be updated. Returns the full updated record. " +
+        "Pass expectedVersion (the __version returned by get_record) to fail instead of overwriting concurrent changes.",
       inputSchema: {
         table: z.string().describe("Table route path (e.g., 'users')"),
         id: z.string().describe("Primary key value (comma-separated for composite keys)"),
         data: z.record(z.string(), z.unknown()).describe("Fields to update (partial — only include changed fields)"),
+        expectedVersion: z.string().optional().describe("Only update if the record's __version still matches this value"),
       },
       annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
     },
-    async ({ table: routePath, id, data }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
+    async ({ table: routePath, id, data, expectedVersion }) => {
+      const table = findTableByRoutePath(state.dbSchema, routePath);
       if (!table) return errorResult(`Table '${routePath}' not found`);
 
       if (table.primaryKeys.length === 0) {
@@ -367,15 +608,23 @@ function registerTools(
       }
 
       try {
-        checkPermission(permissions, table.schema, "w");
+        checkTablePermission(state.permissions, table, "u");
+        checkWritable(table, ["update"]);
+        checkWritableColumns(state.permissions, table, data);
         const pkValues = parsePkValues(table, id);
-        const result = await pool.query(buildUpdateQuery(table, pkValues, data));
+        const expectedVersions = expectedVersion === undefined ? undefined : [expectedVersion];
+        const result = await pool.query(buildUpdateQuery(scopeRows(table, rowFilters), pkValues, data, expectedVersions));
 
         if (result.rows.length === 0) {
+          if (expectedVersions) {
+            return errorResult(
+              "Version mismatch: the record was modified or deleted since it was read. Fetch it again with get_record and retry.",
+            );
+          }
           return errorResult("Record not found");
         }
 
-        return textResult(result.rows[0]);
+        return textResult(redactRows(result.rows, table, state.permissions)[0]);
       } catch (error) {
         return errorResult(formatPgError(error));
       }
@@ -398,7 +647,7 @@ function registerTools(
       annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
     },
     async ({ table: routePath, id }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
+      const table = findTableByRoutePath(state.dbSchema, routePath);
       if (!table) return errorResult(`Table '${routePath}' not found`);
 
       if (table.primaryKeys.length === 0) {
@@ -406,15 +655,17 @@ function registerTools(
       }
 
       try {
-        checkPermission(permissions, table.schema, "w");
+        checkTablePermission(state.permissions, table, "d");
+        checkWritable(table, ["delete"]);
         const pkValues = parsePkValues(table, id);
-        const result = await pool.query(buildDeleteQuery(table, pkValues));
+        const result = await pool.query(buildDeleteQuery(scopeRows(table, rowFilters), pkValues));
 
         if (result.rows.length === 0) {
           return errorResult("Record not found");
         }
 
-        return textResult({ deleted: true, softDelete: hasSoftDelete(table), record: result.rows[0] });
+        const [record] = redactRows(result.rows, table, state.permissions);
+        return textResult({ deleted: true, softDelete: hasSoftDelete(table), record });
       } catch (error) {
         return errorResult(formatPgError(error));
       }
@@ -422,12 +673,84 @@ function registerTools(
   );
 }
 
-// ─── Resource Registration ───────────────────────────────────────────
+// ─── Function Tools ──────────────────────────────────────────────────
+
+function argZodType(column: ColumnInfo): z.ZodTypeAny {
+  let type: z.ZodTypeAny;
+  switch (mapPgType(column).type) {
+    case "integer":
+      type = z.number().int();
+      break;
+    case "number":
+      type = z.number();
+      break;
+    case "boolean":
+      type = z.boolean();
+      break;
+    case "object":
+      type = z.record(z.string(), z.unknown());
+      break;
+    case "array":
+      type = z.array(z.unknown());
+      break;
+    default:
+      type = z.string();
+  }
+  type = type.nullable().describe(column.dataType);
+  return column.hasDefault ? type.optional() : type;
+}
 
-function registerResources(
+/** One call_{schema}__{function} tool per function the key can call */
+function registerFunctionTools(
   server: McpServer,
+  pool: Queryable,
+  readPool: Queryable,
   dbSchema: DatabaseSchema,
   permissions: SchemaPermissions | null,
+  rowFilters: RowFilters | undefined,
+): RegisteredTool[] {
+  const tools: RegisteredTool[] = [];
+  for (const [, fn] of dbSchema.functions) {
+    if (!isCallable(fn, permissions, rowFilters)) continue;
+    const access = rpcAccess(fn);
+    const argsShape = Object.fromEntries(functionArgColumns(fn).map((c) => [c.name, argZodType(c)]));
+
+    tools.push(server.registerTool(
+      `call_${fn.routePath}`,
+      {
+        title: `Call ${fn.schema}.${fn.name}`,
+        description:
+          `Call the PostgreSQL function ${fn.schema}.${fn.name} (${fn.volatility}, returns ${fn.returnsSet ? "SETOF " : ""}${fn.returnType}). ` +
+          "Arguments are passed by name; omitted optional ones use their defaults." +
+          (fn.returnsSet ? " Results are paginated like list_records." : ""),
+        inputSchema: {
+          args: z.object(argsShape).describe("Function arguments keyed by name"),
+          page: z.number().int().min(1).optional().describe("Page number for set-returning functions (default: 1)"),
+          pageSize: z.number().int().min(1).max(config.maxPageSize).optional()
+            .describe(`Rows per page for set-returning functions (default: ${config.defaultPageSize})`),
+        },
+        annotations: { readOnlyHint: access === "r" },
+      },
+      async ({ args, page, pageSize }) => {
+        try {
+          const rpcPage = { page: page ?? 1, pageSize: pageSize ?? config.defaultPageSize };
+          const result = await (access === "w" ? pool : readPool).query(buildRpcQuery(fn, args, rpcPage));
+          return textResult(parseRpcResult(fn, result.rows, rpcPage));
+        } catch (error) {
+          return errorResult(formatPgError(error));
+        }
+      },
+    ));
+  }
+  return tools;
+}
+
+// ─── Resource Registration ───────────────────────────────────────────
+
+function registerResources(
+  server: McpServer,
+  state: SchemaState,
+  rowFilters: RowFilters | undefined,
 ): void {
   // ── Full database schema ──
   server.registerResource(
@@ -440,31 +763,32 @@ function registerResources(
     },
     async () => {
       const api = buildApiInfo();
-      const tables = getAccessibleTables(dbSchema, permissions).map((t) =>
-        buildAgentTable(t, dbSchema.tables),
-      );
+      const tables = Array.from(state.dbSchema.tables.values())
+        .filter((t) => hasAnyTablePermission(state.permissions, t))
+        .map((t) => buildScopedAgentTable(t, state.dbSchema.tables, state.permissions));
+      const functions = Array.from(state.dbSchema.functions.values())
+        .filter((fn) => isCallable(fn, state.permissions, rowFilters))
+        .map(buildAgentFunction);
 
       return {
         contents: [{
           uri: "db://schema",
           mimeType: "application/json",
-          text: JSON.stringify({ api, tables }, null, 2),
+          text: JSON.stringify({ api, tables, functions }, null, 2),
         }],
       };
     },
   );
 
   // ── Per-table schema ──
-  const tableList = getAccessibleTables(dbSchema, permissions);
-
   server.registerResource(
     "table-schema",
     new ResourceTemplate("db://tables/{table}", {
       list: async () => ({
-        resources: tableList.map((t) => ({
+        resources: getAccessibleTables(state.dbSchema, state.permissions).map((t) => ({
           uri: `db://tables/${t.routePath}`,
           name: t.name,
-          description: `Schema for ${t.fqn}`,
+          description: t.description ? `Schema for ${t.fqn}: ${t.description}` : `Schema for ${t.fqn}`,
           mimeType: "application/json",
         })),
       }),
@@ -475,8 +799,8 @@ function registerResources(
       mimeType: "application/json",
     },
     async (uri, { table: routePath }) => {
-      const table = findTableByRoutePath(dbSchema, routePath as string);
-      if (!table || !hasAnyPermission(permissions, table.schema)) {
+      const table = findTableByRoutePath(state.dbSchema, routePath as string);
+      if (!table || !hasAnyTablePermission(state.permissions, table)) {
         return {
           contents: [{
             uri: uri.href,
@@ -486,7 +810,7 @@ function registerResources(
         };
       }
 
-      const agentTable = buildAgentTable(table, dbSchema.tables);
+      const agentTable = buildScopedAgentTable(table, state.dbSchema.tables, state.permissions);
 
       return {
         contents: [{
@@ -503,8 +827,7 @@ function registerResources(
 
 function registerPrompts(
   server: McpServer,
-  dbSchema: DatabaseSchema,
-  permissions: SchemaPermissions | null,
+  state: SchemaState,
 ): void {
   // ── explore-database ──
   server.registerPrompt(
@@ -514,7 +837,7 @@ function registerPrompts(
       description: "Get an overview of the database and guidance on how to explore it using the available tools.",
     },
     async () => {
-      const tables = getAccessibleTables(dbSchema, permissions);
+      const tables = getAccessibleTables(state.dbSchema, state.permissions);
       const tableNames = tables.map((t) =>
         t.schema === "public" ? t.name : `${t.schema}.${t.name}`,
       );
@@ -532,6 +855,7 @@ function registerPrompts(
               `- list_records: Query records with filtering, pagination, sorting, and search\n` +
               `- get_record: Fetch a single record by primary key\n` +
               `- create_record: Insert new records\n` +
+              `- upsert_record: Insert or update records on a primary key / unique conflict\n` +
               `- update_record: Update existing records by primary key\n` +
               `- delete_record: Remove records by primary key\n\n` +
               `Please start by understanding the database structure, then help me work with the data.`,
@@ -552,8 +876,8 @@ function registerPrompts(
       },
     },
     async ({ table: routePath }) => {
-      const table = findTableByRoutePath(dbSchema, routePath);
-      if (!table || !hasAnyPermission(permissions, table.schema)) {
+      const found = findTableByRoutePath(state.dbSchema, routePath);
+      if (!found || !hasAnyTablePermission(state.permissions, found)) {
         return {
           messages: [{
             role: "user",
@@ -565,6 +889,7 @@ function registerPrompts(
         };
       }
 
+      const table = scopeTable(found, state.permissions);
       const hasPk = table.primaryKeys.length > 0;
       const searchableCols = table.columns
         .filter((c) => SEARCHABLE_TYPES.has(c.udtName))
@@ -572,17 +897,31 @@ function registerPrompts(
       const requiredInsertCols = table.columns
         .filter((c) => !c.isNullable && !c.hasDefault)
         .map((c) => `${c.name} (${c.dataType})`);
+      const readOnlyCols = table.columns
+        .filter(isReadOnlyColumn)
+        .map((c) => `${c.name} (${c.isGenerated ? "generated" : "identity"})`);
+      const keyReadOnlyCols = table.columns
+        .filter((c) => !isColumnWritable(table, state.permissions, c.name))
+        .map((c) => c.name);
 
       const operations = [`- LIST: list_records with table="${routePath}"`];
       if (hasPk) {
         operations.push(`- GET: get_record with table="${routePath}" and id="<pk_value>"`);
       }
-      operations.push(`- CREATE: create_record with table="${routePath}" and data={...}`);
-      if (hasPk) {
+      if (supportsWrite(table, "insert")) {
+        operations.push(`- CREATE: create_record with table="${routePath}" and data={...}`);
+      }
+      if (hasPk && supportsWrite(table, "update")) {
         operations.push(`- UPDATE: update_record with table="${routePath}", id="<pk_value>", data={...}`);
+      }
+      if (hasPk && supportsWrite(table, "delete")) {
         operations.push(`- DELETE: delete_record with table="${routePath}" and id="<pk_value>"`);
       }
 
+      const columnNotes = table.columns
+        .filter((c) => c.description)
+        .map((c) => `  - ${c.name}: ${c.description}`);
+
       const fkInfo = table.foreignKeys.length > 0
         ? `\nForeign keys:\n${table.foreignKeys.map((fk) => `  - ${fk.column} → ${fk.refSchema}.${fk.refTable}.${fk.refColumn}`).join("\n")}`
         : "";
@@ -598,9 +937,14 @@ function registerPrompts(
             type: "text",
             text:
               `Guide for table "${table.schema}"."${table.name}" (route: ${routePath}):\n\n` +
+              (table.description ? `${table.description}\n\n` : "") +
+              (table.writable ? "" : `Read-only ${describeKind(table)}: records cannot be created, updated or deleted.\n`) +
               `Primary keys: ${hasPk ? table.primaryKeys.join(", ") : "NONE (read/list only)"}\n` +
               `Columns: ${table.columns.length}\n` +
               `Required for insert: ${requiredInsertCols.length > 0 ? requiredInsertCols.join(", ") : "none (all have defaults or are nullable)"}` +
+              (readOnlyCols.length > 0 ? `\nSet by the database (omit from data): ${readOnlyCols.join(", ")}` : "") +
+              (keyReadOnlyCols.length > 0 ? `\nRead-only for this API key (omit from data): ${keyReadOnlyCols.join(", ")}` : "") +
+              (columnNotes.length > 0 ? `\nColumn notes:\n${columnNotes.join("\n")}` : "") +
               fkInfo + searchInfo +
               `\n\nAvailable operations:\n${operations.join("\n")}\n\n` +
               `Filter examples for list_records:\n` +
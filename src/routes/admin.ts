@@ -0,0 +1,90 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { ReloadResult } from "../db/schema-reload.js";
+import { hasFullAccess } from "../auth/api-key.js";
+import { RevocationList } from "../auth/revocation.js";
+import { errorSchema } from "./crud.js";
+
+// ─── Route Registration ──────────────────────────────────────────────
+
+export async function registerAdminRoutes(
+  app: FastifyInstance,
+  reload: () => Promise<ReloadResult>,
+  revocations?: RevocationList,
+): Promise<void> {
+  app.post("/api/_admin/reload", {
+    schema: {
+      tags: ["admin"],
+      summary: "Reload the database schema",
+      description:
+        "Re-introspect the database and, if the schema hash changed, serve the new tables, functions and Swagger spec " +
+        "and notify MCP sessions. Requires a key with access to all schemas (legacy key or \"*\": \"rw\").",
+      response: {
+        200: {
+          description: "Schema checked",
+          type: "object",
+          properties: {
+            changed: { type: "boolean" },
+            databaseHash: { type: "string" },
+            tables: { type: "integer" },
+            functions: { type: "integer" },
+          },
+        },
+        401: errorSchema("Unauthorized"),
+        403: errorSchema("Forbidden"),
+        500: errorSchema("Reload failed — the previous schema is still served"),
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!hasFullAccess(request.apiKeyPermissions)) {
+        return reply.status(403).send({
+          error: "Forbidden",
+          message: 'Reloading the schema requires an API key with access to all schemas ("*": "rw").',
+        });
+      }
+      try {
+        return await reload();
+      } catch (error) {
+        request.log.error(error, "Schema reload failed");
+        return reply.status(500).send({ error: "Reload failed", message: (error as Error).message });
+      }
+    },
+  });
+
+  if (!revocations) return;
+
+  app.post("/api/_admin/revocations/reload", {
+    schema: {
+      tags: ["admin"],
+      summary: "Reload the API key revocation list",
+      description:
+        "Re-read the revocation file and table. Keys revoked by label or fingerprint are rejected from the next request on. " +
+        "Requires a key with access to all schemas (legacy key or \"*\": \"rw\").",
+      response: {
+        200: {
+          description: "Revocation list reloaded",
+          type: "object",
+          properties: {
+            revoked: { type: "integer", description: "Revoked labels and fingerprints" },
+          },
+        },
+        401: errorSchema("Unauthorized"),
+        403: errorSchema("Forbidden"),
+        500: errorSchema("Reload failed — the previous list is still used"),
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!hasFullAccess(request.apiKeyPermissions)) {
+        return reply.status(403).send({
+          error: "Forbidden",
+          message: 'Reloading the revocation list requires an API key with access to all schemas ("*": "rw").',
+        });
+      }
+      try {
+        return await revocations.reload();
+      } catch (error) {
+        request.log.error(error, "Revocation list reload failed");
+        return reply.status(500).send({ error: "Reload failed", message: (error as Error).message });
+      }
+    },
+  });
+}
@@ -0,0 +1,285 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Pool } from "pg";
+import { DatabaseSchema, TableInfo, WriteOperation, supportsWrite, describeWriteLimit } from "../db/introspector.js";
+import {
+  buildInsertQuery,
+  buildBulkInsertQuery,
+  buildUpdateQuery,
+  buildDeleteQuery,
+  resolveConflictTarget,
+  VERSION_COLUMN,
+  QueryResult,
+} from "../db/query-builder.js";
+import { withTransaction } from "../db/transaction.js";
+import { requestDbSession } from "../db/session.js";
+import { config } from "../config.js";
+import { Access, ACCESS_NAMES, findMissingAccess } from "../auth/api-key.js";
+import { findUnwritableColumn, redactRows, scopeRows } from "../auth/scope.js";
+import { buildPkParams, errorSchema, findTable, handleRouteError } from "./crud.js";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+type BatchOp = "insert" | "upsert" | "update" | "delete";
+
+interface BatchOperation {
+  op: BatchOp;
+  /** Route path of the table, e.g. "orders" or "billing__invoices" */
+  table: string;
+  /** Primary key for update/delete, in URL form ("42" or "1,2" for composite keys) */
+  id?: string;
+  data?: Record<string, unknown> | Record<string, unknown>[];
+  onConflict?: string[];
+  action?: "update" | "ignore";
+}
+
+interface BatchResult {
+  op: BatchOp;
+  table: string;
+  data: Record<string, unknown>[];
+  count: number;
+}
+
+// ─── References ──────────────────────────────────────────────────────
+
+const REFERENCE_PATTERN = /^\$(\d+)\.(\w+)$/;
+
+/**
+ * Replace a "$N.column" string with that column of the first row returned by
+ * operation N. Any other value is returned unchanged.
+ */
+function resolveReference(value: unknown, results: BatchResult[]): unknown {
+  if (typeof value !== "string") return value;
+  const match = REFERENCE_PATTERN.exec(value);
+  if (!match) return value;
+
+  const [, indexStr, column] = match;
+  const index = Number(indexStr);
+  if (index >= results.length) {
+    throw new Error(`Reference ${value} points to operation ${index}, which has not run yet; only earlier operations can be referenced`);
+  }
+  const row = results[index].data[0];
+  if (!row) {
+    throw new Error(`Reference ${value} points to operation ${index}, which returned no rows`);
+  }
+  if (!(column in row)) {
+    throw new Error(`Reference ${value}: operation ${index} returned no column '${column}'`);
+  }
+  return row[column];
+}
+
+function resolveRow(row: Record<string, unknown>, results: BatchResult[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([k, v]) => [k, resolveReference(v, results)]));
+}
+
+function resolveId(id: string, results: BatchResult[]): string {
+  return id.split(",").map((part) => String(resolveReference(part.trim(), results))).join(",");
+}
+
+// ─── Operation Execution ─────────────────────────────────────────────
+
+/** Scopes an operation needs: its own (plus update for merging upserts), then the batch scope */
+function operationAccess(operation: BatchOperation): Access[] {
+  switch (operation.op) {
+    case "insert":
+      return ["c", "b"];
+    case "upsert":
+      return operation.action === "ignore" ? ["c", "b"] : ["c", "u", "b"];
+    case "update":
+      return ["u", "b"];
+    case "delete":
+      return ["d", "b"];
+  }
+}
+
+/** Writes an operation runs: merging upserts update as well as insert */
+function operationWrites(operation: BatchOperation): WriteOperation[] {
+  switch (operation.op) {
+    case "insert":
+      return ["insert"];
+    case "upsert":
+      return operation.action === "ignore" ? ["insert"] : ["insert", "update"];
+    case "update":
+      return ["update"];
+    case "delete":
+      return ["delete"];
+  }
+}
+
+/**
+ * Build the SQL for one operation after resolving references to earlier
+ * results. Validation errors are thrown and reported against the operation.
+ */
+function buildOperationQuery(table: TableInfo, operation: BatchOperation, results: BatchResult[]): QueryResult {
+  if (operation.op === "insert" || operation.op === "upsert") {
+    if (!operation.data) throw new Error(`${operation.op} requires data`);
+    const upsert = operation.op === "upsert"
+      ? { conflictColumns: resolveConflictTarget(table, operation.onConflict), action: operation.action ?? "update" }
+      : undefined;
+    return Array.isArray(operation.data)
+      ? buildBulkInsertQuery(table, operation.data.map((row) => resolveRow(row, results)), upsert)
+      : buildInsertQuery(table, resolveRow(operation.data, results), upsert);
+  }
+
+  if (table.primaryKeys.length === 0) {
+    throw new Error(`${operation.op} requires a primary key, but ${table.name} has none`);
+  }
+  if (operation.id === undefined) throw new Error(`${operation.op} requires id`);
+  const pkValues = buildPkParams(table, { id: resolveId(operation.id, results) });
+  if (!pkValues) {
+    throw new Error(`Composite primary key expects ${table.primaryKeys.length} values (${table.primaryKeys.join(",")})`);
+  }
+
+  if (operation.op === "delete") return buildDeleteQuery(table, pkValues);
+  if (!operation.data || Array.isArray(operation.data)) throw new Error("update requires a data object");
+  return buildUpdateQuery(table, pkValues, resolveRow(operation.data, results));
+}
+
+// ─── Route Registration ──────────────────────────────────────────────
+
+function batchErrorSchema(description: string) {
+  const schema = errorSchema(description);
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      operation: { type: "integer", description: "Index of the operation that failed" },
+    },
+  };
+}
+
+export async function registerBatchRoutes(
+  app: FastifyInstance,
+  pool: Pool,
+  dbSchema: DatabaseSchema,
+): Promise<void> {
+  const rowSchema = { type: "object", additionalProperties: true };
+
+  app.post("/api/_batch", {
+    schema: {
+      tags: ["batch"],
+      summary: "Run insert/upsert/update/delete operations atomically",
+      description: 'Operations run in order in one transaction; any failure rolls back all of them. String values of the form "$N.column" are replaced with that column of the first row returned by operation N.',
+      body: {
+        type: "object",
+        required: ["operations"],
+        properties: {
+          operations: {
+            type: "array",
+            minItems: 1,
+            maxItems: config.maxBatchOperations,
+            items: {
+              type: "object",
+              required: ["op", "table"],
+              properties: {
+                op: { type: "string", enum: ["insert", "upsert", "update", "delete"] },
+                table: { type: "string", description: "Table route path, e.g. orders or billing__invoices" },
+                id: { type: "string", description: 'Primary key for update/delete ("1,2" for composite keys); may be a reference like "$0.id"' },
+                data: {
+                  oneOf: [
+                    rowSchema,
+                    { type: "array", items: rowSchema, minItems: 1, maxItems: config.maxBulkInsertRows },
+                  ],
+                },
+                onConflict: { type: "array", items: { type: "string" }, description: "Upsert conflict target; defaults to the primary key" },
+                action: { type: "string", enum: ["update", "ignore"], description: "Upsert duplicate handling (default: update)" },
+              },
+            },
+          },
+        },
+      },
+      response: {
+        200: {
+          description: "All operations committed",
+          type: "object",
+          properties: {
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  op: { type: "string" },
+                  table: { type: "string" },
+                  data: { type: "array", items: rowSchema },
+                  count: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+        400: batchErrorSchema("Invalid operation; nothing was committed"),
+        401: errorSchema("Unauthorized"),
+        403: batchErrorSchema("Forbidden"),
+        404: batchErrorSchema("Table or record not found; nothing was committed"),
+        409: batchErrorSchema("Conflict — duplicate key; nothing was committed"),
+      },
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { operations } = request.body as { operations: BatchOperation[] };
+
+      // Resolve tables and check permissions before opening a transaction
+      const tables: TableInfo[] = [];
+      for (const [index, operation] of operations.entries()) {
+        const table = findTable(dbSchema, operation.table);
+        if (!table) {
+          return reply.status(404).send({ error: "Not found", message: `Table '${operation.table}' not found`, operation: index });
+        }
+        const missing = findMissingAccess(request.apiKeyPermissions, table, operationAccess(operation));
+        if (missing) {
+          return reply.status(403).send({
+            error: "Forbidden",
+            message: `API key does not have ${ACCESS_NAMES[missing]} permission on table "${table.schema}.${table.name}".`,
+            operation: index,
+          });
+        }
+        const data = operation.data ?? [];
+        const unwritable = findUnwritableColumn(table, request.apiKeyPermissions, Array.isArray(data) ? data : [data]);
+        if (unwritable) {
+          return reply.status(403).send({
+            error: "Forbidden",
+            message: `API key does not have write permission on column "${table.schema}.${table.name}.${unwritable}".`,
+            operation: index,
+          });
+        }
+        const unsupported = operationWrites(operation).find((write) => !supportsWrite(table, write));
+        if (unsupported) {
+          return reply.status(400).send({
+            error: "Bad request",
+            message: `'${operation.table}' is a ${describeWriteLimit(table, unsupported)}`,
+            operation: index,
+          });
+        }
+        tables.push(scopeRows(table, request.apiKeyRowFilters));
+      }
+
+      const results: BatchResult[] = [];
+      let index = 0;
+      let missing = false;
+      try {
+        await withTransaction(pool, async (client) => {
+          for (; index < operations.length; index++) {
+            const operation = operations[index];
+            const result = await client.query(buildOperationQuery(tables[index], operation, results));
+            if (result.rows.length === 0 && (operation.op === "update" || operation.op === "delete")) {
+              missing = true;
+              throw new Error(`Record not found in ${tables[index].name}`);
+            }
+            // Single-row update/delete return the row version for ETags; batches don't use it
+            const rows = redactRows(
+              result.rows.map(({ [VERSION_COLUMN]: _version, ...row }) => row),
+              tables[index],
+              request.apiKeyPermissions,
+            );
+            results.push({ op: operation.op, table: operation.table, data: rows, count: rows.length });
+          }
+        }, requestDbSession(request));
+      } catch (error) {
+        if (missing) {
+          return reply.status(404).send({ error: "Record not found", message: (error as Error).message, operation: index });
+        }
+        return handleRouteError(error, reply, { operation: index });
+      }
+
+      return { results };
+    },
+  });
+}
@@ -1,21 +1,62 @@
+import { createHash } from "node:crypto";
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { Pool } from "pg";
-import { DatabaseSchema, TableInfo } from "../db/introspector.js";
+import { DatabaseSchema, TableInfo, introspectDatabase, supportsWrite, describeWriteLimit } from "../db/introspector.js";
+import { diffSchemas } from "../db/schema-diff.js";
 import {
   buildSelectQuery,
-  buildCountQuery,
-  buildSelectByPkQuery,
+  buildTotalQuery,
+  parseCountResult,
+  resolveCountStrategy,
+  buildCursorSelectQuery,
+  buildCursorPage,
+  buildSelectByKeyQuery,
   buildInsertQuery,
   buildBulkInsertQuery,
   buildUpdateQuery,
   buildDeleteQuery,
+  buildBulkUpdateQuery,
+  buildBulkDeleteQuery,
+  buildRefreshQuery,
   hasSoftDelete,
+  hasUpdatedAt,
   pgTypeToJsonSchema,
+  isReadOnlyColumn,
+  listRelations,
+  listNestedRelations,
+  listUniqueKeyColumns,
+  listIndexedColumns,
+  parseExpand,
+  resolveConflictTarget,
+  listConflictTargets,
+  VERSION_COLUMN,
   ListOptions,
+  BulkFilter,
+  QueryResult,
+  Relation,
+  UpsertOptions,
 } from "../db/query-builder.js";
-import { config } from "../config.js";
+import { withTransaction, sessionPool } from "../db/transaction.js";
+import { requestDbSession } from "../db/session.js";
+import { config, COUNT_STRATEGIES } from "../config.js";
 import { handleDbError } from "../errors/pg-errors.js";
-import { hasPermission, hasAnyPermission } from "../auth/api-key.js";
+import {
+  Access,
+  ACCESS_NAMES,
+  TableRef,
+  findMissingAccess,
+  hasTablePermission,
+  hasAnyTablePermission,
+  hasFullAccess,
+} from "../auth/api-key.js";
+import {
+  scopeTable,
+  scopeTables,
+  scopeRows,
+  scopeDatabaseSchema,
+  findUnwritableColumn,
+  redactRows,
+} from "../auth/scope.js";
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
@@ -24,6 +65,155 @@ export function parseCommaSeparated(value: unknown): string[] {
   return String(value).split(",").map((s) => s.trim()).filter(Boolean);
 }
 
+/** Collect `filter.{column}` query params keyed by column name */
+function extractFilters(query: Record<string, unknown>): Record<string, unknown> | undefined {
+  const filters: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (key.startsWith("filter.")) {
+      filters[key.slice(7)] = value;
+    }
+  }
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+const FILTER_GROUP_PARAMS = ["or", "and", "not.or", "not.and"];
+
+/** Querystring schema of a filter group param, which may repeat */
+function filterGroupParamSchema(description: string) {
+  return { anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }], description };
+}
+
+/**
+ * Collect boolean filter groups from `or=(...)`, `and=(...)`, `not.or=(...)`
+ * and `not.and=(...)` query params as expressions like "or(a.eq.1,b.eq.2)".
+ * Repeated params produce one expression each.
+ */
+export function extractFilterGroups(query: Record<string, unknown>): string[] | undefined {
+  const groups: string[] = [];
+  for (const key of FILTER_GROUP_PARAMS) {
+    const raw = query[key];
+    if (raw === undefined) continue;
+    const values = Array.isArray(raw) ? raw : [raw];
+    for (const value of values) {
+      const group = String(value).trim();
+      if (!group.startsWith("(")) {
+        throw new Error(`Filter group '${key}' must be wrapped in parentheses, e.g. ${key}=(a.eq.1,b.eq.2)`);
+      }
+      groups.push(`${key}${group}`);
+    }
+  }
+  return groups.length > 0 ? groups : undefined;
+}
+
+/**
+ * Read upsert options from `Prefer: resolution=merge-duplicates` (or
+ * `ignore-duplicates`) and `onConflict=col1,col2`. Either one turns a POST
+ * into an upsert; `onConflict` alone merges. Returns undefined for a plain insert.
+ */
+export function parseUpsertOptions(
+  table: TableInfo,
+  headers: Record<string, unknown>,
+  query: Record<string, unknown>,
+): UpsertOptions | undefined {
+  const prefer = headers.prefer === undefined ? "" : String(headers.prefer);
+  const resolution = /(?:^|[\s,;])resolution=(merge-duplicates|ignore-duplicates)\b/.exec(prefer)?.[1];
+  const onConflict = query.onConflict ? parseCommaSeparated(query.onConflict) : undefined;
+  if (!resolution && !onConflict) return undefined;
+
+  return {
+    conflictColumns: resolveConflictTarget(table, onConflict),
+    action: resolution === "ignore-duplicates" ? "ignore" : "update",
+  };
+}
+
+/**
+ * Read the versions listed in an If-Match header, e.g. `"123", "456"`.
+ * Returns undefined when the header is absent or `*` (any version). Weak tags
+ * never match, since If-Match uses strong comparison.
+ */
+export function parseIfMatch(header: unknown): string[] | undefined {
+  if (header === undefined || String(header).trim() === "*") return undefined;
+  return String(header)
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.startsWith('"') && tag.endsWith('"') && tag.length >= 2)
+    .map((tag) => tag.slice(1, -1));
+}
+
+/** Set the ETag header from the row version returned by single-row queries */
+function sendWithETag(reply: FastifyReply, row: Record<string, unknown>) {
+  reply.header("ETag", `"${row[VERSION_COLUMN]}"`);
+  return row;
+}
+
+// ─── Conditional GET / caching ───────────────────────────────────────
+
+/** Weak ETag over the response payload: equal JSON means an equivalent representation */
+export function weakETag(payload: unknown): string {
+  return `W/"${createHash("sha1").update(JSON.stringify(payload)).digest("base64url")}"`;
+}
+
+/** Latest `updated_at` among the rows, or undefined when the table has none */
+export function lastModifiedOf(table: TableInfo, rows: Record<string, unknown>[]): Date | undefined {
+  if (!hasUpdatedAt(table)) return undefined;
+  const times = rows
+    .map((row) => row.updated_at)
+    .filter((value) => value !== null && value !== undefined)
+    .map((value) => new Date(value as string | Date).getTime())
+    .filter((time) => !Number.isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+}
+
+/**
+ * Whether a GET can be answered with 304. If-None-Match uses weak comparison
+ * and takes precedence; If-Modified-Since is only consulted without it.
+ */
+export function isNotModified(
+  headers: Record<string, unknown>,
+  etag: string,
+  lastModified?: Date,
+): boolean {
+  const ifNoneMatch = headers["if-none-match"];
+  if (ifNoneMatch !== undefined) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return String(ifNoneMatch).split(",").some((tag) => tag.trim() === "*" || opaque(tag) === opaque(etag));
+  }
+  const ifModifiedSince = headers["if-modified-since"];
+  if (ifModifiedSince === undefined || !lastModified) return false;
+  const since = Date.parse(String(ifModifiedSince));
+  // HTTP dates have one-second resolution
+  return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+}
+
+/**
+ * Attach validators and the table's Cache-Control to a read response, or
+ * reply 304 when the client's cached copy is still current.
+ */
+function sendCacheable(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  table: TableInfo,
+  payload: unknown,
+  etag: string,
+  lastModified?: Date,
+) {
+  const cacheControl = config.tableCacheControl[`${table.schema}.${table.name}`] ?? config.cacheControl;
+  reply.header("ETag", etag);
+  if (lastModified) reply.header("Last-Modified", lastModified.toUTCString());
+  if (cacheControl) reply.header("Cache-Control", cacheControl);
+  if (isNotModified(request.headers as Record<string, unknown>, etag, lastModified)) {
+    return reply.status(304).send();
+  }
+  return payload;
+}
+
+function sendPreconditionFailed(reply: FastifyReply) {
+  return reply.status(412).send({
+    error: "Precondition Failed",
+    message: "Record was modified or deleted since it was read (If-Match did not match its ETag). Fetch it again and retry.",
+  });
+}
+
 export function buildPkParams(table: TableInfo, params: Record<string, string>): Record<string, unknown> | null {
   const pkValues: Record<string, unknown> = {};
 
@@ -52,8 +242,11 @@ export function buildJsonSchemaForTable(table: TableInfo, mode: "row" | "insert"
 
     if (mode === "insert" && isPk && col.hasDefault) continue;
     if ((mode === "update" || mode === "put") && isPk) continue;
+    if (mode !== "row" && isReadOnlyColumn(col)) continue;
 
-    properties[col.name] = pgTypeToJsonSchema(col);
+    properties[col.name] = col.description
+      ? { ...pgTypeToJsonSchema(col), description: col.description }
+      : pgTypeToJsonSchema(col);
 
     if (mode === "insert" && !col.isNullable && !col.hasDefault) {
       required.push(col.name);
@@ -70,7 +263,38 @@ export function buildJsonSchemaForTable(table: TableInfo, mode: "row" | "insert"
   return schema;
 }
 
-function errorSchema(description: string) {
+/**
+ * Remove columns from a body schema, e.g. the FK columns a nested route
+ * binds from its path.
+ */
+export function omitSchemaColumns(schema: Record<string, unknown>, columns: string[]) {
+  const properties = { ...(schema.properties as Record<string, unknown>) };
+  for (const column of columns) delete properties[column];
+
+  const result: Record<string, unknown> = { ...schema, properties };
+  const required = (schema.required as string[] | undefined)?.filter((c) => !columns.includes(c));
+  if (required && required.length > 0) result.required = required;
+  else delete result.required;
+  return result;
+}
+
+/**
+ * Row schema for read responses: the table's row schema plus one property
+ * per embeddable relation, so `expand` results survive serialization.
+ */
+export function buildExpandedRowSchema(table: TableInfo, relations: Relation[]) {
+  const schema = buildJsonSchemaForTable(table, "row");
+  const properties = schema.properties as Record<string, unknown>;
+  for (const relation of relations) {
+    const related = buildJsonSchemaForTable(relation.table, "row");
+    properties[relation.name] = relation.kind === "one"
+      ? { ...related, nullable: true }
+      : { type: "array", items: related };
+  }
+  return schema;
+}
+
+export function errorSchema(description: string) {
   return {
     description,
     type: "object",
@@ -95,21 +319,37 @@ function errorSchema(description: string) {
   };
 }
 
-export function handleRouteError(error: unknown, reply: FastifyReply) {
+export function handleRouteError(error: unknown, reply: FastifyReply, context: Record<string, unknown> = {}) {
   // Non-PG errors (e.g., from query-builder validation) are client errors
   if (error instanceof Error && !("code" in error)) {
-    return reply.status(400).send({ error: "Bad request", message: error.message });
+    return reply.status(400).send({ error: "Bad request", message: error.message, ...context });
   }
-  return handleDbError(error, reply);
+  return handleDbError(error, reply, context);
 }
 
-function denyPermission(reply: FastifyReply, schema: string, access: string) {
+function denyPermission(reply: FastifyReply, table: TableRef, access: Access, column?: string) {
+  const target = column ? `column "${table.schema}.${table.name}.${column}"` : `table "${table.schema}.${table.name}"`;
   return reply.status(403).send({
     error: "Forbidden",
-    message: `API key does not have ${access} permission on schema "${schema}".`,
+    message: `API key does not have ${ACCESS_NAMES[access]} permission on ${target}.`,
   });
 }
 
+/**
+ * Send a 403 if the key may not write one of the columns set by `rows`
+ * (see src/auth/scope.ts). Returns whether it did.
+ */
+function denyUnwritableColumns(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  table: TableInfo,
+  rows: Record<string, unknown>[],
+): boolean {
+  const column = findUnwritableColumn(table, request.apiKeyPermissions, rows);
+  if (column) denyPermission(reply, table, "w", column);
+  return column !== undefined;
+}
+
 /**
  * Parse PK from request params, or send a 400 response and return null.
  */
@@ -136,6 +376,417 @@ const ERROR_403 = errorSchema("Forbidden");
 const ERROR_404 = errorSchema("Record not found");
 const ERROR_400 = errorSchema("Bad request");
 const ERROR_409 = errorSchema("Conflict — duplicate key");
+const ERROR_412 = errorSchema("Precondition failed — If-Match does not match the current ETag");
+const NOT_MODIFIED_304 = { description: "Not modified — the cached copy (If-None-Match / If-Modified-Since) is current", type: "null" };
+
+const IF_MATCH_HEADERS = {
+  type: "object",
+  properties: {
+    "if-match": {
+      type: "string",
+      description: 'ETag from a previous GET, e.g. "12345". The write only applies if the record has not changed since; otherwise 412.',
+    },
+  },
+};
+
+// ─── Shared route builders ───────────────────────────────────────────
+
+/**
+ * Resolves column values bound from the URL path (e.g. a parent key on a
+ * nested route), or sends an error reply and returns null.
+ */
+type PathBinding = (request: FastifyRequest, reply: FastifyReply) => Record<string, unknown> | null;
+
+function describeExpand(relations: Relation[]): string {
+  if (relations.length === 0) return "This table has no relations to embed";
+  const example = `${relations[0].name}(${relations[0].table.columns[0].name})`;
+  return `Comma-separated relations to embed, optionally with columns, e.g. "${example}". Available: ${relations.map((r) => r.name).join(", ")}`;
+}
+
+function buildGetOneRouteSchema(relations: Relation[], readRowSchema: Record<string, unknown>) {
+  return {
+    querystring: {
+      type: "object",
+      properties: {
+        select: { type: "string", description: "Comma-separated column names" },
+        expand: { type: "string", description: describeExpand(relations) },
+      },
+    },
+    response: {
+      200: { description: "Record found", ...readRowSchema },
+      304: NOT_MODIFIED_304,
+      401: ERROR_401,
+      403: ERROR_403,
+      404: ERROR_404,
+    },
+  };
+}
+
+/** GET handler for a single row identified by the key that `resolveKey` reads from the URL */
+function createGetOneHandler(
+  table: TableInfo,
+  dbSchema: DatabaseSchema,
+  readPool: Pool,
+  resolveKey: PathBinding,
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const permissions = request.apiKeyPermissions;
+    if (!hasTablePermission(permissions, table, "r")) {
+      return denyPermission(reply, table, "r");
+    }
+    const rowFilters = request.apiKeyRowFilters;
+    const visible = scopeTable(table, permissions, rowFilters);
+    try {
+      const query = request.query as Record<string, string>;
+      const select = query.select ? query.select.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
+      const expand = query.expand ? parseExpand(visible, scopeTables(dbSchema.tables, permissions, rowFilters), query.expand) : undefined;
+      const deniedExpansion = expand?.find((e) => !hasTablePermission(permissions, e.relation.table, "r"));
+      if (deniedExpansion) {
+        return denyPermission(reply, deniedExpansion.relation.table, "r");
+      }
+      const key = resolveKey(request, reply);
+      if (!key) return;
+      // A lookup by a hidden unique column would reveal its values
+      const hiddenKey = Object.keys(key).find((c) => !visible.columns.some((col) => col.name === c));
+      if (hiddenKey) {
+        return denyPermission(reply, table, "r", hiddenKey);
+      }
+
+      const db = sessionPool(readPool, requestDbSession(request));
+      const result = await db.query(buildSelectByKeyQuery(visible, key, select, expand));
+
+      if (result.rows.length === 0) {
+        return reply.status(404).send({ error: "Record not found" });
+      }
+
+      const [row] = redactRows(result.rows, table, permissions, expand);
+      // The row version identifies the representation unless related rows are embedded
+      if (expand) return sendCacheable(request, reply, table, row, weakETag(row));
+      return sendCacheable(request, reply, table, row, `"${row[VERSION_COLUMN]}"`, lastModifiedOf(visible, [row]));
+    } catch (error) {
+      return handleRouteError(error, reply);
+    }
+  };
+}
+
+function buildListRouteSchema(table: TableInfo, dbSchema: DatabaseSchema) {
+  const relations = listRelations(table, dbSchema.tables);
+  const readRowSchema = buildExpandedRowSchema(table, relations);
+  return {
+    querystring: {
+      type: "object",
+      properties: {
+        page: { type: "integer", minimum: 1, default: 1 },
+        pageSize: { type: "integer", minimum: 1, maximum: config.maxPageSize, default: config.defaultPageSize },
+        sortBy: {
+          type: "string",
+          description: `Sort column. Comma-separated for composite (e.g. "updated_at,id") for stable pagination on tied values. Valid columns: ${table.columns.map((c) => c.name).join(", ")}. Unknown columns are filtered out; if none remain, falls back to the primary key.`,
+        },
+        sortOrder: {
+          type: "string",
+          description: 'Sort direction: "asc" or "desc". Comma-separated for per-column order matching sortBy (e.g. "asc,desc"). A single value applies to all columns.',
+        },
+        select: { type: "string", description: "Comma-separated column names" },
+        search: { type: "string", minLength: 1, maxLength: 500 },
+        searchColumns: { type: "string", description: "Comma-separated columns to search" },
+        count: {
+          type: "string",
+          enum: COUNT_STRATEGIES,
+          description: `How to compute pagination.total: "exact" (COUNT(*)), "estimated" (planner row estimate, totalIsEstimate=true) or "none" (total is null). Defaults to "${config.tableCountStrategies[`${table.schema}.${table.name}`] ?? config.countStrategy}" for this table.`,
+        },
+        cursor: {
+          type: "string",
+          description: "Keyset pagination: pass an empty value for the first page, then the returned nextCursor. Skips OFFSET and the total count; page is ignored. Requires a primary key (used as tiebreaker).",
+        },
+        or: filterGroupParamSchema(
+          'Boolean OR group, e.g. "(status.eq.active,owner_id.eq.5)". Conditions are column.operator.value; nest with and(...)/or(...) and negate with a "not." prefix. Also accepted as and=, not.or= and not.and=. Repeated groups must all match.',
+        ),
+        and: filterGroupParamSchema(
+          'Boolean AND group, e.g. "(total.gte.100,or(status.eq.paid,status.eq.shipped))".',
+        ),
+        expand: { type: "string", description: describeExpand(relations) },
+      },
+      additionalProperties: true,
+    },
+    response: {
+      200: {
+        description: "Paginated list of records",
+        type: "object",
+        properties: {
+          data: { type: "array", items: readRowSchema },
+          pagination: {
+            type: "object",
+            properties: {
+              page: { type: "integer" },
+              pageSize: { type: "integer" },
+              total: { type: "integer", nullable: true },
+              totalPages: { type: "integer", nullable: true },
+              totalIsEstimate: { type: "boolean" },
+              nextCursor: { type: "string", nullable: true },
+              hasMore: { type: "boolean" },
+            },
+          },
+        },
+      },
+      304: NOT_MODIFIED_304,
+      400: ERROR_400,
+      401: ERROR_401,
+      403: ERROR_403,
+    },
+  };
+}
+
+/** Embedded rows can change without touching the listed rows' updated_at */
+function listLastModified(table: TableInfo, opts: ListOptions, rows: Record<string, unknown>[]): Date | undefined {
+  return opts.expand ? undefined : lastModifiedOf(table, rows);
+}
+
+function createListHandler(
+  table: TableInfo,
+  dbSchema: DatabaseSchema,
+  readPool: Pool,
+  bindPath?: PathBinding,
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const permissions = request.apiKeyPermissions;
+    if (!hasTablePermission(permissions, table, "r")) {
+      return denyPermission(reply, table, "r");
+    }
+    const rowFilters = request.apiKeyRowFilters;
+    const visible = scopeTable(table, permissions, rowFilters);
+    const bound = bindPath?.(request, reply);
+    if (bound === null) return;
+    try {
+      const query = request.query as Record<string, unknown>;
+
+      const opts: ListOptions = {
+        /* c8 ignore next */
+        page: Number(query.page) || 1,
+        /* c8 ignore next */
+        pageSize: Number(query.pageSize) || config.defaultPageSize,
+        sortBy: query.sortBy as string,
+        sortOrder: query.sortOrder as "asc" | "desc",
+        select: query.select ? parseCommaSeparated(query.select) : undefined,
+        search: query.search as string,
+        searchColumns: query.searchColumns
+          ? parseCommaSeparated(query.searchColumns)
+          : visible.columns.filter((c) => ["varchar", "text", "char", "name"].includes(c.udtName)).map((c) => c.name),
+        filters: extractFilters(query),
+        filterGroups: extractFilterGroups(query),
+        cursor: query.cursor as string | undefined,
+        expand: query.expand ? parseExpand(visible, scopeTables(dbSchema.tables, permissions, rowFilters), String(query.expand)) : undefined,
+        match: bound,
+      };
+
+      const deniedExpansion = opts.expand?.find((e) => !hasTablePermission(permissions, e.relation.table, "r"));
+      if (deniedExpansion) {
+        return denyPermission(reply, deniedExpansion.relation.table, "r");
+      }
+
+      const db = sessionPool(readPool, requestDbSession(request));
+      if (opts.cursor !== undefined) {
+        const result = await db.query(buildCursorSelectQuery(visible, opts));
+        const page = buildCursorPage(visible, opts, result.rows);
+        const payload = {
+          data: redactRows(page.data, table, permissions, opts.expand),
+          pagination: {
+            pageSize: opts.pageSize!,
+            nextCursor: page.nextCursor,
+            hasMore: page.hasMore,
+          },
+        };
+        return sendCacheable(request, reply, table, payload, weakETag(payload), listLastModified(visible, opts, page.data));
+      }
+
+      const countStrategy = resolveCountStrategy(table, query.count);
+      const totalQuery = buildTotalQuery(visible, opts, countStrategy);
+      const [dataResult, countResult] = await Promise.all([
+        db.query(buildSelectQuery(visible, opts)),
+        totalQuery ? db.query(totalQuery) : null,
+      ]);
+
+      const { total, totalIsEstimate } = parseCountResult(countStrategy, countResult?.rows);
+
+      const payload = {
+        data: redactRows(dataResult.rows, table, permissions, opts.expand),
+        pagination: {
+          page: opts.page!,
+          pageSize: opts.pageSize!,
+          total,
+          totalPages: total === null ? null : Math.ceil(total / opts.pageSize!),
+          totalIsEstimate,
+        },
+      };
+      return sendCacheable(request, reply, table, payload, weakETag(payload), listLastModified(visible, opts, dataResult.rows));
+    } catch (error) {
+      return handleRouteError(error, reply);
+    }
+  };
+}
+
+function buildCreateRouteSchema(
+  table: TableInfo,
+  insertSchema: Record<string, unknown>,
+  rowSchema: Record<string, unknown>,
+) {
+  const targets = listConflictTargets(table).map((c) => c.join(","));
+  return {
+    querystring: {
+      type: "object",
+      properties: {
+        onConflict: {
+          type: "string",
+          description: `Upsert conflict target (comma-separated columns). Turns the insert into an upsert that updates duplicates; send "Prefer: resolution=ignore-duplicates" to skip them instead. Valid targets: ${targets.join(" | ") || "none"}. Defaults to the primary key when only the Prefer header is sent.`,
+        },
+      },
+    },
+    body: {
+      oneOf: [
+        insertSchema,
+        { type: "array", items: insertSchema, minItems: 1, maxItems: config.maxBulkInsertRows },
+      ],
+    },
+    response: {
+      201: {
+        description: "Record(s) created",
+        oneOf: [
+          rowSchema,
+          {
+            type: "object",
+            properties: {
+              data: { type: "array", items: rowSchema },
+              count: { type: "integer" },
+            },
+          },
+        ],
+      },
+      204: { description: "Duplicate ignored (resolution=ignore-duplicates)", type: "null" },
+      400: ERROR_400,
+      401: ERROR_401,
+      403: ERROR_403,
+      409: ERROR_409,
+    },
+  };
+}
+
+function createInsertHandler(table: TableInfo, pool: Pool, bindPath?: PathBinding) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const permissions = request.apiKeyPermissions;
+    // Inserting an array is a bulk operation
+    const missing = findMissingAccess(permissions, table, Array.isArray(request.body) ? ["c", "b"] : ["c"]);
+    if (missing) return denyPermission(reply, table, missing);
+    const bound = bindPath?.(request, reply);
+    if (bound === null) return;
+    const target = scopeRows(table, request.apiKeyRowFilters);
+    const db = sessionPool(pool, requestDbSession(request));
+    try {
+      const body = request.body;
+      const upsert = parseUpsertOptions(
+        table,
+        request.headers as Record<string, unknown>,
+        request.query as Record<string, unknown>,
+      );
+      // Merging duplicates updates existing rows
+      if (upsert?.action === "update" && !hasTablePermission(permissions, table, "u")) {
+        return denyPermission(reply, table, "u");
+      }
+      if (upsert?.action === "update" && !supportsWrite(table, "update")) {
+        return reply.status(400).send({
+          error: "Bad request",
+          message: `'${table.routePath}' is a ${describeWriteLimit(table, "update")}, so duplicates cannot be merged`,
+        });
+      }
+
+      if (Array.isArray(body)) {
+        const rows = bound ? body.map((row) => ({ ...row, ...bound })) : body;
+        if (denyUnwritableColumns(request, reply, table, rows)) return;
+        const result = await db.query(buildBulkInsertQuery(target, rows, upsert));
+        return reply.status(201).send({ data: redactRows(result.rows, table, permissions), count: result.rows.length });
+      } else {
+        const row = { ...(body as Record<string, unknown>), ...bound };
+        if (denyUnwritableColumns(request, reply, table, [row])) return;
+        const result = await db.query(buildInsertQuery(target, row, upsert));
+        // ON CONFLICT DO NOTHING returns no row for a skipped duplicate
+        if (result.rows.length === 0) return reply.status(204).send();
+        return reply.status(201).send(redactRows(result.rows, table, permissions)[0]);
+      }
+    } catch (error) {
+      return handleRouteError(error, reply);
+    }
+  };
+}
+
+function buildBulkRouteSchema(table: TableInfo, action: "update" | "delete", rowSchema: Record<string, unknown>) {
+  const isSoftDelete = action === "delete" && hasSoftDelete(table);
+  return {
+    querystring: {
+      type: "object",
+      properties: {
+        or: filterGroupParamSchema(
+          'Boolean OR group selecting rows, e.g. "(status.eq.active,owner_id.eq.5)". Also accepted as and=, not.or= and not.and=.',
+        ),
+        and: filterGroupParamSchema("Boolean AND group selecting rows"),
+      },
+      description: `Rows are selected with filter.{column}={operator}:{value} params and/or boolean groups. At least one is required; a bulk ${action} without a filter is rejected. Valid columns: ${table.columns.map((c) => c.name).join(", ")}.`,
+      additionalProperties: true,
+    },
+    response: {
+      200: {
+        description: `Rows ${isSoftDelete ? "soft-deleted" : `${action}d`} (rolled back when more than ${config.maxBulkAffectedRows} rows match)`,
+        type: "object",
+        properties: {
+          data: { type: "array", items: rowSchema },
+          count: { type: "integer" },
+          ...(action === "delete" ? { softDelete: { type: "boolean" } } : {}),
+        },
+      },
+      400: ERROR_400,
+      401: ERROR_401,
+      403: ERROR_403,
+      409: ERROR_409,
+    },
+  };
+}
+
+/**
+ * Run a filtered bulk mutation in a transaction, rolling it back when it
+ * touches more than `config.maxBulkAffectedRows` rows.
+ */
+function createBulkHandler(
+  table: TableInfo,
+  pool: Pool,
+  action: "update" | "delete",
+  buildQuery: (target: TableInfo, filter: BulkFilter, body: unknown, filterTable: TableInfo) => QueryResult,
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const permissions = request.apiKeyPermissions;
+    const missing = findMissingAccess(permissions, table, [action === "update" ? "u" : "d", "b"]);
+    if (missing) return denyPermission(reply, table, missing);
+    if (action === "update" && denyUnwritableColumns(request, reply, table, [request.body as Record<string, unknown>])) return;
+    try {
+      const query = request.query as Record<string, unknown>;
+      const filter = { filters: extractFilters(query), filterGroups: extractFilterGroups(query) };
+      const rowFilters = request.apiKeyRowFilters;
+      const sql = buildQuery(scopeRows(table, rowFilters), filter, request.body, scopeTable(table, permissions, rowFilters));
+
+      const rows = await withTransaction(pool, async (client) => {
+        const result = await client.query(sql);
+        if (result.rows.length > config.maxBulkAffectedRows) {
+          throw new Error(
+            `Bulk ${action} matched ${result.rows.length} rows, more than the limit of ${config.maxBulkAffectedRows}; no rows were changed. Narrow the filter.`
+          );
+        }
+        return result.rows;
+      }, requestDbSession(request));
+
+      redactRows(rows, table, permissions);
+      if (action === "delete") return { data: rows, count: rows.length, softDelete: hasSoftDelete(table) };
+      return { data: rows, count: rows.length };
+    } catch (error) {
+      return handleRouteError(error, reply);
+    }
+  };
+}
 
 // ─── Route Registration ──────────────────────────────────────────────
 
@@ -147,12 +798,13 @@ export async function registerCrudRoutes(
 ) {
   // ── Meta endpoint: list all available tables ──
   app.get("/api/_meta/tables", async (request) => {
-    const tables = Array.from(dbSchema.tables.values())
-      .filter((t) => hasAnyPermission(request.apiKeyPermissions, t.schema))
+    const tables = Array.from(scopeDatabaseSchema(dbSchema, request.apiKeyPermissions).tables.values())
       .map((t) => ({
         schema: t.schema,
         table: t.name,
         path: `/api/${t.routePath}`,
+        kind: t.kind,
+        writable: t.writable,
         primaryKeys: t.primaryKeys,
         columnCount: t.columns.length,
         foreignKeys: t.foreignKeys.map((fk) => ({
@@ -166,16 +818,20 @@ export async function registerCrudRoutes(
   // ── Meta endpoint: table schema details ──
   app.get("/api/_meta/tables/:table", async (request, reply) => {
     const { table: routePath } = request.params as { table: string };
-    const tableInfo = findTable(dbSchema, routePath);
+    const found = findTable(dbSchema, routePath);
 
-    if (!tableInfo || !hasAnyPermission(request.apiKeyPermissions, tableInfo.schema)) {
+    if (!found || !hasAnyTablePermission(request.apiKeyPermissions, found)) {
       return reply.status(404).send({ error: `Table '${routePath}' not found` });
     }
 
+    const tableInfo = scopeTable(found, request.apiKeyPermissions);
+    const indexed = listIndexedColumns(tableInfo);
     return {
       schema: tableInfo.schema,
       table: tableInfo.name,
       fqn: tableInfo.fqn,
+      kind: tableInfo.kind,
+      writable: tableInfo.writable,
       columns: tableInfo.columns.map((c) => ({
         name: c.name,
         type: c.dataType,
@@ -186,9 +842,31 @@ export async function registerCrudRoutes(
       })),
       primaryKeys: tableInfo.primaryKeys,
       foreignKeys: tableInfo.foreignKeys,
+      uniqueConstraints: tableInfo.uniqueConstraints,
+      indexes: tableInfo.indexes,
+      filterableColumns: indexed.filterable,
+      sortableColumns: indexed.sortable,
     };
   });
 
+  // ── Meta endpoint: changes between the served schema and the live database ──
+  // Introspection is expensive, so like a schema reload it is limited to full-access keys
+  app.get("/api/_meta/schema-diff", async (request, reply) => {
+    if (!hasFullAccess(request.apiKeyPermissions)) {
+      return reply.status(403).send({
+        error: "Forbidden",
+        message: 'Comparing with the live database requires an API key with access to all schemas ("*": "rw").',
+      });
+    }
+    try {
+      const live = await introspectDatabase(pool);
+      const permissions = request.apiKeyPermissions;
+      return diffSchemas(scopeDatabaseSchema(dbSchema, permissions), scopeDatabaseSchema(live, permissions));
+    } catch (error) {
+      return handleDbError(error, reply);
+    }
+  });
+
   // ── Register CRUD for each table ──
   for (const [, table] of dbSchema.tables) {
     const basePath = `/api/${table.routePath}`;
@@ -197,6 +875,8 @@ export async function registerCrudRoutes(
     console.log(`  📝 ${basePath} → ${table.fqn}`);
 
     const rowSchema = buildJsonSchemaForTable(table, "row");
+    const relations = listRelations(table, dbSchema.tables);
+    const readRowSchema = buildExpandedRowSchema(table, relations);
     const insertSchema = buildJsonSchemaForTable(table, "insert");
     const putSchema = buildJsonSchemaForTable(table, "put");
     const patchSchema = buildJsonSchemaForTable(table, "update");
@@ -206,97 +886,9 @@ export async function registerCrudRoutes(
       schema: {
         tags: [tag],
         summary: `List ${table.name} records`,
-        querystring: {
-          type: "object",
-          properties: {
-            page: { type: "integer", minimum: 1, default: 1 },
-            pageSize: { type: "integer", minimum: 1, maximum: config.maxPageSize, default: config.defaultPageSize },
-            sortBy: {
-              type: "string",
-              description: `Sort column. Comma-separated for composite (e.g. "updated_at,id") for stable pagination on tied values. Valid columns: ${table.columns.map((c) => c.name).join(", ")}. Unknown columns are filtered out; if none remain, falls back to the primary key.`,
-            },
-            sortOrder: {
-              type: "string",
-              description: 'Sort direction: "asc" or "desc". Comma-separated for per-column order matching sortBy (e.g. "asc,desc"). A single value applies to all columns.',
-            },
-            select: { type: "string", description: "Comma-separated column names" },
-            search: { type: "string", minLength: 1, maxLength: 500 },
-            searchColumns: { type: "string", description: "Comma-separated columns to search" },
-          },
-          additionalProperties: true,
-        },
-        response: {
-          200: {
-            description: "Paginated list of records",
-            type: "object",
-            properties: {
-              data: { type: "array", items: rowSchema },
-              pagination: {
-                type: "object",
-                properties: {
-                  page: { type: "integer" },
-                  pageSize: { type: "integer" },
-                  total: { type: "integer" },
-                  totalPages: { type: "integer" },
-                },
-              },
-            },
-          },
-          400: ERROR_400,
-          401: ERROR_401,
-          403: ERROR_403,
-        },
-      },
-      handler: async (request: FastifyRequest, reply: FastifyReply) => {
-        if (!hasPermission(request.apiKeyPermissions, table.schema, "r")) {
-          return denyPermission(reply, table.schema, "read");
-        }
-        try {
-          const query = request.query as Record<string, unknown>;
-
-          // Extract filter.* params
-          const filters: Record<string, unknown> = {};
-          for (const [key, value] of Object.entries(query)) {
-            if (key.startsWith("filter.")) {
-              filters[key.slice(7)] = value;
-            }
-          }
-
-          const opts: ListOptions = {
-            /* c8 ignore next */
-            page: Number(query.page) || 1,
-            /* c8 ignore next */
-            pageSize: Number(query.pageSize) || config.defaultPageSize,
-            sortBy: query.sortBy as string,
-            sortOrder: query.sortOrder as "asc" | "desc",
-            select: query.select ? parseCommaSeparated(query.select) : undefined,
-            search: query.search as string,
-            searchColumns: query.searchColumns
-              ? parseCommaSeparated(query.searchColumns)
-              : table.columns.filter((c) => ["varchar", "text", "char", "name"].includes(c.udtName)).map((c) => c.name),
-            filters: Object.keys(filters).length > 0 ? filters : undefined,
-          };
-
-          const [dataResult, countResult] = await Promise.all([
-            readPool.query(buildSelectQuery(table, opts)),
-            readPool.query(buildCountQuery(table, opts)),
-          ]);
-
-          const total = Number.parseInt(countResult.rows[0].total, 10);
-
-          return {
-            data: dataResult.rows,
-            pagination: {
-              page: opts.page!,
-              pageSize: opts.pageSize!,
-              total,
-              totalPages: Math.ceil(total / opts.pageSize!),
-            },
-          };
-        } catch (error) {
-          return handleRouteError(error, reply);
-        }
+        ...buildListRouteSchema(table, dbSchema),
       },
+      handler: createListHandler(table, dbSchema, readPool),
     });
 
     // Shared params schema for PK-based routes
@@ -324,111 +916,98 @@ export async function registerCrudRoutes(
           tags: [tag],
           summary: `Get ${table.name} by primary key`,
           params: paramsSchema,
-          querystring: {
+          ...buildGetOneRouteSchema(relations, readRowSchema),
+        },
+        handler: createGetOneHandler(table, dbSchema, readPool, (request, reply) => parsePkOrReply(table, request, reply)),
+      });
+    }
+
+    // ── GET BY UNIQUE KEY (GET /by/:column/:value) ──
+    for (const column of listUniqueKeyColumns(table)) {
+      const col = table.columns.find((c) => c.name === column)!;
+      app.get(`${basePath}/by/${encodeURIComponent(column)}/:value`, {
+        schema: {
+          tags: [tag],
+          summary: `Get ${table.name} by ${column}`,
+          params: {
             type: "object",
             properties: {
-              select: { type: "string", description: "Comma-separated column names" },
+              value: { ...pgTypeToJsonSchema({ ...col, isNullable: false }), description: `Unique key (${column})` },
             },
+            required: ["value"],
           },
-          response: {
-            200: { description: "Record found", ...rowSchema },
-            401: ERROR_401,
-            403: ERROR_403,
-            404: ERROR_404,
-          },
+          ...buildGetOneRouteSchema(relations, readRowSchema),
         },
-        handler: async (request: FastifyRequest, reply: FastifyReply) => {
-          if (!hasPermission(request.apiKeyPermissions, table.schema, "r")) {
-            return denyPermission(reply, table.schema, "read");
-          }
-          try {
-            const query = request.query as Record<string, string>;
-            const select = query.select ? query.select.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
-            const pkValues = parsePkOrReply(table, request, reply);
-            if (!pkValues) return;
-
-            const result = await readPool.query(buildSelectByPkQuery(table, pkValues, select));
-
-            if (result.rows.length === 0) {
-              return reply.status(404).send({ error: "Record not found" });
-            }
+        handler: createGetOneHandler(table, dbSchema, readPool, (request) => ({
+          [column]: (request.params as { value: unknown }).value,
+        })),
+      });
+    }
 
-            return result.rows[0];
-          } catch (error) {
-            return handleRouteError(error, reply);
-          }
+    // Views get routes for the writes they support; materialized views only read routes
+    if (supportsWrite(table, "insert")) {
+      // ── CREATE (POST /) ──
+      app.post(basePath, {
+        schema: {
+          tags: [tag],
+          summary: `Create ${table.name} record(s)`,
+          ...buildCreateRouteSchema(table, insertSchema, rowSchema),
         },
+        handler: createInsertHandler(table, pool),
       });
     }
 
-    // ── CREATE (POST /) ──
-    app.post(basePath, {
-      schema: {
-        tags: [tag],
-        summary: `Create ${table.name} record(s)`,
-        body: {
-          oneOf: [
-            insertSchema,
-            { type: "array", items: insertSchema, minItems: 1, maxItems: config.maxBulkInsertRows },
-          ],
+    if (supportsWrite(table, "update")) {
+      // ── BULK UPDATE (PATCH /?filter...) ──
+      app.patch(basePath, {
+        schema: {
+          tags: [tag],
+          summary: `Update all ${table.name} records matching a filter`,
+          body: patchSchema,
+          ...buildBulkRouteSchema(table, "update", rowSchema),
         },
-        response: {
-          201: {
-            description: "Record(s) created",
-            oneOf: [
-              rowSchema,
-              {
-                type: "object",
-                properties: {
-                  data: { type: "array", items: rowSchema },
-                  count: { type: "integer" },
-                },
-              },
-            ],
-          },
-          400: ERROR_400,
-          401: ERROR_401,
-          403: ERROR_403,
-          409: ERROR_409,
+        handler: createBulkHandler(table, pool, "update", (target, filter, body, filterTable) =>
+          buildBulkUpdateQuery(target, filter, body as Record<string, unknown>, filterTable)),
+      });
+    }
+
+    if (supportsWrite(table, "delete")) {
+      // ── BULK DELETE (DELETE /?filter...) ──
+      app.delete(basePath, {
+        schema: {
+          tags: [tag],
+          summary: hasSoftDelete(table)
+            ? `Soft-delete all ${table.name} records matching a filter (sets deleted_at)`
+            : `Delete all ${table.name} records matching a filter`,
+          ...buildBulkRouteSchema(table, "delete", rowSchema),
         },
-      },
-      handler: async (request: FastifyRequest, reply: FastifyReply) => {
-        if (!hasPermission(request.apiKeyPermissions, table.schema, "w")) {
-          return denyPermission(reply, table.schema, "write");
-        }
-        try {
-          const body = request.body;
-
-          if (Array.isArray(body)) {
-            const result = await pool.query(buildBulkInsertQuery(table, body));
-            return reply.status(201).send({ data: result.rows, count: result.rows.length });
-          } else {
-            const result = await pool.query(buildInsertQuery(table, body as Record<string, unknown>));
-            return reply.status(201).send(result.rows[0]);
-          }
-        } catch (error) {
-          return handleRouteError(error, reply);
-        }
-      },
-    });
+        handler: createBulkHandler(table, pool, "delete", (target, filter, _body, filterTable) =>
+          buildBulkDeleteQuery(target, filter, filterTable)),
+      });
+    }
 
     // ── Shared update handler for PUT and PATCH ──
     const updateHandler = async (request: FastifyRequest, reply: FastifyReply) => {
-      if (!hasPermission(request.apiKeyPermissions, table.schema, "w")) {
-        return denyPermission(reply, table.schema, "write");
+      if (!hasTablePermission(request.apiKeyPermissions, table, "u")) {
+        return denyPermission(reply, table, "u");
       }
       try {
         const pkValues = parsePkOrReply(table, request, reply);
         if (!pkValues) return;
         const body = request.body as Record<string, unknown>;
+        if (denyUnwritableColumns(request, reply, table, [body])) return;
+        const expectedVersions = parseIfMatch(request.headers["if-match"]);
 
-        const result = await pool.query(buildUpdateQuery(table, pkValues, body));
+        const target = scopeRows(table, request.apiKeyRowFilters);
+        const db = sessionPool(pool, requestDbSession(request));
+        const result = await db.query(buildUpdateQuery(target, pkValues, body, expectedVersions));
 
         if (result.rows.length === 0) {
+          if (expectedVersions) return sendPreconditionFailed(reply);
           return reply.status(404).send({ error: "Record not found" });
         }
 
-        return result.rows[0];
+        return sendWithETag(reply, redactRows(result.rows, table, request.apiKeyPermissions)[0]);
       } catch (error) {
         return handleRouteError(error, reply);
       }
@@ -441,15 +1020,18 @@ export async function registerCrudRoutes(
       403: ERROR_403,
       404: ERROR_404,
       409: ERROR_409,
+      412: ERROR_412,
     };
 
-    if (table.primaryKeys.length > 0) {
+    const hasPk = table.primaryKeys.length > 0;
+    if (hasPk && supportsWrite(table, "update")) {
       // ── UPDATE (PUT /:id) — full replacement ──
       app.put(`${basePath}/:id`, {
         schema: {
           tags: [tag],
           summary: `Replace ${table.name} by primary key`,
           params: paramsSchema,
+          headers: IF_MATCH_HEADERS,
           body: putSchema,
           response: updateResponseSchema,
         },
@@ -462,12 +1044,15 @@ export async function registerCrudRoutes(
           tags: [tag],
           summary: `Partially update ${table.name} by primary key`,
           params: paramsSchema,
+          headers: IF_MATCH_HEADERS,
           body: patchSchema,
           response: updateResponseSchema,
         },
         handler: updateHandler,
       });
+    }
 
+    if (hasPk && supportsWrite(table, "delete")) {
       // ── DELETE (DELETE /:id) ──
       const isSoftDelete = hasSoftDelete(table);
       app.delete(`${basePath}/:id`, {
@@ -477,6 +1062,7 @@ export async function registerCrudRoutes(
             ? `Soft-delete ${table.name} by primary key (sets deleted_at)`
             : `Delete ${table.name} by primary key`,
           params: paramsSchema,
+          headers: IF_MATCH_HEADERS,
           response: {
             200: {
               description: isSoftDelete ? "Record soft-deleted" : "Record deleted",
@@ -490,23 +1076,106 @@ export async function registerCrudRoutes(
             401: ERROR_401,
             403: ERROR_403,
             404: ERROR_404,
+            412: ERROR_412,
           },
         },
         handler: async (request: FastifyRequest, reply: FastifyReply) => {
-          if (!hasPermission(request.apiKeyPermissions, table.schema, "w")) {
-            return denyPermission(reply, table.schema, "write");
+          if (!hasTablePermission(request.apiKeyPermissions, table, "d")) {
+            return denyPermission(reply, table, "d");
           }
           try {
             const pkValues = parsePkOrReply(table, request, reply);
             if (!pkValues) return;
+            const expectedVersions = parseIfMatch(request.headers["if-match"]);
 
-            const result = await pool.query(buildDeleteQuery(table, pkValues));
+            const target = scopeRows(table, request.apiKeyRowFilters);
+            const db = sessionPool(pool, requestDbSession(request));
+            const result = await db.query(buildDeleteQuery(target, pkValues, expectedVersions));
 
             if (result.rows.length === 0) {
+              if (expectedVersions) return sendPreconditionFailed(reply);
               return reply.status(404).send({ error: "Record not found" });
             }
 
-            return { deleted: true, softDelete: isSoftDelete, record: result.rows[0] };
+            return { deleted: true, softDelete: isSoftDelete, record: redactRows(result.rows, table, request.apiKeyPermissions)[0] };
+          } catch (error) {
+            return handleRouteError(error, reply);
+          }
+        },
+      });
+    }
+
+    // ── Nested child routes (GET/POST /:id/{relation}) ──
+    for (const relation of listNestedRelations(table, dbSchema.tables)) {
+      const child = relation.table;
+      const nestedPath = `${basePath}/:id/${relation.name}`;
+      const bindParentKey: PathBinding = (request, reply) => {
+        const pkValues = parsePkOrReply(table, request, reply);
+        return pkValues && Object.fromEntries(relation.columns.map((c) => [c.remote, pkValues[c.local]]));
+      };
+      const childInsertSchema = omitSchemaColumns(
+        buildJsonSchemaForTable(child, "insert"),
+        relation.columns.map((c) => c.remote),
+      );
+
+      app.get(nestedPath, {
+        schema: {
+          tags: [tag],
+          summary: `List ${child.name} records of a ${table.name}`,
+          params: paramsSchema,
+          ...buildListRouteSchema(child, dbSchema),
+        },
+        handler: createListHandler(child, dbSchema, readPool, bindParentKey),
+      });
+
+      app.post(nestedPath, {
+        schema: {
+          tags: [tag],
+          summary: `Create ${child.name} record(s) for a ${table.name}`,
+          params: paramsSchema,
+          ...buildCreateRouteSchema(child, childInsertSchema, buildJsonSchemaForTable(child, "row")),
+        },
+        handler: createInsertHandler(child, pool, bindParentKey),
+      });
+    }
+
+    // ── REFRESH (POST /_refresh) ──
+    if (table.kind === "materialized_view") {
+      app.post(`${basePath}/_refresh`, {
+        schema: {
+          tags: [tag],
+          summary: `Refresh materialized view ${table.name}`,
+          querystring: {
+            type: "object",
+            properties: {
+              concurrently: {
+                type: "boolean",
+                default: false,
+                description: "Refresh without blocking reads (requires a unique index on the view)",
+              },
+            },
+          },
+          response: {
+            200: {
+              description: "View refreshed",
+              type: "object",
+              properties: {
+                refreshed: { type: "boolean" },
+                concurrently: { type: "boolean" },
+              },
+            },
+            401: ERROR_401,
+            403: ERROR_403,
+          },
+        },
+        handler: async (request: FastifyRequest, reply: FastifyReply) => {
+          if (!hasTablePermission(request.apiKeyPermissions, table, "w")) {
+            return denyPermission(reply, table, "w");
+          }
+          try {
+            const { concurrently } = request.query as { concurrently: boolean };
+            await sessionPool(pool, requestDbSession(request)).query(buildRefreshQuery(table, concurrently));
+            return { refreshed: true, concurrently };
           } catch (error) {
             return handleRouteError(error, reply);
           }
@@ -0,0 +1,134 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Pool } from "pg";
+import { DatabaseSchema, FunctionInfo } from "../db/introspector.js";
+import {
+  buildRpcQuery,
+  parseRpcResult,
+  functionArgColumns,
+  pgTypeToJsonSchema,
+  RpcPage,
+} from "../db/query-builder.js";
+import { sessionPool } from "../db/transaction.js";
+import { requestDbSession } from "../db/session.js";
+import { config } from "../config.js";
+import { hasPermission, hasTableRules } from "../auth/api-key.js";
+import { hasRowFilters } from "../auth/scope.js";
+import { errorSchema, handleRouteError } from "./crud.js";
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Volatile functions may change data, so calling them needs write access */
+export function rpcAccess(fn: FunctionInfo): "r" | "w" {
+  return fn.volatility === "volatile" ? "w" : "r";
+}
+
+export function buildArgsJsonSchema(fn: FunctionInfo) {
+  const columns = functionArgColumns(fn);
+  return {
+    type: "object",
+    properties: Object.fromEntries(columns.map((c) => [c.name, pgTypeToJsonSchema(c)])),
+    required: columns.filter((c) => !c.hasDefault).map((c) => c.name),
+  };
+}
+
+function buildRpcRouteSchema(fn: FunctionInfo) {
+  const data = fn.returnsSet ? { type: "array", items: {} } : {};
+  return {
+    tags: ["rpc"],
+    summary: `Call ${fn.schema}.${fn.name}`,
+    description: `${fn.volatility} function returning ${fn.returnsSet ? "SETOF " : ""}${fn.returnType}. ` +
+      `Requires ${rpcAccess(fn) === "w" ? "write" : "read"} permission on schema "${fn.schema}". ` +
+      "Arguments are passed by name; omitted ones use their defaults.",
+    body: buildArgsJsonSchema(fn),
+    ...(fn.returnsSet
+      ? {
+          querystring: {
+            type: "object",
+            properties: {
+              page: { type: "integer", minimum: 1, default: 1 },
+              pageSize: { type: "integer", minimum: 1, maximum: config.maxPageSize, default: config.defaultPageSize },
+            },
+          },
+        }
+      : {}),
+    response: {
+      200: {
+        description: fn.returnsSet ? "Paginated function result" : "Function result",
+        type: "object",
+        properties: {
+          data,
+          ...(fn.returnsSet
+            ? {
+                pagination: {
+                  type: "object",
+                  properties: {
+                    page: { type: "integer" },
+                    pageSize: { type: "integer" },
+                    total: { type: "integer" },
+                    totalPages: { type: "integer" },
+                    totalIsEstimate: { type: "boolean" },
+                  },
+                },
+              }
+            : {}),
+        },
+      },
+      400: errorSchema("Bad request"),
+      401: errorSchema("Unauthorized"),
+      403: errorSchema("Forbidden"),
+      409: errorSchema("Conflict — duplicate key"),
+    },
+  };
+}
+
+// ─── Route Registration ──────────────────────────────────────────────
+
+export async function registerRpcRoutes(
+  app: FastifyInstance,
+  pool: Pool,
+  dbSchema: DatabaseSchema,
+  readPool: Pool = pool,
+): Promise<void> {
+  for (const [, fn] of dbSchema.functions) {
+    const access = rpcAccess(fn);
+
+    app.post(`/api/_rpc/${fn.routePath}`, {
+      schema: buildRpcRouteSchema(fn),
+      // Allow bodiless calls when every argument is optional
+      preValidation: async (request: FastifyRequest) => {
+        request.body ??= {};
+      },
+      handler: async (request: FastifyRequest, reply: FastifyReply) => {
+        if (!hasPermission(request.apiKeyPermissions, fn.schema, access)) {
+          return reply.status(403).send({
+            error: "Forbidden",
+            message: `API key does not have ${access === "w" ? "write" : "read"} permission on schema "${fn.schema}".`,
+          });
+        }
+        if (hasTableRules(request.apiKeyPermissions, fn.schema)) {
+          return reply.status(403).send({
+            error: "Forbidden",
+            message: `API key has table or column rules in schema "${fn.schema}" and cannot call its functions.`,
+          });
+        }
+        // Functions see every row of every schema, so they would escape the key's row filters
+        if (hasRowFilters(request.apiKeyRowFilters)) {
+          return reply.status(403).send({
+            error: "Forbidden",
+            message: "API key is limited to filtered rows and cannot call functions.",
+          });
+        }
+        try {
+          const args = request.body as Record<string, unknown>;
+          const page = fn.returnsSet ? (request.query as RpcPage) : undefined;
+          // Stable and immutable functions can't write, so they may run on the replica
+          const db = sessionPool(access === "w" ? pool : readPool, requestDbSession(request));
+          const result = await db.query(buildRpcQuery(fn, args, page));
+          return parseRpcResult(fn, result.rows, page);
+        } catch (error) {
+          return handleRouteError(error, reply);
+        }
+      },
+    });
+  }
+}
@@ -1,7 +1,25 @@
 import { FastifyInstance } from "fastify";
-import { DatabaseSchema, TableInfo, ColumnInfo } from "../db/introspector.js";
-import { config } from "../config.js";
-import { hasAnyPermission } from "../auth/api-key.js";
+import { DatabaseSchema, TableInfo, ColumnInfo, FunctionInfo, supportsWrite } from "../db/introspector.js";
+import { config, COUNT_STRATEGIES } from "../config.js";
+import {
+  SchemaPermissions,
+  hasPermission,
+  hasTablePermission,
+  hasAnyTablePermission,
+  hasColumnRules,
+  hasTableRules,
+} from "../auth/api-key.js";
+import { scopeTable, scopeTables, isColumnWritable, hasRowFilters } from "../auth/scope.js";
+import {
+  listRelations,
+  listNestedRelations,
+  listUniqueKeyColumns,
+  listIndexedColumns,
+  functionArgColumns,
+  isReadOnlyColumn,
+} from "../db/query-builder.js";
+import { mergeChecks } from "../db/check-constraints.js";
+import { rpcAccess } from "./rpc.js";
 
 // ─── Type Mapping ────────────────────────────────────────────────────
 
@@ -9,9 +27,12 @@ interface AgentColumnType {
   type: string;
   format?: string;
   items?: { type: string; format?: string };
+  enum?: string[];
 }
 
 export function mapPgType(col: ColumnInfo): AgentColumnType {
+  if (col.enumValues) return { type: "string", enum: col.enumValues };
+
   switch (col.udtName) {
     // Integers
     case "int2":
@@ -108,24 +129,47 @@ export function buildAgentColumn(col: ColumnInfo, table: TableInfo) {
 
   if (mapped.format) result.format = mapped.format;
   if (mapped.items) result.items = mapped.items;
+  if (col.description) result.description = col.description;
   if (isPk) result.pk = true;
   if (!col.isNullable && !col.hasDefault) result.insertRequired = true;
+  if (isReadOnlyColumn(col)) result.readOnly = true;
+  if (col.identity) result.identity = col.identity;
+  if (col.isGenerated) result.generated = true;
   if (col.maxLength) result.maxLength = col.maxLength;
+  if (mapped.enum || col.checks) {
+    Object.assign(result, mergeChecks({ enum: mapped.enum, maxLength: col.maxLength ?? undefined }, col.checks ?? {}));
+  }
 
   return result;
 }
 
 export function buildAgentTable(table: TableInfo, allTables: Map<string, TableInfo>) {
   const hasPk = table.primaryKeys.length > 0;
-  const operations = ["list", "create"];
-  if (hasPk) operations.push("read", "update", "replace", "delete");
+  const nested = new Set(listNestedRelations(table, allTables).map((r) => r.name));
+  const uniqueKeys = listUniqueKeyColumns(table);
+  const indexed = listIndexedColumns(table);
+  const operations = ["list"];
+  if (supportsWrite(table, "insert")) operations.push("create");
+  if (hasPk) operations.push("read");
+  if (hasPk && supportsWrite(table, "update")) operations.push("update", "replace");
+  if (hasPk && supportsWrite(table, "delete")) operations.push("delete");
+  if (table.kind === "materialized_view") operations.push("refresh");
 
   return {
     name: table.name,
     schema: table.schema,
+    kind: table.kind,
+    writable: table.writable,
+    ...(table.description ? { description: table.description } : {}),
     path: `/api/${table.routePath}`,
     operations,
     primaryKeys: table.primaryKeys,
+    uniqueConstraints: table.uniqueConstraints,
+    indexes: table.indexes,
+    lookups: uniqueKeys.map((column) => ({
+      column,
+      path: `/api/${table.routePath}/by/${encodeURIComponent(column)}/{value}`,
+    })),
     columns: table.columns.map((col) => buildAgentColumn(col, table)),
     foreignKeys: table.foreignKeys.map((fk) => {
       const refRoutePath = fk.refSchema === "public"
@@ -137,9 +181,60 @@ export function buildAgentTable(table: TableInfo, allTables: Map<string, TableIn
         refPath: `/api/${refRoutePath}`,
       };
     }),
+    relations: listRelations(table, allTables).map((r) => ({
+      name: r.name,
+      kind: r.kind,
+      path: `/api/${r.table.routePath}`,
+      ...(nested.has(r.name) ? { nestedPath: `/api/${table.routePath}/{id}/${r.name}` } : {}),
+    })),
     searchableColumns: table.columns
       .filter((c) => SEARCHABLE_TYPES.has(c.udtName))
       .map((c) => c.name),
+    filterableColumns: indexed.filterable,
+    sortableColumns: indexed.sortable,
+  };
+}
+
+/**
+ * buildAgentTable as an API key sees the table: hidden columns, and foreign
+ * keys and relations to tables it cannot read, are left out, and columns the
+ * key may not write are marked readOnly.
+ */
+export function buildScopedAgentTable(
+  table: TableInfo,
+  allTables: Map<string, TableInfo>,
+  permissions: SchemaPermissions | null | undefined,
+) {
+  const readable = new Map(Array.from(allTables).filter(([, t]) => hasTablePermission(permissions, t, "r")));
+  const scoped = scopeTable(table, permissions);
+  const foreignKeys = scoped.foreignKeys.filter(
+    (fk) => hasTablePermission(permissions, { schema: fk.refSchema, name: fk.refTable }, "r"),
+  );
+  const agentTable = buildAgentTable({ ...scoped, foreignKeys }, scopeTables(readable, permissions));
+  for (const column of agentTable.columns) {
+    if (!isColumnWritable(table, permissions, column.name as string)) column.readOnly = true;
+  }
+  return agentTable;
+}
+
+export function buildAgentFunction(fn: FunctionInfo) {
+  return {
+    name: fn.name,
+    schema: fn.schema,
+    path: `/api/_rpc/${fn.routePath}`,
+    volatility: fn.volatility,
+    permission: rpcAccess(fn),
+    args: functionArgColumns(fn).map((c) => {
+      const mapped = mapPgType(c);
+      return {
+        name: c.name,
+        type: mapped.type,
+        ...(mapped.format ? { format: mapped.format } : {}),
+        ...(mapped.items ? { items: mapped.items } : {}),
+        required: !c.hasDefault,
+      };
+    }),
+    returns: { type: fn.returnType, set: fn.returnsSet, row: fn.returnsRow },
   };
 }
 
@@ -155,10 +250,25 @@ export function buildApiInfo() {
     pagination: {
       defaultPageSize: config.defaultPageSize,
       maxPageSize: config.maxPageSize,
+      count: {
+        param: "count",
+        values: COUNT_STRATEGIES,
+        default: config.countStrategy,
+        description: "How pagination.total is computed. estimated uses the planner row estimate and sets totalIsEstimate; none returns total and totalPages as null.",
+      },
+      cursor: {
+        param: "cursor",
+        description: "Keyset pagination for large tables: send cursor= (empty) for the first page, then pass pagination.nextCursor until hasMore is false. No total count is returned.",
+      },
     },
     filtering: {
       paramPattern: "filter.{column}={operator}:{value}",
       operators: ["eq", "neq", "gt", "gte", "lt", "lte", "like", "ilike", "is", "in"],
+      groups: {
+        params: ["or", "and", "not.or", "not.and"],
+        pattern: "or=({column}.{operator}.{value},...)",
+        description: "Boolean groups combined with other filters using AND. Nest with and(...)/or(...), negate with a not. prefix, quote values containing commas, and pass in-lists as column.in.(a,b).",
+      },
     },
     sorting: {
       params: ["sortBy", "sortOrder"],
@@ -172,10 +282,42 @@ export function buildApiInfo() {
       param: "select",
       description: "Comma-separated column names to return",
     },
+    embedding: {
+      param: "expand",
+      pattern: "{relation},{relation}({column},...)",
+      description: "Embed related rows through foreign keys on list and get-by-PK. Forward relations (one) embed an object or null; reverse relations (many) embed an array. See each table's relations.",
+    },
+    lookup: {
+      pathPattern: "/api/{table}/by/{column}/{value}",
+      method: "GET",
+      description: "Get one row by a single-column unique key other than the primary key. See each table's lookups; select and expand work as on get-by-PK.",
+    },
     bulkInsert: {
       maxRows: config.maxBulkInsertRows,
       description: "POST an array of objects to insert multiple rows",
     },
+    bulkMutation: {
+      methods: ["PATCH", "DELETE"],
+      maxAffectedRows: config.maxBulkAffectedRows,
+      description: "PATCH or DELETE /api/{table} with filter.* params or or=/and= groups to change every matching row. A filter is required; changes affecting more than maxAffectedRows rows are rolled back.",
+    },
+    materializedViews: {
+      path: "/api/{view}/_refresh",
+      method: "POST",
+      params: ["concurrently"],
+      description: "Re-run a materialized view's query (tables with kind materialized_view). Requires write permission on its schema. concurrently=true keeps it readable during the refresh but needs a unique index.",
+    },
+    rpc: {
+      pathPattern: "/api/_rpc/{schema}__{function}",
+      method: "POST",
+      description: 'POST the arguments as a JSON object keyed by name. Volatile functions need write permission, stable/immutable ones read. Results are {"data": ...}; set-returning functions take page/pageSize query params and add a pagination object as on lists.',
+    },
+    batch: {
+      path: "/api/_batch",
+      operations: ["insert", "upsert", "update", "delete"],
+      maxOperations: config.maxBatchOperations,
+      description: 'POST {"operations": [{op, table, data?, id?, onConflict?, action?}, ...]} to run writes in one transaction. "$N.column" values reference the first row returned by operation N. Errors include the failing operation index.',
+    },
   };
 }
 
@@ -185,25 +327,36 @@ export async function registerSchemaRoutes(
   app: FastifyInstance,
   dbSchema: DatabaseSchema,
 ): Promise<void> {
-  // Build and cache the full response once
+  // Build and cache the full response once; keys with column rules or unreadable tables get their own view
   const api = buildApiInfo();
-  const tables = Array.from(dbSchema.tables.values()).map((t) =>
-    buildAgentTable(t, dbSchema.tables),
-  );
+  const tables = Array.from(dbSchema.tables.values()).map((info) => ({
+    info,
+    agent: buildAgentTable(info, dbSchema.tables),
+  }));
+  const functions = Array.from(dbSchema.functions.values()).map(buildAgentFunction);
 
   // Build lookup map for per-table endpoint
-  const tableMap = new Map<string, ReturnType<typeof buildAgentTable>>();
-  for (const t of tables) {
-    // routePath is the last segment of the path
-    const routePath = t.path.replace("/api/", "");
-    tableMap.set(routePath, t);
-  }
+  const tableMap = new Map(tables.map((t) => [t.info.routePath, t]));
+
+  const agentTableFor = (t: (typeof tables)[number], permissions: SchemaPermissions | null | undefined) =>
+    hasColumnRules(permissions, t.info) || tables.some((other) => !hasTablePermission(permissions, other.info, "r"))
+      ? buildScopedAgentTable(t.info, dbSchema.tables, permissions)
+      : t.agent;
 
   app.get("/api/_schema", {
     schema: { hide: true },
     handler: async (request) => {
-      const filtered = tables.filter((t) => hasAnyPermission(request.apiKeyPermissions, t.schema));
-      return { api, tables: filtered };
+      const permissions = request.apiKeyPermissions;
+      const filtered = tables
+        .filter((t) => hasAnyTablePermission(permissions, t.info))
+        .map((t) => agentTableFor(t, permissions));
+      const callable = functions.filter(
+        (f) =>
+          hasPermission(permissions, f.schema, f.permission) &&
+          !hasTableRules(permissions, f.schema) &&
+          !hasRowFilters(request.apiKeyRowFilters),
+      );
+      return { api, tables: filtered, functions: callable };
     },
   });
 
@@ -212,10 +365,10 @@ export async function registerSchemaRoutes(
     handler: async (request, reply) => {
       const { table: routePath } = request.params as { table: string };
       const tableSchema = tableMap.get(routePath);
-      if (!tableSchema || !hasAnyPermission(request.apiKeyPermissions, tableSchema.schema)) {
+      if (!tableSchema || !hasAnyTablePermission(request.apiKeyPermissions, tableSchema.info)) {
         return reply.status(404).send({ error: `Table '${routePath}' not found` });
       }
-      return { api, table: tableSchema };
+      return { api, table: agentTableFor(tableSchema, request.apiKeyPermissions) };
     },
   });
 }
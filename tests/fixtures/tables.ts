@@ -1,4 +1,4 @@
-import type { ColumnInfo, TableInfo, DatabaseSchema, ForeignKey } from "../../src/db/introspector.js";
+import type { ColumnInfo, TableInfo, DatabaseSchema, ForeignKey, FunctionInfo } from "../../src/db/introspector.js";
 
 export function makeColumn(overrides: Partial<ColumnInfo> = {}): ColumnInfo {
   return {
@@ -18,9 +18,13 @@ export function makeUsersTable(): TableInfo {
   return {
     schema: "public",
     name: "users",
+    kind: "table",
+    writable: true,
     fqn: '"public"."users"',
     routePath: "users",
     primaryKeys: ["id"],
+    uniqueConstraints: [{ name: "users_email_key", columns: ["email"] }],
+    indexes: [],
     foreignKeys: [],
     columns: [
       makeColumn({ name: "id", dataType: "integer", udtName: "int4", isNullable: false, hasDefault: true, defaultValue: "nextval('users_id_seq'::regclass)", ordinalPosition: 1 }),
@@ -35,9 +39,13 @@ export function makeCompositePkTable(): TableInfo {
   return {
     schema: "public",
     name: "user_roles",
+    kind: "table",
+    writable: true,
     fqn: '"public"."user_roles"',
     routePath: "user_roles",
     primaryKeys: ["user_id", "role_id"],
+    uniqueConstraints: [],
+    indexes: [],
     foreignKeys: [
       {
         constraintName: "user_roles_user_id_fkey",
@@ -59,9 +67,13 @@ export function makeNoPkTable(): TableInfo {
   return {
     schema: "public",
     name: "audit_logs",
+    kind: "table",
+    writable: true,
     fqn: '"public"."audit_logs"',
     routePath: "audit_logs",
     primaryKeys: [],
+    uniqueConstraints: [],
+    indexes: [],
     foreignKeys: [],
     columns: [
       makeColumn({ name: "event", dataType: "text", udtName: "text", isNullable: false, hasDefault: false, ordinalPosition: 1 }),
@@ -75,9 +87,13 @@ export function makeNonPublicSchemaTable(): TableInfo {
   return {
     schema: "reporting",
     name: "metrics",
+    kind: "table",
+    writable: true,
     fqn: '"reporting"."metrics"',
     routePath: "reporting__metrics",
     primaryKeys: ["id"],
+    uniqueConstraints: [],
+    indexes: [],
     foreignKeys: [],
     columns: [
       makeColumn({ name: "id", dataType: "integer", udtName: "int4", isNullable: false, hasDefault: true, defaultValue: "nextval('reporting.metrics_id_seq'::regclass)", ordinalPosition: 1 }),
@@ -91,9 +107,13 @@ export function makeTableWithForeignKeys(): TableInfo {
   return {
     schema: "public",
     name: "orders",
+    kind: "table",
+    writable: true,
     fqn: '"public"."orders"',
     routePath: "orders",
     primaryKeys: ["id"],
+    uniqueConstraints: [],
+    indexes: [],
     foreignKeys: [
       {
         constraintName: "orders_user_id_fkey",
@@ -116,9 +136,13 @@ export function makeTableWithNonPublicFk(): TableInfo {
   return {
     schema: "public",
     name: "reports",
+    kind: "table",
+    writable: true,
     fqn: '"public"."reports"',
     routePath: "reports",
     primaryKeys: ["id"],
+    uniqueConstraints: [],
+    indexes: [],
     foreignKeys: [
       {
         constraintName: "reports_metric_id_fkey",
@@ -140,9 +164,13 @@ export function makeSoftDeleteTable(): TableInfo {
   return {
     schema: "public",
     name: "posts",
+    kind: "table",
+    writable: true,
     fqn: '"public"."posts"',
     routePath: "posts",
     primaryKeys: ["id"],
+    uniqueConstraints: [],
+    indexes: [],
     foreignKeys: [
       {
         constraintName: "posts_user_id_fkey",
@@ -164,12 +192,123 @@ export function makeSoftDeleteTable(): TableInfo {
   };
 }
 
-export function makeDatabaseSchema(tables: TableInfo[]): DatabaseSchema {
+export function makeViewTable(): TableInfo {
+  return {
+    schema: "public",
+    name: "active_users",
+    kind: "view",
+    writable: false,
+    fqn: '"public"."active_users"',
+    routePath: "active_users",
+    primaryKeys: [],
+    uniqueConstraints: [],
+    indexes: [],
+    foreignKeys: [],
+    columns: [
+      makeColumn({ name: "id", dataType: "integer", udtName: "int4", isNullable: true, hasDefault: false, ordinalPosition: 1 }),
+      makeColumn({ name: "name", dataType: "character varying", udtName: "varchar", isNullable: true, hasDefault: false, maxLength: 255, ordinalPosition: 2 }),
+    ],
+  };
+}
+
+/** A view with INSTEAD OF INSERT and DELETE triggers, but none for UPDATE */
+export function makeTriggerViewTable(): TableInfo {
+  return {
+    ...makeViewTable(),
+    name: "user_inbox",
+    writable: true,
+    writeOperations: ["insert", "delete"],
+    fqn: '"public"."user_inbox"',
+    routePath: "user_inbox",
+    primaryKeys: ["id"],
+  };
+}
+
+export function makeMaterializedViewTable(): TableInfo {
+  return {
+    schema: "public",
+    name: "order_totals",
+    kind: "materialized_view",
+    writable: false,
+    fqn: '"public"."order_totals"',
+    routePath: "order_totals",
+    primaryKeys: [],
+    uniqueConstraints: [],
+    indexes: [],
+    foreignKeys: [],
+    columns: [
+      makeColumn({ name: "user_id", dataType: "integer", udtName: "int4", isNullable: true, hasDefault: false, ordinalPosition: 1 }),
+      makeColumn({ name: "total", dataType: "numeric", udtName: "numeric", isNullable: true, hasDefault: false, ordinalPosition: 2 }),
+    ],
+  };
+}
+
+/** Table with an identity ALWAYS primary key and a stored generated column */
+export function makeGeneratedColumnsTable(): TableInfo {
+  return {
+    schema: "public",
+    name: "invoices",
+    kind: "table",
+    writable: true,
+    fqn: '"public"."invoices"',
+    routePath: "invoices",
+    primaryKeys: ["id"],
+    uniqueConstraints: [],
+    indexes: [],
+    foreignKeys: [],
+    columns: [
+      makeColumn({ name: "id", dataType: "integer", udtName: "int4", hasDefault: true, identity: "always", ordinalPosition: 1 }),
+      makeColumn({ name: "number", dataType: "bigint", udtName: "int8", hasDefault: true, identity: "by_default", ordinalPosition: 2 }),
+      makeColumn({ name: "subtotal", dataType: "numeric", udtName: "numeric", ordinalPosition: 3 }),
+      makeColumn({ name: "total", dataType: "numeric", udtName: "numeric", hasDefault: true, isGenerated: true, ordinalPosition: 4 }),
+    ],
+  };
+}
+
+/** Volatile, row-returning function: create_order(customer_id integer, note text DEFAULT NULL) */
+export function makeVolatileFunction(): FunctionInfo {
+  return {
+    schema: "public",
+    name: "create_order",
+    args: [
+      { name: "customer_id", dataType: "integer", udtName: "int4", hasDefault: false },
+      { name: "note", dataType: "text", udtName: "text", hasDefault: true },
+    ],
+    returnType: "orders",
+    returnsRow: true,
+    returnsSet: false,
+    volatility: "volatile",
+    fqn: '"public"."create_order"',
+    routePath: "public__create_order",
+  };
+}
+
+/** Stable set-returning scalar function: reporting.top_customer_ids(since date) */
+export function makeSetReturningFunction(): FunctionInfo {
+  return {
+    schema: "reporting",
+    name: "top_customer_ids",
+    args: [{ name: "since", dataType: "date", udtName: "date", hasDefault: false }],
+    returnType: "int4",
+    returnsRow: false,
+    returnsSet: true,
+    volatility: "stable",
+    fqn: '"reporting"."top_customer_ids"',
+    routePath: "reporting__top_customer_ids",
+  };
+}
+
+export function makeDatabaseSchema(tables: TableInfo[], functions: FunctionInfo[] = []): DatabaseSchema {
   const map = new Map<string, TableInfo>();
+  const fnMap = new Map<string, FunctionInfo>();
   const schemas = new Set<string>();
   for (const t of tables) {
     map.set(t.fqn, t);
     schemas.add(t.schema);
   }
-  return { tables: map, schemas: Array.from(schemas) };
+  for (const fn of functions) {
+    fnMap.set(fn.fqn, fn);
+    schemas.add(fn.schema);
+  }
+  return { tables: map, functions: fnMap, schemas: Array.from(schemas) };
 }
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildTestApp } from "./setup.js";
+import { makeUsersTable, makeDatabaseSchema } from "../fixtures/tables.js";
+import { generateApiKey } from "../../src/auth/api-key.js";
+
+const SECRET = "test-admin-secret";
+const RESULT = { changed: true, databaseHash: "abc123", tables: 2, functions: 0 };
+
+describe("Admin Routes", () => {
+  describe("POST /api/_admin/reload", () => {
+    let app: FastifyInstance;
+    const reload = vi.fn();
+
+    beforeAll(async () => {
+      app = await buildTestApp({ dbSchema: makeDatabaseSchema([makeUsersTable()]), reload });
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it("reloads the schema and returns the result", async () => {
+      reload.mockResolvedValueOnce(RESULT);
+
+      const res = await app.inject({ method: "POST", url: "/api/_admin/reload" });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.json()).toEqual(RESULT);
+    });
+
+    it("returns 500 and keeps serving when the reload fails", async () => {
+      reload.mockRejectedValueOnce(new Error("relation does not exist"));
+
+      const res = await app.inject({ method: "POST", url: "/api/_admin/reload" });
+
+      expect(res.statusCode).toBe(500);
+      expect(res.json()).toEqual({ error: "Reload failed", message: "relation does not exist" });
+    });
+  });
+
+  describe("with auth", () => {
+    let app: FastifyInstance;
+    const reload = vi.fn().mockResolvedValue(RESULT);
+
+    beforeAll(async () => {
+      app = await buildTestApp({
+        dbSchema: makeDatabaseSchema([makeUsersTable()]),
+        authEnabled: true,
+        authSecret: SECRET,
+        reload,
+      });
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it("requires an API key", async () => {
+      const res = await app.inject({ method: "POST", url: "/api/_admin/reload" });
+      expect(res.statusCode).toBe(401);
+    });
+
+    it("allows legacy keys and keys with read-write access to all schemas", async () => {
+      for (const key of [generateApiKey("admin", SECRET), generateApiKey("ops", SECRET, { "*": "rw" })]) {
+        const res = await app.inject({
+          method: "POST",
+          url: "/api/_admin/reload",
+          headers: { authorization: `Bearer ${key}` },
+        });
+        expect(res.statusCode).toBe(200);
+      }
+    });
+
+    it("rejects keys scoped to some schemas", async () => {
+      reload.mockClear();
+      const key = generateApiKey("app", SECRET, { public: "rw" });
+
+      const res = await app.inject({
+        method: "POST",
+        url: "/api/_admin/reload",
+        headers: { authorization: `Bearer ${key}` },
+      });
+
+      expect(res.statusCode).toBe(403);
+      expect(res.json().error).toBe("Forbidden");
+      expect(reload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/_admin/revocations/reload", () => {
+    let app: FastifyInstance;
+    const revocations = { isRevoked: vi.fn().mockReturnValue(false), reload: vi.fn(), poll: vi.fn(), stop: vi.fn() };
+    const admin = { authorization: `Bearer ${generateApiKey("admin", SECRET)}` };
+
+    beforeAll(async () => {
+      app = await buildTestApp({
+        dbSchema: makeDatabaseSchema([makeUsersTable()]),
+        authEnabled: true,
+        authSecret: SECRET,
+        revocations,
+      });
+    });
+
+    afterAll(async () => {
+      await app.close();
+    });
+
+    it("reloads the revocation list and returns its size", async () => {
+      revocations.reload.mockResolvedValueOnce({ revoked: 3 });
+
+      const res = await app.inject({ method: "POST", url: "/api/_admin/revocations/reload", headers: admin });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.json()).toEqual({ revoked: 3 });
+    });
+
+    it("returns 500 when the reload fails", async () => {
+      revocations.reload.mockRejectedValueOnce(new Error("ENOENT: no such file or directory"));
+
+      const res = await app.inject({ method: "POST", url: "/api/_admin/revocations/reload", headers: admin });
+
+      expect(res.statusCode).toBe(500);
+      expect(res.json()).toEqual({ error: "Reload failed", message: "ENOENT: no such file or directory" });
+    });
+
+    it("rejects keys scoped to some schemas", async () => {
+      revocations.reload.mockClear();
+      const key = generateApiKey("app", SECRET, { public: "rw" });
+
+      const res = await app.inject({
+        method: "POST",
+        url: "/api/_admin/revocations/reload",
+        headers: { authorization: `Bearer ${key}` },
+      });
+
+      expect(res.statusCode).toBe(403);
+      expect(res.json().error).toBe("Forbidden");
+      expect(revocations.reload).not.toHaveBeenCalled();
+    });
+
+    it("is not registered without a revocation list", async () => {
+      const plain = await buildTestApp({ dbSchema: makeDatabaseSchema([makeUsersTable()]) });
+      const res = await plain.inject({ method: "POST", url: "/api/_admin/revocations/reload" });
+      expect(res.statusCode).toBe(404);
+      await plain.close();
+    });
+  });
+});
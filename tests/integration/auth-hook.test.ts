@@ -1,8 +1,11 @@
-import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { describe, it, expect, beforeAll, beforeEach, afterEach, afterAll, vi } from "vitest";
 import type { FastifyInstance } from "fastify";
 import { buildTestApp, createMockPool } from "./setup.js";
-import { makeUsersTable, makeNonPublicSchemaTable, makeDatabaseSchema } from "../fixtures/tables.js";
-import { generateApiKey } from "../../src/auth/api-key.js";
+import { makeColumn, makeNoPkTable, makeUsersTable, makeNonPublicSchemaTable, makeTableWithNonPublicFk, makeTableWithForeignKeys, makeMaterializedViewTable, makeVolatileFunction, makeSetReturningFunction, makeDatabaseSchema } from "../fixtures/tables.js";
+import { createHmac } from "node:crypto";
+import { generateApiKey, keyFingerprint } from "../../src/auth/api-key.js";
+import { createJwtVerifier } from "../../src/auth/jwt.js";
+import { config } from "../../src/config.js";
 
 const SECRET = "test-auth-secret";
 
@@ -96,6 +99,159 @@ describe("Auth Hook Integration", () => {
   });
 });
 
+describe("Auth Hook - expiry and revocation", () => {
+  let app: FastifyInstance;
+  const revoked = new Set<string>();
+
+  beforeAll(async () => {
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable()]),
+      pool: createMockPool() as any,
+      authEnabled: true,
+      authSecret: SECRET,
+      revocations: {
+        isRevoked: (label, fingerprint) => revoked.has(label) || revoked.has(fingerprint),
+        reload: async () => ({ revoked: revoked.size }),
+        poll: () => {},
+        stop: () => {},
+      },
+    });
+  });
+
+  afterEach(() => {
+    revoked.clear();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function get(key: string) {
+    return app.inject({ method: "GET", url: "/api/_schema", headers: { authorization: `Bearer ${key}` } });
+  }
+
+  it("rejects expired keys with a distinct message", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const res = await get(generateApiKey("contractor", SECRET, undefined, { exp: now - 60 }));
+    expect(res.statusCode).toBe(401);
+    expect(res.json()).toEqual({ error: "Unauthorized", message: "API key has expired." });
+  });
+
+  it("rejects keys that are not valid yet with a distinct message", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const res = await get(generateApiKey("contractor", SECRET, undefined, { nbf: now + 3600 }));
+    expect(res.statusCode).toBe(401);
+    expect(res.json()).toEqual({ error: "Unauthorized", message: "API key is not valid yet." });
+  });
+
+  it("accepts keys within their validity window", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const res = await get(generateApiKey("contractor", SECRET, undefined, { nbf: now - 60, exp: now + 3600 }));
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("rejects keys revoked by label or fingerprint with a distinct message", async () => {
+    const key = generateApiKey("svc", SECRET);
+    expect((await get(key)).statusCode).toBe(200);
+
+    revoked.add("svc");
+    expect((await get(key)).json()).toEqual({ error: "Unauthorized", message: "API key has been revoked." });
+
+    revoked.clear();
+    revoked.add(keyFingerprint(key));
+    const res = await get(key);
+    expect(res.statusCode).toBe(401);
+    expect(res.json().message).toBe("API key has been revoked.");
+    expect((await get(generateApiKey("svc", SECRET, { public: "r" }))).statusCode).toBe(200);
+  });
+});
+
+describe("Auth Hook - JWT", () => {
+  const JWT_SECRET = "test-jwt-secret";
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  function signJwt(payload: Record<string, unknown>): string {
+    const b64 = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+    const input = `${b64({ alg: "HS256", typ: "JWT" })}.${b64(payload)}`;
+    return `${input}.${createHmac("sha256", JWT_SECRET).update(input).digest("base64url")}`;
+  }
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+      jwt: createJwtVerifier({ secret: JWT_SECRET, audience: "pgcrud", permissionsClaim: "pgcrud_permissions" }),
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("accepts JWTs alongside API keys, with the permissions from their claim", async () => {
+    const token = signJwt({ sub: "alice", aud: "pgcrud", pgcrud_permissions: { public: "r" } });
+    (mockPool.query as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+
+    const read = await app.inject({ method: "GET", url: "/api/users", headers: { authorization: `Bearer ${token}` } });
+    expect(read.statusCode).toBe(200);
+
+    const write = await app.inject({
+      method: "POST",
+      url: "/api/users",
+      headers: { authorization: `Bearer ${token}` },
+      payload: { name: "Alice", email: "a@test.com" },
+    });
+    expect(write.statusCode).toBe(403);
+
+    const key = await app.inject({
+      method: "GET",
+      url: "/api/_schema",
+      headers: { "x-api-key": generateApiKey("svc", SECRET) },
+    });
+    expect(key.statusCode).toBe(200);
+  });
+
+  it("rejects JWTs for another audience, and expired JWTs with their reason", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const get = (token: string) =>
+      app.inject({ method: "GET", url: "/api/_schema", headers: { authorization: `Bearer ${token}` } });
+
+    const other = await get(signJwt({ sub: "alice", aud: "other", pgcrud_permissions: { public: "r" } }));
+    expect(other.statusCode).toBe(401);
+    expect(other.json().message).toBe("Invalid API key.");
+
+    const expired = await get(signJwt({ sub: "alice", aud: "pgcrud", exp: now - 60, pgcrud_permissions: { public: "r" } }));
+    expect(expired.statusCode).toBe(401);
+    expect(expired.json().message).toBe("API key has expired.");
+  });
+
+  it("keeps JWT subjects apart from key labels and passes the token's claims to the database", async () => {
+    const payload = { sub: "reporting", aud: "pgcrud", email: "r@example.com", pgcrud_permissions: { public: "r" } };
+    config.keyRoles = { reporting: "analyst", "jwt:reporting": "sso_user" };
+    config.dbSessionClaims = true;
+    const query = mockPool.query as ReturnType<typeof vi.fn>;
+    query.mockReset().mockResolvedValue({ rows: [{ id: 1 }], rowCount: 1 });
+
+    try {
+      await app.inject({ method: "GET", url: "/api/users/1", headers: { authorization: `Bearer ${signJwt(payload)}` } });
+    } finally {
+      config.keyRoles = {};
+      config.dbSessionClaims = false;
+    }
+
+    expect(query.mock.calls[1][0]).toEqual({
+      text: "SELECT set_config($1, $2, true), set_config($3, $4, true), set_config($5, $6, true)",
+      values: ["role", "sso_user", "request.jwt.claims", JSON.stringify(payload), "app.api_key_label", "jwt:reporting"],
+    });
+  });
+});
+
 describe("Auth Hook - Schema Permissions", () => {
   let app: FastifyInstance;
   let mockPool: ReturnType<typeof createMockPool>;
@@ -103,7 +259,10 @@ describe("Auth Hook - Schema Permissions", () => {
   beforeAll(async () => {
     mockPool = createMockPool();
     app = await buildTestApp({
-      dbSchema: makeDatabaseSchema([makeUsersTable(), makeNonPublicSchemaTable()]),
+      dbSchema: makeDatabaseSchema(
+        [makeUsersTable(), makeNonPublicSchemaTable()],
+        [makeVolatileFunction(), makeSetReturningFunction()],
+      ),
       pool: mockPool as any,
       authEnabled: true,
       authSecret: SECRET,
@@ -208,6 +367,18 @@ describe("Auth Hook - Schema Permissions", () => {
     expect(body.tables.every((t: any) => t.schema === "public")).toBe(true);
   });
 
+  it("lists only the functions a key may call in the schema endpoint", async () => {
+    const key = generateApiKey("reader", SECRET, { public: "r", reporting: "r" });
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/_schema",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().functions.map((f: any) => f.name)).toEqual(["top_customer_ids"]);
+  });
+
   it("returns 404 for schema/:table when key lacks permission", async () => {
     const key = generateApiKey("public-only", SECRET, { public: "r" });
 
@@ -289,6 +460,24 @@ describe("Auth Hook - Schema Permissions", () => {
     expect(res.statusCode).toBe(403);
   });
 
+  it("denies bulk PATCH and DELETE with read-only key", async () => {
+    const key = generateApiKey("reader", SECRET, { public: "r" });
+
+    const patch = await app.inject({
+      method: "PATCH",
+      url: "/api/users?filter.id=eq:1",
+      headers: { authorization: `Bearer ${key}` },
+      payload: { name: "Updated" },
+    });
+    const del = await app.inject({
+      method: "DELETE",
+      url: "/api/users?filter.id=eq:1",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(patch.statusCode).toBe(403);
+    expect(del.statusCode).toBe(403);
+  });
+
   it("allows GET by PK with read permission", async () => {
     const key = generateApiKey("reader", SECRET, { public: "r" });
     (mockPool.query as ReturnType<typeof vi.fn>)
@@ -314,3 +503,600 @@ describe("Auth Hook - Schema Permissions", () => {
     expect(res.json().error).toBe("Forbidden");
   });
 });
+
+describe("Auth Hook - operation scopes", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const alice = { id: 1, name: "Alice", email: "a@b.com", active: true };
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  function send(perm: string, method: "POST" | "PUT" | "PATCH" | "DELETE", url: string, payload?: unknown, prefer?: string) {
+    const key = generateApiKey("scoped", SECRET, { public: perm });
+    return app.inject({
+      method,
+      url,
+      headers: { authorization: `Bearer ${key}`, ...(prefer ? { prefer } : {}) },
+      payload: payload as any,
+    });
+  }
+
+  it("lets a create-only key insert but not update or delete", async () => {
+    (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [alice], rowCount: 1 });
+
+    const insert = await send("rc", "POST", "/api/users", { name: "Alice", email: "a@b.com" });
+    const update = await send("rc", "PATCH", "/api/users/1", { name: "Bob" });
+    const del = await send("rc", "DELETE", "/api/users/1");
+
+    expect(insert.statusCode).toBe(201);
+    expect(update.json().message).toBe('API key does not have update permission on table "public.users".');
+    expect(del.json().message).toBe('API key does not have delete permission on table "public.users".');
+  });
+
+  it("requires the bulk scope for array inserts and filtered updates and deletes", async () => {
+    const insert = await send("rc", "POST", "/api/users", [{ name: "Alice", email: "a@b.com" }]);
+    const patch = await send("ru", "PATCH", "/api/users?filter.id=eq:1", { name: "Bob" });
+    const del = await send("rud", "DELETE", "/api/users?filter.id=eq:1");
+
+    for (const res of [insert, patch, del]) {
+      expect(res.statusCode).toBe(403);
+      expect(res.json().message).toBe('API key does not have bulk permission on table "public.users".');
+    }
+
+    (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [alice], rowCount: 1 });
+    const bulkInsert = await send("cb", "POST", "/api/users", [{ name: "Alice", email: "a@b.com" }]);
+    expect(bulkInsert.statusCode).toBe(201);
+  });
+
+  it("requires update to merge duplicates, but not to ignore them", async () => {
+    const merge = await send("rc", "POST", "/api/users", alice, "resolution=merge-duplicates");
+    const ignore = await send("rc", "POST", "/api/users", alice, "resolution=ignore-duplicates");
+
+    expect(merge.json().message).toBe('API key does not have update permission on table "public.users".');
+    expect(ignore.statusCode).toBe(204);
+  });
+
+  it("lets an update-only key update but not delete", async () => {
+    (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [alice], rowCount: 1 });
+
+    const update = await send("ru", "PATCH", "/api/users/1", { name: "Alice" });
+    const del = await send("ru", "DELETE", "/api/users/1");
+
+    expect(update.statusCode).toBe(200);
+    expect(del.statusCode).toBe(403);
+  });
+
+  it("keeps w as create, update, delete and bulk", async () => {
+    (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [alice], rowCount: 1 });
+
+    const bulkInsert = await send("w", "POST", "/api/users", [{ name: "Alice", email: "a@b.com" }]);
+    const del = await send("w", "DELETE", "/api/users/1");
+
+    expect(bulkInsert.statusCode).toBe(201);
+    expect(del.statusCode).toBe(404);
+  });
+});
+
+describe("Auth Hook - expand permissions", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeTableWithNonPublicFk(), makeNonPublicSchemaTable()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("denies expand into a schema the key cannot read", async () => {
+    const key = generateApiKey("public-only", SECRET, { public: "r" });
+
+    const listRes = await app.inject({
+      method: "GET",
+      url: "/api/reports?expand=metric",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(listRes.statusCode).toBe(403);
+    expect(listRes.json().message).toContain('table "reporting.metrics"');
+
+    const getRes = await app.inject({
+      method: "GET",
+      url: "/api/reports/1?expand=metric",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(getRes.statusCode).toBe(403);
+    expect(mockPool.query).not.toHaveBeenCalled();
+  });
+
+  it("allows expand when the key can read the related schema", async () => {
+    const key = generateApiKey("both", SECRET, { public: "r", reporting: "r" });
+    (mockPool.query as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({ rows: [{ id: 1, metric_id: 2, metric: { id: 2, metric_name: "cpu" } }], rowCount: 1 });
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/reports/1?expand=metric(id,metric_name)",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().metric).toEqual({ id: 2, metric_name: "cpu" });
+  });
+});
+
+describe("Auth Hook - materialized view refresh", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeMaterializedViewTable()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("requires write permission to refresh a materialized view", async () => {
+    const key = generateApiKey("reader", SECRET, { public: "r" });
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/order_totals/_refresh",
+      headers: { authorization: `Bearer ${key}` },
+    });
+    expect(res.statusCode).toBe(403);
+    expect(res.json().message).toBe('API key does not have write permission on table "public.order_totals".');
+  });
+});
+
+describe("Auth Hook - table and column permissions", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const query = () => mockPool.query as ReturnType<typeof vi.fn>;
+  const USER_ROW = { id: 1, name: "Alice", email: "alice@test.com", active: true };
+  // email hidden, active read-only
+  const support = generateApiKey("support", SECRET, {
+    public: "rw",
+    "public.users.email": "-",
+    "public.users.active": "r",
+  });
+  const ordersReader = generateApiKey("orders-reader", SECRET, { "public.orders": "r" });
+  // An audit trail of orders, which ordersReader cannot read
+  const orderAudits = {
+    ...makeNoPkTable(),
+    name: "order_audits",
+    fqn: '"public"."order_audits"',
+    routePath: "order_audits",
+    columns: [...makeNoPkTable().columns, makeColumn({ name: "order_id", udtName: "int4", ordinalPosition: 3 })],
+    foreignKeys: [
+      { constraintName: "order_audits_order_id_fkey", column: "order_id", refSchema: "public", refTable: "orders", refColumn: "id" },
+    ],
+  };
+
+  function inject(key: string, method: "GET" | "POST" | "PATCH" | "DELETE", url: string, payload?: unknown) {
+    return app.inject({ method, url, headers: { authorization: `Bearer ${key}` }, payload: payload as any });
+  }
+
+  /** SQL text of every query run since the last reset */
+  function sqlTexts(): string[] {
+    return query().mock.calls.map(([q]) => (typeof q === "string" ? q : q.text));
+  }
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys(), makeNonPublicSchemaTable(), orderAudits]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  beforeEach(() => {
+    query().mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("grants a listed table without the rest of its schema", async () => {
+    query().mockResolvedValueOnce({ rows: [], rowCount: 0 }).mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+
+    expect((await inject(ordersReader, "GET", "/api/orders")).statusCode).toBe(200);
+
+    const users = await inject(ordersReader, "GET", "/api/users");
+    expect(users.statusCode).toBe(403);
+    expect(users.json().message).toBe('API key does not have read permission on table "public.users".');
+    expect((await inject(ordersReader, "POST", "/api/orders", { user_id: 1, total: 5 })).statusCode).toBe(403);
+  });
+
+  it("denies a table excluded from its schema with '-'", async () => {
+    const key = generateApiKey("no-users", SECRET, { public: "rw", "public.users": "-" });
+
+    expect((await inject(key, "GET", "/api/users/1")).statusCode).toBe(403);
+    expect((await inject(key, "GET", "/api/_schema/users")).statusCode).toBe(404);
+  });
+
+  it("redacts hidden columns from list, cursor and single-row responses", async () => {
+    query()
+      .mockResolvedValueOnce({ rows: [{ ...USER_ROW }], rowCount: 1 })
+      .mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 });
+    const list = await inject(support, "GET", "/api/users");
+    expect(list.json().data).toEqual([{ id: 1, name: "Alice", active: true }]);
+
+    query().mockResolvedValueOnce({ rows: [{ ...USER_ROW }], rowCount: 1 });
+    const cursor = await inject(support, "GET", "/api/users?cursor=");
+    expect(cursor.json().data).toEqual([{ id: 1, name: "Alice", active: true }]);
+
+    query().mockResolvedValueOnce({ rows: [{ ...USER_ROW, __version: "7" }], rowCount: 1 });
+    const one = await inject(support, "GET", "/api/users/1");
+    expect(one.statusCode).toBe(200);
+    expect(one.json()).not.toHaveProperty("email");
+  });
+
+  it("rejects hidden columns in select, filters and filter groups, and leaves them out of search", async () => {
+    expect((await inject(support, "GET", "/api/users?select=email")).statusCode).toBe(400);
+    expect((await inject(support, "GET", "/api/users?filter.email=eq:alice@test.com")).statusCode).toBe(400);
+    expect((await inject(support, "GET", "/api/users?or=(email.eq.a,name.eq.b)")).statusCode).toBe(400);
+
+    query().mockResolvedValueOnce({ rows: [], rowCount: 0 }).mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+    expect((await inject(support, "GET", "/api/users?search=alice")).statusCode).toBe(200);
+    expect(sqlTexts()[0]).toContain('"name"::text ILIKE');
+    expect(sqlTexts()[0]).not.toContain('"email"');
+  });
+
+  it("denies lookups by a hidden unique column", async () => {
+    const res = await inject(support, "GET", "/api/users/by/email/alice@test.com");
+
+    expect(res.statusCode).toBe(403);
+    expect(res.json().message).toBe('API key does not have read permission on column "public.users.email".');
+    expect(query()).not.toHaveBeenCalled();
+  });
+
+  it("redacts hidden columns of embedded rows and rejects selecting them", async () => {
+    query().mockResolvedValueOnce({
+      rows: [{ id: 1, user_id: 1, total: 5, status: "paid", user: { ...USER_ROW } }],
+      rowCount: 1,
+    }).mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 });
+
+    const res = await inject(support, "GET", "/api/orders?expand=user");
+    expect(res.json().data[0].user).toEqual({ id: 1, name: "Alice", active: true });
+
+    expect((await inject(support, "GET", "/api/orders?expand=user(email)")).statusCode).toBe(400);
+  });
+
+  it("rejects writes to read-only and hidden columns before querying", async () => {
+    const insert = await inject(support, "POST", "/api/users", { name: "Bob", email: "bob@test.com" });
+    expect(insert.statusCode).toBe(403);
+    expect(insert.json().message).toBe('API key does not have write permission on column "public.users.email".');
+
+    const update = await inject(support, "PATCH", "/api/users/1", { active: false });
+    expect(update.json().message).toBe('API key does not have write permission on column "public.users.active".');
+    expect((await inject(support, "PATCH", "/api/users?filter.id=eq:1", { active: false })).statusCode).toBe(403);
+    expect((await inject(support, "POST", "/api/users", [{ name: "Bob", email: "bob@test.com" }])).statusCode).toBe(403);
+    expect(query()).not.toHaveBeenCalled();
+  });
+
+  it("redacts rows returned by writes", async () => {
+    const key = generateApiKey("no-active", SECRET, { public: "rw", "public.users.active": "-" });
+    const user = { name: "Alice", email: "alice@test.com" };
+    query().mockImplementation(async () => ({ rows: [{ ...USER_ROW, __version: "8" }], rowCount: 1 }));
+
+    expect((await inject(key, "POST", "/api/users", user)).json()).toEqual({ id: 1, ...user });
+    // The oneOf response schema serializes bulk results as a row (see crud-routes tests)
+    expect((await inject(key, "POST", "/api/users", [user])).statusCode).toBe(201);
+    expect((await inject(key, "PATCH", "/api/users/1", { name: "Alice" })).json()).not.toHaveProperty("active");
+    expect((await inject(key, "DELETE", "/api/users/1")).json().record).not.toHaveProperty("active");
+    expect((await inject(key, "PATCH", "/api/users?filter.id=eq:1", { name: "Alice" })).json().data[0]).not.toHaveProperty("active");
+  });
+
+  it("rejects bulk filters on hidden columns", async () => {
+    const res = await inject(support, "DELETE", "/api/users?filter.email=eq:alice@test.com");
+
+    expect(res.statusCode).toBe(400);
+    expect(sqlTexts().some((sql) => sql?.startsWith("DELETE") || sql?.startsWith("UPDATE"))).toBe(false);
+  });
+
+  it("checks columns and redacts results in batches", async () => {
+    const denied = await inject(support, "POST", "/api/_batch", {
+      operations: [{ op: "update", table: "users", id: "1", data: { active: false } }],
+    });
+    expect(denied.statusCode).toBe(403);
+    expect(denied.json()).toEqual({
+      error: "Forbidden",
+      message: 'API key does not have write permission on column "public.users.active".',
+      operation: 0,
+    });
+
+    query().mockResolvedValue({ rows: [{ ...USER_ROW }], rowCount: 1 });
+    const res = await inject(support, "POST", "/api/_batch", {
+      operations: [{ op: "insert", table: "users", data: [{ name: "Alice" }] }, { op: "delete", table: "users", id: "1" }],
+    });
+    expect(res.json().results[0].data).toEqual([{ id: 1, name: "Alice", active: true }]);
+  });
+
+  it("describes tables as the key sees them in /api/_schema and /api/_meta", async () => {
+    const schema = (await inject(support, "GET", "/api/_schema")).json();
+    const users = schema.tables.find((t: any) => t.name === "users");
+    expect(users.columns.map((c: any) => c.name)).toEqual(["id", "name", "active"]);
+    expect(users.columns.find((c: any) => c.name === "active").readOnly).toBe(true);
+    expect(users.lookups).toEqual([]);
+    expect(schema.tables.find((t: any) => t.name === "orders").columns).toHaveLength(4);
+
+    const single = (await inject(support, "GET", "/api/_schema/users")).json();
+    expect(single.table.columns.map((c: any) => c.name)).not.toContain("email");
+
+    const meta = (await inject(support, "GET", "/api/_meta/tables")).json();
+    expect(meta.tables.find((t: any) => t.table === "users").columnCount).toBe(3);
+
+    const metaUsers = (await inject(support, "GET", "/api/_meta/tables/users")).json();
+    expect(metaUsers.columns.map((c: any) => c.name)).toEqual(["id", "name", "active"]);
+    expect(metaUsers.uniqueConstraints).toEqual([]);
+  });
+
+  it("lists only the tables a table-scoped key can access", async () => {
+    const schema = (await inject(ordersReader, "GET", "/api/_schema")).json();
+    expect(schema.tables.map((t: any) => t.name)).toEqual(["orders"]);
+
+    const meta = (await inject(ordersReader, "GET", "/api/_meta/tables")).json();
+    expect(meta.tables.map((t: any) => t.table)).toEqual(["orders"]);
+    expect((await inject(ordersReader, "GET", "/api/_meta/tables/users")).statusCode).toBe(404);
+  });
+
+  it("leaves tables the key cannot read out of relations and foreign keys", async () => {
+    const full = (await inject(support, "GET", "/api/_schema/orders")).json().table;
+    expect(full.relations.map((r: any) => r.name)).toEqual(["user", "order_audits"]);
+    expect(full.foreignKeys.map((fk: any) => fk.refPath)).toEqual(["/api/users"]);
+
+    const listed = (await inject(ordersReader, "GET", "/api/_schema")).json().tables[0];
+    const single = (await inject(ordersReader, "GET", "/api/_schema/orders")).json().table;
+    for (const orders of [listed, single]) {
+      expect(orders.relations).toEqual([]);
+      expect(orders.foreignKeys).toEqual([]);
+    }
+  });
+});
+
+describe("Auth Hook - row filters", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const query = () => mockPool.query as ReturnType<typeof vi.fn>;
+  // Orders of user 42 only; users has no user_id column, so it is exempted to be shared
+  const tenant = generateApiKey("tenant-42", SECRET, { public: "rw", reporting: "r" }, {
+    rows: { public: { user_id: "42" }, "public.users": {} },
+  });
+
+  function inject(method: "GET" | "POST" | "PATCH" | "DELETE", url: string, payload?: unknown) {
+    return app.inject({ method, url, headers: { authorization: `Bearer ${tenant}` }, payload: payload as any });
+  }
+
+  /** SQL text and values of every query run since the last reset */
+  function queries(): { text: string; values?: unknown[] }[] {
+    return query().mock.calls.map(([q]) => q);
+  }
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema(
+        [makeUsersTable(), makeTableWithForeignKeys()],
+        [makeVolatileFunction(), makeSetReturningFunction()],
+      ),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  beforeEach(() => {
+    query().mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("limits reads to the key's rows", async () => {
+    query().mockResolvedValueOnce({ rows: [], rowCount: 0 }).mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+
+    expect((await inject("GET", "/api/orders?filter.status=eq:paid")).statusCode).toBe(200);
+    expect(queries()[0].text).toContain('WHERE "user_id" = $1 AND "status" = $2');
+    expect(queries()[0].values).toEqual(["42", "paid", 50, 0]);
+    expect(queries()[1].text).toContain('WHERE "user_id" = $1');
+
+    query().mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+    expect((await inject("GET", "/api/orders/1")).statusCode).toBe(404);
+    expect(queries()[0].values).toEqual(["1", "42"]);
+  });
+
+  it("leaves exempted tables shared", async () => {
+    query().mockResolvedValueOnce({ rows: [], rowCount: 0 }).mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+
+    await inject("GET", "/api/users");
+    expect(queries()[0].text).not.toContain("WHERE");
+  });
+
+  it("denies tables a schema filter cannot fully pin", async () => {
+    // users has no user_id column, orders no region column
+    const cases = [
+      { rows: { public: { user_id: "42" } }, table: "users" },
+      { rows: { public: { user_id: "42", region: "eu" } }, table: "orders" },
+    ];
+    for (const { rows, table } of cases) {
+      const key = generateApiKey("tenant-42", SECRET, { public: "rw" }, { rows });
+      const headers = { authorization: `Bearer ${key}` };
+
+      const read = await app.inject({ method: "GET", url: `/api/${table}`, headers });
+      const write = await app.inject({ method: "DELETE", url: `/api/${table}/1`, headers });
+
+      expect(read.statusCode).toBe(403);
+      expect(read.json().message).toBe(`API key does not have read permission on table "public.${table}".`);
+      expect(write.statusCode).toBe(403);
+    }
+    expect(query()).not.toHaveBeenCalled();
+  });
+
+  it("denies a table whose own filter pins a column it lacks", async () => {
+    const typo = generateApiKey("tenant-42", SECRET, { public: "rw" }, {
+      rows: { public: { user_id: "42" }, "public.users": { tenant_id: "42" } },
+    });
+    const headers = { authorization: `Bearer ${typo}` };
+
+    const users = await app.inject({ method: "GET", url: "/api/users", headers });
+    const orders = await app.inject({ method: "GET", url: "/api/orders/1", headers });
+
+    expect(users.statusCode).toBe(403);
+    expect(users.json().message).toBe('API key does not have read permission on table "public.users".');
+    expect(orders.statusCode).toBe(404);
+  });
+
+  it("writes rows with the filter values and only changes the key's rows", async () => {
+    query().mockResolvedValue({ rows: [{ id: 1, user_id: 42, total: 5, status: "new" }], rowCount: 1 });
+
+    expect((await inject("POST", "/api/orders", { user_id: 7, total: 5 })).statusCode).toBe(201);
+    expect(queries()[0].values).toEqual(["42", 5]);
+
+    await inject("PATCH", "/api/orders/1", { status: "paid" });
+    expect(queries()[1].text).toContain('WHERE "id" = $2 AND "user_id" = $3');
+
+    await inject("DELETE", "/api/orders?filter.status=eq:new");
+    expect(queries().find((q) => q.text?.startsWith("DELETE"))!.text).toContain('WHERE "user_id" = $1 AND "status" = $2');
+  });
+
+  it("applies the filters to batch operations", async () => {
+    query().mockResolvedValue({ rows: [{ id: 1, user_id: 42, total: 5, status: "new" }], rowCount: 1 });
+
+    const res = await inject("POST", "/api/_batch", {
+      operations: [{ op: "insert", table: "orders", data: { user_id: 7, total: 5 } }, { op: "delete", table: "orders", id: "1" }],
+    });
+
+    expect(res.statusCode).toBe(200);
+    const writes = queries().filter((q) => typeof q === "object");
+    expect(writes[0].values).toEqual(["42", 5]);
+    expect(writes[1].text).toContain('WHERE "id" = $1 AND "user_id" = $2');
+  });
+
+  it("denies and hides every function, including those of unfiltered schemas", async () => {
+    const own = await inject("POST", "/api/_rpc/public__create_order", { customer_id: 7 });
+    // reporting has no row filter, but its functions could still read public.orders
+    const other = await inject("POST", "/api/_rpc/reporting__top_customer_ids", { since: "2024-01-01" });
+
+    for (const res of [own, other]) {
+      expect(res.statusCode).toBe(403);
+      expect(res.json().message).toBe("API key is limited to filtered rows and cannot call functions.");
+    }
+    expect(query()).not.toHaveBeenCalled();
+
+    const schema = (await inject("GET", "/api/_schema")).json();
+    expect(schema.functions).toEqual([]);
+  });
+});
+
+describe("Auth Hook - database roles", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const query = () => mockPool.query as ReturnType<typeof vi.fn>;
+  const analyst = generateApiKey("analyst", SECRET, undefined, { role: "api_reader" });
+  const service = generateApiKey("service", SECRET);
+  const SET_ROLE = { text: "SELECT set_config($1, $2, true)", values: ["role", "api_reader"] };
+
+  function inject(key: string, method: "GET" | "POST" | "DELETE", url: string, payload?: unknown) {
+    return app.inject({ method, url, headers: { authorization: `Bearer ${key}` }, payload: payload as any });
+  }
+
+  /** Every query run since the last reset, as SQL text or query objects */
+  function queries(): unknown[] {
+    return query().mock.calls.map(([q]) => q);
+  }
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable()], [makeVolatileFunction()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  beforeEach(() => {
+    query().mockReset().mockResolvedValue({ rows: [{ id: 1, total: "1" }], rowCount: 1 });
+  });
+
+  afterEach(() => {
+    config.keyRoles = {};
+    config.dbSessionClaims = false;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("runs each query in a transaction as the key's role", async () => {
+    expect((await inject(analyst, "GET", "/api/users/1")).statusCode).toBe(200);
+
+    expect(queries()).toEqual(["BEGIN", SET_ROLE, expect.objectContaining({ text: expect.stringContaining("SELECT") }), "COMMIT"]);
+  });
+
+  it("sets the role in list, write, bulk, batch and RPC transactions", async () => {
+    const responses = [
+      await inject(analyst, "GET", "/api/users"),
+      await inject(analyst, "POST", "/api/users", { name: "Alice", email: "alice@test.com" }),
+      await inject(analyst, "DELETE", "/api/users?filter.id=eq:1"),
+      await inject(analyst, "POST", "/api/_batch", { operations: [{ op: "delete", table: "users", id: "1" }] }),
+      await inject(analyst, "POST", "/api/_rpc/public__create_order", { customer_id: 7 }),
+    ];
+    expect(responses.map((r) => r.statusCode)).toEqual([200, 201, 200, 200, 200]);
+
+    const begins = queries().filter((q) => q === "BEGIN").length;
+    expect(begins).toBe(6);
+    expect(queries().filter((q) => JSON.stringify(q) === JSON.stringify(SET_ROLE))).toHaveLength(begins);
+  });
+
+  it("maps labels to roles from config", async () => {
+    config.keyRoles = { service: "api_writer" };
+
+    await inject(service, "DELETE", "/api/users/1");
+    expect(queries()[1]).toEqual({ text: "SELECT set_config($1, $2, true)", values: ["role", "api_writer"] });
+  });
+
+  it("sets request.jwt.claims and app.api_key_label when enabled", async () => {
+    config.dbSessionClaims = true;
+
+    await inject(service, "GET", "/api/users/1");
+    expect(queries()[1]).toEqual({
+      text: "SELECT set_config($1, $2, true), set_config($3, $4, true)",
+      values: ["request.jwt.claims", '{"sub":"service"}', "app.api_key_label", "service"],
+    });
+  });
+
+  it("queries the pool directly for keys without a role", async () => {
+    await inject(service, "GET", "/api/users/1");
+    expect(queries()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildTestApp, createMockPool } from "./setup.js";
+import { generateApiKey } from "../../src/auth/api-key.js";
+import {
+  makeUsersTable,
+  makeCompositePkTable,
+  makeNoPkTable,
+  makeNonPublicSchemaTable,
+  makeTableWithForeignKeys,
+  makeViewTable,
+  makeTriggerViewTable,
+  makeDatabaseSchema,
+} from "../fixtures/tables.js";
+
+const SECRET = "batch-test-secret";
+
+function queryTexts(mockPool: ReturnType<typeof createMockPool>): string[] {
+  return vi.mocked(mockPool.query).mock.calls.map((c) => {
+    const arg = c[0] as any;
+    return typeof arg === "string" ? arg : arg.text;
+  });
+}
+
+describe("Batch Routes", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const dbSchema = makeDatabaseSchema([
+    makeUsersTable(),
+    makeTableWithForeignKeys(),
+    makeCompositePkTable(),
+    makeNoPkTable(),
+    makeViewTable(),
+    makeTriggerViewTable(),
+  ]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  function batch(operations: unknown[]) {
+    return app.inject({ method: "POST", url: "/api/_batch", payload: { operations } });
+  }
+
+  it("runs operations in one transaction and resolves $N references", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any) // BEGIN
+      .mockResolvedValueOnce({ rows: [{ id: 7, name: "Alice", email: "a@test.com" }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 1, user_id: 7, total: 10 }, { id: 2, user_id: 7, total: 5 }], rowCount: 2 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 1, user_id: 7, total: 12, __version: "900" }], rowCount: 1 } as any);
+
+    const res = await batch([
+      { op: "insert", table: "users", data: { name: "Alice", email: "a@test.com" } },
+      { op: "insert", table: "orders", data: [{ user_id: "$0.id", total: 10 }, { user_id: "$0.id", total: 5 }] },
+      { op: "update", table: "orders", id: "$1.id", data: { total: 12 } },
+    ]);
+
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.results).toHaveLength(3);
+    expect(body.results[0]).toEqual({ op: "insert", table: "users", data: [{ id: 7, name: "Alice", email: "a@test.com" }], count: 1 });
+    expect(body.results[1].count).toBe(2);
+    expect(body.results[2].data).toEqual([{ id: 1, user_id: 7, total: 12 }]);
+
+    const calls = vi.mocked(mockPool.query).mock.calls.map((c) => c[0] as any);
+    expect(calls[0]).toBe("BEGIN");
+    expect(calls[2].values).toEqual([7, 10, 7, 5]);
+    expect(calls[3].text).toContain('UPDATE "public"."orders" SET "total" = $1 WHERE "id" = $2');
+    expect(calls[3].values).toEqual([12, "1"]);
+    expect(calls[4]).toBe("COMMIT");
+    expect(vi.mocked(mockPool.connect)).toHaveBeenCalled();
+  });
+
+  it("supports upserts and deletes by composite key", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 3, name: "Bob", email: "b@test.com" }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: [{ user_id: 3, role_id: 2 }], rowCount: 1 } as any);
+
+    const res = await batch([
+      { op: "upsert", table: "users", data: { name: "Bob", email: "b@test.com" }, onConflict: ["email"] },
+      { op: "delete", table: "user_roles", id: "$0.id, 2" },
+    ]);
+
+    expect(res.statusCode).toBe(200);
+    const [, upsert, del] = vi.mocked(mockPool.query).mock.calls.map((c) => c[0] as any);
+    expect(upsert.text).toContain('ON CONFLICT ("email") DO UPDATE SET "name" = EXCLUDED."name"');
+    expect(del.text).toBe(
+      'DELETE FROM "public"."user_roles" WHERE "user_id" = $1 AND "role_id" = $2 RETURNING *, "xmin"::text AS "__version"'
+    );
+    expect(del.values).toEqual(["3", "2"]);
+  });
+
+  it("rolls back and reports the operation that referenced an ignored duplicate", async () => {
+    const res = await batch([
+      { op: "upsert", table: "users", data: { name: "Bob", email: "b@test.com" }, onConflict: ["email"], action: "ignore" },
+      { op: "insert", table: "orders", data: { user_id: "$0.id", total: 1 } },
+    ]);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toEqual({
+      error: "Bad request",
+      message: "Reference $0.id points to operation 0, which returned no rows",
+      operation: 1,
+    });
+    expect(queryTexts(mockPool)).toEqual(["BEGIN", expect.stringContaining("DO NOTHING"), "ROLLBACK"]);
+  });
+
+  it("rejects references to later operations and unknown columns", async () => {
+    const forward = await batch([{ op: "insert", table: "orders", data: { user_id: "$1.id", total: 1 } }]);
+    expect(forward.statusCode).toBe(400);
+    expect(forward.json().message).toContain("which has not run yet");
+    expect(forward.json().operation).toBe(0);
+
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 } as any);
+    const unknown = await batch([
+      { op: "insert", table: "users", data: { name: "A", email: "a@test.com" } },
+      { op: "insert", table: "orders", data: { user_id: "$0.uid", total: 1, status: "$not-a-ref" } },
+    ]);
+    expect(unknown.statusCode).toBe(400);
+    expect(unknown.json().message).toBe("Reference $0.uid: operation 0 returned no column 'uid'");
+  });
+
+  it("returns 404 with the operation index when an update or delete finds no row", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 } as any);
+
+    const res = await batch([
+      { op: "insert", table: "users", data: { name: "A", email: "a@test.com" } },
+      { op: "delete", table: "orders", id: "999" },
+    ]);
+
+    expect(res.statusCode).toBe(404);
+    expect(res.json()).toEqual({ error: "Record not found", message: "Record not found in orders", operation: 1 });
+    expect(queryTexts(mockPool).at(-1)).toBe("ROLLBACK");
+  });
+
+  it("maps database errors and reports the failing operation", async () => {
+    const pgError = Object.assign(new Error("duplicate key"), { code: "23505" });
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 } as any)
+      .mockRejectedValueOnce(pgError);
+
+    const res = await batch([
+      { op: "insert", table: "users", data: { name: "A", email: "a@test.com" } },
+      { op: "insert", table: "users", data: { name: "B", email: "a@test.com" } },
+    ]);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.json()).toMatchObject({ error: "Conflict", operation: 1 });
+    expect(queryTexts(mockPool).at(-1)).toBe("ROLLBACK");
+  });
+
+  it("returns 404 for an unknown table without opening a transaction", async () => {
+    const res = await batch([
+      { op: "insert", table: "users", data: { name: "A", email: "a@test.com" } },
+      { op: "insert", table: "nope", data: { a: 1 } },
+    ]);
+
+    expect(res.statusCode).toBe(404);
+    expect(res.json()).toEqual({ error: "Not found", message: "Table 'nope' not found", operation: 1 });
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("rejects writes to a read-only view without opening a transaction", async () => {
+    const res = await batch([{ op: "insert", table: "active_users", data: { name: "A" } }]);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toEqual({ error: "Bad request", message: "'active_users' is a read-only view", operation: 0 });
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("rejects writes a view does not support, including merging upserts", async () => {
+    const update = await batch([
+      { op: "insert", table: "user_inbox", data: { id: 1, name: "A" } },
+      { op: "update", table: "user_inbox", id: "1", data: { name: "B" } },
+    ]);
+    const merge = await batch([{ op: "upsert", table: "user_inbox", data: { id: 1, name: "A" } }]);
+
+    expect(update.json()).toEqual({ error: "Bad request", message: "'user_inbox' is a view that does not support update", operation: 1 });
+    expect(merge.json().message).toBe("'user_inbox' is a view that does not support update");
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ op: "insert", table: "users" }, "insert requires data"],
+    [{ op: "update", table: "audit_logs", id: "1", data: { event: "x" } }, "update requires a primary key, but audit_logs has none"],
+    [{ op: "delete", table: "users" }, "delete requires id"],
+    [{ op: "update", table: "users", id: "1", data: [{ name: "x" }] }, "update requires a data object"],
+    [{ op: "delete", table: "user_roles", id: "1" }, "Composite primary key expects 2 values (user_id,role_id)"],
+    [{ op: "upsert", table: "users", data: { name: "x" }, onConflict: ["name"] }, "must match the primary key, a unique constraint or a unique index"],
+  ])("rejects invalid operation %j", async (operation, message) => {
+    const res = await batch([operation]);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toContain(message);
+    expect(res.json().operation).toBe(0);
+    expect(queryTexts(mockPool)).toEqual(["BEGIN", "ROLLBACK"]);
+  });
+
+  it("validates the request body", async () => {
+    const empty = await batch([]);
+    const badOp = await batch([{ op: "truncate", table: "users" }]);
+
+    expect(empty.statusCode).toBe(400);
+    expect(badOp.statusCode).toBe(400);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+});
+
+describe("Batch Routes - permissions", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable(), makeNonPublicSchemaTable()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("checks write permission per operation before running any", async () => {
+    const key = generateApiKey("writer", SECRET, { public: "rw", reporting: "r" });
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/_batch",
+      headers: { authorization: `Bearer ${key}` },
+      payload: {
+        operations: [
+          { op: "insert", table: "users", data: { name: "A", email: "a@test.com" } },
+          { op: "delete", table: "reporting__metrics", id: "1" },
+        ],
+      },
+    });
+
+    expect(res.statusCode).toBe(403);
+    expect(res.json()).toEqual({
+      error: "Forbidden",
+      message: 'API key does not have delete permission on table "reporting.metrics".',
+      operation: 1,
+    });
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("requires the batch scope, and update for merging upserts", async () => {
+    const run = (perm: string, operation: Record<string, unknown>) =>
+      app.inject({
+        method: "POST",
+        url: "/api/_batch",
+        headers: { authorization: `Bearer ${generateApiKey("ingest", SECRET, { public: perm })}` },
+        payload: { operations: [{ table: "users", data: { name: "A", email: "a@test.com" }, ...operation }] },
+      });
+
+    const noBatch = await run("rcu", { op: "insert" });
+    const merge = await run("cb", { op: "upsert" });
+    const ignore = await run("cb", { op: "upsert", action: "ignore" });
+
+    expect(noBatch.json().message).toBe('API key does not have bulk permission on table "public.users".');
+    expect(merge.json().message).toBe('API key does not have update permission on table "public.users".');
+    expect(ignore.statusCode).toBe(200);
+  });
+});
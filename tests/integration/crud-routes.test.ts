@@ -1,12 +1,19 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
 import type { FastifyInstance } from "fastify";
 import { buildTestApp, createMockPool } from "./setup.js";
+import { config } from "../../src/config.js";
 import {
   makeUsersTable,
   makeCompositePkTable,
   makeNoPkTable,
   makeNonPublicSchemaTable,
   makeSoftDeleteTable,
+  makeTableWithForeignKeys,
+  makeViewTable,
+  makeTriggerViewTable,
+  makeMaterializedViewTable,
+  makeGeneratedColumnsTable,
+  makeColumn,
   makeDatabaseSchema,
 } from "../fixtures/tables.js";
 
@@ -112,6 +119,130 @@ describe("CRUD Routes - LIST", () => {
     expect(selectCall.values[0]).toBe("Alice");
   });
 
+  it("passes or= filter groups to both select and count queries", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
+
+    const url = "/api/users?filter.active=eq:true&or=(name.eq.Alice,and(id.gt.5,not.email.like.%25spam%25))";
+    const res = await app.inject({ method: "GET", url });
+
+    expect(res.statusCode).toBe(200);
+    const [selectCall, countCall] = vi.mocked(mockPool.query).mock.calls.map((c) => c[0] as any);
+    expect(selectCall.text).toContain('"active" = $1 AND ("name" = $2 OR ("id" > $3 AND NOT ("email" LIKE $4)))');
+    expect(countCall.text).toContain('("name" = $2 OR ("id" > $3 AND NOT ("email" LIKE $4)))');
+    expect(countCall.values).toEqual(["true", "Alice", "5", "%spam%"]);
+  });
+
+  it("combines repeated or= groups with AND", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users?or=(id.eq.1,id.eq.2)&or=(name.eq.Alice,name.eq.Bob)" });
+
+    expect(res.statusCode).toBe(200);
+    const selectCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(selectCall.text).toContain('WHERE ("id" = $1 OR "id" = $2) AND ("name" = $3 OR "name" = $4)');
+  });
+
+  it("supports not.and= filter groups", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users?not.and=(active.is.null,name.eq.Bob)" });
+
+    expect(res.statusCode).toBe(200);
+    const selectCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(selectCall.text).toContain('WHERE NOT ("active" IS NULL AND "name" = $1)');
+  });
+
+  it("returns 400 for malformed filter group", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/users?or=name.eq.Alice" });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toContain("must be wrapped in parentheses");
+  });
+
+  it("reports an exact total with totalIsEstimate=false by default", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "120" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users?pageSize=50" });
+    expect(res.json().pagination).toEqual({
+      page: 1, pageSize: 50, total: 120, totalPages: 3, totalIsEstimate: false,
+    });
+  });
+
+  it("uses the planner estimate with count=estimated", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ "QUERY PLAN": [{ Plan: { "Plan Rows": 5000 } }] }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users?count=estimated&filter.active=eq:true" });
+
+    expect(res.statusCode).toBe(200);
+    const countCall = vi.mocked(mockPool.query).mock.calls[1][0] as any;
+    expect(countCall.text).toContain('EXPLAIN (FORMAT JSON) SELECT 1 FROM "public"."users" WHERE "active" = $1');
+    expect(res.json().pagination).toMatchObject({ total: 5000, totalPages: 100, totalIsEstimate: true });
+  });
+
+  it("skips the count query with count=none", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1 }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users?count=none" });
+
+    expect(res.statusCode).toBe(200);
+    expect(vi.mocked(mockPool.query)).toHaveBeenCalledTimes(1);
+    expect(res.json().pagination).toMatchObject({ total: null, totalPages: null, totalIsEstimate: false });
+  });
+
+  it("rejects an unknown count strategy", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/users?count=fast" });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("uses keyset pagination without a count query when cursor is present", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [
+        { id: 1, name: "Alice", email: "a@test.com", active: true, __cursor_0: "1" },
+        { id: 2, name: "Bob", email: "b@test.com", active: true, __cursor_0: "2" },
+        { id: 3, name: "Carol", email: "c@test.com", active: true, __cursor_0: "3" },
+      ],
+      rowCount: 3,
+    } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users?cursor=&pageSize=2" });
+
+    expect(res.statusCode).toBe(200);
+    expect(vi.mocked(mockPool.query)).toHaveBeenCalledTimes(1);
+    const body = res.json();
+    expect(body.data).toHaveLength(2);
+    expect(body.data[1]).toEqual({ id: 2, name: "Bob", email: "b@test.com", active: true });
+    expect(body.pagination.hasMore).toBe(true);
+    expect(body.pagination.pageSize).toBe(2);
+    expect(body.pagination.total).toBeUndefined();
+    expect(typeof body.pagination.nextCursor).toBe("string");
+
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+    const next = await app.inject({
+      method: "GET",
+      url: `/api/users?cursor=${body.pagination.nextCursor}&pageSize=2`,
+    });
+    expect(next.statusCode).toBe(200);
+    expect(next.json().pagination).toEqual({ pageSize: 2, nextCursor: null, hasMore: false });
+    const seekCall = vi.mocked(mockPool.query).mock.calls[1][0] as any;
+    expect(seekCall.text).toContain('WHERE ("id" > $1)');
+    expect(seekCall.values).toEqual(["2", 3]);
+  });
+
+  it("returns 400 for an invalid cursor", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/users?cursor=garbage" });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toBe("Invalid cursor");
+  });
+
   it("returns 400 for invalid filter column", async () => {
     const res = await app.inject({ method: "GET", url: "/api/users?filter.nonexistent=eq:x" });
     expect(res.statusCode).toBe(400);
@@ -225,6 +356,83 @@ describe("CRUD Routes - GET by PK", () => {
   });
 });
 
+// ── GET by unique key (GET /api/{table}/by/{column}/{value}) ───────
+
+describe("CRUD Routes - GET by unique key", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const users = {
+    ...makeUsersTable(),
+    indexes: [
+      { name: "users_name_key", columns: ["name"], method: "btree", unique: true, predicate: null },
+      { name: "users_active_key", columns: ["active"], method: "btree", unique: true, predicate: "(active)" },
+    ],
+  };
+  const invoices = {
+    ...makeGeneratedColumnsTable(),
+    indexes: [{ name: "invoices_number_key", columns: ["number"], method: "btree", unique: true, predicate: null }],
+  };
+  const dbSchema = makeDatabaseSchema([users, invoices]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+  });
+
+  it("returns the row matching a unique constraint column with its ETag", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [{ id: 42, name: "Alice", email: "alice@test.com", __version: "901" }],
+      rowCount: 1,
+    } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users/by/email/alice%40test.com?select=id,name" });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ id: 42, name: "Alice", email: "alice@test.com" });
+    expect(res.headers.etag).toBe('"901"');
+    expect(vi.mocked(mockPool.query).mock.calls[0][0]).toEqual({
+      text: 'SELECT "id", "name", "xmin"::text AS "__version" FROM "public"."users" WHERE "email" = $1 LIMIT 1',
+      values: ["alice@test.com"],
+    });
+  });
+
+  it("also serves unique indexes without a predicate", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1, name: "Bob", __version: "1" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users/by/name/Bob" });
+    expect(res.statusCode).toBe(200);
+    expect((await app.inject({ method: "GET", url: "/api/users/by/active/true" })).statusCode).toBe(404);
+  });
+
+  it("returns 404 when no row has the value", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users/by/email/nobody@test.com" });
+    expect(res.statusCode).toBe(404);
+    expect(res.json()).toEqual({ error: "Record not found" });
+  });
+
+  it("does not offer lookups by columns without a unique key", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/users/by/id/1" });
+    expect(res.statusCode).toBe(404);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("validates the value against the column type", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/invoices/by/number/INV-1" });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().error).toBe("Validation Error");
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+});
+
 // ── CREATE (POST /api/{table}) ──────────────────────────────────────
 
 describe("CRUD Routes - CREATE", () => {
@@ -325,6 +533,66 @@ describe("CRUD Routes - CREATE", () => {
     expect(res.statusCode).toBe(400);
     expect(res.json().error).toBe("Foreign key violation");
   });
+
+  it("upserts with Prefer: resolution=merge-duplicates", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [{ id: 1, name: "Alice", email: "alice@test.com", active: true }],
+      rowCount: 1,
+    } as any);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/users",
+      headers: { prefer: "resolution=merge-duplicates" },
+      payload: { name: "Alice", email: "alice@test.com" },
+    });
+
+    expect(res.statusCode).toBe(201);
+    const insertCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(insertCall.text).toContain('ON CONFLICT ("id") DO UPDATE SET "name" = EXCLUDED."name", "email" = EXCLUDED."email"');
+  });
+
+  it("returns 204 when a duplicate is ignored", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/users?onConflict=email",
+      headers: { prefer: "resolution=ignore-duplicates" },
+      payload: { name: "Alice", email: "alice@test.com" },
+    });
+
+    expect(res.statusCode).toBe(204);
+    expect(res.body).toBe("");
+    const insertCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(insertCall.text).toContain('ON CONFLICT ("email") DO NOTHING');
+  });
+
+  it("upserts bulk inserts on a unique constraint", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/users?onConflict=email",
+      payload: [{ name: "A", email: "a@test.com" }, { name: "B", email: "b@test.com" }],
+    });
+
+    expect(res.statusCode).toBe(201);
+    const insertCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(insertCall.text).toContain('ON CONFLICT ("email") DO UPDATE SET "name" = EXCLUDED."name"');
+  });
+
+  it("returns 400 for an onConflict target without a unique constraint", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/users?onConflict=name",
+      payload: { name: "Alice", email: "alice@test.com" },
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toContain("Available: (id), (email)");
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
 });
 
 // ── UPDATE PUT (PUT /api/{table}/:id) ───────────────────────────────
@@ -589,13 +857,14 @@ describe("CRUD Routes - Soft Delete", () => {
   });
 });
 
-// ── No-PK table routes ──────────────────────────────────────────────
+// ── Optimistic concurrency (ETag / If-Match) ────────────────────────
 
-describe("CRUD Routes - No PK table", () => {
+describe("CRUD Routes - ETag / If-Match", () => {
   let app: FastifyInstance;
   let mockPool: ReturnType<typeof createMockPool>;
-  const noPk = makeNoPkTable();
-  const dbSchema = makeDatabaseSchema([noPk]);
+  const users = makeUsersTable();
+  const dbSchema = makeDatabaseSchema([users]);
+  const row = { id: 42, name: "Alice", email: "alice@test.com", active: true };
 
   beforeAll(async () => {
     mockPool = createMockPool();
@@ -611,56 +880,69 @@ describe("CRUD Routes - No PK table", () => {
     vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
   });
 
-  it("LIST works for table without PK", async () => {
-    vi.mocked(mockPool.query)
-      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
-      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
+  it("GET by PK returns the row version as ETag without exposing it in the body", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ ...row, __version: "900" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users/42" });
 
-    const res = await app.inject({ method: "GET", url: "/api/audit_logs" });
     expect(res.statusCode).toBe(200);
+    expect(res.headers.etag).toBe('"900"');
+    expect(res.json()).toEqual(row);
   });
 
-  it("CREATE works for table without PK", async () => {
-    vi.mocked(mockPool.query).mockResolvedValueOnce({
-      rows: [{ event: "test", payload: null, created_at: "2024-01-01" }],
-      rowCount: 1,
-    } as any);
+  it("PATCH with a matching If-Match updates and returns the new ETag", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ ...row, name: "Bob", __version: "901" }], rowCount: 1 } as any);
 
     const res = await app.inject({
-      method: "POST",
-      url: "/api/audit_logs",
-      payload: { event: "test" },
+      method: "PATCH",
+      url: "/api/users/42",
+      headers: { "if-match": '"900"' },
+      payload: { name: "Bob" },
     });
-    expect(res.statusCode).toBe(201);
-  });
 
-  it("GET by PK returns 404 (route not registered)", async () => {
-    const res = await app.inject({ method: "GET", url: "/api/audit_logs/1" });
-    expect(res.statusCode).toBe(404);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers.etag).toBe('"901"');
+    const sql = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(sql.text).toContain('WHERE "id" = $2 AND "xmin"::text = ANY($3)');
+    expect(sql.values).toEqual(["Bob", "42", ["900"]]);
   });
 
-  it("PUT returns 404 (route not registered)", async () => {
-    const res = await app.inject({
+  it("PUT and DELETE return 412 when If-Match no longer matches", async () => {
+    const put = await app.inject({
       method: "PUT",
-      url: "/api/audit_logs/1",
-      payload: { event: "test" },
+      url: "/api/users/42",
+      headers: { "if-match": '"899"' },
+      payload: { name: "Bob", email: "bob@test.com", active: true },
     });
-    expect(res.statusCode).toBe(404);
+    const del = await app.inject({ method: "DELETE", url: "/api/users/42", headers: { "if-match": '"899"' } });
+
+    expect(put.statusCode).toBe(412);
+    expect(put.json().error).toBe("Precondition Failed");
+    expect(del.statusCode).toBe(412);
+    expect((vi.mocked(mockPool.query).mock.calls[1][0] as any).text).toContain('"xmin"::text = ANY($2)');
   });
 
-  it("DELETE returns 404 (route not registered)", async () => {
-    const res = await app.inject({ method: "DELETE", url: "/api/audit_logs/1" });
+  it("treats If-Match: * and a missing header as unconditional", async () => {
+    const res = await app.inject({
+      method: "PATCH",
+      url: "/api/users/42",
+      headers: { "if-match": "*" },
+      payload: { name: "Bob" },
+    });
+
     expect(res.statusCode).toBe(404);
+    expect((vi.mocked(mockPool.query).mock.calls[0][0] as any).text).not.toContain("ANY(");
   });
 });
 
-// ── GET by PK with select param ─────────────────────────────────────
+// ── Bulk update / delete by filter ──────────────────────────────────
 
-describe("CRUD Routes - GET by PK with select", () => {
+describe("CRUD Routes - Bulk update/delete", () => {
   let app: FastifyInstance;
   let mockPool: ReturnType<typeof createMockPool>;
   const users = makeUsersTable();
-  const dbSchema = makeDatabaseSchema([users]);
+  const posts = makeSoftDeleteTable();
+  const dbSchema = makeDatabaseSchema([users, posts]);
 
   beforeAll(async () => {
     mockPool = createMockPool();
@@ -673,28 +955,107 @@ describe("CRUD Routes - GET by PK with select", () => {
 
   beforeEach(() => {
     vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
   });
 
-  it("passes select columns to GET by PK query", async () => {
-    vi.mocked(mockPool.query).mockResolvedValueOnce({
-      rows: [{ id: 42, name: "Alice" }],
-      rowCount: 1,
-    } as any);
+  it("PATCH /api/users?filter... updates matching rows in a transaction", async () => {
+    const rows = [
+      { id: 1, name: "Archived", email: "a@test.com", active: false },
+      { id: 2, name: "Archived", email: "b@test.com", active: false },
+    ];
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows, rowCount: 2 } as any);
+
+    const res = await app.inject({
+      method: "PATCH",
+      url: "/api/users?filter.active=eq:false",
+      payload: { name: "Archived" },
+    });
 
-    const res = await app.inject({ method: "GET", url: "/api/users/42?select=id,name" });
     expect(res.statusCode).toBe(200);
-    const queryCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
-    expect(queryCall.text).toContain('"id", "name"');
+    expect(res.json()).toEqual({ data: rows, count: 2 });
+    const calls = vi.mocked(mockPool.query).mock.calls.map((c) => c[0] as any);
+    expect(calls[0]).toBe("BEGIN");
+    expect(calls[1].text).toBe('UPDATE "public"."users" SET "name" = $1 WHERE "active" = $2 RETURNING *');
+    expect(calls[2]).toBe("COMMIT");
+  });
+
+  it("DELETE /api/posts?or=... soft-deletes matching rows", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ id: 5, user_id: 1, title: "Hello" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "DELETE", url: "/api/posts?or=(user_id.eq.1,user_id.eq.2)" });
+
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.count).toBe(1);
+    expect(body.softDelete).toBe(true);
+    const sql = vi.mocked(mockPool.query).mock.calls[1][0] as any;
+    expect(sql.text).toContain('SET "deleted_at" = NOW()');
+    expect(sql.text).toContain('WHERE ("user_id" = $1 OR "user_id" = $2)');
+  });
+
+  it("DELETE hard-deletes rows on tables without deleted_at", async () => {
+    const res = await app.inject({ method: "DELETE", url: "/api/users?filter.email=like:%25@old.com" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ data: [], count: 0, softDelete: false });
+    const sql = vi.mocked(mockPool.query).mock.calls[1][0] as any;
+    expect(sql.text).toBe('DELETE FROM "public"."users" WHERE "email" LIKE $1 RETURNING *');
+  });
+
+  it("rejects a bulk mutation without a filter before touching the database", async () => {
+    const patch = await app.inject({ method: "PATCH", url: "/api/users", payload: { name: "x" } });
+    const del = await app.inject({ method: "DELETE", url: "/api/users?sortBy=id" });
+
+    expect(patch.statusCode).toBe(400);
+    expect(patch.json().message).toContain("refusing to update every row of users");
+    expect(del.statusCode).toBe(400);
+    expect(del.json().message).toContain("refusing to delete every row of users");
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("rolls back when more rows match than the configured limit", async () => {
+    const rows = Array.from({ length: 1001 }, (_, i) => ({ id: i + 1 }));
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows, rowCount: 1001 } as any);
+
+    const res = await app.inject({ method: "DELETE", url: "/api/users?filter.active=eq:false" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toBe(
+      "Bulk delete matched 1001 rows, more than the limit of 1000; no rows were changed. Narrow the filter."
+    );
+    expect(vi.mocked(mockPool.query).mock.calls[2][0]).toBe("ROLLBACK");
+  });
+
+  it("maps database errors and rolls back", async () => {
+    const pgError = Object.assign(new Error("duplicate key"), { code: "23505" });
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockRejectedValueOnce(pgError);
+
+    const res = await app.inject({
+      method: "PATCH",
+      url: "/api/users?filter.id=in:1,2",
+      payload: { email: "same@test.com" },
+    });
+
+    expect(res.statusCode).toBe(409);
+    expect(vi.mocked(mockPool.query).mock.calls[2][0]).toBe("ROLLBACK");
   });
 });
 
-// ── Non-public schema table ─────────────────────────────────────────
+// ── No-PK table routes ──────────────────────────────────────────────
 
-describe("CRUD Routes - Non-public schema", () => {
+describe("CRUD Routes - No PK table", () => {
   let app: FastifyInstance;
   let mockPool: ReturnType<typeof createMockPool>;
-  const metrics = makeNonPublicSchemaTable();
-  const dbSchema = makeDatabaseSchema([metrics]);
+  const noPk = makeNoPkTable();
+  const dbSchema = makeDatabaseSchema([noPk]);
 
   beforeAll(async () => {
     mockPool = createMockPool();
@@ -710,7 +1071,106 @@ describe("CRUD Routes - Non-public schema", () => {
     vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
   });
 
-  it("registers routes with schema__table path for non-public schema", async () => {
+  it("LIST works for table without PK", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/audit_logs" });
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("CREATE works for table without PK", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [{ event: "test", payload: null, created_at: "2024-01-01" }],
+      rowCount: 1,
+    } as any);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/audit_logs",
+      payload: { event: "test" },
+    });
+    expect(res.statusCode).toBe(201);
+  });
+
+  it("GET by PK returns 404 (route not registered)", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/audit_logs/1" });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("PUT returns 404 (route not registered)", async () => {
+    const res = await app.inject({
+      method: "PUT",
+      url: "/api/audit_logs/1",
+      payload: { event: "test" },
+    });
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("DELETE returns 404 (route not registered)", async () => {
+    const res = await app.inject({ method: "DELETE", url: "/api/audit_logs/1" });
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+// ── GET by PK with select param ─────────────────────────────────────
+
+describe("CRUD Routes - GET by PK with select", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const users = makeUsersTable();
+  const dbSchema = makeDatabaseSchema([users]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+  });
+
+  it("passes select columns to GET by PK query", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [{ id: 42, name: "Alice" }],
+      rowCount: 1,
+    } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users/42?select=id,name" });
+    expect(res.statusCode).toBe(200);
+    const queryCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(queryCall.text).toContain('"id", "name"');
+  });
+});
+
+// ── Non-public schema table ─────────────────────────────────────────
+
+describe("CRUD Routes - Non-public schema", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const metrics = makeNonPublicSchemaTable();
+  const dbSchema = makeDatabaseSchema([metrics]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("registers routes with schema__table path for non-public schema", async () => {
     vi.mocked(mockPool.query)
       .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
       .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
@@ -720,6 +1180,526 @@ describe("CRUD Routes - Non-public schema", () => {
   });
 });
 
+// ── Conditional GET / caching ───────────────────────────────────────
+
+describe("CRUD Routes - conditional GET", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const dbSchema = makeDatabaseSchema([makeUsersTable(), makeSoftDeleteTable()]);
+  const posts = [
+    { id: 1, user_id: 7, title: "A", updated_at: "2024-03-01T12:00:00.000Z" },
+    { id: 2, user_id: 7, title: "B", updated_at: "2024-01-01T00:00:00.000Z" },
+  ];
+  const lastModified = "Fri, 01 Mar 2024 12:00:00 GMT";
+
+  function mockPostsList() {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: posts, rowCount: 2 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "2" }], rowCount: 1 } as any);
+  }
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    config.tableCacheControl = {};
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("sends a weak ETag, Last-Modified and the default Cache-Control on lists", async () => {
+    mockPostsList();
+
+    const res = await app.inject({ method: "GET", url: "/api/posts" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers.etag).toMatch(/^W\/"/);
+    expect(res.headers["last-modified"]).toBe(lastModified);
+    expect(res.headers["cache-control"]).toBe("no-cache");
+  });
+
+  it("returns 304 when If-None-Match matches the list ETag", async () => {
+    mockPostsList();
+    const first = await app.inject({ method: "GET", url: "/api/posts" });
+
+    mockPostsList();
+    const second = await app.inject({
+      method: "GET",
+      url: "/api/posts",
+      headers: { "if-none-match": first.headers.etag as string },
+    });
+
+    expect(second.statusCode).toBe(304);
+    expect(second.body).toBe("");
+    expect(second.headers.etag).toBe(first.headers.etag);
+  });
+
+  it("returns 304 for If-Modified-Since unless a row changed later", async () => {
+    mockPostsList();
+    const fresh = await app.inject({ method: "GET", url: "/api/posts", headers: { "if-modified-since": lastModified } });
+    expect(fresh.statusCode).toBe(304);
+
+    mockPostsList();
+    const stale = await app.inject({
+      method: "GET",
+      url: "/api/posts",
+      headers: { "if-modified-since": "Thu, 29 Feb 2024 00:00:00 GMT" },
+    });
+    expect(stale.statusCode).toBe(200);
+    expect(stale.json().data).toHaveLength(2);
+  });
+
+  it("applies per-table Cache-Control and omits Last-Modified without updated_at", async () => {
+    config.tableCacheControl = { "public.users": "max-age=3600, public" };
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "Alice" }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users" });
+
+    expect(res.headers["cache-control"]).toBe("max-age=3600, public");
+    expect(res.headers["last-modified"]).toBeUndefined();
+  });
+
+  it("omits Cache-Control when configured empty", async () => {
+    config.tableCacheControl = { "public.posts": "" };
+    mockPostsList();
+
+    const res = await app.inject({ method: "GET", url: "/api/posts" });
+    expect(res.headers["cache-control"]).toBeUndefined();
+  });
+
+  it("caches cursor pages", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ ...posts[0], __cursor_0: "1" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/posts?cursor=", headers: { "if-modified-since": lastModified } });
+    expect(res.statusCode).toBe(304);
+  });
+
+  it("uses the row version as ETag on GET by PK and answers If-None-Match with 304", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ ...posts[0], __version: "900" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/posts/1", headers: { "if-none-match": 'W/"900"' } });
+
+    expect(res.statusCode).toBe(304);
+    expect(res.headers.etag).toBe('"900"');
+    expect(res.headers["last-modified"]).toBe(lastModified);
+  });
+
+  it("uses a weak body ETag and no Last-Modified when related rows are embedded", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [{ ...posts[0], __version: "900", user: { id: 7 } }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: posts, rowCount: 2 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "2" }], rowCount: 1 } as any);
+
+    const one = await app.inject({ method: "GET", url: "/api/posts/1?expand=user" });
+    const list = await app.inject({ method: "GET", url: "/api/posts?expand=user" });
+
+    expect(one.statusCode).toBe(200);
+    expect(one.headers.etag).toMatch(/^W\/"/);
+    expect(one.headers["last-modified"]).toBeUndefined();
+    expect(list.headers["last-modified"]).toBeUndefined();
+  });
+});
+
+// ── Embedding (expand=) ─────────────────────────────────────────────
+
+describe("CRUD Routes - expand", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const dbSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("embeds the referenced row in list responses", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({
+        rows: [{ id: 1, user_id: 7, total: "10.50", status: "paid", user: { id: 7, name: "Alice" } }],
+        rowCount: 1,
+      } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/orders?expand=user(id,name)" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().data[0].user).toEqual({ id: 7, name: "Alice" });
+    const selectCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(selectCall.text).toContain('(SELECT "id", "name" FROM "public"."users" AS "_rel" WHERE "_rel"."id" = "public"."orders"."user_id" LIMIT 1)');
+  });
+
+  it("keeps a null forward relation", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 1, user_id: 7, user: null }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/orders?select=id,user_id&expand=user" });
+    expect(res.json().data[0]).toEqual({ id: 1, user_id: 7, user: null });
+  });
+
+  it("embeds child rows on GET by PK", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [{ id: 7, name: "Alice", orders: [{ id: 1, total: 10.5 }, { id: 2, total: 3 }] }],
+      rowCount: 1,
+    } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/users/7?expand=orders(id,total)" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().orders).toEqual([{ id: 1, total: 10.5 }, { id: 2, total: 3 }]);
+    const selectCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(selectCall.text).toContain("json_agg");
+    expect(selectCall.values).toEqual(["7"]);
+  });
+
+  it("returns 400 for an unknown relation", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/orders?expand=customer" });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toBe("Unknown relation 'customer' for orders. Available: user");
+
+    const getRes = await app.inject({ method: "GET", url: "/api/users/1?expand=user" });
+    expect(getRes.statusCode).toBe(400);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+});
+
+// ── Views and materialized views ────────────────────────────────────
+
+describe("CRUD Routes - enums and CHECK constraints", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const tickets = {
+    ...makeUsersTable(),
+    name: "tickets",
+    fqn: '"public"."tickets"',
+    routePath: "tickets",
+    uniqueConstraints: [],
+    indexes: [],
+    columns: [
+      makeColumn({ name: "id", udtName: "int4", dataType: "integer", hasDefault: true, ordinalPosition: 1 }),
+      makeColumn({ name: "status", udtName: "ticket_status", dataType: "USER-DEFINED", enumValues: ["open", "closed"], ordinalPosition: 2 }),
+      makeColumn({ name: "priority", udtName: "int2", dataType: "smallint", isNullable: true, checks: { minimum: 1, maximum: 5 }, ordinalPosition: 3 }),
+      makeColumn({ name: "code", isNullable: true, checks: { pattern: "^[A-Z]{3}$" }, ordinalPosition: 4 }),
+    ],
+  };
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema: makeDatabaseSchema([tickets]), pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("accepts values that satisfy the enum and CHECK constraints", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1, status: "open", priority: null, code: "ABC" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/tickets", payload: { status: "open", priority: null, code: "ABC" } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.json()).toEqual({ id: 1, status: "open", priority: null, code: "ABC" });
+  });
+
+  it.each([
+    [{ status: "archived" }, "/status"],
+    [{ status: "open", priority: 9 }, "/priority"],
+    [{ status: "open", code: "abc" }, "/code"],
+  ])("rejects %j before querying", async (payload, field) => {
+    const res = await app.inject({ method: "POST", url: "/api/tickets", payload });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().details[0].field).toBe(field);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("validates partial updates the same way", async () => {
+    const res = await app.inject({ method: "PATCH", url: "/api/tickets/1", payload: { priority: 0 } });
+
+    expect(res.statusCode).toBe(400);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+});
+
+describe("CRUD Routes - identity and generated columns", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema: makeDatabaseSchema([makeGeneratedColumnsTable()]), pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("creates a row without requiring or sending computed columns", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1, number: 1, subtotal: 10, total: 12 }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/invoices", payload: { subtotal: 10, total: 99 } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.json()).toEqual({ id: 1, number: 1, subtotal: 10, total: 12 });
+    expect((vi.mocked(mockPool.query).mock.calls[0][0] as any).text)
+      .toBe('INSERT INTO "public"."invoices" ("subtotal") VALUES ($1) RETURNING *');
+  });
+
+  it("replaces a row without requiring computed columns", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1, number: 7, subtotal: 20, total: 24, __version: "5" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "PUT", url: "/api/invoices/1", payload: { number: 7, subtotal: 20 } });
+
+    expect(res.statusCode).toBe(200);
+  });
+});
+
+describe("CRUD Routes - views", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const updatableView = { ...makeViewTable(), name: "user_directory", fqn: '"public"."user_directory"', routePath: "user_directory", writable: true };
+  const dbSchema = makeDatabaseSchema([makeViewTable(), updatableView, makeTriggerViewTable(), makeMaterializedViewTable()]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("lists rows of a read-only view", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 1, name: "Alice" }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/active_users" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().data).toEqual([{ id: 1, name: "Alice" }]);
+  });
+
+  it("registers no write routes for a read-only view", async () => {
+    const post = await app.inject({ method: "POST", url: "/api/active_users", payload: { name: "A" } });
+    const patch = await app.inject({ method: "PATCH", url: "/api/active_users?filter.id=eq:1", payload: { name: "A" } });
+    const del = await app.inject({ method: "DELETE", url: "/api/active_users?filter.id=eq:1" });
+
+    expect([post.statusCode, patch.statusCode, del.statusCode]).toEqual([404, 404, 404]);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("inserts into an auto-updatable view", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 5, name: "Eve" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/user_directory", payload: { name: "Eve" } });
+
+    expect(res.statusCode).toBe(201);
+    expect((vi.mocked(mockPool.query).mock.calls[0][0] as any).text).toContain('INSERT INTO "public"."user_directory"');
+  });
+
+  it("registers only the writes a view supports", async () => {
+    const put = await app.inject({ method: "PUT", url: "/api/user_inbox/1", payload: { name: "A" } });
+    const patch = await app.inject({ method: "PATCH", url: "/api/user_inbox/1", payload: { name: "A" } });
+    const bulkPatch = await app.inject({ method: "PATCH", url: "/api/user_inbox?filter.id=eq:1", payload: { name: "A" } });
+    expect([put.statusCode, patch.statusCode, bulkPatch.statusCode]).toEqual([404, 404, 404]);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1, name: "A" }], rowCount: 1 } as any);
+    const del = await app.inject({ method: "DELETE", url: "/api/user_inbox/1" });
+    expect(del.statusCode).toBe(200);
+    expect((vi.mocked(mockPool.query).mock.calls[0][0] as any).text).toContain('DELETE FROM "public"."user_inbox"');
+  });
+
+  it("refuses to merge duplicates into a view without update support", async () => {
+    const res = await app.inject({ method: "POST", url: "/api/user_inbox?onConflict=id", payload: { id: 1, name: "A" } });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toBe("'user_inbox' is a view that does not support update, so duplicates cannot be merged");
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("refreshes a materialized view", async () => {
+    const res = await app.inject({ method: "POST", url: "/api/order_totals/_refresh" });
+    const concurrent = await app.inject({ method: "POST", url: "/api/order_totals/_refresh?concurrently=true" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ refreshed: true, concurrently: false });
+    expect(concurrent.json()).toEqual({ refreshed: true, concurrently: true });
+    const calls = vi.mocked(mockPool.query).mock.calls.map((c) => (c[0] as any).text);
+    expect(calls).toEqual([
+      'REFRESH MATERIALIZED VIEW "public"."order_totals"',
+      'REFRESH MATERIALIZED VIEW CONCURRENTLY "public"."order_totals"',
+    ]);
+  });
+
+  it("maps database errors from a refresh", async () => {
+    const pgError = Object.assign(new Error("cannot refresh materialized view concurrently"), { code: "55000" });
+    vi.mocked(mockPool.query).mockRejectedValueOnce(pgError);
+
+    const res = await app.inject({ method: "POST", url: "/api/order_totals/_refresh?concurrently=true" });
+
+    expect(res.statusCode).toBe(500);
+  });
+
+  it("has no refresh endpoint for plain views", async () => {
+    const res = await app.inject({ method: "POST", url: "/api/active_users/_refresh" });
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+// ── Nested child routes ─────────────────────────────────────────────
+
+describe("CRUD Routes - Nested child routes", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const userRoles = makeCompositePkTable();
+  const grantLog = {
+    ...makeNoPkTable(),
+    name: "grant_log",
+    fqn: '"public"."grant_log"',
+    routePath: "grant_log",
+    foreignKeys: [
+      { constraintName: "grant_log_fkey", column: "uid", refSchema: "public", refTable: "user_roles", refColumn: "user_id" },
+      { constraintName: "grant_log_fkey", column: "rid", refSchema: "public", refTable: "user_roles", refColumn: "role_id" },
+    ],
+    columns: [
+      ...makeNoPkTable().columns,
+      { ...makeNoPkTable().columns[0], name: "uid", udtName: "int4", dataType: "integer", ordinalPosition: 4 },
+      { ...makeNoPkTable().columns[0], name: "rid", udtName: "int4", dataType: "integer", ordinalPosition: 5 },
+    ],
+  };
+  const dbSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys(), userRoles, grantLog]);
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: mockPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("lists child rows scoped to the parent key with filters, sort and pagination", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [{ id: 3, user_id: 7, total: "5.00", status: "paid" }], rowCount: 1 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "11" }], rowCount: 1 } as any);
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/users/7/orders?filter.status=eq:paid&sortBy=total&sortOrder=desc&page=2&pageSize=10",
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().pagination).toMatchObject({ page: 2, pageSize: 10, total: 11, totalPages: 2 });
+    const [selectCall, countCall] = vi.mocked(mockPool.query).mock.calls.map((c) => c[0] as any);
+    expect(selectCall.text).toBe(
+      'SELECT * FROM "public"."orders" WHERE "user_id" = $1 AND "status" = $2 ORDER BY "total" DESC LIMIT $3 OFFSET $4'
+    );
+    expect(selectCall.values).toEqual(["7", "paid", 10, 10]);
+    expect(countCall.text).toContain('WHERE "user_id" = $1 AND "status" = $2');
+  });
+
+  it("binds composite parent keys", async () => {
+    vi.mocked(mockPool.query)
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+      .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "GET", url: "/api/user_roles/7,2/grant_log" });
+
+    expect(res.statusCode).toBe(200);
+    const selectCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(selectCall.text).toContain('WHERE "uid" = $1 AND "rid" = $2');
+    expect(selectCall.values.slice(0, 2)).toEqual(["7", "2"]);
+  });
+
+  it("returns 400 for a malformed composite parent key", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/user_roles/7/grant_log" });
+    expect(res.statusCode).toBe(400);
+
+    const postRes = await app.inject({ method: "POST", url: "/api/user_roles/7/grant_log", payload: { event: "x" } });
+    expect(postRes.statusCode).toBe(400);
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("creates a child row with the FK bound from the path", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({
+      rows: [{ id: 9, user_id: 7, total: 12, status: "pending" }],
+      rowCount: 1,
+    } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/users/7/orders", payload: { total: 12 } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.json()).toMatchObject({ id: 9, user_id: 7 });
+    const insertCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(insertCall.text).toBe('INSERT INTO "public"."orders" ("user_id", "total") VALUES ($1, $2) RETURNING *');
+    expect(insertCall.values).toEqual(["7", 12]);
+  });
+
+  it("creates child rows in bulk", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 2 }], rowCount: 2 } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/users/7/orders", payload: [{ total: 1 }, { total: 2 }] });
+
+    expect(res.statusCode).toBe(201);
+    const insertCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(insertCall.values).toEqual([1, "7", 2, "7"]);
+  });
+
+  it("takes the FK value from the path, not the body", async () => {
+    vi.mocked(mockPool.query).mockResolvedValueOnce({ rows: [{ id: 9, user_id: 7, total: 1 }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/users/7/orders", payload: { total: 1, user_id: 8 } });
+
+    expect(res.statusCode).toBe(201);
+    const insertCall = vi.mocked(mockPool.query).mock.calls[0][0] as any;
+    expect(insertCall.values).toEqual(["7", 1]);
+  });
+
+  it("does not register nested routes for FKs from the child's side", async () => {
+    const res = await app.inject({ method: "GET", url: "/api/orders/1/users" });
+    expect(res.statusCode).toBe(404);
+  });
+});
+
 // ── Read/Write Pool Separation ──────────────────────────────────────
 
 describe("CRUD Routes - Read/Write Pool Separation", () => {
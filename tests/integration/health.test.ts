@@ -109,6 +109,17 @@ describe("Health Check - authenticated details", () => {
     expect(body.databaseHash).toMatch(/^[a-f0-9]{64}$/);
   });
 
+  it("omits tables/schemas/databaseHash for keys signed with a retired secret", async () => {
+    (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [{ "?column?": 1 }], rowCount: 1 });
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/api/_health",
+      headers: { authorization: `Bearer ${generateApiKey("admin", "retired-secret")}` },
+    });
+    expect(res.json()).not.toHaveProperty("databaseHash");
+  });
+
   it("omits tables/schemas/databaseHash when API key is invalid", async () => {
     (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [{ "?column?": 1 }], rowCount: 1 });
 
@@ -125,3 +136,35 @@ describe("Health Check - authenticated details", () => {
     expect(body).not.toHaveProperty("databaseHash");
   });
 });
+
+describe("Health Check - rotated secrets", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+  const secrets = [{ id: "k2", secret: "new-secret" }, { id: "k1", secret: AUTH_SECRET }];
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([makeUsersTable()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: secrets,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("includes the details for keys signed with any of the secrets", async () => {
+    for (const key of [
+      generateApiKey("admin", secrets[0]),
+      generateApiKey("admin", secrets[1]),
+      generateApiKey("admin", AUTH_SECRET),
+    ]) {
+      (mockPool.query as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ rows: [{ "?column?": 1 }], rowCount: 1 });
+      const res = await app.inject({ method: "GET", url: "/api/_health", headers: { authorization: `Bearer ${key}` } });
+      expect(res.json()).toHaveProperty("databaseHash");
+    }
+  });
+});
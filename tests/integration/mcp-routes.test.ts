@@ -3,11 +3,15 @@ import { buildTestApp, createMockPool } from "./setup.js";
 import {
   makeUsersTable,
   makeNoPkTable,
+  makeTableWithForeignKeys,
   makeDatabaseSchema,
 } from "../fixtures/tables.js";
 import type { FastifyInstance } from "fastify";
 import type { Pool } from "pg";
+import { createHmac } from "node:crypto";
 import { generateApiKey } from "../../src/auth/api-key.js";
+import { createJwtVerifier } from "../../src/auth/jwt.js";
+import { reloadMcpSessions, McpSessions } from "../../src/mcp/routes.js";
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
@@ -203,7 +207,7 @@ describe("MCP HTTP Routes", () => {
 
       const rpcResponse = parseRpcResponse(listRes.body);
       expect(rpcResponse.result.tools).toBeDefined();
-      expect(rpcResponse.result.tools.length).toBe(7);
+      expect(rpcResponse.result.tools.length).toBe(8);
 
       // Cleanup
       await app.inject({
@@ -272,6 +276,27 @@ describe("MCP HTTP Routes", () => {
     });
   });
 
+  describe("schema reload", () => {
+    it("keeps open sessions across a rebuilt app and moves them to the new schema", async () => {
+      const mcpSessions: McpSessions = new Map();
+      const pool = createMockPool();
+      const before = await buildTestApp({ dbSchema: makeDatabaseSchema([makeUsersTable()]), pool, mcpSessions });
+      const sessionId = await initMcpSession(before);
+
+      const dbSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]);
+      const after = await buildTestApp({ dbSchema, pool, mcpSessions });
+      reloadMcpSessions(mcpSessions, dbSchema);
+      await before.close();
+
+      const rpcResponse = await mcpToolCall(after, sessionId, "describe_table", { table: "orders" });
+      expect(rpcResponse.result.isError).toBeFalsy();
+      expect(JSON.parse(rpcResponse.result.content[0].text).name).toBe("orders");
+
+      await after.inject({ method: "DELETE", url: "/mcp", headers: { "mcp-session-id": sessionId } });
+      await after.close();
+    });
+  });
+
   describe("with auth", () => {
     const secret = "test-mcp-secret";
     let authApp: FastifyInstance;
@@ -285,6 +310,7 @@ describe("MCP HTTP Routes", () => {
         pool: authPool,
         authEnabled: true,
         authSecret: secret,
+        jwt: createJwtVerifier({ secret: "test-mcp-jwt-secret", permissionsClaim: "pgcrud_permissions" }),
       });
     });
 
@@ -347,5 +373,30 @@ describe("MCP HTTP Routes", () => {
         headers: { "mcp-session-id": sessionId, ...authHeaders },
       });
     });
+
+    it("accepts JWTs with the permissions in their claim", async () => {
+      const b64 = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+      const input = `${b64({ alg: "HS256", typ: "JWT" })}.${b64({ sub: "alice", pgcrud_permissions: { public: "r" } })}`;
+      const token = `${input}.${createHmac("sha256", "test-mcp-jwt-secret").update(input).digest("base64url")}`;
+      const authHeaders = { authorization: `Bearer ${token}` };
+
+      const sessionId = await initMcpSession(authApp, authHeaders);
+      const rpcResponse = await mcpToolCall(
+        authApp,
+        sessionId,
+        "create_record",
+        { table: "users", data: { name: "Alice", email: "a@test.com" } },
+        authHeaders,
+      );
+
+      expect(rpcResponse.result.isError).toBe(true);
+      expect(rpcResponse.result.content[0].text).toContain("Permission denied");
+
+      await authApp.inject({
+        method: "DELETE",
+        url: "/mcp",
+        headers: { "mcp-session-id": sessionId, ...authHeaders },
+      });
+    });
   });
 });
@@ -1,11 +1,22 @@
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+
+vi.mock("../../src/db/introspector.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/db/introspector.js")>()),
+  introspectDatabase: vi.fn(),
+}));
+
 import type { FastifyInstance } from "fastify";
 import { buildTestApp, createMockPool } from "./setup.js";
-import { makeUsersTable, makeCompositePkTable, makeDatabaseSchema } from "../fixtures/tables.js";
+import { makeUsersTable, makeCompositePkTable, makeNonPublicSchemaTable, makeDatabaseSchema } from "../fixtures/tables.js";
+import { introspectDatabase } from "../../src/db/introspector.js";
+import { generateApiKey } from "../../src/auth/api-key.js";
 
 describe("Meta Routes", () => {
   let app: FastifyInstance;
-  const users = makeUsersTable();
+  const users = {
+    ...makeUsersTable(),
+    indexes: [{ name: "users_name_idx", columns: ["name"], method: "btree", unique: false, predicate: "(active)" }],
+  };
   const compositePk = makeCompositePkTable();
   const dbSchema = makeDatabaseSchema([users, compositePk]);
 
@@ -35,6 +46,8 @@ describe("Meta Routes", () => {
       expect(usersTable.path).toBe("/api/users");
       expect(usersTable.primaryKeys).toEqual(["id"]);
       expect(usersTable.columnCount).toBe(4);
+      expect(usersTable.kind).toBe("table");
+      expect(usersTable.writable).toBe(true);
     });
 
     it("includes foreign key info", async () => {
@@ -55,6 +68,8 @@ describe("Meta Routes", () => {
       expect(body.schema).toBe("public");
       expect(body.columns).toHaveLength(4);
       expect(body.primaryKeys).toEqual(["id"]);
+      expect(body.kind).toBe("table");
+      expect(body.writable).toBe(true);
     });
 
     it("returns 404 for non-existent table", async () => {
@@ -70,5 +85,71 @@ describe("Meta Routes", () => {
       expect(idCol.isPrimaryKey).toBe(true);
       expect(idCol.hasDefault).toBe(true);
     });
+
+    it("includes unique constraints, indexes and indexed columns", async () => {
+      const res = await app.inject({ method: "GET", url: "/api/_meta/tables/users" });
+      const body = res.json();
+      expect(body.uniqueConstraints).toEqual([{ name: "users_email_key", columns: ["email"] }]);
+      expect(body.indexes).toEqual([
+        { name: "users_name_idx", columns: ["name"], method: "btree", unique: false, predicate: "(active)" },
+      ]);
+      expect(body.filterableColumns).toEqual(["id", "email"]);
+      expect(body.sortableColumns).toEqual(["id", "email"]);
+    });
+  });
+
+  describe("GET /api/_meta/schema-diff", () => {
+    it("compares the served schema with the live database", async () => {
+      const { name, ...rest } = users.columns[1];
+      vi.mocked(introspectDatabase).mockResolvedValueOnce(makeDatabaseSchema([
+        { ...users, columns: [users.columns[0], { ...rest, name: "full_name" }, ...users.columns.slice(2)] },
+        compositePk,
+        makeNonPublicSchemaTable(),
+      ]));
+
+      const res = await app.inject({ method: "GET", url: "/api/_meta/schema-diff" });
+
+      expect(res.statusCode).toBe(200);
+      const body = res.json();
+      expect(body.changed).toBe(true);
+      expect(body.breaking).toBe(true);
+      expect(body.changes).toEqual([
+        { kind: "column_added", table: "public.users", column: "full_name", to: "character varying(255)", breaking: true },
+        { kind: "column_removed", table: "public.users", column: name, from: "character varying(255)", breaking: true },
+        { kind: "table_added", table: "reporting.metrics", breaking: false },
+      ]);
+    });
+
+    it("returns 500 when the database cannot be introspected", async () => {
+      vi.mocked(introspectDatabase).mockRejectedValueOnce(new Error("connection refused"));
+
+      const res = await app.inject({ method: "GET", url: "/api/_meta/schema-diff" });
+
+      expect(res.statusCode).toBe(500);
+    });
+
+    it("requires a full-access key and leaves out tables it denies", async () => {
+      const SECRET = "test-diff-secret";
+      const authApp = await buildTestApp({ dbSchema, pool: createMockPool() as any, authEnabled: true, authSecret: SECRET });
+      vi.mocked(introspectDatabase).mockClear().mockResolvedValueOnce(
+        makeDatabaseSchema([users, compositePk, makeNonPublicSchemaTable()]),
+      );
+      const get = (permissions: Record<string, string>) =>
+        authApp.inject({
+          method: "GET",
+          url: "/api/_meta/schema-diff",
+          headers: { authorization: `Bearer ${generateApiKey("app", SECRET, permissions)}` },
+        });
+
+      const scoped = await get({ public: "rw" });
+      const full = await get({ "*": "rw", "reporting.metrics": "-" });
+      await authApp.close();
+
+      expect(scoped.statusCode).toBe(403);
+      expect(scoped.json().message).toBe('Comparing with the live database requires an API key with access to all schemas ("*": "rw").');
+      expect(introspectDatabase).toHaveBeenCalledTimes(1);
+      expect(full.statusCode).toBe(200);
+      expect(full.json().changes).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { buildTestApp, createMockPool } from "./setup.js";
+import { generateApiKey } from "../../src/auth/api-key.js";
+import {
+  makeUsersTable,
+  makeVolatileFunction,
+  makeSetReturningFunction,
+  makeDatabaseSchema,
+} from "../fixtures/tables.js";
+
+const SECRET = "rpc-test-secret";
+
+const nowFn = {
+  ...makeSetReturningFunction(),
+  schema: "public",
+  name: "server_time",
+  args: [],
+  returnType: "timestamptz",
+  returnsSet: false,
+  fqn: '"public"."server_time"',
+  routePath: "public__server_time",
+};
+
+describe("RPC Routes", () => {
+  let app: FastifyInstance;
+  let writePool: ReturnType<typeof createMockPool>;
+  let readPool: ReturnType<typeof createMockPool>;
+  const dbSchema = makeDatabaseSchema([makeUsersTable()], [makeVolatileFunction(), makeSetReturningFunction(), nowFn]);
+
+  beforeAll(async () => {
+    writePool = createMockPool();
+    readPool = createMockPool();
+    app = await buildTestApp({ dbSchema, pool: writePool as any, readPool: readPool as any });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(writePool.query).mockReset();
+    vi.mocked(readPool.query).mockReset();
+    vi.mocked(writePool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+    vi.mocked(readPool.query).mockResolvedValue({ rows: [], rowCount: 0 } as any);
+  });
+
+  it("calls a volatile function on the write pool with named arguments", async () => {
+    vi.mocked(writePool.query).mockResolvedValueOnce({ rows: [{ id: 9, customer_id: 7 }], rowCount: 1 } as any);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/public__create_order",
+      payload: { customer_id: 7 },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ data: { id: 9, customer_id: 7 } });
+    expect(vi.mocked(writePool.query).mock.calls[0][0]).toEqual({
+      text: 'SELECT * FROM "public"."create_order"("customer_id" => $1::integer)',
+      values: [7],
+    });
+    expect(vi.mocked(readPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("pages a stable set-returning function on the read pool", async () => {
+    vi.mocked(readPool.query).mockResolvedValueOnce({ rows: [{ total: "3", data: [11, 12] }], rowCount: 1 } as any);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/reporting__top_customer_ids?pageSize=2",
+      payload: { since: "2024-01-01" },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({
+      data: [11, 12],
+      pagination: { page: 1, pageSize: 2, total: 3, totalPages: 2, totalIsEstimate: false },
+    });
+    expect((vi.mocked(readPool.query).mock.calls[0][0] as any).values).toEqual(["2024-01-01", 2, 0]);
+    expect(vi.mocked(writePool.query)).not.toHaveBeenCalled();
+  });
+
+  it("validates arguments against their types", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/public__create_order",
+      payload: { note: "no customer" },
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().error).toBe("Validation Error");
+    expect(vi.mocked(writePool.query)).not.toHaveBeenCalled();
+  });
+
+  it("calls a function without arguments when no body is sent", async () => {
+    vi.mocked(readPool.query).mockResolvedValueOnce({ rows: [{ result: "2024-01-01T00:00:00Z" }], rowCount: 1 } as any);
+
+    const res = await app.inject({ method: "POST", url: "/api/_rpc/public__server_time" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ data: "2024-01-01T00:00:00Z" });
+    expect((vi.mocked(readPool.query).mock.calls[0][0] as any).text).toBe('SELECT "public"."server_time"() AS "result"');
+  });
+
+  it("maps database errors like the CRUD routes", async () => {
+    vi.mocked(writePool.query).mockRejectedValueOnce(
+      Object.assign(new Error("insert or update violates foreign key constraint"), { code: "23503" }),
+    );
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/public__create_order",
+      payload: { customer_id: 404 },
+    });
+
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("does not register routes for unknown functions", async () => {
+    const res = await app.inject({ method: "POST", url: "/api/_rpc/public__missing", payload: {} });
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe("RPC Routes - permissions", () => {
+  let app: FastifyInstance;
+  let mockPool: ReturnType<typeof createMockPool>;
+
+  beforeAll(async () => {
+    mockPool = createMockPool();
+    app = await buildTestApp({
+      dbSchema: makeDatabaseSchema([], [makeVolatileFunction(), makeSetReturningFunction()]),
+      pool: mockPool as any,
+      authEnabled: true,
+      authSecret: SECRET,
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockPool.query).mockReset();
+    vi.mocked(mockPool.query).mockResolvedValue({ rows: [{ total: "0", data: [] }], rowCount: 1 } as any);
+  });
+
+  it("requires write permission for volatile functions", async () => {
+    const key = generateApiKey("reader", SECRET, { public: "r", reporting: "r" });
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/public__create_order",
+      headers: { authorization: `Bearer ${key}` },
+      payload: { customer_id: 7 },
+    });
+
+    expect(res.statusCode).toBe(403);
+    expect(res.json()).toEqual({
+      error: "Forbidden",
+      message: 'API key does not have write permission on schema "public".',
+    });
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+  });
+
+  it("only requires read permission for stable functions", async () => {
+    const reader = generateApiKey("reader", SECRET, { reporting: "r" });
+    const outsider = generateApiKey("outsider", SECRET, { public: "rw" });
+
+    const allowed = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/reporting__top_customer_ids",
+      headers: { authorization: `Bearer ${reader}` },
+      payload: { since: "2024-01-01" },
+    });
+    const denied = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/reporting__top_customer_ids",
+      headers: { authorization: `Bearer ${outsider}` },
+      payload: { since: "2024-01-01" },
+    });
+
+    expect(allowed.statusCode).toBe(200);
+    expect(denied.statusCode).toBe(403);
+    expect(denied.json().message).toBe('API key does not have read permission on schema "reporting".');
+  });
+
+  it("refuses keys with table or column rules in the function's schema", async () => {
+    const tableRule = generateApiKey("clerk", SECRET, { public: "rw", "public.users": "r" });
+    const columnRule = generateApiKey("clerk", SECRET, { "*": "rw", "public.users.email": "-" });
+
+    for (const key of [tableRule, columnRule]) {
+      const res = await app.inject({
+        method: "POST",
+        url: "/api/_rpc/public__create_order",
+        headers: { authorization: `Bearer ${key}` },
+        payload: { customer_id: 7 },
+      });
+      expect(res.statusCode).toBe(403);
+      expect(res.json().message).toBe('API key has table or column rules in schema "public" and cannot call its functions.');
+    }
+    expect(vi.mocked(mockPool.query)).not.toHaveBeenCalled();
+
+    const other = await app.inject({
+      method: "POST",
+      url: "/api/_rpc/reporting__top_customer_ids",
+      headers: { authorization: `Bearer ${columnRule}` },
+      payload: { since: "2024-01-01" },
+    });
+    expect(other.statusCode).toBe(200);
+
+    const schema = await app.inject({ method: "GET", url: "/api/_schema", headers: { authorization: `Bearer ${columnRule}` } });
+    expect(schema.json().functions.map((f: any) => f.name)).toEqual(["top_customer_ids"]);
+  });
+});
@@ -5,14 +5,23 @@ vi.mock("../../src/config.js", () => ({
     defaultPageSize: 50,
     maxPageSize: 1000,
     maxBulkInsertRows: 1000,
+    maxBulkAffectedRows: 1000,
+    maxBatchOperations: 100,
+    countStrategy: "exact",
+    tableCountStrategies: {},
+    cacheControl: "no-cache",
+    tableCacheControl: {},
     bodyLimit: 5 * 1024 * 1024,
     swaggerEnabled: false,
     apiKeysEnabled: false,
-    apiSecret: null,
+    keyRoles: {},
+    dbSessionClaims: false,
+    apiSecrets: [],
     corsOrigins: true,
     exposeDbErrors: false,
     databaseReadUrl: null,
   },
+  COUNT_STRATEGIES: ["exact", "estimated", "none"],
 }));
 
 vi.mock("../../src/build-info.js", () => ({
@@ -27,10 +36,16 @@ import { config } from "../../src/config.js";
 import { BUILD_VERSION, BUILD_GIT_HASH, BUILD_TIMESTAMP } from "../../src/build-info.js";
 import { registerCrudRoutes } from "../../src/routes/crud.js";
 import { registerSchemaRoutes } from "../../src/routes/schema.js";
-import { registerAuthHook, extractApiKey, verifyApiKey } from "../../src/auth/api-key.js";
+import { registerBatchRoutes } from "../../src/routes/batch.js";
+import { registerRpcRoutes } from "../../src/routes/rpc.js";
+import { registerAdminRoutes } from "../../src/routes/admin.js";
+import { registerAuthHook, extractApiKey, verifyApiKey, SigningSecret, TokenCheck } from "../../src/auth/api-key.js";
+import type { RevocationList } from "../../src/auth/revocation.js";
+import { registerRowFilterHook } from "../../src/auth/scope.js";
 import type { DatabaseSchema } from "../../src/db/introspector.js";
 import { computeDatabaseHash } from "../../src/db/introspector.js";
-import { registerMcpRoutes } from "../../src/mcp/routes.js";
+import type { ReloadResult } from "../../src/db/schema-reload.js";
+import { registerMcpRoutes, McpSessions } from "../../src/mcp/routes.js";
 
 export function createMockPool() {
   const mockQuery = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
@@ -49,10 +64,14 @@ interface BuildTestAppOptions {
   pool?: Pool;
   readPool?: Pool;
   authEnabled?: boolean;
-  authSecret?: string;
+  authSecret?: string | SigningSecret[];
+  mcpSessions?: McpSessions;
+  reload?: () => Promise<ReloadResult>;
+  revocations?: RevocationList;
+  jwt?: TokenCheck;
 }
 
-const DEFAULT_OPTIONS: BuildTestAppOptions = { dbSchema: { tables: new Map(), schemas: [] } };
+const DEFAULT_OPTIONS: BuildTestAppOptions = { dbSchema: { tables: new Map(), functions: new Map(), schemas: [] } };
 
 export async function buildTestApp(options: BuildTestAppOptions = DEFAULT_OPTIONS): Promise<FastifyInstance> {
   const pool = options.pool ?? createMockPool();
@@ -80,7 +99,8 @@ export async function buildTestApp(options: BuildTestAppOptions = DEFAULT_OPTION
   });
 
   if (options.authEnabled && options.authSecret) {
-    registerAuthHook(app, options.authSecret);
+    registerAuthHook(app, options.authSecret, { revocations: options.revocations, tokens: options.jwt });
+    registerRowFilterHook(app, options.dbSchema);
   }
 
   // Health check (mirrors index.ts)
@@ -101,7 +121,7 @@ export async function buildTestApp(options: BuildTestAppOptions = DEFAULT_OPTION
       const authenticated = !options.authEnabled
         || (options.authSecret && (() => {
           const key = extractApiKey(request);
-          return key ? verifyApiKey(key, options.authSecret!).valid : false;
+          return key ? verifyApiKey(key, options.authSecret!, { revocations: options.revocations, tokens: options.jwt }).valid : false;
         })());
 
       if (authenticated) {
@@ -121,8 +141,22 @@ export async function buildTestApp(options: BuildTestAppOptions = DEFAULT_OPTION
   await registerCrudRoutes(app, pool, options.dbSchema, options.readPool ?? pool);
   console.log = consoleLog;
 
+  await registerBatchRoutes(app, pool, options.dbSchema);
+  await registerRpcRoutes(app, pool, options.dbSchema, options.readPool ?? pool);
+
   await registerSchemaRoutes(app, options.dbSchema);
-  await registerMcpRoutes(app, { pool, readPool: options.readPool ?? pool, dbSchema: options.dbSchema });
+  await registerAdminRoutes(app, options.reload ?? (async () => ({
+    changed: false,
+    databaseHash: computeDatabaseHash(options.dbSchema),
+    tables: options.dbSchema.tables.size,
+    functions: options.dbSchema.functions.size,
+  })), options.revocations);
+  await registerMcpRoutes(app, {
+    pool,
+    readPool: options.readPool ?? pool,
+    dbSchema: options.dbSchema,
+    sessions: options.mcpSessions,
+  });
   await app.ready();
 
   return app;
@@ -4,8 +4,19 @@ import {
   verifyApiKey,
   hasPermission,
   hasAnyPermission,
+  hasFullAccess,
+  hasTablePermission,
+  hasAnyTablePermission,
+  findMissingAccess,
+  columnPermission,
+  hasColumnRules,
+  hasTableRules,
   validatePermissions,
   parsePermissionsString,
+  validateRowFilters,
+  parseRowFiltersString,
+  parseKeyTimestamp,
+  keyFingerprint,
 } from "../../src/auth/api-key.js";
 
 const SECRET = "test-secret-value";
@@ -95,6 +106,51 @@ describe("generateApiKey", () => {
   it("rejects empty schema name in permissions", () => {
     expect(() => generateApiKey("svc", SECRET, { "": "r" })).toThrow(/must not be empty/);
   });
+
+  // ── With claims ──
+  it("appends row filters as a third segment", () => {
+    const rows = { public: { tenant_id: "42" } };
+    expect(generateApiKey("tenant", SECRET, { public: "rw" }, { rows })).toMatch(/^pgcrud_tenant:[^:.]+:[^:.]+\.[0-9a-f]{64}$/);
+    expect(generateApiKey("tenant", SECRET, undefined, { rows })).toMatch(/^pgcrud_tenant::[^:.]+\.[0-9a-f]{64}$/);
+  });
+
+  it("omits empty claims", () => {
+    expect(generateApiKey("admin", SECRET, undefined, {})).toBe(generateApiKey("admin", SECRET));
+  });
+
+  it("signs a database role into the claims", () => {
+    const key = generateApiKey("analyst", SECRET, undefined, { role: "api_reader" });
+    expect(key).toMatch(/^pgcrud_analyst::[^:.]+\.[0-9a-f]{64}$/);
+    expect(() => generateApiKey("analyst", SECRET, undefined, { role: " " })).toThrow("Role must not be empty");
+  });
+
+  it("rejects invalid row filters", () => {
+    expect(() => generateApiKey("svc", SECRET, undefined, { rows: { "a.b.c": { id: "1" } } })).toThrow(
+      /Invalid row filter target/,
+    );
+  });
+
+  it("signs expiry and not-before times into the claims", () => {
+    const key = generateApiKey("contractor", SECRET, { public: "r" }, { exp: 2000, nbf: 1000 });
+    expect(key).toMatch(/^pgcrud_contractor:[^:.]+:[^:.]+\.[0-9a-f]{64}$/);
+  });
+
+  it("puts the id of the signing secret in front of the key", () => {
+    const key = generateApiKey("svc", { id: "k2", secret: SECRET }, { public: "r" });
+    expect(key).toMatch(/^pgcrud_k2\.svc:[^:.]+\.[0-9a-f]{64}$/);
+    expect(generateApiKey("svc", { secret: SECRET })).toBe(generateApiKey("svc", SECRET));
+    expect(() => generateApiKey("svc", { id: "k.2", secret: SECRET })).toThrow(
+      "Secret id must contain only alphanumeric characters, hyphens, and underscores",
+    );
+  });
+
+  it("rejects invalid expiry and not-before times", () => {
+    expect(() => generateApiKey("svc", SECRET, undefined, { exp: 1.5 })).toThrow('"exp" must be a Unix timestamp in seconds');
+    expect(() => generateApiKey("svc", SECRET, undefined, { nbf: -1 })).toThrow('"nbf" must be a Unix timestamp in seconds');
+    expect(() => generateApiKey("svc", SECRET, undefined, { exp: 1000, nbf: 1000 })).toThrow(
+      "Expiry must be after the not-before time",
+    );
+  });
 });
 
 describe("verifyApiKey", () => {
@@ -208,6 +264,19 @@ describe("verifyApiKey", () => {
     expect(verifyApiKey(`pgcrud_${data}.${hmac}`, SECRET)).toEqual({ valid: false });
   });
 
+  it("rejects key with a column rule granting more than read access", () => {
+    const encoded = Buffer.from(JSON.stringify({ public: "rw", "public.users.role": "rw" }), "utf8").toString("base64url");
+    const data = `label:${encoded}`;
+    const hmac = require("node:crypto").createHmac("sha256", SECRET).update(data).digest("hex");
+    expect(verifyApiKey(`pgcrud_${data}.${hmac}`, SECRET)).toEqual({ valid: false });
+  });
+
+  it("round-trips table and column permissions", () => {
+    const permissions = { "public.orders": "r", public: "rw", "public.users.password_hash": "-", "public.users.role": "r" } as const;
+    const key = generateApiKey("support", SECRET, permissions);
+    expect(verifyApiKey(key, SECRET)).toEqual({ valid: true, label: "support", permissions });
+  });
+
   it("rejects permission stripping attack (removing permissions to get full access)", () => {
     // Attacker has a scoped key: pgcrud_svc:{perms}.{hmac}
     // They try to strip permissions to make a legacy key: pgcrud_svc.{hmac}
@@ -259,6 +328,158 @@ describe("verifyApiKey", () => {
   it("rejects key with empty HMAC after dot", () => {
     expect(verifyApiKey("pgcrud_admin.", SECRET)).toEqual({ valid: false });
   });
+
+  it("round-trips row filters, with and without permissions", () => {
+    const rows = { public: { tenant_id: "42" }, "public.plans": {} };
+    expect(verifyApiKey(generateApiKey("tenant", SECRET, { public: "rw" }, { rows }), SECRET)).toEqual({
+      valid: true, label: "tenant", permissions: { public: "rw" }, rowFilters: rows,
+    });
+    expect(verifyApiKey(generateApiKey("tenant", SECRET, undefined, { rows }), SECRET)).toEqual({
+      valid: true, label: "tenant", permissions: null, rowFilters: rows,
+    });
+  });
+
+  it("round-trips a database role", () => {
+    const key = generateApiKey("analyst", SECRET, { reporting: "r" }, { role: "api_reader" });
+    expect(verifyApiKey(key, SECRET)).toEqual({
+      valid: true, label: "analyst", permissions: { reporting: "r" }, role: "api_reader",
+    });
+  });
+
+  it("rejects row filter stripping and tampering", () => {
+    const key = generateApiKey("tenant", SECRET, { public: "rw" }, { rows: { public: { tenant_id: "42" } } });
+    const [data, hmac] = key.slice("pgcrud_".length).split(".");
+    const [label, perms] = data.split(":");
+    const other = Buffer.from(JSON.stringify({ rows: { public: { tenant_id: "7" } } }), "utf8").toString("base64url");
+
+    expect(verifyApiKey(`pgcrud_${label}:${perms}.${hmac}`, SECRET)).toEqual({ valid: false });
+    expect(verifyApiKey(`pgcrud_${label}:${perms}:${other}.${hmac}`, SECRET)).toEqual({ valid: false });
+  });
+
+  it("rejects signed keys with malformed claims", () => {
+    const { createHmac } = require("node:crypto");
+    const b64 = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+    const sign = (data: string) => `pgcrud_${data}.${createHmac("sha256", SECRET).update(data).digest("hex")}`;
+
+    for (const data of [
+      "svc:",
+      `svc::${b64([])}`,
+      `svc::${b64({ rows: "tenant" })}`,
+      `svc::${b64({ rows: { public: { tenant_id: 42 } } })}`,
+      `svc::${b64({ role: "" })}`,
+      `svc::${b64({ role: 42 })}`,
+      `svc:${b64({ public: "r" })}:${b64({})}:extra`,
+    ]) {
+      expect(verifyApiKey(sign(data), SECRET)).toEqual({ valid: false });
+    }
+    expect(verifyApiKey(sign(`svc::${b64({})}`), SECRET)).toEqual({ valid: true, label: "svc", permissions: null });
+  });
+
+  it("rejects expired and not-yet-valid keys with a reason", () => {
+    const key = generateApiKey("contractor", SECRET, undefined, { exp: 2000, nbf: 1000 });
+
+    expect(verifyApiKey(key, SECRET, { now: 999 })).toEqual({ valid: false, reason: "not_yet_valid" });
+    expect(verifyApiKey(key, SECRET, { now: 1000 })).toEqual({ valid: true, label: "contractor", permissions: null });
+    expect(verifyApiKey(key, SECRET, { now: 2000 })).toEqual({ valid: false, reason: "expired" });
+  });
+
+  it("checks expiry against the current time by default", () => {
+    const now = Math.floor(Date.now() / 1000);
+    expect(verifyApiKey(generateApiKey("svc", SECRET, undefined, { exp: now - 1 }), SECRET).reason).toBe("expired");
+    expect(verifyApiKey(generateApiKey("svc", SECRET, undefined, { exp: now + 3600 }), SECRET).valid).toBe(true);
+  });
+
+  it("gives no reason for a tampered expiry", () => {
+    const key = generateApiKey("svc", SECRET, undefined, { exp: 2000 });
+    const extended = Buffer.from(JSON.stringify({ exp: 9999999999 }), "utf8").toString("base64url");
+    const [data, hmac] = key.slice("pgcrud_".length).split(".");
+    const [label, perms] = data.split(":");
+    expect(verifyApiKey(`pgcrud_${label}:${perms}:${extended}.${hmac}`, SECRET, { now: 3000 })).toEqual({ valid: false });
+  });
+
+  it("rejects keys revoked by label or fingerprint", () => {
+    const key = generateApiKey("svc", SECRET, { public: "r" });
+    const other = generateApiKey("svc", SECRET, { public: "rw" });
+    const byLabel = { isRevoked: (label: string) => label === "svc" };
+    const byFingerprint = { isRevoked: (_: string, fingerprint: string) => fingerprint === keyFingerprint(key) };
+
+    expect(verifyApiKey(key, SECRET, { revocations: byLabel })).toEqual({ valid: false, reason: "revoked" });
+    expect(verifyApiKey(other, SECRET, { revocations: byLabel })).toEqual({ valid: false, reason: "revoked" });
+    expect(verifyApiKey(key, SECRET, { revocations: byFingerprint })).toEqual({ valid: false, reason: "revoked" });
+    expect(verifyApiKey(other, SECRET, { revocations: byFingerprint }).valid).toBe(true);
+  });
+
+  it("verifies keys signed with any of several secrets", () => {
+    const secrets = [{ id: "k2", secret: "new-secret" }, { secret: SECRET }];
+    expect(verifyApiKey(generateApiKey("svc", "new-secret"), secrets).valid).toBe(true);
+    expect(verifyApiKey(generateApiKey("svc", SECRET, { public: "r" }), secrets)).toEqual({
+      valid: true, label: "svc", permissions: { public: "r" },
+    });
+    expect(verifyApiKey(generateApiKey("svc", "retired-secret"), secrets)).toEqual({ valid: false });
+    expect(verifyApiKey(generateApiKey("svc", SECRET), [])).toEqual({ valid: false });
+  });
+
+  it("checks keys with a secret id only against that secret", () => {
+    const secrets = [{ id: "k2", secret: "new-secret" }, { id: "k1", secret: SECRET }];
+    const key = generateApiKey("svc", secrets[0], undefined, { role: "api_user" });
+
+    expect(verifyApiKey(key, secrets)).toEqual({ valid: true, label: "svc", permissions: null, role: "api_user" });
+    expect(verifyApiKey(generateApiKey("svc", { id: "k1", secret: "new-secret" }), secrets)).toEqual({ valid: false });
+    expect(verifyApiKey(generateApiKey("svc", { id: "k3", secret: SECRET }), secrets)).toEqual({ valid: false });
+    expect(verifyApiKey(key, "new-secret")).toEqual({ valid: false });
+  });
+
+  it("covers the secret id with the HMAC", () => {
+    const secrets = [{ id: "k2", secret: SECRET }, { id: "k1", secret: SECRET }];
+    const key = generateApiKey("svc", secrets[0]);
+    expect(verifyApiKey(key.replace("pgcrud_k2.", "pgcrud_k1."), secrets)).toEqual({ valid: false });
+    expect(verifyApiKey(key.replace("pgcrud_k2.", "pgcrud_"), secrets)).toEqual({ valid: false });
+    expect(verifyApiKey(key.replace("pgcrud_k2.", "pgcrud_k!."), secrets)).toEqual({ valid: false });
+    expect(verifyApiKey(key.replace("pgcrud_k2.", "pgcrud_k2.k2."), secrets)).toEqual({ valid: false });
+  });
+
+  it("does not consult the revocation list for invalid keys", () => {
+    const revocations = { isRevoked: () => true };
+    expect(verifyApiKey("pgcrud_svc.deadbeef", SECRET, { revocations })).toEqual({ valid: false });
+  });
+});
+
+describe("keyFingerprint", () => {
+  it("is a stable 16-character hex prefix of the key's SHA-256", () => {
+    const key = generateApiKey("svc", SECRET);
+    expect(keyFingerprint(key)).toMatch(/^[0-9a-f]{16}$/);
+    expect(keyFingerprint(key)).toBe(keyFingerprint(key));
+    expect(keyFingerprint(key)).not.toBe(keyFingerprint(generateApiKey("svc2", SECRET)));
+  });
+});
+
+describe("parseKeyTimestamp", () => {
+  const now = Date.UTC(2026, 0, 1);
+  const nowSeconds = now / 1000;
+
+  it("parses durations from now", () => {
+    expect(parseKeyTimestamp("45s", now)).toBe(nowSeconds + 45);
+    expect(parseKeyTimestamp("30m", now)).toBe(nowSeconds + 1800);
+    expect(parseKeyTimestamp("12h", now)).toBe(nowSeconds + 43200);
+    expect(parseKeyTimestamp(" 90d ", now)).toBe(nowSeconds + 90 * 86400);
+  });
+
+  it("parses dates", () => {
+    expect(parseKeyTimestamp("2026-01-31")).toBe(Date.UTC(2026, 0, 31) / 1000);
+    expect(parseKeyTimestamp("2026-01-31T12:00:30.500Z")).toBe(Date.UTC(2026, 0, 31, 12, 0, 30) / 1000);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseKeyTimestamp("soon")).toThrow(
+      'Invalid time "soon". Expected a duration (e.g., "90d") or a date (e.g., "2026-01-31")',
+    );
+    expect(() => parseKeyTimestamp("90y")).toThrow(/Invalid time "90y"/);
+  });
+
+  it("defaults to the current time", () => {
+    const before = Math.floor(Date.now() / 1000);
+    expect(parseKeyTimestamp("1h")).toBeGreaterThanOrEqual(before + 3600);
+  });
 });
 
 describe("hasPermission", () => {
@@ -308,6 +529,27 @@ describe("hasPermission", () => {
     expect(hasPermission(perms, "public", "w")).toBe(false);
     expect(hasPermission(perms, "other", "w")).toBe(true);
   });
+
+  it("treats 'w' as create, update, delete and bulk", () => {
+    for (const access of ["c", "u", "d", "b"] as const) {
+      expect(hasPermission({ public: "w" }, "public", access)).toBe(true);
+    }
+  });
+
+  it("grants only the listed operations of a fine-grained entry", () => {
+    const perms = { public: "rc" };
+    expect(hasPermission(perms, "public", "r")).toBe(true);
+    expect(hasPermission(perms, "public", "c")).toBe(true);
+    expect(hasPermission(perms, "public", "u")).toBe(false);
+    expect(hasPermission(perms, "public", "d")).toBe(false);
+    expect(hasPermission(perms, "public", "b")).toBe(false);
+    expect(hasPermission(perms, "public", "w")).toBe(false);
+  });
+
+  it("grants write for create, update and delete together", () => {
+    expect(hasPermission({ public: "cud" }, "public", "w")).toBe(true);
+    expect(hasPermission({ public: "-" }, "public", "c")).toBe(false);
+  });
 });
 
 describe("hasAnyPermission", () => {
@@ -332,6 +574,125 @@ describe("hasAnyPermission", () => {
   it("uses wildcard for unlisted schemas", () => {
     expect(hasAnyPermission({ "*": "r" }, "anything")).toBe(true);
   });
+
+  it("returns false for a schema denied with '-'", () => {
+    expect(hasAnyPermission({ "*": "r", reporting: "-" }, "reporting")).toBe(false);
+  });
+
+  it("ignores table entries", () => {
+    expect(hasAnyPermission({ "public.orders": "r" }, "public")).toBe(false);
+  });
+});
+
+describe("hasTablePermission", () => {
+  const users = { schema: "public", name: "users" };
+  const orders = { schema: "public", name: "orders" };
+
+  it("returns true for null and undefined permissions", () => {
+    expect(hasTablePermission(null, users, "w")).toBe(true);
+    expect(hasTablePermission(undefined, users, "w")).toBe(true);
+  });
+
+  it("falls back to the schema and then the wildcard entry", () => {
+    expect(hasTablePermission({ public: "r" }, users, "r")).toBe(true);
+    expect(hasTablePermission({ public: "r" }, users, "w")).toBe(false);
+    expect(hasTablePermission({ "*": "rw" }, users, "w")).toBe(true);
+    expect(hasTablePermission({ reporting: "rw" }, users, "r")).toBe(false);
+  });
+
+  it("grants a listed table without its schema", () => {
+    const perms = { "public.orders": "r" } as const;
+    expect(hasTablePermission(perms, orders, "r")).toBe(true);
+    expect(hasTablePermission(perms, orders, "w")).toBe(false);
+    expect(hasTablePermission(perms, users, "r")).toBe(false);
+  });
+
+  it("lets a table entry narrow or deny its schema's access", () => {
+    const perms = { public: "rw", "public.orders": "r", "public.users": "-" } as const;
+    expect(hasTablePermission(perms, orders, "w")).toBe(false);
+    expect(hasTablePermission(perms, users, "r")).toBe(false);
+  });
+});
+
+describe("findMissingAccess", () => {
+  const users = { schema: "public", name: "users" };
+
+  it("returns the first access not granted, in order", () => {
+    expect(findMissingAccess({ public: "rc" }, users, ["c", "b"])).toBe("b");
+    expect(findMissingAccess({ public: "r" }, users, ["d", "b"])).toBe("d");
+    expect(findMissingAccess({ public: "cb" }, users, ["c", "b"])).toBeUndefined();
+    expect(findMissingAccess(null, users, ["c", "u", "d", "b"])).toBeUndefined();
+  });
+});
+
+describe("hasAnyTablePermission", () => {
+  it("returns true for null and undefined permissions", () => {
+    expect(hasAnyTablePermission(null, { schema: "public", name: "users" })).toBe(true);
+    expect(hasAnyTablePermission(undefined, { schema: "public", name: "users" })).toBe(true);
+  });
+
+  it("resolves table, schema and wildcard entries, treating '-' as none", () => {
+    const perms = { "*": "r", "public.users": "w", "public.secrets": "-" } as const;
+    expect(hasAnyTablePermission(perms, { schema: "public", name: "users" })).toBe(true);
+    expect(hasAnyTablePermission(perms, { schema: "public", name: "orders" })).toBe(true);
+    expect(hasAnyTablePermission(perms, { schema: "public", name: "secrets" })).toBe(false);
+    expect(hasAnyTablePermission({ "public.users": "r" }, { schema: "public", name: "orders" })).toBe(false);
+  });
+});
+
+describe("columnPermission", () => {
+  const users = { schema: "public", name: "users" };
+
+  it("returns the column's rule, if any", () => {
+    const perms = { public: "rw", "public.users.password_hash": "-", "public.users.role": "r" } as const;
+    expect(columnPermission(perms, users, "password_hash")).toBe("-");
+    expect(columnPermission(perms, users, "role")).toBe("r");
+    expect(columnPermission(perms, users, "name")).toBeUndefined();
+    expect(columnPermission(null, users, "role")).toBeUndefined();
+  });
+});
+
+describe("hasTableRules", () => {
+  it("detects table and column entries within a schema", () => {
+    expect(hasTableRules({ public: "rw", "public.users": "r" }, "public")).toBe(true);
+    expect(hasTableRules({ "*": "rw", "public.users.role": "-" }, "public")).toBe(true);
+    expect(hasTableRules({ "*": "rw", "public.users": "r" }, "publications")).toBe(false);
+    expect(hasTableRules({ public: "rw", reporting: "r" }, "public")).toBe(false);
+    expect(hasTableRules(null, "public")).toBe(false);
+  });
+});
+
+describe("hasColumnRules", () => {
+  it("detects column rules for a table or for any table", () => {
+    const perms = { public: "rw", "public.users.role": "r" } as const;
+    expect(hasColumnRules(perms)).toBe(true);
+    expect(hasColumnRules(perms, { schema: "public", name: "users" })).toBe(true);
+    expect(hasColumnRules(perms, { schema: "public", name: "orders" })).toBe(false);
+    expect(hasColumnRules({ public: "rw", "public.users": "r" })).toBe(false);
+    expect(hasColumnRules(null)).toBe(false);
+    expect(hasColumnRules(undefined)).toBe(false);
+  });
+});
+
+describe("hasFullAccess", () => {
+  it("returns true for legacy keys and disabled auth", () => {
+    expect(hasFullAccess(null)).toBe(true);
+    expect(hasFullAccess(undefined)).toBe(true);
+  });
+
+  it("returns true for a read-write wildcard", () => {
+    expect(hasFullAccess({ "*": "rw", reporting: "r" })).toBe(true);
+  });
+
+  it("returns true for a wildcard granting every operation", () => {
+    expect(hasFullAccess({ "*": "rcudb" })).toBe(true);
+  });
+
+  it("returns false for keys scoped to listed schemas or read-only", () => {
+    expect(hasFullAccess({ public: "rw", reporting: "rw" })).toBe(false);
+    expect(hasFullAccess({ "*": "r" })).toBe(false);
+    expect(hasFullAccess({ "*": "rcud" })).toBe(false);
+  });
 });
 
 describe("validatePermissions", () => {
@@ -347,6 +708,18 @@ describe("validatePermissions", () => {
     expect(() => validatePermissions({ public: "x" as any })).toThrow(/Invalid permission/);
   });
 
+  it("accepts combinations of operation scopes", () => {
+    expect(() => validatePermissions({ public: "rc", "public.users": "ru", reporting: "cudb", audit: "rwb" })).not.toThrow();
+  });
+
+  it("rejects repeated, unknown or mixed-with-none scopes", () => {
+    for (const perm of ["rr", "rcc", "rx", "r-", ""]) {
+      expect(() => validatePermissions({ public: perm })).toThrow(
+        `Invalid permission "${perm}" for schema "public". Must be "-" or a combination of "r", "w", "c", "u", "d" and "b"`,
+      );
+    }
+  });
+
   it("rejects empty schema name", () => {
     expect(() => validatePermissions({ "": "r" })).toThrow(/must not be empty/);
   });
@@ -354,6 +727,32 @@ describe("validatePermissions", () => {
   it("rejects whitespace-only schema name", () => {
     expect(() => validatePermissions({ "  ": "r" })).toThrow(/must not be empty/);
   });
+
+  it("accepts table and column targets", () => {
+    expect(() => validatePermissions({
+      "public.orders": "r",
+      "public.secrets": "-",
+      "public.users.password_hash": "-",
+      "public.users.role": "r",
+    })).not.toThrow();
+  });
+
+  it("rejects malformed targets", () => {
+    for (const target of ["public.", ".users", "a.b.c.d", "*.users", "public.users."]) {
+      expect(() => validatePermissions({ [target]: "r" })).toThrow(`Invalid permission target "${target}"`);
+    }
+  });
+
+  it("rejects column rules other than read-only and hidden", () => {
+    expect(() => validatePermissions({ "public.users.role": "rw" })).toThrow(
+      'Invalid permission "rw" for column "public.users.role". Must be "r" (read-only) or "-" (hidden)',
+    );
+  });
+
+  it("names the target kind in errors", () => {
+    expect(() => validatePermissions({ "public.orders": "x" as any })).toThrow('for table "public.orders"');
+    expect(() => validatePermissions({ public: "x" as any })).toThrow('for schema "public"');
+  });
 });
 
 describe("parsePermissionsString", () => {
@@ -385,8 +784,73 @@ describe("parsePermissionsString", () => {
     expect(() => parsePermissionsString("")).toThrow(/No permissions/);
   });
 
+  it("parses table and column targets", () => {
+    expect(parsePermissionsString("public:rw,public.orders:r,public.users.password_hash:-,public.users.role:r")).toEqual({
+      public: "rw",
+      "public.orders": "r",
+      "public.users.password_hash": "-",
+      "public.users.role": "r",
+    });
+  });
+
+  it("rejects invalid column rules", () => {
+    expect(() => parsePermissionsString("public.users.role:w")).toThrow(/for column "public.users.role"/);
+  });
+
   it("handles schema name containing colon (uses last colon)", () => {
     // e.g., "my:schema:rw" → schema="my:schema", perm="rw"
     expect(parsePermissionsString("my:schema:rw")).toEqual({ "my:schema": "rw" });
   });
 });
+
+describe("validateRowFilters", () => {
+  it("accepts wildcard, schema and table targets", () => {
+    expect(() => validateRowFilters({ "*": { tenant_id: "1" }, public: {}, "public.plans": {} })).not.toThrow();
+  });
+
+  it("rejects malformed targets", () => {
+    for (const target of ["", "public.", "a.b.c", "*.users", "public.*"]) {
+      expect(() => validateRowFilters({ [target]: { id: "1" } })).toThrow(`Invalid row filter target "${target}"`);
+    }
+  });
+
+  it("rejects filters that are not objects of strings", () => {
+    expect(() => validateRowFilters({ public: [] as any })).toThrow('Row filter for "public" must be an object of column values');
+    expect(() => validateRowFilters({ public: null as any })).toThrow(/must be an object/);
+    expect(() => validateRowFilters({ public: { tenant_id: 1 as any } })).toThrow(
+      'Invalid row filter "tenant_id" for "public". Expected a column name with a string value',
+    );
+    expect(() => validateRowFilters({ public: { " ": "1" } })).toThrow(/Invalid row filter " "/);
+  });
+});
+
+describe("parseRowFiltersString", () => {
+  it("parses target:column=value pairs, merging repeated targets", () => {
+    expect(parseRowFiltersString("public:tenant_id=42, public:region = eu ,*:org_id=7")).toEqual({
+      public: { tenant_id: "42", region: "eu" },
+      "*": { org_id: "7" },
+    });
+  });
+
+  it("keeps everything after the first '=' as the value", () => {
+    expect(parseRowFiltersString("public:code=a=b")).toEqual({ public: { code: "a=b" } });
+  });
+
+  it("exempts targets without a condition", () => {
+    expect(parseRowFiltersString("public:tenant_id=42,public.plans:")).toEqual({
+      public: { tenant_id: "42" },
+      "public.plans": {},
+    });
+  });
+
+  it("rejects malformed pairs", () => {
+    for (const pair of ["tenant_id=42", ":tenant_id=42", "public:tenant_id", "public:=42"]) {
+      expect(() => parseRowFiltersString(pair)).toThrow(`Invalid row filter format "${pair}"`);
+    }
+    expect(() => parseRowFiltersString("a.b.c:id=1")).toThrow(/Invalid row filter target/);
+  });
+
+  it("rejects empty input", () => {
+    expect(() => parseRowFiltersString(" , ")).toThrow("No row filters specified");
+  });
+});
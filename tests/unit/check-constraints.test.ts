@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { parseCheckConstraint, mergeChecks } from "../../src/db/check-constraints.js";
+
+describe("parseCheckConstraint", () => {
+  it("maps numeric comparisons to bounds", () => {
+    expect(parseCheckConstraint("CHECK ((qty >= 0))", "qty")).toEqual({ minimum: 0 });
+    expect(parseCheckConstraint("CHECK ((qty > 0))", "qty")).toEqual({ exclusiveMinimum: 0 });
+    expect(parseCheckConstraint("CHECK ((qty <= 100))", "qty")).toEqual({ maximum: 100 });
+    expect(parseCheckConstraint("CHECK ((qty < 100))", "qty")).toEqual({ exclusiveMaximum: 100 });
+  });
+
+  it("reads cast and quoted numeric literals", () => {
+    expect(parseCheckConstraint("CHECK ((price > (0)::numeric))", "price")).toEqual({ exclusiveMinimum: 0 });
+    expect(parseCheckConstraint("CHECK ((delta >= '-1.5'::numeric))", "delta")).toEqual({ minimum: -1.5 });
+    expect(parseCheckConstraint("CHECK ((ratio <= 1e3))", "ratio")).toEqual({ maximum: 1000 });
+  });
+
+  it("combines ranges joined with AND, as BETWEEN is stored", () => {
+    expect(parseCheckConstraint("CHECK (((rating >= 1) AND (rating <= 5)))", "rating")).toEqual({ minimum: 1, maximum: 5 });
+  });
+
+  it("turns IN lists into enums", () => {
+    expect(parseCheckConstraint("CHECK ((status = ANY (ARRAY['open'::text, 'closed'::text])))", "status"))
+      .toEqual({ enum: ["open", "closed"] });
+    expect(parseCheckConstraint(
+      "CHECK (((status)::text = ANY ((ARRAY['a, b'::character varying, 'it''s'::character varying])::text[])))",
+      "status",
+    )).toEqual({ enum: ["a, b", "it's"] });
+    expect(parseCheckConstraint("CHECK ((level = ANY (ARRAY[1, 2, 3])))", "level")).toEqual({ enum: [1, 2, 3] });
+  });
+
+  it("turns equality into a single-value enum", () => {
+    expect(parseCheckConstraint("CHECK ((kind = 'user'::text))", "kind")).toEqual({ enum: ["user"] });
+    expect(parseCheckConstraint("CHECK ((version = 2))", "version")).toEqual({ enum: [2] });
+  });
+
+  it("reads negative numbers as Postgres prints them, quoted and cast", () => {
+    expect(parseCheckConstraint("CHECK ((x = ANY (ARRAY['-1'::integer, 0, 1])))", "x")).toEqual({ enum: [-1, 0, 1] });
+    expect(parseCheckConstraint("CHECK ((x = '-5'::integer))", "x")).toEqual({ enum: [-5] });
+    expect(parseCheckConstraint("CHECK ((x = ANY (ARRAY['-0.5'::numeric, 0.5])))", "x")).toEqual({ enum: [-0.5, 0.5] });
+    expect(parseCheckConstraint("CHECK ((x = ANY (ARRAY[('-1'::integer)::numeric, (2)::numeric])))", "x"))
+      .toEqual({ enum: [-1, 2] });
+    expect(parseCheckConstraint("CHECK ((x >= '-10'::bigint))", "x")).toEqual({ minimum: -10 });
+    expect(parseCheckConstraint("CHECK ((code = '-1'::text))", "code")).toEqual({ enum: ["-1"] });
+  });
+
+  it("maps length functions to string lengths", () => {
+    expect(parseCheckConstraint("CHECK ((char_length(code) = 3))", "code")).toEqual({ minLength: 3, maxLength: 3 });
+    expect(parseCheckConstraint("CHECK ((length((name)::text) >= 1))", "name")).toEqual({ minLength: 1 });
+    expect(parseCheckConstraint("CHECK ((length(name) > 1))", "name")).toEqual({ minLength: 2 });
+    expect(parseCheckConstraint("CHECK ((character_length(name) <= 50))", "name")).toEqual({ maxLength: 50 });
+    expect(parseCheckConstraint("CHECK ((char_length(name) < 50))", "name")).toEqual({ maxLength: 49 });
+  });
+
+  it("maps regular expression matches to a pattern", () => {
+    expect(parseCheckConstraint("CHECK ((zip ~ '^\\d{5}$'::text))", "zip")).toEqual({ pattern: "^\\d{5}$" });
+  });
+
+  it("leaves Postgres-only regular expressions to the database", () => {
+    expect(parseCheckConstraint("CHECK ((code ~ '^[[:digit:]]+$'::text))", "code")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((name ~ '\\mfoo\\M'::text))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((name ~ '\\yfoo'::text))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((name ~ '(?<x'::text))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK (((code ~ '^[[:alpha:]]'::text) AND (length(code) <= 5)))", "code"))
+      .toEqual({ maxLength: 5 });
+  });
+
+  it("accepts domain constraints written against VALUE", () => {
+    expect(parseCheckConstraint("CHECK ((VALUE > 0))", "anything")).toEqual({ exclusiveMinimum: 0 });
+    expect(parseCheckConstraint("CHECK (((VALUE)::text ~ '^[a-z]+$'::text))", "slug")).toEqual({ pattern: "^[a-z]+$" });
+  });
+
+  it("matches quoted column names", () => {
+    expect(parseCheckConstraint('CHECK (("Score" >= 0))', "Score")).toEqual({ minimum: 0 });
+    expect(parseCheckConstraint('CHECK (("Score" >= 0))', "score")).toBeNull();
+  });
+
+  it("ignores the NOT VALID marker", () => {
+    expect(parseCheckConstraint("CHECK ((qty >= 0)) NOT VALID", "qty")).toEqual({ minimum: 0 });
+  });
+
+  it("keeps the recognised conjuncts and drops the rest", () => {
+    expect(parseCheckConstraint("CHECK (((qty >= 0) AND ((qty % 2) = 0)))", "qty")).toEqual({ minimum: 0 });
+  });
+
+  it("returns null when nothing maps to a keyword", () => {
+    expect(parseCheckConstraint("CHECK (((qty < 0) OR (qty > 10)))", "qty")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((lower(email) = email))", "email")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((qty >= other))", "qty")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((name >= 'a'::text))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((name ~ other))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((name = other))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((qty IS NOT NULL))", "qty")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((length(name) >= max_len))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((length(name) ~ '1'::text))", "name")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((status = ANY (ARRAY[other, 'a'::text])))", "status")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((status = ANY (allowed_statuses)))", "status")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((other = ANY (ARRAY[1, 2])))", "status")).toBeNull();
+    expect(parseCheckConstraint("UNIQUE (email)", "email")).toBeNull();
+    expect(parseCheckConstraint("CHECK ((qty >= 0)", "qty")).toBeNull();
+  });
+});
+
+describe("mergeChecks", () => {
+  it("keeps the tighter bound of each keyword", () => {
+    expect(mergeChecks(
+      { minimum: 0, maximum: 100, minLength: 1, exclusiveMaximum: 10 },
+      { minimum: 5, maximum: 200, maxLength: 20, exclusiveMinimum: 1 },
+    )).toEqual({ minimum: 5, maximum: 100, minLength: 1, maxLength: 20, exclusiveMinimum: 1, exclusiveMaximum: 10 });
+  });
+
+  it("intersects enums and keeps the first pattern", () => {
+    expect(mergeChecks({ enum: ["a", "b", "c"], pattern: "^a" }, { enum: ["b", "c", "d"], pattern: "^b" }))
+      .toEqual({ enum: ["b", "c"], pattern: "^a" });
+    expect(mergeChecks({}, { enum: ["x"] })).toEqual({ enum: ["x"] });
+    expect(mergeChecks({ enum: ["x"] }, {})).toEqual({ enum: ["x"] });
+  });
+
+  it("ignores keys that are not validation keywords", () => {
+    expect(mergeChecks({ type: "integer", minimum: 1 } as never, {})).toEqual({ minimum: 1 });
+  });
+});
@@ -30,12 +30,32 @@ describe("config object initialization", () => {
     delete process.env.DEFAULT_PAGE_SIZE;
     delete process.env.MAX_PAGE_SIZE;
     delete process.env.MAX_BULK_INSERT_ROWS;
+    delete process.env.MAX_BULK_AFFECTED_ROWS;
+    delete process.env.MAX_BATCH_OPERATIONS;
+    delete process.env.COUNT_STRATEGY;
+    delete process.env.TABLE_COUNT_STRATEGIES;
+    delete process.env.CACHE_CONTROL;
+    delete process.env.TABLE_CACHE_CONTROL;
     delete process.env.BODY_LIMIT;
     delete process.env.SWAGGER_ENABLED;
     delete process.env.API_SECRET;
+    delete process.env.API_SECRETS;
+    delete process.env.JWT_SECRET;
+    delete process.env.JWT_PUBLIC_KEY_FILE;
+    delete process.env.JWT_JWKS_FILE;
+    delete process.env.JWT_AUDIENCE;
+    delete process.env.JWT_ISSUER;
+    delete process.env.JWT_PERMISSIONS_CLAIM;
     delete process.env.API_KEYS_ENABLED;
+    delete process.env.API_KEY_ROLES;
+    delete process.env.DB_SESSION_CLAIMS;
+    delete process.env.API_KEY_REVOCATION_FILE;
+    delete process.env.API_KEY_REVOCATION_TABLE;
+    delete process.env.API_KEY_REVOCATION_INTERVAL;
     delete process.env.CORS_ORIGINS;
     delete process.env.EXPOSE_DB_ERRORS;
+    delete process.env.SCHEMA_RELOAD_INTERVAL;
+    delete process.env.SCHEMA_RELOAD_CHANNEL;
     delete process.env.NODE_ENV;
   });
 
@@ -61,11 +81,30 @@ describe("config object initialization", () => {
     expect(config.defaultPageSize).toBe(50);
     expect(config.maxPageSize).toBe(1000);
     expect(config.maxBulkInsertRows).toBe(1000);
+    expect(config.maxBulkAffectedRows).toBe(1000);
+    expect(config.maxBatchOperations).toBe(100);
+    expect(config.countStrategy).toBe("exact");
+    expect(config.tableCountStrategies).toEqual({});
+    expect(config.cacheControl).toBe("no-cache");
+    expect(config.tableCacheControl).toEqual({});
     expect(config.bodyLimit).toBe(5 * 1024 * 1024);
     expect(config.swaggerEnabled).toBe(true);
-    expect(config.apiSecret).toBeNull();
+    expect(config.apiSecrets).toEqual([]);
+    expect(config.jwtSecret).toBeNull();
+    expect(config.jwtPublicKeyFile).toBeNull();
+    expect(config.jwtJwksFile).toBeNull();
+    expect(config.jwtAudience).toBeNull();
+    expect(config.jwtIssuer).toBeNull();
+    expect(config.jwtPermissionsClaim).toBe("pgcrud_permissions");
     expect(config.apiKeysEnabled).toBe(true);
+    expect(config.keyRoles).toEqual({});
+    expect(config.dbSessionClaims).toBe(false);
+    expect(config.apiKeyRevocationFile).toBeNull();
+    expect(config.apiKeyRevocationTable).toBeNull();
+    expect(config.apiKeyRevocationInterval).toBe(0);
     expect(config.exposeDbErrors).toBe(false);
+    expect(config.schemaReloadInterval).toBe(0);
+    expect(config.schemaReloadChannel).toBeNull();
   });
 
   it("reads DATABASE_URL and strips jdbc: prefix", async () => {
@@ -119,7 +158,30 @@ describe("config object initialization", () => {
   it("reads API_SECRET from env", async () => {
     process.env.API_SECRET = "my-secret";
     const { config } = await import("../../src/config.js");
-    expect(config.apiSecret).toBe("my-secret");
+    expect(config.apiSecrets).toEqual([{ secret: "my-secret" }]);
+  });
+
+  it("reads the JWT settings from env", async () => {
+    process.env.JWT_SECRET = "jwt-secret";
+    process.env.JWT_PUBLIC_KEY_FILE = " /etc/pgcrud/sso.pem ";
+    process.env.JWT_JWKS_FILE = "/etc/pgcrud/jwks.json";
+    process.env.JWT_AUDIENCE = "pgcrud";
+    process.env.JWT_ISSUER = "https://sso.example.com";
+    process.env.JWT_PERMISSIONS_CLAIM = "https://example.com/permissions";
+    const { config } = await import("../../src/config.js");
+    expect(config.jwtSecret).toBe("jwt-secret");
+    expect(config.jwtPublicKeyFile).toBe("/etc/pgcrud/sso.pem");
+    expect(config.jwtJwksFile).toBe("/etc/pgcrud/jwks.json");
+    expect(config.jwtAudience).toBe("pgcrud");
+    expect(config.jwtIssuer).toBe("https://sso.example.com");
+    expect(config.jwtPermissionsClaim).toBe("https://example.com/permissions");
+  });
+
+  it("prefers API_SECRETS over API_SECRET", async () => {
+    process.env.API_SECRET = "my-secret";
+    process.env.API_SECRETS = "k2:new-secret,k1:my-secret";
+    const { config } = await import("../../src/config.js");
+    expect(config.apiSecrets).toEqual([{ id: "k2", secret: "new-secret" }, { id: "k1", secret: "my-secret" }]);
   });
 
   it("disables API keys when API_KEYS_ENABLED=false", async () => {
@@ -128,6 +190,24 @@ describe("config object initialization", () => {
     expect(config.apiKeysEnabled).toBe(false);
   });
 
+  it("reads API_KEY_ROLES and DB_SESSION_CLAIMS from env", async () => {
+    process.env.API_KEY_ROLES = "reporting:analyst,*:api_user";
+    process.env.DB_SESSION_CLAIMS = "true";
+    const { config } = await import("../../src/config.js");
+    expect(config.keyRoles).toEqual({ reporting: "analyst", "*": "api_user" });
+    expect(config.dbSessionClaims).toBe(true);
+  });
+
+  it("reads the API key revocation settings from env", async () => {
+    process.env.API_KEY_REVOCATION_FILE = " /etc/pgcrud/revoked.txt ";
+    process.env.API_KEY_REVOCATION_TABLE = "auth.revoked_keys";
+    process.env.API_KEY_REVOCATION_INTERVAL = "60";
+    const { config } = await import("../../src/config.js");
+    expect(config.apiKeyRevocationFile).toBe("/etc/pgcrud/revoked.txt");
+    expect(config.apiKeyRevocationTable).toBe("auth.revoked_keys");
+    expect(config.apiKeyRevocationInterval).toBe(60);
+  });
+
   it("enables exposeDbErrors when EXPOSE_DB_ERRORS=true", async () => {
     process.env.EXPOSE_DB_ERRORS = "true";
     const { config } = await import("../../src/config.js");
@@ -140,6 +220,30 @@ describe("config object initialization", () => {
     expect(config.schemas).toEqual(["public", "reporting"]);
   });
 
+  it("reads COUNT_STRATEGY and TABLE_COUNT_STRATEGIES from env", async () => {
+    process.env.COUNT_STRATEGY = "estimated";
+    process.env.TABLE_COUNT_STRATEGIES = "public.events:none";
+    const { config } = await import("../../src/config.js");
+    expect(config.countStrategy).toBe("estimated");
+    expect(config.tableCountStrategies).toEqual({ "public.events": "none" });
+  });
+
+  it("reads CACHE_CONTROL and TABLE_CACHE_CONTROL from env", async () => {
+    process.env.CACHE_CONTROL = "";
+    process.env.TABLE_CACHE_CONTROL = "public.countries:max-age=3600";
+    const { config } = await import("../../src/config.js");
+    expect(config.cacheControl).toBe("");
+    expect(config.tableCacheControl).toEqual({ "public.countries": "max-age=3600" });
+  });
+
+  it("reads SCHEMA_RELOAD_INTERVAL and SCHEMA_RELOAD_CHANNEL from env", async () => {
+    process.env.SCHEMA_RELOAD_INTERVAL = "30";
+    process.env.SCHEMA_RELOAD_CHANNEL = " pgcrud_reload ";
+    const { config } = await import("../../src/config.js");
+    expect(config.schemaReloadInterval).toBe(30);
+    expect(config.schemaReloadChannel).toBe("pgcrud_reload");
+  });
+
   it("parses CORS_ORIGINS from env", async () => {
     process.env.CORS_ORIGINS = "https://example.com";
     const { config } = await import("../../src/config.js");
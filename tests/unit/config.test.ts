@@ -1,5 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { parseList, parseIntOrDefault, parseCorsOrigins, parseDatabaseUrl } from "../../src/config.js";
+import {
+  parseList,
+  parseIntOrDefault,
+  parseCorsOrigins,
+  parseDatabaseUrl,
+  parseCountStrategy,
+  parseTableCountStrategies,
+  parseTableCacheControl,
+  parseKeyRoles,
+  parseApiSecrets,
+} from "../../src/config.js";
 
 describe("parseList", () => {
   it("returns empty array for undefined", () => {
@@ -120,3 +130,99 @@ describe("parseDatabaseUrl", () => {
     expect(parseDatabaseUrl("jdbc:postgresql://read:5432/mydb")).toBe("postgresql://read:5432/mydb");
   });
 });
+
+describe("parseCountStrategy", () => {
+  it("returns fallback for undefined", () => {
+    expect(parseCountStrategy(undefined, "exact")).toBe("exact");
+  });
+
+  it("accepts known strategies case-insensitively", () => {
+    expect(parseCountStrategy("estimated", "exact")).toBe("estimated");
+    expect(parseCountStrategy(" NONE ", "exact")).toBe("none");
+  });
+
+  it("returns fallback for unknown values", () => {
+    expect(parseCountStrategy("approximate", "exact")).toBe("exact");
+  });
+});
+
+describe("parseTableCountStrategies", () => {
+  it("returns empty object for undefined", () => {
+    expect(parseTableCountStrategies(undefined)).toEqual({});
+  });
+
+  it("parses schema.table:strategy pairs", () => {
+    expect(parseTableCountStrategies("public.events:estimated, logs.raw:NONE")).toEqual({
+      "public.events": "estimated",
+      "logs.raw": "none",
+    });
+  });
+
+  it("ignores entries without a table or with an unknown strategy", () => {
+    expect(parseTableCountStrategies("public.events,:none,public.logs:fast,public.ok:exact")).toEqual({
+      "public.ok": "exact",
+    });
+  });
+});
+
+describe("parseTableCacheControl", () => {
+  it("returns empty object for undefined", () => {
+    expect(parseTableCacheControl(undefined)).toEqual({});
+  });
+
+  it("parses semicolon-separated schema.table:directives pairs", () => {
+    expect(parseTableCacheControl("public.countries: max-age=3600, public ; public.events:no-store")).toEqual({
+      "public.countries": "max-age=3600, public",
+      "public.events": "no-store",
+    });
+  });
+
+  it("ignores entries without a table", () => {
+    expect(parseTableCacheControl("public.events;:no-store; :max-age=60;;")).toEqual({});
+  });
+});
+
+describe("parseApiSecrets", () => {
+  it("returns no secrets when neither variable is set", () => {
+    expect(parseApiSecrets(undefined)).toEqual([]);
+    expect(parseApiSecrets(" ", "")).toEqual([]);
+  });
+
+  it("falls back to a single secret without an id", () => {
+    expect(parseApiSecrets(undefined, "my:secret")).toEqual([{ secret: "my:secret" }]);
+  });
+
+  it("parses secrets and id:secret entries in order", () => {
+    expect(parseApiSecrets("k2:new-secret, old-secret,k0:a:b", "ignored")).toEqual([
+      { id: "k2", secret: "new-secret" },
+      { secret: "old-secret" },
+      { id: "k0", secret: "a:b" },
+    ]);
+  });
+
+  it("treats entries without a valid id as plain secrets", () => {
+    expect(parseApiSecrets("k.2:secret,:secret,k2:")).toEqual([
+      { secret: "k.2:secret" },
+      { secret: ":secret" },
+      { secret: "k2:" },
+    ]);
+  });
+});
+
+describe("parseKeyRoles", () => {
+  it("returns empty object for undefined", () => {
+    expect(parseKeyRoles(undefined)).toEqual({});
+  });
+
+  it("parses label:role pairs", () => {
+    expect(parseKeyRoles("reporting : analyst, *:api_user")).toEqual({ reporting: "analyst", "*": "api_user" });
+  });
+
+  it("ignores entries without a label or role", () => {
+    expect(parseKeyRoles("reporting,:analyst,svc:")).toEqual({});
+  });
+
+  it("takes the role after the last colon, for JWT labels", () => {
+    expect(parseKeyRoles("jwt:alice:auditor")).toEqual({ "jwt:alice": "auditor" });
+  });
+});
@@ -9,8 +9,31 @@ vi.mock("../../src/config.js", () => ({
   },
 }));
 
-import { buildPkParams, buildJsonSchemaForTable, findTable, parseCommaSeparated } from "../../src/routes/crud.js";
-import { makeUsersTable, makeCompositePkTable, makeNoPkTable, makeDatabaseSchema, makeNonPublicSchemaTable } from "../fixtures/tables.js";
+import {
+  buildPkParams,
+  buildJsonSchemaForTable,
+  buildExpandedRowSchema,
+  omitSchemaColumns,
+  parseUpsertOptions,
+  parseIfMatch,
+  weakETag,
+  lastModifiedOf,
+  isNotModified,
+  findTable,
+  parseCommaSeparated,
+  extractFilterGroups,
+} from "../../src/routes/crud.js";
+import { listRelations } from "../../src/db/query-builder.js";
+import {
+  makeUsersTable,
+  makeGeneratedColumnsTable,
+  makeCompositePkTable,
+  makeNoPkTable,
+  makeDatabaseSchema,
+  makeNonPublicSchemaTable,
+  makeTableWithForeignKeys,
+  makeSoftDeleteTable,
+} from "../fixtures/tables.js";
 
 const users = makeUsersTable();
 const compositePk = makeCompositePkTable();
@@ -55,6 +78,16 @@ describe("buildJsonSchemaForTable", () => {
     expect(schema.additionalProperties).toBeUndefined();
   });
 
+  it("describes columns with their comments", () => {
+    const documented = {
+      ...users,
+      columns: users.columns.map((c) => (c.name === "email" ? { ...c, description: "Login and contact address" } : c)),
+    };
+    const schema = buildJsonSchemaForTable(documented, "insert") as any;
+    expect(schema.properties.email).toEqual({ type: "string", maxLength: 255, description: "Login and contact address" });
+    expect(schema.properties.name.description).toBeUndefined();
+  });
+
   it("insert mode skips PK columns with defaults", () => {
     const schema = buildJsonSchemaForTable(users, "insert") as any;
     // id has default (serial) and is PK, so it should be skipped
@@ -98,6 +131,19 @@ describe("buildJsonSchemaForTable", () => {
     expect(schema.properties.id).toBeUndefined();
   });
 
+  it("leaves identity ALWAYS and generated columns out of write schemas", () => {
+    const invoices = makeGeneratedColumnsTable();
+
+    expect(Object.keys((buildJsonSchemaForTable(invoices, "insert") as any).properties)).toEqual(["number", "subtotal"]);
+    expect(Object.keys((buildJsonSchemaForTable(invoices, "update") as any).properties)).toEqual(["number", "subtotal"]);
+    expect((buildJsonSchemaForTable(invoices, "put") as any).required).toEqual(["number", "subtotal"]);
+
+    const row = buildJsonSchemaForTable(invoices, "row") as any;
+    expect(row.properties.id.readOnly).toBe(true);
+    expect(row.properties.total.readOnly).toBe(true);
+    expect(row.properties.number.readOnly).toBeUndefined();
+  });
+
   it("put mode requires all non-PK columns", () => {
     const schema = buildJsonSchemaForTable(users, "put") as any;
     expect(schema.required).toContain("name");
@@ -153,3 +199,178 @@ describe("parseCommaSeparated", () => {
     expect(parseCommaSeparated(["id", " ", "name", ""])).toEqual(["id", "name"]);
   });
 });
+
+// ── extractFilterGroups ─────────────────────────────────────────────
+
+describe("extractFilterGroups", () => {
+  it("returns undefined when no group params are present", () => {
+    expect(extractFilterGroups({ "filter.name": "eq:x", page: "1" })).toBeUndefined();
+  });
+
+  it("builds expressions from or/and/not.or/not.and params", () => {
+    expect(extractFilterGroups({
+      or: "(a.eq.1,b.eq.2)",
+      and: " (c.gt.3) ",
+      "not.or": "(d.eq.4)",
+      "not.and": "(e.eq.5)",
+    })).toEqual([
+      "or(a.eq.1,b.eq.2)",
+      "and(c.gt.3)",
+      "not.or(d.eq.4)",
+      "not.and(e.eq.5)",
+    ]);
+  });
+
+  it("throws when a group is not wrapped in parentheses", () => {
+    expect(() => extractFilterGroups({ or: "a.eq.1,b.eq.2" })).toThrow("must be wrapped in parentheses");
+  });
+
+  it("produces one expression per repeated param", () => {
+    expect(extractFilterGroups({ or: ["(a.eq.1,b.eq.2)", "(c.eq.3,d.eq.4)"] })).toEqual([
+      "or(a.eq.1,b.eq.2)",
+      "or(c.eq.3,d.eq.4)",
+    ]);
+  });
+});
+
+// ── buildExpandedRowSchema ──────────────────────────────────────────
+
+describe("buildExpandedRowSchema", () => {
+  const users = makeUsersTable();
+  const orders = makeTableWithForeignKeys();
+  const { tables } = makeDatabaseSchema([users, orders]);
+
+  it("adds a nullable object for forward relations", () => {
+    const schema = buildExpandedRowSchema(orders, listRelations(orders, tables)) as any;
+    expect(schema.properties.user).toEqual({ ...buildJsonSchemaForTable(users, "row"), nullable: true });
+    expect(schema.properties.total).toBeDefined();
+  });
+
+  it("adds an array for reverse relations", () => {
+    const schema = buildExpandedRowSchema(users, listRelations(users, tables)) as any;
+    expect(schema.properties.orders).toEqual({ type: "array", items: buildJsonSchemaForTable(orders, "row") });
+  });
+});
+
+// ── omitSchemaColumns ───────────────────────────────────────────────
+
+describe("omitSchemaColumns", () => {
+  it("removes properties and their required entries", () => {
+    const schema = omitSchemaColumns(buildJsonSchemaForTable(makeTableWithForeignKeys(), "insert"), ["user_id"]) as any;
+    expect(Object.keys(schema.properties)).toEqual(["total", "status"]);
+    expect(schema.required).toEqual(["total"]);
+    expect(schema.additionalProperties).toBe(false);
+  });
+
+  it("drops required when no required columns remain", () => {
+    const schema = omitSchemaColumns(buildJsonSchemaForTable(makeCompositePkTable(), "insert"), ["user_id", "role_id"]);
+    expect(schema.required).toBeUndefined();
+    expect(Object.keys(schema.properties as object)).toEqual(["granted_at"]);
+  });
+});
+
+// ── parseUpsertOptions ──────────────────────────────────────────────
+
+describe("parseUpsertOptions", () => {
+  const users = makeUsersTable();
+
+  it("returns undefined for a plain insert", () => {
+    expect(parseUpsertOptions(users, {}, {})).toBeUndefined();
+    expect(parseUpsertOptions(users, { prefer: "return=representation" }, {})).toBeUndefined();
+  });
+
+  it("merges on the primary key with Prefer: resolution=merge-duplicates", () => {
+    expect(parseUpsertOptions(users, { prefer: "return=representation, resolution=merge-duplicates" }, {})).toEqual({
+      conflictColumns: ["id"],
+      action: "update",
+    });
+  });
+
+  it("ignores duplicates with resolution=ignore-duplicates", () => {
+    expect(parseUpsertOptions(users, { prefer: "resolution=ignore-duplicates" }, { onConflict: "email" })).toEqual({
+      conflictColumns: ["email"],
+      action: "ignore",
+    });
+  });
+
+  it("merges when only onConflict is given", () => {
+    expect(parseUpsertOptions(users, {}, { onConflict: "email" })).toEqual({ conflictColumns: ["email"], action: "update" });
+  });
+
+  it("throws for an invalid conflict target", () => {
+    expect(() => parseUpsertOptions(users, {}, { onConflict: "name" })).toThrow("must match the primary key");
+  });
+});
+
+// ── parseIfMatch ────────────────────────────────────────────────────
+
+describe("parseIfMatch", () => {
+  it("returns undefined when absent or a wildcard", () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch(" * ")).toBeUndefined();
+  });
+
+  it("unquotes one or more strong ETags", () => {
+    expect(parseIfMatch('"123"')).toEqual(["123"]);
+    expect(parseIfMatch('"123", "456"')).toEqual(["123", "456"]);
+  });
+
+  it("drops weak and malformed tags so they never match", () => {
+    expect(parseIfMatch('W/"123", 456, "')).toEqual([]);
+  });
+});
+
+// ── Conditional GET helpers ─────────────────────────────────────────
+
+describe("weakETag", () => {
+  it("is stable for equal payloads and differs otherwise", () => {
+    const tag = weakETag({ data: [{ id: 1 }] });
+    expect(tag).toMatch(/^W\/"[\w-]+"$/);
+    expect(weakETag({ data: [{ id: 1 }] })).toBe(tag);
+    expect(weakETag({ data: [{ id: 2 }] })).not.toBe(tag);
+  });
+});
+
+describe("lastModifiedOf", () => {
+  const posts = makeSoftDeleteTable();
+
+  it("returns the latest updated_at among the rows", () => {
+    const rows = [
+      { id: 1, updated_at: "2024-01-01T00:00:00Z" },
+      { id: 2, updated_at: new Date("2024-03-01T00:00:00Z") },
+      { id: 3, updated_at: null },
+      { id: 4, updated_at: "not a date" },
+    ];
+    expect(lastModifiedOf(posts, rows)).toEqual(new Date("2024-03-01T00:00:00Z"));
+  });
+
+  it("returns undefined without an updated_at column or timestamps", () => {
+    expect(lastModifiedOf(users, [{ id: 1, updated_at: "2024-01-01T00:00:00Z" }])).toBeUndefined();
+    expect(lastModifiedOf(posts, [])).toBeUndefined();
+    expect(lastModifiedOf(posts, [{ id: 1, updated_at: null }])).toBeUndefined();
+  });
+});
+
+describe("isNotModified", () => {
+  const modified = new Date("2024-03-01T12:00:00.750Z");
+
+  it("matches If-None-Match with weak comparison, lists and wildcards", () => {
+    expect(isNotModified({ "if-none-match": '"abc"' }, 'W/"abc"')).toBe(true);
+    expect(isNotModified({ "if-none-match": 'W/"x", W/"abc"' }, 'W/"abc"')).toBe(true);
+    expect(isNotModified({ "if-none-match": "*" }, '"abc"')).toBe(true);
+    expect(isNotModified({ "if-none-match": 'W/"x"' }, 'W/"abc"')).toBe(false);
+  });
+
+  it("ignores If-Modified-Since when If-None-Match is present", () => {
+    const headers = { "if-none-match": '"stale"', "if-modified-since": modified.toUTCString() };
+    expect(isNotModified(headers, '"abc"', modified)).toBe(false);
+  });
+
+  it("compares If-Modified-Since at one-second resolution", () => {
+    expect(isNotModified({ "if-modified-since": "Fri, 01 Mar 2024 12:00:00 GMT" }, '"abc"', modified)).toBe(true);
+    expect(isNotModified({ "if-modified-since": "Fri, 01 Mar 2024 11:59:59 GMT" }, '"abc"', modified)).toBe(false);
+    expect(isNotModified({ "if-modified-since": "yesterday" }, '"abc"', modified)).toBe(false);
+    expect(isNotModified({ "if-modified-since": modified.toUTCString() }, '"abc"')).toBe(false);
+    expect(isNotModified({}, '"abc"', modified)).toBe(false);
+  });
+});
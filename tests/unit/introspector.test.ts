@@ -10,8 +10,9 @@ vi.mock("../../src/config.js", () => ({
 }));
 
 import { introspectDatabase, computeDatabaseHash } from "../../src/db/introspector.js";
+import type { ColumnInfo } from "../../src/db/introspector.js";
 import { config } from "../../src/config.js";
-import { makeDatabaseSchema, makeUsersTable, makeCompositePkTable, makeTableWithForeignKeys, makeNonPublicSchemaTable, makeColumn } from "../fixtures/tables.js";
+import { makeDatabaseSchema, makeUsersTable, makeCompositePkTable, makeTableWithForeignKeys, makeNonPublicSchemaTable, makeColumn, makeVolatileFunction, makeSetReturningFunction } from "../fixtures/tables.js";
 
 // ─── Mock Pool Helpers ──────────────────────────────────────────────
 
@@ -20,19 +21,34 @@ function makeMockPool(responses: {
   columns?: Record<string, unknown>[];
   primaryKeys?: Record<string, unknown>[];
   foreignKeys?: Record<string, unknown>[];
+  uniqueConstraints?: Record<string, unknown>[];
+  functions?: Record<string, unknown>[];
+  enums?: Record<string, unknown>[];
+  checkConstraints?: Record<string, unknown>[];
+  indexes?: Record<string, unknown>[];
 }) {
   const schemasRows = responses.schemas ?? [{ schema_name: "public" }];
   const columnsRows = responses.columns ?? [];
   const pkRows = responses.primaryKeys ?? [];
   const fkRows = responses.foreignKeys ?? [];
+  const uniqueRows = responses.uniqueConstraints ?? [];
+  const fnRows = responses.functions ?? [];
+  const enumRows = responses.enums ?? [];
+  const checkRows = responses.checkConstraints ?? [];
+  const indexRows = responses.indexes ?? [];
 
   const query = vi.fn()
     // 1st call: SCHEMAS_QUERY
     .mockResolvedValueOnce({ rows: schemasRows, rowCount: schemasRows.length })
-    // 2nd–4th calls: COLUMNS, PKs, FKs (via Promise.all)
+    // 2nd–9th calls: COLUMNS, PKs, FKs, UNIQUE constraints, FUNCTIONS, ENUMS, CHECK constraints, INDEXES (via Promise.all)
     .mockResolvedValueOnce({ rows: columnsRows, rowCount: columnsRows.length })
     .mockResolvedValueOnce({ rows: pkRows, rowCount: pkRows.length })
-    .mockResolvedValueOnce({ rows: fkRows, rowCount: fkRows.length });
+    .mockResolvedValueOnce({ rows: fkRows, rowCount: fkRows.length })
+    .mockResolvedValueOnce({ rows: uniqueRows, rowCount: uniqueRows.length })
+    .mockResolvedValueOnce({ rows: fnRows, rowCount: fnRows.length })
+    .mockResolvedValueOnce({ rows: enumRows, rowCount: enumRows.length })
+    .mockResolvedValueOnce({ rows: checkRows, rowCount: checkRows.length })
+    .mockResolvedValueOnce({ rows: indexRows, rowCount: indexRows.length });
 
   return { query } as any;
 }
@@ -43,11 +59,14 @@ function colRow(schema: string, table: string, column: string, overrides: Record
     table_name: table,
     column_name: column,
     data_type: "character varying",
+    udt_schema: "pg_catalog",
     udt_name: "varchar",
     is_nullable: "NO",
     column_default: null,
     character_maximum_length: null,
     ordinal_position: 1,
+    table_type: "BASE TABLE",
+    is_insertable_into: "YES",
     ...overrides,
   };
 }
@@ -61,6 +80,29 @@ function pkRow(schema: string, table: string, column: string) {
   };
 }
 
+function uniqueRow(schema: string, table: string, constraint: string, column: string, ordinal = 1) {
+  return {
+    table_schema: schema,
+    table_name: table,
+    constraint_name: constraint,
+    column_name: column,
+    ordinal_position: ordinal,
+  };
+}
+
+function indexRow(schema: string, table: string, name: string, columns: string[], overrides: Record<string, unknown> = {}) {
+  return {
+    table_schema: schema,
+    table_name: table,
+    index_name: name,
+    method: "btree",
+    is_unique: false,
+    predicate: null,
+    columns,
+    ...overrides,
+  };
+}
+
 function fkRow(schema: string, table: string, column: string, ref: { schema: string; table: string; column: string; constraint?: string }) {
   return {
     table_schema: schema,
@@ -73,6 +115,24 @@ function fkRow(schema: string, table: string, column: string, ref: { schema: str
   };
 }
 
+function fnRow(schema: string, name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    function_schema: schema,
+    function_name: name,
+    volatility: "v",
+    returns_set: false,
+    return_type: "int4",
+    returns_pseudo: false,
+    returns_row: false,
+    default_count: 0,
+    arg_names: [],
+    arg_types: [],
+    arg_udt_names: [],
+    has_pseudo_arg: false,
+    ...overrides,
+  };
+}
+
 // ─── Tests ──────────────────────────────────────────────────────────
 
 describe("introspectDatabase", () => {
@@ -173,6 +233,212 @@ describe("introspectDatabase", () => {
     expect(result.tables.has('"public"."orders"')).toBe(true);
   });
 
+  // ── Views, materialized views and foreign tables ──
+
+  it("records each relation's kind and writability", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "users", "id"),
+        colRow("public", "active_users", "id", { table_type: "VIEW", is_insertable_into: "YES" }),
+        colRow("public", "user_summary", "id", { table_type: "VIEW", is_insertable_into: "NO" }),
+        colRow("public", "order_totals", "user_id", { table_type: "MATERIALIZED VIEW", is_insertable_into: "NO" }),
+        colRow("public", "remote_events", "id", { table_type: "FOREIGN", is_insertable_into: "YES" }),
+      ],
+      primaryKeys: [pkRow("public", "users", "id")],
+    });
+
+    const result = await introspectDatabase(pool);
+    const kinds = Array.from(result.tables.values()).map((t) => [t.name, t.kind, t.writable]);
+    expect(kinds).toEqual([
+      ["users", "table", true],
+      ["active_users", "view", true],
+      ["user_summary", "view", false],
+      ["order_totals", "materialized_view", false],
+      ["remote_events", "foreign_table", true],
+    ]);
+  });
+
+  it("reads which writes a view supports, including through INSTEAD OF triggers", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "user_inbox", "id", {
+          table_type: "VIEW",
+          is_insertable_into: "NO",
+          is_updatable: "NO",
+          is_trigger_insertable_into: "YES",
+          is_trigger_updatable: "NO",
+          is_trigger_deletable: "YES",
+        }),
+        colRow("public", "user_names", "id", { table_type: "VIEW", is_insertable_into: "NO", is_updatable: "YES" }),
+        colRow("public", "user_log", "id", { table_type: "VIEW", is_insertable_into: "NO", is_trigger_updatable: "YES" }),
+        colRow("public", "active_users", "id", { table_type: "VIEW", is_insertable_into: "YES", is_updatable: "YES" }),
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+    const writes = Array.from(result.tables.values()).map((t) => [t.name, t.writable, t.writeOperations]);
+    expect(writes).toEqual([
+      ["user_inbox", true, ["insert", "delete"]],
+      ["user_names", true, ["update", "delete"]],
+      ["user_log", true, ["update"]],
+      ["active_users", true, undefined],
+    ]);
+    expect(pool.query.mock.calls[1][0] as string).toContain("LEFT JOIN information_schema.views v");
+  });
+
+  it("includes materialized views from pg_catalog in the columns query", async () => {
+    const pool = makeMockPool({});
+    await introspectDatabase(pool);
+
+    const sql = pool.query.mock.calls[1][0] as string;
+    expect(sql).toContain("t.table_type IN ('BASE TABLE', 'VIEW', 'FOREIGN')");
+    expect(sql).toContain("cls.relkind = 'm'");
+  });
+
+  it("does not warn about views without primary keys", async () => {
+    const warnSpy = vi.spyOn(console, "warn");
+    const pool = makeMockPool({
+      columns: [colRow("public", "user_summary", "id", { table_type: "VIEW", is_insertable_into: "NO" })],
+    });
+
+    await introspectDatabase(pool);
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+
+  // ── Identity and generated columns ──
+
+  it("records identity and generated columns and treats them as having defaults", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "invoices", "id", { is_identity: "YES", identity_generation: "ALWAYS" }),
+        colRow("public", "invoices", "number", { is_identity: "YES", identity_generation: "BY DEFAULT", ordinal_position: 2 }),
+        colRow("public", "invoices", "total", { is_identity: "NO", is_generated: "ALWAYS", ordinal_position: 3 }),
+        colRow("public", "invoices", "note", { is_identity: "NO", is_generated: "NEVER", ordinal_position: 4 }),
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+    const [id, number, total, note] = result.tables.get('"public"."invoices"')!.columns;
+
+    expect([id.identity, id.hasDefault]).toEqual(["always", true]);
+    expect([number.identity, number.hasDefault]).toEqual(["by_default", true]);
+    expect([total.isGenerated, total.hasDefault]).toEqual([true, true]);
+    expect(note).not.toHaveProperty("identity");
+    expect(note).not.toHaveProperty("isGenerated");
+    expect(note.hasDefault).toBe(false);
+  });
+
+  // ── Enums and CHECK constraints ──
+
+  it("attaches enum labels to columns of enum types, matching the type's schema", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "tickets", "status", { data_type: "USER-DEFINED", udt_schema: "public", udt_name: "ticket_status" }),
+        colRow("public", "tickets", "priority", { data_type: "USER-DEFINED", udt_schema: "other", udt_name: "ticket_status", ordinal_position: 2 }),
+      ],
+      enums: [{ enum_schema: "public", enum_name: "ticket_status", labels: ["open", "closed"] }],
+    });
+
+    const result = await introspectDatabase(pool);
+    const [status, priority] = result.tables.get('"public"."tickets"')!.columns;
+
+    expect(status.enumValues).toEqual(["open", "closed"]);
+    expect(priority).not.toHaveProperty("enumValues");
+    expect(pool.query.mock.calls[6]).toHaveLength(1);
+  });
+
+  it("merges table and domain CHECK constraints into column checks", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "products", "price", { data_type: "numeric", udt_name: "numeric" }),
+        colRow("public", "products", "sku", { ordinal_position: 2 }),
+      ],
+      checkConstraints: [
+        { table_schema: "public", table_name: "products", column_name: "price", definition: "CHECK ((price >= (0)::numeric))" },
+        { table_schema: "public", table_name: "products", column_name: "price", definition: "CHECK ((VALUE <= (10000)::numeric))" },
+        { table_schema: "public", table_name: "products", column_name: "sku", definition: "CHECK ((lower((sku)::text) = (sku)::text))" },
+        { table_schema: "public", table_name: "products", column_name: "missing", definition: "CHECK ((missing > 0))" },
+        { table_schema: "public", table_name: "excluded", column_name: "id", definition: "CHECK ((id > 0))" },
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+    const [price, sku] = result.tables.get('"public"."products"')!.columns;
+
+    expect(price.checks).toEqual({ minimum: 0, maximum: 10000 });
+    expect(sku).not.toHaveProperty("checks");
+  });
+
+  // ── Functions ──
+
+  it("discovers functions with their arguments, defaults and volatility", async () => {
+    const pool = makeMockPool({
+      schemas: [{ schema_name: "public" }, { schema_name: "billing" }],
+      functions: [
+        fnRow("billing", "create_invoice", {
+          returns_row: true,
+          return_type: "invoices",
+          default_count: 1,
+          arg_names: ["customer_id", "due"],
+          arg_types: ["integer", "date"],
+          arg_udt_names: ["int4", "date"],
+        }),
+        fnRow("public", "active_ids", { volatility: "s", returns_set: true }),
+        fnRow("public", "slugify", { volatility: "i", return_type: "text", arg_names: ["input"], arg_types: ["text"], arg_udt_names: ["text"] }),
+        fnRow("public", "touch", { return_type: "void", returns_pseudo: true }),
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+
+    expect(Array.from(result.functions.keys())).toEqual([
+      '"billing"."create_invoice"',
+      '"public"."active_ids"',
+      '"public"."slugify"',
+      '"public"."touch"',
+    ]);
+    expect(result.functions.get('"billing"."create_invoice"')).toEqual({
+      schema: "billing",
+      name: "create_invoice",
+      args: [
+        { name: "customer_id", dataType: "integer", udtName: "int4", hasDefault: false },
+        { name: "due", dataType: "date", udtName: "date", hasDefault: true },
+      ],
+      returnType: "invoices",
+      returnsRow: true,
+      returnsSet: false,
+      volatility: "volatile",
+      fqn: '"billing"."create_invoice"',
+      routePath: "billing__create_invoice",
+    });
+    expect(result.functions.get('"public"."active_ids"')!.volatility).toBe("stable");
+    expect(result.functions.get('"public"."slugify"')!.volatility).toBe("immutable");
+    expect(pool.query.mock.calls[5][1]).toEqual([["public", "billing"]]);
+  });
+
+  it("skips overloaded, polymorphic, unnamed-argument and pseudo-type-returning functions", async () => {
+    const warnSpy = vi.spyOn(console, "warn");
+    const pool = makeMockPool({
+      functions: [
+        fnRow("public", "area", { arg_names: ["r"], arg_types: ["numeric"], arg_udt_names: ["numeric"] }),
+        fnRow("public", "area", { arg_names: ["w", "h"], arg_types: ["numeric", "numeric"], arg_udt_names: ["numeric", "numeric"] }),
+        fnRow("public", "first_of", { has_pseudo_arg: true, arg_names: ["items"] }),
+        fnRow("public", "add", { arg_names: ["", ""], arg_types: ["integer", "integer"], arg_udt_names: ["int4", "int4"] }),
+        fnRow("public", "anything", { return_type: "record", returns_pseudo: true }),
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+
+    expect(result.functions.size).toBe(0);
+    expect(warnSpy.mock.calls.map((c) => c[0])).toEqual([
+      '⚠️  Function "public"."area" is overloaded — not exposed',
+      '⚠️  Function "public"."first_of" not exposed: it has polymorphic or pseudo-type arguments',
+      '⚠️  Function "public"."add" not exposed: it has unnamed arguments',
+      '⚠️  Function "public"."anything" not exposed: it returns record',
+    ]);
+  });
+
   // ── Composite PK ──
 
   it("discovers composite primary keys", async () => {
@@ -387,6 +653,89 @@ describe("introspectDatabase", () => {
     );
   });
 
+  // ── Unique constraints ──
+
+  it("groups unique constraint columns by constraint", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "users", "email"),
+        colRow("public", "users", "org_id"),
+        colRow("public", "users", "handle"),
+      ],
+      uniqueConstraints: [
+        uniqueRow("public", "users", "users_email_key", "email"),
+        uniqueRow("public", "users", "users_org_handle_key", "org_id", 1),
+        uniqueRow("public", "users", "users_org_handle_key", "handle", 2),
+        uniqueRow("public", "secrets", "secrets_token_key", "token"), // table not introspected
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+    expect(result.tables.get('"public"."users"')!.uniqueConstraints).toEqual([
+      { name: "users_email_key", columns: ["email"] },
+      { name: "users_org_handle_key", columns: ["org_id", "handle"] },
+    ]);
+  });
+
+  // ── Comments ──
+
+  it("reads table and column comments", async () => {
+    const pool = makeMockPool({
+      columns: [
+        colRow("public", "users", "id", { table_comment: "People who can sign in", column_comment: null }),
+        colRow("public", "users", "email", { table_comment: "People who can sign in", column_comment: "Login address" }),
+        colRow("public", "tags", "label", { table_comment: null, column_comment: null }),
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+    const users = result.tables.get('"public"."users"')!;
+    expect(users.description).toBe("People who can sign in");
+    expect(users.columns[0]).not.toHaveProperty("description");
+    expect(users.columns[1].description).toBe("Login address");
+    expect(result.tables.get('"public"."tags"')!).not.toHaveProperty("description");
+    expect(pool.query.mock.calls[1][0]).toContain("col_description(cls.oid, c.ordinal_position::int)");
+  });
+
+  // ── Indexes ──
+
+  it("attaches indexes with their columns, method and predicate", async () => {
+    const pool = makeMockPool({
+      columns: [colRow("public", "users", "email"), colRow("public", "users", "created_at")],
+      indexes: [
+        indexRow("public", "users", "users_created_at_idx", ["created_at"]),
+        indexRow("public", "users", "users_lower_email_key", ["lower((email)::text)"], {
+          is_unique: true,
+          predicate: "(deleted_at IS NULL)",
+        }),
+        indexRow("public", "users", "users_tags_gin", ["tags"], { method: "gin" }),
+        indexRow("public", "secrets", "secrets_token_idx", ["token"]), // table not introspected
+      ],
+    });
+
+    const result = await introspectDatabase(pool);
+    expect(result.tables.get('"public"."users"')!.indexes).toEqual([
+      { name: "users_created_at_idx", columns: ["created_at"], method: "btree", unique: false, predicate: null },
+      {
+        name: "users_lower_email_key",
+        columns: ["lower((email)::text)"],
+        method: "btree",
+        unique: true,
+        predicate: "(deleted_at IS NULL)",
+      },
+      { name: "users_tags_gin", columns: ["tags"], method: "gin", unique: false, predicate: null },
+    ]);
+  });
+
+  it("leaves out indexes that back constraints", async () => {
+    const pool = makeMockPool({ columns: [colRow("public", "users", "id")] });
+
+    await introspectDatabase(pool);
+    const indexQuery = pool.query.mock.calls[8][0] as string;
+    expect(indexQuery).toContain("pg_catalog.pg_index");
+    expect(indexQuery).toContain("con.contype IN ('p', 'u', 'x')");
+  });
+
   // ── PK/FK rows referencing excluded tables are ignored ──
 
   it("ignores PK rows for tables not in the map", async () => {
@@ -433,17 +782,27 @@ describe("introspectDatabase", () => {
       .mockResolvedValueOnce({ rows: [{ schema_name: "public" }, { schema_name: "reporting" }], rowCount: 2 })
       .mockResolvedValueOnce({ rows: [], rowCount: 0 })
       .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+      .mockResolvedValueOnce({ rows: [], rowCount: 0 })
       .mockResolvedValueOnce({ rows: [], rowCount: 0 });
 
     await introspectDatabase(pool);
 
-    // Calls 2–4 should receive the target schemas array
+    // Calls 2–6, 8 and 9 should receive the target schemas array
     const call2 = pool.query.mock.calls[1];
     const call3 = pool.query.mock.calls[2];
     const call4 = pool.query.mock.calls[3];
+    const call5 = pool.query.mock.calls[4];
     expect(call2[1]).toEqual([["public", "reporting"]]);
     expect(call3[1]).toEqual([["public", "reporting"]]);
     expect(call4[1]).toEqual([["public", "reporting"]]);
+    expect(call5[1]).toEqual([["public", "reporting"]]);
+    expect(pool.query.mock.calls[5][1]).toEqual([["public", "reporting"]]);
+    expect(pool.query.mock.calls[7][1]).toEqual([["public", "reporting"]]);
+    expect(pool.query.mock.calls[8][1]).toEqual([["public", "reporting"]]);
   });
 
   // ── Logging ──
@@ -456,7 +815,7 @@ describe("introspectDatabase", () => {
 
     await introspectDatabase(pool);
     expect(logSpy).toHaveBeenCalledWith(expect.stringContaining("Introspecting schemas"));
-    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining("Found 1 tables"));
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining("Found 1 tables and 0 functions"));
   });
 });
 
@@ -480,12 +839,74 @@ describe("computeDatabaseHash", () => {
     expect(computeDatabaseHash(schema1)).not.toBe(computeDatabaseHash(schema2));
   });
 
+  it("changes when a relation's kind or writability changes", () => {
+    const users = makeUsersTable();
+    const base = computeDatabaseHash(makeDatabaseSchema([users]));
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, kind: "view" }]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, writable: false }]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, writeOperations: ["insert"] }]))).not.toBe(base);
+  });
+
+  it("changes when a column's enum labels, CHECK limits or generation change", () => {
+    const status = makeColumn({ name: "status", udtName: "ticket_status", enumValues: ["open", "closed"] });
+    const table = (columns: ColumnInfo[]) => ({ ...makeUsersTable(), columns });
+    const base = computeDatabaseHash(makeDatabaseSchema([table([status])]));
+
+    expect(computeDatabaseHash(makeDatabaseSchema([table([{ ...status, enumValues: ["open"] }])]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([table([{ ...status, checks: { maxLength: 6 } }])]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([table([{ ...status, isGenerated: true }])]))).not.toBe(base);
+  });
+
+  it("changes with a function's signature but not with function order", () => {
+    const users = makeUsersTable();
+    const fn = makeVolatileFunction();
+    const other = makeSetReturningFunction();
+    const base = computeDatabaseHash(makeDatabaseSchema([users], [fn, other]));
+
+    expect(computeDatabaseHash(makeDatabaseSchema([users], [other, fn]))).toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([users], [{ ...fn, volatility: "stable" }, other]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([users], [fn]))).not.toBe(base);
+  });
+
   it("changes when a table has different foreign keys", () => {
     const schema1 = makeDatabaseSchema([makeUsersTable()]);
     const schema2 = makeDatabaseSchema([makeTableWithForeignKeys()]);
     expect(computeDatabaseHash(schema1)).not.toBe(computeDatabaseHash(schema2));
   });
 
+  it("changes with unique constraints but not with their order", () => {
+    const users = makeUsersTable();
+    const withHandle = {
+      ...users,
+      uniqueConstraints: [...users.uniqueConstraints, { name: "users_handle_key", columns: ["name"] }],
+    };
+    const reversed = { ...withHandle, uniqueConstraints: [...withHandle.uniqueConstraints].reverse() };
+
+    expect(computeDatabaseHash(makeDatabaseSchema([users]))).not.toBe(computeDatabaseHash(makeDatabaseSchema([withHandle])));
+    expect(computeDatabaseHash(makeDatabaseSchema([withHandle]))).toBe(computeDatabaseHash(makeDatabaseSchema([reversed])));
+  });
+
+  it("changes when a table or column comment changes", () => {
+    const users = makeUsersTable();
+    const base = computeDatabaseHash(makeDatabaseSchema([users]));
+    const commented = users.columns.map((c, i) => (i === 0 ? { ...c, description: "Surrogate key" } : c));
+
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, description: "People" }]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, columns: commented }]))).not.toBe(base);
+  });
+
+  it("changes with indexes but not with their order", () => {
+    const users = makeUsersTable();
+    const byName = { name: "users_name_idx", columns: ["name"], method: "btree", unique: false, predicate: null };
+    const byCreated = { name: "users_created_at_idx", columns: ["created_at"], method: "brin", unique: false, predicate: null };
+    const base = computeDatabaseHash(makeDatabaseSchema([{ ...users, indexes: [byName, byCreated] }]));
+
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, indexes: [byCreated, byName] }]))).toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, indexes: [byName] }]))).not.toBe(base);
+    expect(computeDatabaseHash(makeDatabaseSchema([{ ...users, indexes: [{ ...byName, predicate: "(active)" }, byCreated] }])))
+      .not.toBe(base);
+  });
+
   it("is order-independent — same tables in different insertion order produce same hash", () => {
     const users = makeUsersTable();
     const composite = makeCompositePkTable();
@@ -510,6 +931,8 @@ describe("computeDatabaseHash", () => {
     const tableWithMultipleFks = {
       schema: "public",
       name: "payments",
+      kind: "table",
+      writable: true,
       fqn: '"public"."payments"',
       routePath: "payments",
       primaryKeys: ["id"],
@@ -518,6 +941,8 @@ describe("computeDatabaseHash", () => {
         makeColumn({ name: "user_id", dataType: "integer", udtName: "int4", ordinalPosition: 2 }),
         makeColumn({ name: "order_id", dataType: "integer", udtName: "int4", ordinalPosition: 3 }),
       ],
+      uniqueConstraints: [],
+      indexes: [],
       foreignKeys: [
         { constraintName: "payments_user_id_fkey", column: "user_id", refSchema: "public", refTable: "users", refColumn: "id" },
         { constraintName: "payments_order_id_fkey", column: "order_id", refSchema: "public", refTable: "orders", refColumn: "id" },
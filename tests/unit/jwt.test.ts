@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createHmac, generateKeyPairSync, sign, KeyObject } from "node:crypto";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createJwtVerifier, loadJwtVerifier } from "../../src/auth/jwt.js";
+import { verifyApiKey } from "../../src/auth/api-key.js";
+
+const SECRET = "test-jwt-secret";
+const PERMISSIONS = { public: "rw", reporting: "r" };
+
+const b64 = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+
+function signHs256(payload: Record<string, unknown>, secret = SECRET, header: Record<string, unknown> = {}): string {
+  const input = `${b64({ alg: "HS256", typ: "JWT", ...header })}.${b64(payload)}`;
+  return `${input}.${createHmac("sha256", secret).update(input).digest("base64url")}`;
+}
+
+function signWithKey(alg: "RS256" | "ES256", key: KeyObject, payload: Record<string, unknown>, kid?: string): string {
+  const input = `${b64({ alg, typ: "JWT", ...(kid ? { kid } : {}) })}.${b64(payload)}`;
+  const signer = alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" as const } : key;
+  return `${input}.${sign("sha256", Buffer.from(input), signer).toString("base64url")}`;
+}
+
+const claims = (extra: Record<string, unknown> = {}) => ({ sub: "alice", pgcrud_permissions: PERMISSIONS, ...extra });
+
+describe("createJwtVerifier", () => {
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const ec = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const p384 = generateKeyPairSync("ec", { namedCurve: "secp384r1" });
+  const pem = (key: KeyObject) => key.export({ type: "spki", format: "pem" }) as string;
+
+  describe("HS256", () => {
+    const verifier = createJwtVerifier({ secret: SECRET, permissionsClaim: "pgcrud_permissions" });
+
+    it("accepts a signed token, with the label from sub and its claims", () => {
+      const payload = claims({ exp: 2000, nbf: 1000, email: "alice@example.com" });
+      expect(verifier.verify(signHs256(payload))).toEqual({
+        label: "jwt:alice", permissions: PERMISSIONS, claims: { exp: 2000, nbf: 1000 }, tokenClaims: payload,
+      });
+    });
+
+    it("rejects tokens with another signature or a tampered payload", () => {
+      expect(verifier.verify(signHs256(claims(), "other-secret"))).toBeNull();
+      const [header, , signature] = signHs256(claims()).split(".");
+      expect(verifier.verify(`${header}.${b64(claims({ pgcrud_permissions: { "*": "rw" } }))}.${signature}`)).toBeNull();
+      expect(verifier.verify(`${header}.${b64(claims())}.`)).toBeNull();
+    });
+
+    it("rejects malformed tokens and unsupported algorithms", () => {
+      for (const token of [
+        "not-a-jwt",
+        "a.b",
+        `${b64({ alg: "HS256" })}.not-json.sig`,
+        `${b64([])}.${b64(claims())}.sig`,
+        `${b64({ alg: "none" })}.${b64(claims())}.`,
+        signHs256(claims(), SECRET, { alg: "HS512" }),
+      ]) {
+        expect(verifier.verify(token)).toBeNull();
+      }
+    });
+
+    it("is not accepted without a secret", () => {
+      const publicOnly = createJwtVerifier({ publicKey: pem(rsa.publicKey), permissionsClaim: "pgcrud_permissions" });
+      expect(publicOnly.verify(signHs256(claims()))).toBeNull();
+      // A public key is never used as an HMAC secret
+      expect(publicOnly.verify(signHs256(claims(), pem(rsa.publicKey)))).toBeNull();
+    });
+  });
+
+  describe("claims", () => {
+    it("requires a sub", () => {
+      const verifier = createJwtVerifier({ secret: SECRET, permissionsClaim: "pgcrud_permissions" });
+      expect(verifier.verify(signHs256(claims({ sub: undefined })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ sub: "" })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ sub: 42 })))).toBeNull();
+    });
+
+    it("requires valid permissions in the configured claim, as an object or a string", () => {
+      const verifier = createJwtVerifier({ secret: SECRET, permissionsClaim: "https://example.com/permissions" });
+      const token = (value: unknown) => signHs256({ sub: "alice", "https://example.com/permissions": value });
+
+      expect(verifier.verify(token(PERMISSIONS))!.permissions).toEqual(PERMISSIONS);
+      expect(verifier.verify(token("public:rw, reporting:r"))!.permissions).toEqual(PERMISSIONS);
+      for (const value of [undefined, null, [], {}, "public:x", { public: "x" }, 42]) {
+        expect(verifier.verify(token(value))).toBeNull();
+      }
+      expect(verifier.verify(signHs256(claims()))).toBeNull();
+    });
+
+    it("checks iss and aud when configured", () => {
+      const verifier = createJwtVerifier({
+        secret: SECRET, issuer: "https://sso.example.com", audience: "pgcrud", permissionsClaim: "pgcrud_permissions",
+      });
+      const iss = "https://sso.example.com";
+
+      expect(verifier.verify(signHs256(claims({ iss, aud: "pgcrud" })))).not.toBeNull();
+      expect(verifier.verify(signHs256(claims({ iss, aud: ["other", "pgcrud"] })))).not.toBeNull();
+      expect(verifier.verify(signHs256(claims({ iss, aud: "other" })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ iss, aud: ["other"] })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ iss })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ iss: "https://evil.example.com", aud: "pgcrud" })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ aud: "pgcrud" })))).toBeNull();
+    });
+
+    it("rejects non-numeric exp and nbf", () => {
+      const verifier = createJwtVerifier({ secret: SECRET, permissionsClaim: "pgcrud_permissions" });
+      expect(verifier.verify(signHs256(claims({ exp: "2000" })))).toBeNull();
+      expect(verifier.verify(signHs256(claims({ nbf: "1000" })))).toBeNull();
+    });
+  });
+
+  describe("RS256 and ES256", () => {
+    it("verifies tokens with a PEM public key of the matching type", () => {
+      const rsaVerifier = createJwtVerifier({ publicKey: pem(rsa.publicKey), permissionsClaim: "pgcrud_permissions" });
+      const ecVerifier = createJwtVerifier({ publicKey: pem(ec.publicKey), permissionsClaim: "pgcrud_permissions" });
+
+      expect(rsaVerifier.verify(signWithKey("RS256", rsa.privateKey, claims()))!.label).toBe("jwt:alice");
+      expect(ecVerifier.verify(signWithKey("ES256", ec.privateKey, claims()))!.label).toBe("jwt:alice");
+      expect(ecVerifier.verify(signWithKey("RS256", rsa.privateKey, claims()))).toBeNull();
+      expect(rsaVerifier.verify(signWithKey("ES256", ec.privateKey, claims()))).toBeNull();
+    });
+
+    it("rejects ES256 tokens for keys on other curves, and garbled signatures", () => {
+      const verifier = createJwtVerifier({ publicKey: pem(p384.publicKey), permissionsClaim: "pgcrud_permissions" });
+      expect(verifier.verify(signWithKey("ES256", p384.privateKey, claims()))).toBeNull();
+
+      const ecVerifier = createJwtVerifier({ publicKey: pem(ec.publicKey), permissionsClaim: "pgcrud_permissions" });
+      const [header, payload] = signWithKey("ES256", ec.privateKey, claims()).split(".");
+      expect(ecVerifier.verify(`${header}.${payload}.AAAA`)).toBeNull();
+    });
+
+    it("picks JWKS keys by kid, alg and use", () => {
+      const other = generateKeyPairSync("rsa", { modulusLength: 2048 });
+      const jwk = (key: KeyObject, extra: Record<string, unknown>) => ({ ...key.export({ format: "jwk" }), ...extra });
+      const verifier = createJwtVerifier({
+        jwks: {
+          keys: [
+            jwk(rsa.publicKey, { kid: "rsa-1", alg: "RS256", use: "sig" }),
+            jwk(other.publicKey, { kid: "rsa-enc", use: "enc" }),
+            jwk(ec.publicKey, { kid: "ec-1", alg: "ES384" }),
+            jwk(p384.publicKey, {}),
+          ],
+        },
+        permissionsClaim: "pgcrud_permissions",
+      });
+
+      expect(verifier.verify(signWithKey("RS256", rsa.privateKey, claims(), "rsa-1"))).not.toBeNull();
+      expect(verifier.verify(signWithKey("RS256", rsa.privateKey, claims()))).not.toBeNull();
+      expect(verifier.verify(signWithKey("RS256", rsa.privateKey, claims(), "ec-1"))).toBeNull();
+      expect(verifier.verify(signWithKey("RS256", other.privateKey, claims(), "rsa-enc"))).toBeNull();
+      // ec-1 is declared for another algorithm
+      expect(verifier.verify(signWithKey("ES256", ec.privateKey, claims(), "ec-1"))).toBeNull();
+    });
+  });
+});
+
+describe("loadJwtVerifier", () => {
+  let dir: string;
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "pgcrud-jwt-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns undefined when nothing is configured", async () => {
+    expect(await loadJwtVerifier({ permissionsClaim: "pgcrud_permissions" })).toBeUndefined();
+  });
+
+  it("accepts HS256 tokens with just a secret", async () => {
+    const verifier = await loadJwtVerifier({ secret: SECRET, permissionsClaim: "pgcrud_permissions" });
+    expect(verifier!.verify(signHs256(claims()))).not.toBeNull();
+  });
+
+  it("reads a PEM public key and a JWKS file", async () => {
+    const pemFile = join(dir, "public.pem");
+    const jwksFile = join(dir, "jwks.json");
+    writeFileSync(pemFile, rsa.publicKey.export({ type: "spki", format: "pem" }));
+    writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...rsa.publicKey.export({ format: "jwk" }), kid: "k1" }] }));
+    const token = signWithKey("RS256", rsa.privateKey, claims(), "k1");
+
+    const fromPem = await loadJwtVerifier({ publicKeyFile: pemFile, permissionsClaim: "pgcrud_permissions" });
+    const fromJwks = await loadJwtVerifier({ jwksFile, permissionsClaim: "pgcrud_permissions" });
+    expect(fromPem!.verify(token)).not.toBeNull();
+    expect(fromJwks!.verify(token)).not.toBeNull();
+  });
+
+  it("rejects a JWKS file without keys", async () => {
+    const jwksFile = join(dir, "empty.json");
+    writeFileSync(jwksFile, JSON.stringify({ key: [] }));
+    await expect(loadJwtVerifier({ jwksFile, permissionsClaim: "pgcrud_permissions" })).rejects.toThrow(
+      `JWKS file ${jwksFile} must contain a "keys" array`,
+    );
+    writeFileSync(jwksFile, "null");
+    await expect(loadJwtVerifier({ jwksFile, permissionsClaim: "pgcrud_permissions" })).rejects.toThrow(/"keys" array/);
+  });
+});
+
+describe("verifyApiKey with JWTs", () => {
+  const tokens = createJwtVerifier({ secret: SECRET, permissionsClaim: "pgcrud_permissions" });
+
+  it("accepts tokens only when given a verifier", () => {
+    const token = signHs256(claims());
+    expect(verifyApiKey(token, [], { tokens })).toEqual({
+      valid: true, label: "jwt:alice", permissions: PERMISSIONS, tokenClaims: claims(),
+    });
+    expect(verifyApiKey(token, SECRET)).toEqual({ valid: false });
+    expect(verifyApiKey(signHs256(claims(), "other-secret"), [], { tokens })).toEqual({ valid: false });
+  });
+
+  it("checks exp, nbf and the revocation list like for keys", () => {
+    const token = signHs256(claims({ exp: 2000, nbf: 1000 }));
+    expect(verifyApiKey(token, [], { tokens, now: 2000 })).toEqual({ valid: false, reason: "expired" });
+    expect(verifyApiKey(token, [], { tokens, now: 999 })).toEqual({ valid: false, reason: "not_yet_valid" });
+
+    const revocations = { isRevoked: (label: string) => label === "jwt:alice" };
+    expect(verifyApiKey(token, [], { tokens, now: 1500, revocations })).toEqual({ valid: false, reason: "revoked" });
+
+    // Revoking the key label "alice" leaves the token alone
+    const keyRevocations = { isRevoked: (label: string) => label === "alice" };
+    expect(verifyApiKey(token, [], { tokens, now: 1500, revocations: keyRevocations }).valid).toBe(true);
+  });
+});
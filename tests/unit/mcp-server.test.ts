@@ -5,20 +5,28 @@ vi.mock("../../src/config.js", () => ({
     defaultPageSize: 50,
     maxPageSize: 1000,
     maxBulkInsertRows: 1000,
+    countStrategy: "exact",
+    tableCountStrategies: {},
+    cacheControl: "no-cache",
+    tableCacheControl: {},
     bodyLimit: 5 * 1024 * 1024,
     swaggerEnabled: false,
     apiKeysEnabled: false,
-    apiSecret: null,
+    keyRoles: {},
+    dbSessionClaims: false,
+    apiSecrets: [],
     corsOrigins: true,
     exposeDbErrors: false,
     databaseReadUrl: null,
   },
+  COUNT_STRATEGIES: ["exact", "estimated", "none"],
 }));
 
 import { Pool } from "pg";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
-import { createMcpServer, McpServerOptions } from "../../src/mcp/server.js";
+import { ToolListChangedNotificationSchema, ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer, reloadMcpServer, McpServerOptions } from "../../src/mcp/server.js";
 import {
   makeColumn,
   makeUsersTable,
@@ -27,11 +35,18 @@ import {
   makeNonPublicSchemaTable,
   makeTableWithForeignKeys,
   makeSoftDeleteTable,
+  makeViewTable,
+  makeTriggerViewTable,
+  makeMaterializedViewTable,
+  makeGeneratedColumnsTable,
+  makeVolatileFunction,
+  makeSetReturningFunction,
   makeDatabaseSchema,
 } from "../fixtures/tables.js";
 import type { TableInfo } from "../../src/db/introspector.js";
 import { config } from "../../src/config.js";
-import type { SchemaPermissions } from "../../src/auth/api-key.js";
+import type { SchemaPermissions, RowFilters } from "../../src/auth/api-key.js";
+import type { DbSession } from "../../src/db/session.js";
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
@@ -49,6 +64,8 @@ function createMockPool() {
 
 async function setupMcpTest(opts?: {
   permissions?: SchemaPermissions | null;
+  rowFilters?: RowFilters;
+  session?: DbSession;
   pool?: Pool;
   readPool?: Pool;
 }) {
@@ -68,6 +85,8 @@ async function setupMcpTest(opts?: {
     readPool,
     dbSchema,
     permissions: opts?.permissions ?? null,
+    rowFilters: opts?.rowFilters,
+    session: opts?.session,
   });
 
   const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
@@ -175,6 +194,8 @@ describe("MCP Server", () => {
       expect(parsed.operations).toContain("update");
       expect(parsed.operations).toContain("delete");
       expect(parsed.searchableColumns).toEqual(["name", "email"]);
+      expect(parsed.lookups).toEqual([{ column: "email", path: "/api/users/by/email/{value}" }]);
+      expect(parsed.sortableColumns).toEqual(["id", "email"]);
     });
 
     it("returns error for non-existent table", async () => {
@@ -320,6 +341,172 @@ describe("MCP Server", () => {
       expect(selectCall[0].values).toContain("Alice");
     });
 
+    it("queries with filter groups", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: {
+          table: "users",
+          filters: { active: "eq:true" },
+          filterGroups: ["or(name.eq.Alice,not.id.gt.5)"],
+        },
+      });
+
+      expect(result.isError).toBeFalsy();
+      const [selectCall, countCall] = mockQuery.mock.calls;
+      expect(selectCall[0].text).toContain('WHERE "active" = $1 AND ("name" = $2 OR NOT ("id" > $3))');
+      expect(countCall[0].text).toContain('("name" = $2 OR NOT ("id" > $3))');
+      expect(countCall[0].values).toEqual(["true", "Alice", "5"]);
+    });
+
+    it("ignores an empty filterGroups array", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ total: "0" }], rowCount: 1 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "users", filterGroups: [] },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(mockQuery.mock.calls[0][0].text).not.toContain("WHERE");
+    });
+
+    it("returns error for malformed filter group", async () => {
+      const ctx = await setupMcpTest();
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "users", filterGroups: ["or(name.eq.Alice"] },
+      });
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ type: string; text: string }>)[0].text).toContain("Unbalanced");
+    });
+
+    it("embeds related rows with expand", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 1, user_id: 7, user: { id: 7, name: "Alice" } }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [{ total: "1" }], rowCount: 1 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "orders", expand: "user(id,name)" },
+      });
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+
+      expect(parsed.data[0].user).toEqual({ id: 7, name: "Alice" });
+      expect(mockQuery.mock.calls[0][0].text).toContain('FROM "public"."users" AS "_rel"');
+    });
+
+    it("returns error for an unknown expand relation", async () => {
+      const ctx = await setupMcpTest();
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "orders", expand: "customer" },
+      });
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ type: string; text: string }>)[0].text).toContain("Unknown relation 'customer'");
+    });
+
+    it("supports count strategies", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ "QUERY PLAN": [{ Plan: { "Plan Rows": 90 } }] }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const estimated = await client.callTool({
+        name: "list_records",
+        arguments: { table: "users", count: "estimated" },
+      });
+      const estimatedParsed = JSON.parse((estimated.content as Array<{ type: string; text: string }>)[0].text);
+      expect(estimatedParsed.pagination).toMatchObject({ total: 90, totalPages: 2, totalIsEstimate: true });
+      expect(mockQuery.mock.calls[1][0].text).toContain("EXPLAIN (FORMAT JSON)");
+
+      const none = await client.callTool({
+        name: "list_records",
+        arguments: { table: "users", count: "none" },
+      });
+      const noneParsed = JSON.parse((none.content as Array<{ type: string; text: string }>)[0].text);
+      expect(noneParsed.pagination).toMatchObject({ total: null, totalPages: null, totalIsEstimate: false });
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it("paginates with a cursor and skips the count query", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { id: 1, name: "Alice", __cursor_0: "1" },
+          { id: 2, name: "Bob", __cursor_0: "2" },
+        ],
+        rowCount: 2,
+      });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "users", cursor: "", pageSize: 1 },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+      expect(parsed.data).toEqual([{ id: 1, name: "Alice" }]);
+      expect(parsed.pagination.hasMore).toBe(true);
+      expect(parsed.pagination.pageSize).toBe(1);
+      expect(parsed.pagination.nextCursor).toEqual(expect.any(String));
+      expect(parsed.pagination.total).toBeUndefined();
+    });
+
+    it("returns error for cursor pagination on a table without primary key", async () => {
+      const ctx = await setupMcpTest();
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "audit_logs", cursor: "" },
+      });
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ type: string; text: string }>)[0].text).toContain("requires a primary key");
+    });
+
     it("queries with search", async () => {
       const mockPool = createMockPool();
       const mockQuery = getMockQuery(mockPool);
@@ -541,6 +728,25 @@ describe("MCP Server", () => {
       expect((result.content as Array<{ type: string; text: string }>)[0].text).toContain("Permission denied");
     });
 
+    it("embeds child rows with expand", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1, orders: [{ id: 5 }] }], rowCount: 1 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool, permissions: { public: "r" } });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "get_record",
+        arguments: { table: "users", id: "1", expand: "orders(id)" },
+      });
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+
+      expect(parsed.orders).toEqual([{ id: 5 }]);
+      expect(mockQuery.mock.calls[0][0].text).toContain("json_agg");
+    });
+
     it("supports column selection", async () => {
       const mockPool = createMockPool();
       const mockQuery = getMockQuery(mockPool);
@@ -746,6 +952,76 @@ describe("MCP Server", () => {
 
   // ── Tool: update_record ────────────────────────────────────────────
 
+  describe("upsert_record", () => {
+    it("upserts on the primary key by default", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1, name: "Alice", email: "a@b.com" }], rowCount: 1 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const result = await client.callTool({
+        name: "upsert_record",
+        arguments: { table: "users", data: { id: 1, name: "Alice", email: "a@b.com" } },
+      });
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+
+      expect(parsed.id).toBe(1);
+      expect(mockQuery.mock.calls[0][0].text).toContain(
+        'ON CONFLICT ("id") DO UPDATE SET "name" = EXCLUDED."name", "email" = EXCLUDED."email" RETURNING *'
+      );
+    });
+
+    it("ignores duplicates on a unique constraint", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [{ id: 2 }], rowCount: 1 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const single = await client.callTool({
+        name: "upsert_record",
+        arguments: { table: "users", data: { name: "Alice", email: "a@b.com" }, onConflict: ["email"], action: "ignore" },
+      });
+      expect(JSON.parse((single.content as Array<{ type: string; text: string }>)[0].text).ignored).toBe(true);
+      expect(mockQuery.mock.calls[0][0].text).toContain('ON CONFLICT ("email") DO NOTHING');
+
+      const bulk = await client.callTool({
+        name: "upsert_record",
+        arguments: { table: "users", data: [{ name: "A", email: "a@b.com" }, { name: "B", email: "b@b.com" }], onConflict: ["email"] },
+      });
+      expect(JSON.parse((bulk.content as Array<{ type: string; text: string }>)[0].text).count).toBe(1);
+      expect(mockQuery.mock.calls[1][0].text).toContain('ON CONFLICT ("email") DO UPDATE SET "name" = EXCLUDED."name"');
+    });
+
+    it("returns errors for invalid targets, unknown tables and missing permissions", async () => {
+      const ctx = await setupMcpTest({ permissions: { reporting: "rw" } });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const missing = await client.callTool({ name: "upsert_record", arguments: { table: "nope", data: { a: 1 } } });
+      expect(missing.isError).toBe(true);
+
+      const denied = await client.callTool({ name: "upsert_record", arguments: { table: "users", data: { id: 1 } } });
+      expect((denied.content as Array<{ type: string; text: string }>)[0].text).toContain("Permission denied");
+
+      const badTarget = await client.callTool({
+        name: "upsert_record",
+        arguments: { table: "reporting__metrics", data: { id: 1 }, onConflict: ["metric_name"] },
+      });
+      expect(badTarget.isError).toBe(true);
+      expect((badTarget.content as Array<{ type: string; text: string }>)[0].text).toContain(
+        "onConflict columns (metric_name) must match the primary key, a unique constraint or a unique index of metrics"
+      );
+    });
+  });
+
   describe("update_record", () => {
     it("updates a record by primary key", async () => {
       const mockPool = createMockPool();
@@ -790,6 +1066,33 @@ describe("MCP Server", () => {
       expect((result.content as Array<{ type: string; text: string }>)[0].text).toContain("not found");
     });
 
+    it("applies expectedVersion as a condition and reports a mismatch", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 1, name: "Updated", __version: "901" }], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      const ok = await client.callTool({
+        name: "update_record",
+        arguments: { table: "users", id: "1", data: { name: "Updated" }, expectedVersion: "900" },
+      });
+      expect(JSON.parse((ok.content as Array<{ type: string; text: string }>)[0].text).__version).toBe("901");
+      expect(mockQuery.mock.calls[0][0].text).toContain('AND "xmin"::text = ANY($3)');
+      expect(mockQuery.mock.calls[0][0].values).toEqual(["Updated", "1", ["900"]]);
+
+      const stale = await client.callTool({
+        name: "update_record",
+        arguments: { table: "users", id: "1", data: { name: "Again" }, expectedVersion: "900" },
+      });
+      expect(stale.isError).toBe(true);
+      expect((stale.content as Array<{ type: string; text: string }>)[0].text).toContain("Version mismatch");
+    });
+
     it("denies write access with read-only permissions", async () => {
       const mockPool = createMockPool();
       const ctx = await setupMcpTest({ pool: mockPool, readPool: mockPool, permissions: { public: "r" } });
@@ -1035,7 +1338,7 @@ describe("MCP Server", () => {
 
       const result = await client.listTools();
 
-      expect(result.tools).toHaveLength(7);
+      expect(result.tools).toHaveLength(8);
       const toolNames = result.tools.map((t) => t.name).sort();
       expect(toolNames).toEqual([
         "create_record",
@@ -1045,6 +1348,7 @@ describe("MCP Server", () => {
         "list_records",
         "list_tables",
         "update_record",
+        "upsert_record",
       ]);
 
       // Check tool has description
@@ -1287,9 +1591,13 @@ describe("MCP Server", () => {
       const allDefaultsTable: TableInfo = {
         schema: "public",
         name: "settings",
+        kind: "table",
+        writable: true,
         fqn: '"public"."settings"',
         routePath: "settings",
         primaryKeys: ["id"],
+        uniqueConstraints: [],
+        indexes: [],
         foreignKeys: [],
         columns: [
           makeColumn({ name: "id", dataType: "integer", udtName: "int4", isNullable: false, hasDefault: true, defaultValue: "nextval('settings_id_seq'::regclass)", ordinalPosition: 1 }),
@@ -1322,8 +1630,682 @@ describe("MCP Server", () => {
     });
   });
 
+  // ── Read-only relations ────────────────────────────────────────────
+
+  describe("read-only views", () => {
+    async function setupViewTest(pool: Pool = createMockPool()) {
+      const mcpServer = createMcpServer({
+        pool,
+        readPool: pool,
+        dbSchema: makeDatabaseSchema([makeUsersTable(), makeViewTable(), makeTriggerViewTable(), makeMaterializedViewTable()]),
+        permissions: null,
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const testClient = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([mcpServer.connect(serverTransport), testClient.connect(clientTransport)]);
+      cleanup = () => Promise.all([testClient.close(), mcpServer.close()]).then(() => {});
+      client = testClient;
+      return testClient;
+    }
+
+    it("lists the kind and writability of each relation", async () => {
+      const testClient = await setupViewTest();
+
+      const result = await testClient.callTool({ name: "list_tables", arguments: {} });
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+
+      expect(parsed.tables.map((t: { name: string; kind: string; writable: boolean }) => [t.name, t.kind, t.writable])).toEqual([
+        ["users", "table", true],
+        ["active_users", "view", false],
+        ["user_inbox", "view", true],
+        ["order_totals", "materialized_view", false],
+      ]);
+    });
+
+    it("refuses to write to a read-only view without querying", async () => {
+      const mockPool = createMockPool();
+      const testClient = await setupViewTest(mockPool);
+
+      const result = await testClient.callTool({
+        name: "create_record",
+        arguments: { table: "order_totals", data: { user_id: 1 } },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ type: string; text: string }>)[0].text)
+        .toBe("Table 'order_totals' is a read-only materialized view");
+      expect(getMockQuery(mockPool)).not.toHaveBeenCalled();
+    });
+
+    it("refuses writes a view does not support", async () => {
+      const mockPool = createMockPool();
+      const testClient = await setupViewTest(mockPool);
+
+      const result = await testClient.callTool({
+        name: "update_record",
+        arguments: { table: "user_inbox", id: "1", data: { name: "A" } },
+      });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as Array<{ type: string; text: string }>)[0].text)
+        .toBe("Table 'user_inbox' is a view that does not support update");
+      expect(getMockQuery(mockPool)).not.toHaveBeenCalled();
+    });
+
+    it("omits write operations from the crud-guide", async () => {
+      const testClient = await setupViewTest();
+
+      const result = await testClient.getPrompt({ name: "crud-guide", arguments: { table: "active_users" } });
+      const text = (result.messages[0].content as { type: string; text: string }).text;
+
+      expect(text).toContain("Read-only view: records cannot be created, updated or deleted.");
+      expect(text).toContain("- LIST: list_records");
+      expect(text).not.toContain("create_record");
+    });
+  });
+
+  // ── Identity and generated columns ─────────────────────────────────
+
+  describe("identity and generated columns", () => {
+    async function setupGeneratedTest(pool: Pool = createMockPool()) {
+      const mcpServer = createMcpServer({
+        pool,
+        readPool: pool,
+        dbSchema: makeDatabaseSchema([makeGeneratedColumnsTable()]),
+        permissions: null,
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const testClient = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([mcpServer.connect(serverTransport), testClient.connect(clientTransport)]);
+      cleanup = () => Promise.all([testClient.close(), mcpServer.close()]).then(() => {});
+      client = testClient;
+      return testClient;
+    }
+
+    it("flags read-only columns in describe_table", async () => {
+      const testClient = await setupGeneratedTest();
+
+      const result = await testClient.callTool({ name: "describe_table", arguments: { table: "invoices" } });
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+      const flags = parsed.columns.map((c: Record<string, unknown>) => [c.name, c.readOnly ?? false, c.identity ?? null, c.generated ?? false]);
+
+      expect(flags).toEqual([
+        ["id", true, "always", false],
+        ["number", false, "by_default", false],
+        ["subtotal", false, null, false],
+        ["total", true, null, true],
+      ]);
+    });
+
+    it("lists columns set by the database in the crud-guide", async () => {
+      const testClient = await setupGeneratedTest();
+
+      const result = await testClient.getPrompt({ name: "crud-guide", arguments: { table: "invoices" } });
+      const text = (result.messages[0].content as { type: string; text: string }).text;
+
+      expect(text).toContain("Set by the database (omit from data): id (identity), total (generated)");
+    });
+
+    it("leaves read-only columns out of create_record inserts", async () => {
+      const mockPool = createMockPool();
+      getMockQuery(mockPool).mockResolvedValueOnce({ rows: [{ id: 1, number: 1, subtotal: 10, total: 12 }], rowCount: 1 });
+      const testClient = await setupGeneratedTest(mockPool);
+
+      await testClient.callTool({ name: "create_record", arguments: { table: "invoices", data: { subtotal: 10, total: 99 } } });
+
+      expect(getMockQuery(mockPool).mock.calls[0][0].text).toBe('INSERT INTO "public"."invoices" ("subtotal") VALUES ($1) RETURNING *');
+    });
+  });
+
+  // ── Table and column comments ──────────────────────────────────────
+
+  describe("comments", () => {
+    async function setupCommentTest() {
+      const users = makeUsersTable();
+      const documented: TableInfo = {
+        ...users,
+        description: "People who can sign in",
+        columns: users.columns.map((c) => (c.name === "active" ? { ...c, description: "False once the account is closed" } : c)),
+      };
+      const mcpServer = createMcpServer({
+        pool: createMockPool(),
+        readPool: createMockPool(),
+        dbSchema: makeDatabaseSchema([documented, makeCompositePkTable()]),
+        permissions: null,
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const testClient = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([mcpServer.connect(serverTransport), testClient.connect(clientTransport)]);
+      cleanup = () => Promise.all([testClient.close(), mcpServer.close()]).then(() => {});
+      client = testClient;
+      return testClient;
+    }
+
+    it("includes table descriptions in list_tables and describe_table", async () => {
+      const testClient = await setupCommentTest();
+
+      const listed = await testClient.callTool({ name: "list_tables", arguments: {} });
+      const { tables } = JSON.parse((listed.content as Array<{ type: string; text: string }>)[0].text);
+      expect(tables.map((t: Record<string, unknown>) => t.description)).toEqual(["People who can sign in", undefined]);
+
+      const described = await testClient.callTool({ name: "describe_table", arguments: { table: "users" } });
+      const parsed = JSON.parse((described.content as Array<{ type: string; text: string }>)[0].text);
+      expect(parsed.description).toBe("People who can sign in");
+      expect(parsed.columns.find((c: Record<string, unknown>) => c.name === "active").description).toBe("False once the account is closed");
+    });
+
+    it("describes table resources with their comment", async () => {
+      const testClient = await setupCommentTest();
+
+      const { resources } = await testClient.listResources();
+      expect(resources.filter((r) => r.uri.startsWith("db://tables/")).map((r) => r.description)).toEqual([
+        'Schema for "public"."users": People who can sign in',
+        'Schema for "public"."user_roles"',
+      ]);
+    });
+
+    it("adds table and column comments to the crud-guide", async () => {
+      const testClient = await setupCommentTest();
+
+      const result = await testClient.getPrompt({ name: "crud-guide", arguments: { table: "users" } });
+      const text = (result.messages[0].content as { type: string; text: string }).text;
+
+      expect(text).toContain('(route: users):\n\nPeople who can sign in\n\nPrimary keys: id');
+      expect(text).toContain("Column notes:\n  - active: False once the account is closed");
+    });
+  });
+
+  // ── Table and column permissions ───────────────────────────────────
+
+  describe("table and column permissions", () => {
+    const SUPPORT: SchemaPermissions = {
+      public: "rw",
+      "public.users.email": "-",
+      "public.users.active": "r",
+    };
+
+    function text(result: { content: unknown }): string {
+      return (result.content as Array<{ type: string; text: string }>)[0].text;
+    }
+
+    async function setupPermissionTest(permissions: SchemaPermissions, rows: Record<string, unknown>[] = []) {
+      const mockPool = createMockPool();
+      getMockQuery(mockPool).mockResolvedValue({ rows, rowCount: rows.length });
+      const ctx = await setupMcpTest({ pool: mockPool, permissions });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+      return getMockQuery(mockPool);
+    }
+
+    it("lists only tables granted to a table-scoped key", async () => {
+      await setupPermissionTest({ "public.orders": "r" });
+
+      const parsed = JSON.parse(text(await client.callTool({ name: "list_tables", arguments: {} })));
+      expect(parsed.tables.map((t: { name: string }) => t.name)).toEqual(["orders"]);
+
+      const denied = await client.callTool({ name: "describe_table", arguments: { table: "users" } });
+      expect(denied.isError).toBe(true);
+      expect(text(denied)).toContain('no access to table "public.users"');
+    });
+
+    it("leaves tables the key cannot read out of describe_table and db://schema", async () => {
+      await setupPermissionTest({ "public.orders": "r" });
+
+      const described = JSON.parse(text(await client.callTool({ name: "describe_table", arguments: { table: "orders" } })));
+      const resource = await client.readResource({ uri: "db://schema" });
+      const [listed] = JSON.parse((resource.contents[0] as { text: string }).text).tables;
+
+      for (const orders of [described, listed]) {
+        expect(orders.relations).toEqual([]);
+        expect(orders.foreignKeys).toEqual([]);
+      }
+    });
+
+    it("hides columns from describe_table and marks read-only ones", async () => {
+      await setupPermissionTest(SUPPORT);
+
+      const parsed = JSON.parse(text(await client.callTool({ name: "describe_table", arguments: { table: "users" } })));
+      const columns = Object.fromEntries(parsed.columns.map((c: { name: string; readOnly?: boolean }) => [c.name, c.readOnly]));
+
+      expect(Object.keys(columns)).toEqual(["id", "name", "active"]);
+      expect(columns.active).toBe(true);
+      expect(columns.name).toBeUndefined();
+    });
+
+    it("redacts list_records and get_record results, including embedded rows", async () => {
+      const mockQuery = await setupPermissionTest(SUPPORT, [
+        { id: 1, name: "Alice", email: "a@test.com", active: true },
+      ]);
+
+      const listed = JSON.parse(text(await client.callTool({ name: "list_records", arguments: { table: "users" } })));
+      expect(listed.data).toEqual([{ id: 1, name: "Alice", active: true }]);
+
+      const found = JSON.parse(text(await client.callTool({ name: "get_record", arguments: { table: "users", id: "1" } })));
+      expect(found).toEqual({ id: 1, name: "Alice", active: true });
+
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 7, user_id: 1, user: { id: 1, email: "a@test.com" } }], rowCount: 1 });
+      const order = JSON.parse(text(await client.callTool({
+        name: "get_record",
+        arguments: { table: "orders", id: "7", expand: "user" },
+      })));
+      expect(order.user).toEqual({ id: 1 });
+    });
+
+    it("rejects filters on hidden columns", async () => {
+      await setupPermissionTest(SUPPORT);
+
+      const result = await client.callTool({
+        name: "list_records",
+        arguments: { table: "users", filters: { email: "eq.a@test.com" } },
+      });
+
+      expect(result.isError).toBe(true);
+    });
+
+    it("rejects writes to read-only and hidden columns", async () => {
+      const mockQuery = await setupPermissionTest(SUPPORT);
+
+      const calls = [
+        { name: "create_record", arguments: { table: "users", data: [{ name: "A" }, { name: "B", active: false }] } },
+        { name: "upsert_record", arguments: { table: "users", data: { id: 1, name: "A", email: "a@test.com" } } },
+        { name: "update_record", arguments: { table: "users", id: "1", data: { active: false } } },
+      ];
+      const messages = [];
+      for (const call of calls) {
+        const result = await client.callTool(call);
+        expect(result.isError).toBe(true);
+        messages.push(text(result));
+      }
+
+      expect(messages[0]).toContain('API key does not have write access on column "public.users.active"');
+      expect(messages[1]).toContain('column "public.users.email"');
+      expect(messages[2]).toContain('column "public.users.active"');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("redacts the results of writes", async () => {
+      await setupPermissionTest(SUPPORT, [{ id: 1, name: "A", email: "a@test.com", active: true }]);
+
+      const results = [];
+      for (const call of [
+        { name: "create_record", arguments: { table: "users", data: { name: "A" } } },
+        { name: "create_record", arguments: { table: "users", data: [{ name: "A" }] } },
+        { name: "upsert_record", arguments: { table: "users", data: { id: 1, name: "A" } } },
+        { name: "upsert_record", arguments: { table: "users", data: [{ id: 1, name: "A" }] } },
+        { name: "update_record", arguments: { table: "users", id: "1", data: { name: "A" } } },
+        { name: "delete_record", arguments: { table: "users", id: "1" } },
+      ]) {
+        const result = await client.callTool(call);
+        expect(result.isError).toBeFalsy();
+        results.push(text(result));
+      }
+
+      for (const result of results) expect(result).not.toContain("a@test.com");
+    });
+
+    it("scopes resources and the crud-guide prompt", async () => {
+      await setupPermissionTest(SUPPORT);
+
+      const schema = JSON.parse((await client.readResource({ uri: "db://schema" })).contents[0].text as string);
+      const users = schema.tables.find((t: { name: string }) => t.name === "users");
+      expect(users.columns.map((c: { name: string }) => c.name)).toEqual(["id", "name", "active"]);
+
+      const resource = JSON.parse((await client.readResource({ uri: "db://tables/users" })).contents[0].text as string);
+      expect(resource.columns.map((c: { name: string }) => c.name)).not.toContain("email");
+
+      const prompt = await client.getPrompt({ name: "crud-guide", arguments: { table: "users" } });
+      const guide = (prompt.messages[0].content as { type: string; text: string }).text;
+      expect(guide).not.toContain("email");
+      expect(guide).toContain("Read-only for this API key (omit from data): active");
+    });
+
+    it("enforces create, update, delete and bulk scopes per tool", async () => {
+      await setupPermissionTest({ public: "rc" }, [{ id: 1, name: "A" }]);
+      const row = { name: "A", email: "a@test.com" };
+
+      expect((await client.callTool({ name: "create_record", arguments: { table: "users", data: row } })).isError).toBeFalsy();
+      expect((await client.callTool({ name: "upsert_record", arguments: { table: "users", data: row, action: "ignore" } })).isError).toBeFalsy();
+
+      const denied = await Promise.all([
+        client.callTool({ name: "create_record", arguments: { table: "users", data: [row] } }),
+        client.callTool({ name: "upsert_record", arguments: { table: "users", data: row } }),
+        client.callTool({ name: "update_record", arguments: { table: "users", id: "1", data: { name: "B" } } }),
+        client.callTool({ name: "delete_record", arguments: { table: "users", id: "1" } }),
+      ]);
+      expect(denied.map((result) => text(result))).toEqual([
+        'Permission denied: API key does not have bulk access on table "public.users"',
+        'Permission denied: API key does not have update access on table "public.users"',
+        'Permission denied: API key does not have update access on table "public.users"',
+        'Permission denied: API key does not have delete access on table "public.users"',
+      ]);
+    });
+  });
+
+  // ── Row filters ────────────────────────────────────────────────────
+
+  describe("row filters", () => {
+    // users has no user_id column, so it is exempted to be shared
+    const ROWS: RowFilters = { public: { user_id: "42" }, "public.users": {} };
+
+    async function setupRowFilterTest(rows: Record<string, unknown>[] = [], rowFilters = ROWS) {
+      const mockPool = createMockPool();
+      getMockQuery(mockPool).mockResolvedValue({ rows, rowCount: rows.length });
+      const ctx = await setupMcpTest({ pool: mockPool, permissions: { public: "rw" }, rowFilters });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+      return getMockQuery(mockPool);
+    }
+
+    it("limits list_records and get_record to the key's rows", async () => {
+      const mockQuery = await setupRowFilterTest();
+
+      await client.callTool({ name: "list_records", arguments: { table: "orders", filters: { status: "paid" } } });
+      expect(mockQuery.mock.calls[0][0].text).toContain('WHERE "user_id" = $1 AND "status" = $2');
+
+      await client.callTool({ name: "get_record", arguments: { table: "orders", id: "1" } });
+      expect(mockQuery.mock.calls.at(-1)![0].values).toEqual(["1", "42"]);
+    });
+
+    it("embeds only the key's rows", async () => {
+      const mockQuery = await setupRowFilterTest();
+
+      await client.callTool({ name: "list_records", arguments: { table: "users", expand: "orders" } });
+      expect(mockQuery.mock.calls[0][0].text).toContain('"_rel"."user_id" = $1');
+      expect(mockQuery.mock.calls[0][0].values[0]).toBe("42");
+    });
+
+    it("writes rows with the filter values and only changes the key's rows", async () => {
+      const mockQuery = await setupRowFilterTest([{ id: 1, user_id: 42, total: 5, status: "new" }]);
+
+      await client.callTool({ name: "create_record", arguments: { table: "orders", data: { user_id: 7, total: 5 } } });
+      expect(mockQuery.mock.calls[0][0].values).toEqual(["42", 5]);
+
+      await client.callTool({
+        name: "upsert_record",
+        arguments: { table: "orders", data: { id: 1, total: 5 }, on_conflict: ["id"] },
+      });
+      expect(mockQuery.mock.calls[1][0].text).toContain('WHERE "public"."orders"."user_id" = $4');
+
+      await client.callTool({ name: "update_record", arguments: { table: "orders", id: "1", data: { status: "paid" } } });
+      expect(mockQuery.mock.calls[2][0].text).toContain('WHERE "id" = $2 AND "user_id" = $3');
+
+      await client.callTool({ name: "delete_record", arguments: { table: "orders", id: "1" } });
+      expect(mockQuery.mock.calls[3][0].text).toContain('WHERE "id" = $1 AND "user_id" = $2');
+    });
+
+    it("denies tables the filters cannot fully pin", async () => {
+      const mockQuery = await setupRowFilterTest([], { public: { user_id: "42", region: "eu" }, "public.users": {} });
+
+      // orders has no region column, audit_logs neither column
+      const listed = await client.callTool({ name: "list_records", arguments: { table: "orders" } });
+      const created = await client.callTool({ name: "create_record", arguments: { table: "audit_logs", data: { event: "x" } } });
+      const shared = await client.callTool({ name: "list_records", arguments: { table: "users" } });
+
+      expect((listed.content as Array<{ text: string }>)[0].text).toBe(
+        'Permission denied: API key does not have read access on table "public.orders"',
+      );
+      expect((created.content as Array<{ text: string }>)[0].text).toBe(
+        'Permission denied: API key does not have create access on table "public.audit_logs"',
+      );
+      expect(shared.isError).toBeFalsy();
+      expect(mockQuery.mock.calls.every(([q]) => q.text.includes('"public"."users"'))).toBe(true);
+    });
+  });
+
+  // ── Database roles ─────────────────────────────────────────────────
+
+  describe("database roles", () => {
+    it("runs every tool call in a transaction as the session", async () => {
+      const mockPool = createMockPool();
+      const mockQuery = getMockQuery(mockPool);
+      mockQuery.mockResolvedValue({ rows: [{ id: 1, name: "Alice" }], rowCount: 1 });
+      const ctx = await setupMcpTest({ pool: mockPool, session: { role: "api_reader", settings: {} } });
+      client = ctx.client;
+      cleanup = () => Promise.all([ctx.client.close(), ctx.mcpServer.close()]).then(() => {});
+
+      await client.callTool({ name: "get_record", arguments: { table: "users", id: "1" } });
+
+      expect(mockQuery.mock.calls.map(([q]) => q)).toEqual([
+        "BEGIN",
+        { text: "SELECT set_config($1, $2, true)", values: ["role", "api_reader"] },
+        expect.objectContaining({ text: expect.stringContaining('FROM "public"."users"') }),
+        "COMMIT",
+      ]);
+    });
+  });
+
+  // ── Function tools ─────────────────────────────────────────────────
+
+  describe("function tools", () => {
+    async function setupRpcTest(
+      permissions: SchemaPermissions | null,
+      pool: Pool = createMockPool(),
+      readPool: Pool = pool,
+      rowFilters?: RowFilters,
+    ) {
+      const mcpServer = createMcpServer({
+        pool,
+        readPool,
+        dbSchema: makeDatabaseSchema([makeUsersTable()], [makeVolatileFunction(), makeSetReturningFunction()]),
+        permissions,
+        rowFilters,
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const testClient = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([mcpServer.connect(serverTransport), testClient.connect(clientTransport)]);
+      cleanup = () => Promise.all([testClient.close(), mcpServer.close()]).then(() => {});
+      client = testClient;
+      return testClient;
+    }
+
+    it("leaves out every function for keys with row filters, even in other schemas", async () => {
+      const testClient = await setupRpcTest({ "*": "rw" }, createMockPool(), undefined, { "public.orders": { user_id: "42" } });
+
+      const { tools } = await testClient.listTools();
+      expect(tools.filter((t) => t.name.startsWith("call_"))).toEqual([]);
+
+      const schema = JSON.parse((await testClient.readResource({ uri: "db://schema" })).contents[0].text as string);
+      expect(schema.functions).toEqual([]);
+    });
+
+    it("leaves out functions of schemas with table or column rules", async () => {
+      const testClient = await setupRpcTest({ "*": "rw", "public.users.email": "-" });
+
+      const { tools } = await testClient.listTools();
+      expect(tools.filter((t) => t.name.startsWith("call_")).map((t) => t.name)).toEqual(["call_reporting__top_customer_ids"]);
+
+      const schema = JSON.parse((await testClient.readResource({ uri: "db://schema" })).contents[0].text as string);
+      expect(schema.functions.map((f: { name: string }) => f.name)).toEqual(["top_customer_ids"]);
+    });
+
+    it("registers a call tool per function in schemas the key can access", async () => {
+      const testClient = await setupRpcTest({ reporting: "r" });
+
+      const { tools } = await testClient.listTools();
+      const callTools = tools.filter((t) => t.name.startsWith("call_"));
+
+      expect(callTools.map((t) => t.name)).toEqual(["call_reporting__top_customer_ids"]);
+      expect(callTools[0].annotations?.readOnlyHint).toBe(true);
+    });
+
+    it("derives argument types from the PostgreSQL types", async () => {
+      const fn = {
+        ...makeSetReturningFunction(),
+        args: [
+          { name: "ratio", dataType: "numeric", udtName: "numeric", hasDefault: false },
+          { name: "active", dataType: "boolean", udtName: "bool", hasDefault: false },
+          { name: "filters", dataType: "jsonb", udtName: "jsonb", hasDefault: false },
+          { name: "ids", dataType: "integer[]", udtName: "_int4", hasDefault: true },
+        ],
+      };
+      const mcpServer = createMcpServer({
+        pool: createMockPool(),
+        readPool: createMockPool(),
+        dbSchema: makeDatabaseSchema([], [fn]),
+        permissions: null,
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const testClient = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([mcpServer.connect(serverTransport), testClient.connect(clientTransport)]);
+      cleanup = () => Promise.all([testClient.close(), mcpServer.close()]).then(() => {});
+
+      const { tools } = await testClient.listTools();
+      const args = (tools.find((t) => t.name === "call_reporting__top_customer_ids")!.inputSchema.properties as any).args;
+
+      expect(args.properties.ratio.type).toEqual(["number", "null"]);
+      expect(args.properties.active.type).toEqual(["boolean", "null"]);
+      expect(args.properties.filters.anyOf[0].type).toBe("object");
+      expect(args.properties.ids.anyOf[0].type).toBe("array");
+      expect(args.required).toEqual(["ratio", "active", "filters"]);
+    });
+
+    it("calls a volatile function on the write pool", async () => {
+      const writePool = createMockPool();
+      const readPool = createMockPool();
+      getMockQuery(writePool).mockResolvedValueOnce({ rows: [{ id: 9, customer_id: 7 }], rowCount: 1 });
+      const testClient = await setupRpcTest(null, writePool, readPool);
+
+      const result = await testClient.callTool({
+        name: "call_public__create_order",
+        arguments: { args: { customer_id: 7, note: "rush" } },
+      });
+
+      expect(result.isError).toBeFalsy();
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+      expect(parsed).toEqual({ data: { id: 9, customer_id: 7 } });
+      expect(getMockQuery(writePool).mock.calls[0][0].values).toEqual([7, "rush"]);
+      expect(getMockQuery(readPool)).not.toHaveBeenCalled();
+    });
+
+    it("offers only functions the key has the access for, as db://schema lists them", async () => {
+      const mockPool = createMockPool();
+      // create_order is volatile and needs write access, top_customer_ids read access
+      const testClient = await setupRpcTest({ public: "r", reporting: "w" }, mockPool);
+
+      const { tools } = await testClient.listTools();
+      expect(tools.filter((t) => t.name.startsWith("call_"))).toEqual([]);
+
+      const schema = JSON.parse((await testClient.readResource({ uri: "db://schema" })).contents[0].text as string);
+      expect(schema.functions).toEqual([]);
+
+      const result = await testClient.callTool({ name: "call_public__create_order", arguments: { args: { customer_id: 7 } } });
+      expect(result.isError).toBe(true);
+      expect(getMockQuery(mockPool)).not.toHaveBeenCalled();
+    });
+
+    it("paginates set-returning functions on the read pool", async () => {
+      const writePool = createMockPool();
+      const readPool = createMockPool();
+      getMockQuery(readPool).mockResolvedValueOnce({ rows: [{ total: "5", data: [3, 4] }], rowCount: 1 });
+      const testClient = await setupRpcTest(null, writePool, readPool);
+
+      const result = await testClient.callTool({
+        name: "call_reporting__top_customer_ids",
+        arguments: { args: { since: "2024-01-01" }, page: 2, pageSize: 2 },
+      });
+
+      const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+      expect(parsed.pagination).toEqual({ page: 2, pageSize: 2, total: 5, totalPages: 3, totalIsEstimate: false });
+      expect(getMockQuery(readPool).mock.calls[0][0].values).toEqual(["2024-01-01", 2, 2]);
+      expect(getMockQuery(writePool)).not.toHaveBeenCalled();
+    });
+
+    it("reports database errors", async () => {
+      const mockPool = createMockPool();
+      getMockQuery(mockPool).mockRejectedValueOnce(Object.assign(new Error("boom"), { code: "P0001" }));
+      const testClient = await setupRpcTest(null, mockPool);
+
+      const result = await testClient.callTool({
+        name: "call_reporting__top_customer_ids",
+        arguments: { args: { since: "2024-01-01" } },
+      });
+
+      expect(result.isError).toBe(true);
+    });
+
+    it("lists only callable functions in the schema resource", async () => {
+      const testClient = await setupRpcTest({ public: "r", reporting: "r" });
+
+      const result = await testClient.readResource({ uri: "db://schema" });
+      const parsed = JSON.parse(result.contents[0].text as string);
+
+      expect(parsed.functions.map((f: { name: string }) => f.name)).toEqual(["top_customer_ids"]);
+    });
+  });
+
   // ── Error handling ─────────────────────────────────────────────────
 
+  describe("schema reload", () => {
+    async function setupReloadTest(rowFilters?: RowFilters) {
+      const mcpServer = createMcpServer({
+        pool: createMockPool(),
+        readPool: createMockPool(),
+        dbSchema: makeDatabaseSchema([makeUsersTable()], [makeVolatileFunction()]),
+        permissions: null,
+        rowFilters,
+      });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const testClient = new Client({ name: "test-client", version: "1.0.0" });
+      await Promise.all([mcpServer.connect(serverTransport), testClient.connect(clientTransport)]);
+      cleanup = () => Promise.all([testClient.close(), mcpServer.close()]).then(() => {});
+      return { mcpServer, testClient };
+    }
+
+    it("serves tables, resources and prompts from the reloaded schema", async () => {
+      const { mcpServer, testClient } = await setupReloadTest();
+
+      reloadMcpServer(mcpServer, makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]));
+
+      const listed = await testClient.callTool({ name: "list_tables", arguments: {} });
+      const { tables } = JSON.parse((listed.content as Array<{ text: string }>)[0].text);
+      expect(tables.map((t: { name: string }) => t.name)).toEqual(["users", "orders"]);
+
+      const described = await testClient.callTool({ name: "describe_table", arguments: { table: "orders" } });
+      expect(described.isError).toBeFalsy();
+
+      const { resources } = await testClient.listResources();
+      expect(resources.map((r) => r.uri)).toContain("db://tables/orders");
+
+      const prompt = await testClient.getPrompt({ name: "crud-guide", arguments: { table: "orders" } });
+      expect((prompt.messages[0].content as { text: string }).text).not.toContain("not found");
+    });
+
+    it("denies reloaded tables the key's row filters cannot pin", async () => {
+      const { mcpServer, testClient } = await setupReloadTest({ public: { id: "1" } });
+
+      reloadMcpServer(mcpServer, makeDatabaseSchema([makeUsersTable(), makeCompositePkTable()]));
+
+      const listed = await testClient.callTool({ name: "list_tables", arguments: {} });
+      const { tables } = JSON.parse((listed.content as Array<{ text: string }>)[0].text);
+      expect(tables.map((t: { name: string }) => t.name)).toEqual(["users"]);
+    });
+
+    it("replaces the function tools", async () => {
+      const { mcpServer, testClient } = await setupReloadTest();
+
+      reloadMcpServer(mcpServer, makeDatabaseSchema([makeUsersTable()], [makeSetReturningFunction()]));
+
+      const { tools } = await testClient.listTools();
+      const callTools = tools.filter((t) => t.name.startsWith("call_")).map((t) => t.name);
+      expect(callTools).toEqual(["call_reporting__top_customer_ids"]);
+    });
+
+    it("notifies the client that tools and resources changed", async () => {
+      const { mcpServer, testClient } = await setupReloadTest();
+      const toolsChanged = vi.fn();
+      const resourcesChanged = vi.fn();
+      testClient.setNotificationHandler(ToolListChangedNotificationSchema, toolsChanged);
+      testClient.setNotificationHandler(ResourceListChangedNotificationSchema, resourcesChanged);
+
+      reloadMcpServer(mcpServer, makeDatabaseSchema([makeUsersTable()]));
+
+      await vi.waitFor(() => {
+        expect(toolsChanged).toHaveBeenCalled();
+        expect(resourcesChanged).toHaveBeenCalled();
+      });
+    });
+  });
+
   describe("error handling", () => {
     it("handles unknown database errors", async () => {
       const mockPool = createMockPool();
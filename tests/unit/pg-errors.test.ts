@@ -68,6 +68,14 @@ describe("handleDbError", () => {
     );
   });
 
+  it("merges context into the response body", () => {
+    const reply = mockReply();
+    handleDbError(makeUniqueViolation(), reply, { operation: 2 });
+    expect(reply.send).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "Conflict", operation: 2 })
+    );
+  });
+
   it("maps unknown PG error code to 500", () => {
     const reply = mockReply();
     handleDbError(makeUnknownPgError(), reply);
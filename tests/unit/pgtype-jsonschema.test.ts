@@ -150,4 +150,37 @@ describe("pgTypeToJsonSchema", () => {
     const result = pgTypeToJsonSchema(col);
     expect(result.maxLength).toBeUndefined();
   });
+
+  // ── Identity and generated columns ──
+  it("marks identity ALWAYS and generated columns readOnly", () => {
+    expect(pgTypeToJsonSchema(makeColumn({ udtName: "int8", identity: "always", isNullable: false }))).toEqual({ type: "integer", readOnly: true });
+    expect(pgTypeToJsonSchema(makeColumn({ udtName: "text", isGenerated: true, isNullable: true }))).toEqual({ type: "string", readOnly: true, nullable: true });
+    expect(pgTypeToJsonSchema(makeColumn({ udtName: "int8", identity: "by_default", isNullable: false }))).toEqual({ type: "integer" });
+  });
+
+  // ── Enums and CHECK constraints ──
+  it("lists enum labels", () => {
+    const col = makeColumn({ udtName: "ticket_status", enumValues: ["open", "closed"], isNullable: false });
+    expect(pgTypeToJsonSchema(col)).toEqual({ type: "string", enum: ["open", "closed"] });
+  });
+
+  it("adds null to the enum of a nullable column", () => {
+    const col = makeColumn({ udtName: "ticket_status", enumValues: ["open", "closed"], isNullable: true });
+    expect(pgTypeToJsonSchema(col)).toEqual({ type: "string", enum: ["open", "closed", null], nullable: true });
+  });
+
+  it("tightens type bounds with CHECK limits but never loosens them", () => {
+    const col = makeColumn({ udtName: "int2", checks: { minimum: -100000, maximum: 10 }, isNullable: false });
+    expect(pgTypeToJsonSchema(col)).toEqual({ type: "integer", minimum: -32768, maximum: 10 });
+  });
+
+  it("combines CHECK lengths and patterns with the declared max length", () => {
+    const col = makeColumn({ udtName: "varchar", maxLength: 10, checks: { minLength: 2, maxLength: 20, pattern: "^[a-z]+$" }, isNullable: false });
+    expect(pgTypeToJsonSchema(col)).toEqual({ type: "string", maxLength: 10, minLength: 2, pattern: "^[a-z]+$" });
+  });
+
+  it("intersects enum labels with a CHECK IN list", () => {
+    const col = makeColumn({ udtName: "ticket_status", enumValues: ["open", "pending", "closed"], checks: { enum: ["open", "closed"] }, isNullable: false });
+    expect(pgTypeToJsonSchema(col).enum).toEqual(["open", "closed"]);
+  });
 });
@@ -1,26 +1,63 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 
 vi.mock("../../src/config.js", () => ({
   config: {
     defaultPageSize: 50,
     maxPageSize: 1000,
     maxBulkInsertRows: 1000,
+    countStrategy: "exact",
+    tableCountStrategies: {},
   },
+  COUNT_STRATEGIES: ["exact", "estimated", "none"],
 }));
 
 import {
   buildSelectQuery,
   buildCountQuery,
+  buildCursorSelectQuery,
+  buildCursorPage,
+  buildEstimatedCountQuery,
+  buildTotalQuery,
+  parseCountResult,
+  resolveCountStrategy,
   buildSelectByPkQuery,
+  buildSelectByKeyQuery,
   buildInsertQuery,
   buildBulkInsertQuery,
   buildUpdateQuery,
   buildDeleteQuery,
+  buildBulkUpdateQuery,
+  buildBulkDeleteQuery,
+  buildRefreshQuery,
+  isReadOnlyColumn,
+  buildRpcQuery,
+  parseRpcResult,
+  functionArgColumns,
   hasSoftDelete,
   hasUpdatedAt,
+  listRelations,
+  listNestedRelations,
+  parseExpand,
+  resolveConflictTarget,
+  listConflictTargets,
+  listUniqueKeyColumns,
+  listIndexedColumns,
 } from "../../src/db/query-builder.js";
-import { makeColumn, makeUsersTable, makeCompositePkTable, makeNoPkTable, makeSoftDeleteTable } from "../fixtures/tables.js";
+import {
+  makeColumn,
+  makeUsersTable,
+  makeCompositePkTable,
+  makeNoPkTable,
+  makeSoftDeleteTable,
+  makeTableWithForeignKeys,
+  makeMaterializedViewTable,
+  makeGeneratedColumnsTable,
+  makeVolatileFunction,
+  makeSetReturningFunction,
+  makeDatabaseSchema,
+} from "../fixtures/tables.js";
 import type { TableInfo } from "../../src/db/introspector.js";
+import { config } from "../../src/config.js";
 
 const users = makeUsersTable();
 const softDeleteTable = makeSoftDeleteTable();
@@ -110,9 +147,13 @@ describe("buildSelectQuery", () => {
     const emptyTable: TableInfo = {
       schema: "public",
       name: "empty",
+      kind: "table",
+      writable: true,
       fqn: '"public"."empty"',
       routePath: "empty",
       primaryKeys: [],
+      uniqueConstraints: [],
+      indexes: [],
       foreignKeys: [],
       columns: [],
     };
@@ -261,6 +302,123 @@ describe("buildSelectQuery", () => {
   });
 });
 
+// ── Filter groups ───────────────────────────────────────────────────
+
+describe("buildSelectQuery filter groups", () => {
+  it("applies an OR group", () => {
+    const result = buildSelectQuery(users, { filterGroups: ["or(name.eq.Alice,email.ilike.%@test.com)"] });
+    expect(result.text).toContain('WHERE ("name" = $1 OR "email" ILIKE $2)');
+    expect(result.values.slice(0, 2)).toEqual(["Alice", "%@test.com"]);
+  });
+
+  it("combines groups with plain filters using AND and continues param numbering", () => {
+    const result = buildSelectQuery(users, {
+      filters: { active: "eq:true" },
+      filterGroups: ["or(name.eq.Alice,name.eq.Bob)"],
+    });
+    expect(result.text).toContain('WHERE "active" = $1 AND ("name" = $2 OR "name" = $3)');
+    expect(result.text).toContain("LIMIT $4 OFFSET $5");
+  });
+
+  it("supports nested groups", () => {
+    const result = buildSelectQuery(users, {
+      filterGroups: ["or(name.eq.Alice,and(active.is.null,id.gt.10))"],
+    });
+    expect(result.text).toContain('("name" = $1 OR ("active" IS NULL AND "id" > $2))');
+    expect(result.values.slice(0, 2)).toEqual(["Alice", "10"]);
+  });
+
+  it("negates conditions and groups with not. prefix", () => {
+    const result = buildSelectQuery(users, {
+      filterGroups: ["not.or(name.eq.Alice,not.id.lt.5)"],
+    });
+    expect(result.text).toContain('NOT ("name" = $1 OR NOT ("id" < $2))');
+  });
+
+  it("accepts a bare condition as an expression", () => {
+    const result = buildSelectQuery(users, { filterGroups: ["not.active.is.notnull"] });
+    expect(result.text).toContain('WHERE NOT ("active" IS NOT NULL)');
+  });
+
+  it("supports parenthesised in-lists with quoted values", () => {
+    const result = buildSelectQuery(users, {
+      filterGroups: ['or(id.in.(1,2,3),name.in.("Smith, J",Doe))'],
+    });
+    expect(result.text).toContain('("id" IN ($1, $2, $3) OR "name" IN ($4, $5))');
+    expect(result.values.slice(0, 5)).toEqual(["1", "2", "3", "Smith, J", "Doe"]);
+  });
+
+  it("unquotes values containing commas, parentheses and escaped quotes", () => {
+    const result = buildSelectQuery(users, {
+      filterGroups: [String.raw`or(name.eq."a,b (c)",name.eq."say \"hi\"")`],
+    });
+    expect(result.values.slice(0, 2)).toEqual(["a,b (c)", 'say "hi"']);
+  });
+
+  it("keeps dots in values", () => {
+    const result = buildSelectQuery(users, { filterGroups: ["and(email.eq.a.b@test.com)"] });
+    expect(result.values[0]).toBe("a.b@test.com");
+  });
+
+  it("applies groups to buildCountQuery with the same WHERE clause", () => {
+    const opts = { filterGroups: ["or(name.eq.Alice,id.eq.5)"] };
+    const selectWhere = buildSelectQuery(users, opts).text.match(/WHERE (.+?) ORDER/)?.[1];
+    const countResult = buildCountQuery(users, opts);
+    expect(countResult.text.match(/WHERE (.+)$/)?.[1]).toBe(selectWhere);
+    expect(countResult.values).toEqual(["Alice", "5"]);
+  });
+
+  it("throws on unknown column in a group", () => {
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(nope.eq.1,id.eq.2)"] }))
+      .toThrow("Filter column 'nope' does not exist");
+  });
+
+  it("throws on unknown operator in a group", () => {
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(id.between.1,id.eq.2)"] }))
+      .toThrow("Unknown filter operator 'between'");
+  });
+
+  it("throws on malformed condition", () => {
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(id,name.eq.x)"] }))
+      .toThrow("Expected column.operator.value");
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(.eq.x)"] }))
+      .toThrow("Expected column.operator.value");
+  });
+
+  it("throws on empty condition", () => {
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(id.eq.1,)"] }))
+      .toThrow("Empty condition");
+  });
+
+  it("throws on unbalanced parentheses or quotes", () => {
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(id.eq.1,and(name.eq.x)"] }))
+      .toThrow("Unbalanced");
+    expect(() => buildSelectQuery(users, { filterGroups: ["or(id.eq.1),id.eq.2)"] }))
+      .toThrow("Unbalanced");
+    expect(() => buildSelectQuery(users, { filterGroups: ['or(name.eq."x,id.eq.1)'] }))
+      .toThrow("Unbalanced");
+  });
+
+  it("requires a parenthesised list for in", () => {
+    expect(() => buildSelectQuery(users, { filterGroups: ["and(id.in.1)"] }))
+      .toThrow("expects a parenthesised list");
+  });
+
+  it("limits in-lists to 100 values", () => {
+    const values = Array.from({ length: 101 }, (_, i) => i).join(",");
+    expect(() => buildSelectQuery(users, { filterGroups: [`and(id.in.(${values}))`] }))
+      .toThrow("IN filter limited to 100 values");
+  });
+
+  it("limits nesting depth", () => {
+    const deep = "and(".repeat(11) + "id.eq.1" + ")".repeat(11);
+    expect(() => buildSelectQuery(users, { filterGroups: [deep] }))
+      .toThrow("nested at most 10 levels");
+    const ok = "and(".repeat(10) + "id.eq.1" + ")".repeat(10);
+    expect(() => buildSelectQuery(users, { filterGroups: [ok] })).not.toThrow();
+  });
+});
+
 // ── buildCountQuery ─────────────────────────────────────────────────
 
 describe("buildCountQuery", () => {
@@ -307,6 +465,422 @@ describe("buildCountQuery", () => {
   });
 });
 
+// ── Count strategies ────────────────────────────────────────────────
+
+describe("resolveCountStrategy", () => {
+  afterEach(() => {
+    config.countStrategy = "exact";
+    config.tableCountStrategies = {};
+  });
+
+  it("uses the global default", () => {
+    expect(resolveCountStrategy(users)).toBe("exact");
+    config.countStrategy = "none";
+    expect(resolveCountStrategy(users)).toBe("none");
+  });
+
+  it("prefers the per-table default over the global default", () => {
+    config.tableCountStrategies = { "public.users": "estimated" };
+    expect(resolveCountStrategy(users)).toBe("estimated");
+    expect(resolveCountStrategy(compositePk)).toBe("exact");
+  });
+
+  it("prefers an explicit valid request and ignores invalid ones", () => {
+    config.tableCountStrategies = { "public.users": "estimated" };
+    expect(resolveCountStrategy(users, "none")).toBe("none");
+    expect(resolveCountStrategy(users, "bogus")).toBe("estimated");
+  });
+});
+
+describe("buildEstimatedCountQuery", () => {
+  it("EXPLAINs the filtered list without a scan", () => {
+    const result = buildEstimatedCountQuery(users, {
+      filters: { active: "eq:true" },
+      filterGroups: ["or(name.eq.A,name.eq.B)"],
+    });
+    expect(result.text).toBe(
+      'EXPLAIN (FORMAT JSON) SELECT 1 FROM "public"."users" WHERE "active" = $1 AND ("name" = $2 OR "name" = $3)'
+    );
+    expect(result.values).toEqual(["true", "A", "B"]);
+  });
+});
+
+describe("buildTotalQuery", () => {
+  it("returns COUNT(*) for exact, EXPLAIN for estimated and null for none", () => {
+    expect(buildTotalQuery(users, {}, "exact")!.text).toContain("SELECT COUNT(*) AS total");
+    expect(buildTotalQuery(users, {}, "estimated")!.text).toContain("EXPLAIN (FORMAT JSON)");
+    expect(buildTotalQuery(users, {}, "none")).toBeNull();
+  });
+});
+
+describe("parseCountResult", () => {
+  it("parses exact counts", () => {
+    expect(parseCountResult("exact", [{ total: "42" }])).toEqual({ total: 42, totalIsEstimate: false });
+  });
+
+  it("reads the planner row estimate", () => {
+    const rows = [{ "QUERY PLAN": [{ Plan: { "Node Type": "Seq Scan", "Plan Rows": 1234.4 } }] }];
+    expect(parseCountResult("estimated", rows)).toEqual({ total: 1234, totalIsEstimate: true });
+  });
+
+  it("clamps negative estimates to zero", () => {
+    const rows = [{ "QUERY PLAN": [{ Plan: { "Plan Rows": -1 } }] }];
+    expect(parseCountResult("estimated", rows)).toEqual({ total: 0, totalIsEstimate: true });
+  });
+
+  it("returns a null total when no estimate is available", () => {
+    expect(parseCountResult("estimated", [{ "QUERY PLAN": [{}] }])).toEqual({ total: null, totalIsEstimate: false });
+    expect(parseCountResult("estimated", undefined)).toEqual({ total: null, totalIsEstimate: false });
+  });
+
+  it("returns a null total for none", () => {
+    expect(parseCountResult("none", undefined)).toEqual({ total: null, totalIsEstimate: false });
+  });
+});
+
+// ── Cursor pagination ───────────────────────────────────────────────
+
+function makeCursor(sort: string[], values: (string | null)[]): string {
+  return Buffer.from(JSON.stringify({ s: sort, v: values })).toString("base64url");
+}
+
+describe("buildCursorSelectQuery", () => {
+  it("starts at the first page with an empty cursor, PK tiebreaker and look-ahead row", () => {
+    const result = buildCursorSelectQuery(users, { cursor: "", pageSize: 10 });
+    expect(result.text).toBe(
+      'SELECT *, "id"::text AS "__cursor_0" FROM "public"."users" ORDER BY "id" ASC LIMIT $1'
+    );
+    expect(result.values).toEqual([11]);
+    expect(result.text).not.toContain("OFFSET");
+  });
+
+  it("appends the primary key to the requested sort using the last sort direction", () => {
+    const result = buildCursorSelectQuery(users, { cursor: "", sortBy: "name", sortOrder: "desc" });
+    expect(result.text).toContain('"name"::text AS "__cursor_0", "id"::text AS "__cursor_1"');
+    expect(result.text).toContain('ORDER BY "name" DESC, "id" DESC');
+  });
+
+  it("appends every composite PK column not already sorted on", () => {
+    const result = buildCursorSelectQuery(compositePk, { cursor: "", sortBy: "role_id" });
+    expect(result.text).toContain('ORDER BY "role_id" ASC, "user_id" ASC');
+  });
+
+  it("keeps hidden cursor columns alongside an explicit select", () => {
+    const result = buildCursorSelectQuery(users, { cursor: "", select: ["email"] });
+    expect(result.text).toContain('SELECT "email", "id"::text AS "__cursor_0"');
+  });
+
+  it("seeks past the cursor for a single ascending key", () => {
+    const cursor = makeCursor(["id:asc"], ["42"]);
+    const result = buildCursorSelectQuery(users, { cursor, pageSize: 5 });
+    expect(result.text).toContain('WHERE ("id" > $1) ORDER BY "id" ASC LIMIT $2');
+    expect(result.values).toEqual(["42", 6]);
+  });
+
+  it("expands multi-column keysets with mixed directions", () => {
+    const cursor = makeCursor(["email:desc", "id:asc"], ["b@test.com", "7"]);
+    const result = buildCursorSelectQuery(users, { cursor, sortBy: "email,id", sortOrder: "desc,asc" });
+    expect(result.text).toContain('WHERE ("email" < $1 OR ("email" = $1 AND "id" > $2))');
+    expect(result.values.slice(0, 2)).toEqual(["b@test.com", "7"]);
+  });
+
+  it("combines the keyset with filters and continues param numbering", () => {
+    const cursor = makeCursor(["id:asc"], ["42"]);
+    const result = buildCursorSelectQuery(users, { cursor, filters: { name: "eq:Alice" } });
+    expect(result.text).toContain('WHERE "name" = $1 AND ("id" > $2)');
+    expect(result.text).toContain("LIMIT $3");
+    expect(result.values).toEqual(["Alice", "42", 51]);
+  });
+
+  it("includes NULLs after non-null values for nullable ascending columns", () => {
+    const cursor = makeCursor(["active:asc", "id:asc"], ["false", "3"]);
+    const result = buildCursorSelectQuery(users, { cursor, sortBy: "active" });
+    expect(result.text).toContain('(("active" > $1 OR "active" IS NULL) OR ("active" = $1 AND "id" > $2))');
+  });
+
+  it("only advances the tiebreaker when an ascending cursor value is NULL", () => {
+    const cursor = makeCursor(["active:asc", "id:asc"], [null, "3"]);
+    const result = buildCursorSelectQuery(users, { cursor, sortBy: "active" });
+    expect(result.text).toContain('WHERE (("active" IS NULL AND "id" > $1))');
+    expect(result.values.slice(0, 1)).toEqual(["3"]);
+  });
+
+  it("moves on to non-null values when a descending cursor value is NULL", () => {
+    const cursor = makeCursor(["active:desc", "id:desc"], [null, "3"]);
+    const result = buildCursorSelectQuery(users, { cursor, sortBy: "active", sortOrder: "desc" });
+    expect(result.text).toContain('WHERE ("active" IS NOT NULL OR ("active" IS NULL AND "id" < $1))');
+  });
+
+  it("matches nothing when no column can advance", () => {
+    const table: TableInfo = {
+      ...users,
+      primaryKeys: ["active"],
+    };
+    const cursor = makeCursor(["active:asc"], [null]);
+    const result = buildCursorSelectQuery(table, { cursor });
+    expect(result.text).toContain("WHERE FALSE");
+  });
+
+  it("throws for tables without a primary key", () => {
+    expect(() => buildCursorSelectQuery(makeNoPkTable(), { cursor: "" }))
+      .toThrow("Cursor pagination requires a primary key");
+  });
+
+  it("throws on malformed cursors", () => {
+    expect(() => buildCursorSelectQuery(users, { cursor: "not-base64-json" })).toThrow("Invalid cursor");
+    const notArray = Buffer.from(JSON.stringify({ s: "id:asc", v: ["1"] })).toString("base64url");
+    expect(() => buildCursorSelectQuery(users, { cursor: notArray })).toThrow("Invalid cursor");
+    const nullJson = Buffer.from("null").toString("base64url");
+    expect(() => buildCursorSelectQuery(users, { cursor: nullJson })).toThrow("Invalid cursor");
+    expect(() => buildCursorSelectQuery(users, { cursor: makeCursor(["id:asc"], ["1", "2"]) }))
+      .toThrow("Invalid cursor");
+    const numeric = Buffer.from(JSON.stringify({ s: ["id:asc"], v: [1] })).toString("base64url");
+    expect(() => buildCursorSelectQuery(users, { cursor: numeric })).toThrow("Invalid cursor");
+  });
+
+  it("rejects a cursor created with a different sort", () => {
+    const cursor = makeCursor(["name:asc", "id:asc"], ["Alice", "1"]);
+    expect(() => buildCursorSelectQuery(users, { cursor, sortBy: "email" }))
+      .toThrow("Cursor does not match the current sortBy/sortOrder");
+  });
+});
+
+describe("buildCursorPage", () => {
+  it("strips cursor columns and reports no more pages when under the page size", () => {
+    const page = buildCursorPage(users, { cursor: "", pageSize: 2 }, [
+      { id: 1, name: "Alice", __cursor_0: "1" },
+    ]);
+    expect(page).toEqual({ data: [{ id: 1, name: "Alice" }], nextCursor: null, hasMore: false });
+  });
+
+  it("trims the look-ahead row and encodes the last row as nextCursor", () => {
+    const page = buildCursorPage(users, { cursor: "", pageSize: 2, sortBy: "name" }, [
+      { id: 1, name: "Alice", __cursor_0: "Alice", __cursor_1: "1" },
+      { id: 2, name: null, __cursor_0: null, __cursor_1: "2" },
+      { id: 3, name: "Carol", __cursor_0: "Carol", __cursor_1: "3" },
+    ]);
+    expect(page.hasMore).toBe(true);
+    expect(page.data).toEqual([{ id: 1, name: "Alice" }, { id: 2, name: null }]);
+    const decoded = JSON.parse(Buffer.from(page.nextCursor!, "base64url").toString("utf8"));
+    expect(decoded).toEqual({ s: ["name:asc", "id:asc"], v: [null, "2"] });
+  });
+
+  it("round-trips nextCursor into the following query", () => {
+    const first = buildCursorPage(users, { cursor: "", pageSize: 1 }, [
+      { id: 10, __cursor_0: "10" },
+      { id: 11, __cursor_0: "11" },
+    ]);
+    const next = buildCursorSelectQuery(users, { cursor: first.nextCursor!, pageSize: 1 });
+    expect(next.text).toContain('WHERE ("id" > $1)');
+    expect(next.values).toEqual(["10", 2]);
+  });
+
+  it("encodes missing cursor values as null", () => {
+    const page = buildCursorPage(users, { cursor: "", pageSize: 1 }, [{ id: 1 }, { id: 2 }]);
+    const decoded = JSON.parse(Buffer.from(page.nextCursor!, "base64url").toString("utf8"));
+    expect(decoded.v).toEqual([null]);
+  });
+});
+
+// ── Embedding (expand=) ─────────────────────────────────────────────
+
+describe("listRelations", () => {
+  const orders = makeTableWithForeignKeys();
+  const { tables } = makeDatabaseSchema([users, orders, compositePk, softDeleteTable]);
+
+  it("names forward relations after the FK column without _id", () => {
+    const relations = listRelations(orders, tables);
+    expect(relations).toHaveLength(1);
+    expect(relations[0]).toMatchObject({ name: "user", kind: "one", columns: [{ local: "user_id", remote: "id" }] });
+    expect(relations[0].table.name).toBe("users");
+  });
+
+  it("names reverse relations after the child route path", () => {
+    const relations = listRelations(users, tables);
+    expect(relations.map((r) => [r.name, r.kind])).toEqual([
+      ["orders", "many"],
+      ["user_roles", "many"],
+      ["posts", "many"],
+    ]);
+    expect(relations[0].columns).toEqual([{ local: "id", remote: "user_id" }]);
+  });
+
+  it("falls back to the referenced table name and disambiguates repeated reverse FKs", () => {
+    const messages: TableInfo = {
+      ...makeNoPkTable(),
+      name: "messages",
+      kind: "table",
+      writable: true,
+      fqn: '"public"."messages"',
+      routePath: "messages",
+      columns: [makeColumn({ name: "sender" }), makeColumn({ name: "recipient" })],
+      foreignKeys: [
+        { constraintName: "messages_sender_fkey", column: "sender", refSchema: "public", refTable: "users", refColumn: "id" },
+        { constraintName: "messages_recipient_fkey", column: "recipient", refSchema: "public", refTable: "users", refColumn: "id" },
+      ],
+    };
+    const all = makeDatabaseSchema([users, messages]).tables;
+
+    expect(listRelations(messages, all).map((r) => r.name)).toEqual(["users"]);
+    expect(listRelations(users, all).map((r) => r.name)).toEqual(["messages_by_sender", "messages_by_recipient"]);
+  });
+
+  it("groups composite foreign keys by constraint", () => {
+    const lines: TableInfo = {
+      ...makeNoPkTable(),
+      name: "grant_log",
+      kind: "table",
+      writable: true,
+      fqn: '"public"."grant_log"',
+      routePath: "grant_log",
+      columns: [makeColumn({ name: "uid" }), makeColumn({ name: "rid" })],
+      foreignKeys: [
+        { constraintName: "grant_log_fkey", column: "uid", refSchema: "public", refTable: "user_roles", refColumn: "user_id" },
+        { constraintName: "grant_log_fkey", column: "rid", refSchema: "public", refTable: "user_roles", refColumn: "role_id" },
+      ],
+    };
+    const all = makeDatabaseSchema([compositePk, lines]).tables;
+
+    expect(listRelations(lines, all)).toEqual([
+      expect.objectContaining({
+        name: "user_roles",
+        columns: [{ local: "uid", remote: "user_id" }, { local: "rid", remote: "role_id" }],
+      }),
+    ]);
+  });
+
+  it("skips FKs to tables outside the schema and names that collide with columns", () => {
+    expect(listRelations(orders, makeDatabaseSchema([orders]).tables)).toEqual([]);
+
+    const shadowed = { ...orders, columns: [...orders.columns, makeColumn({ name: "user" })] };
+    expect(listRelations(shadowed, makeDatabaseSchema([users, shadowed]).tables)).toEqual([]);
+  });
+});
+
+describe("listNestedRelations", () => {
+  it("keeps reverse relations that reference the primary key", () => {
+    const orders = makeTableWithForeignKeys();
+    const { tables } = makeDatabaseSchema([users, orders, compositePk]);
+    expect(listNestedRelations(users, tables).map((r) => r.name)).toEqual(["orders", "user_roles"]);
+    expect(listNestedRelations(orders, tables)).toEqual([]);
+  });
+
+  it("skips relations on non-key columns and tables without a primary key", () => {
+    const byEmail: TableInfo = {
+      ...makeNoPkTable(),
+      columns: [makeColumn({ name: "user_email" })],
+      foreignKeys: [{ constraintName: "audit_logs_user_email_fkey", column: "user_email", refSchema: "public", refTable: "users", refColumn: "email" }],
+    };
+    const noPk = { ...makeNoPkTable(), name: "events", fqn: '"public"."events"', routePath: "events" };
+    const child: TableInfo = {
+      ...makeNoPkTable(),
+      name: "event_tags",
+      kind: "table",
+      writable: true,
+      fqn: '"public"."event_tags"',
+      routePath: "event_tags",
+      foreignKeys: [{ constraintName: "event_tags_event_fkey", column: "event", refSchema: "public", refTable: "events", refColumn: "event" }],
+    };
+    const { tables } = makeDatabaseSchema([users, byEmail, noPk, child]);
+
+    expect(listRelations(users, tables).map((r) => r.name)).toEqual(["audit_logs"]);
+    expect(listNestedRelations(users, tables)).toEqual([]);
+    expect(listNestedRelations(noPk, tables)).toEqual([]);
+  });
+});
+
+describe("parseExpand", () => {
+  const orders = makeTableWithForeignKeys();
+  const { tables } = makeDatabaseSchema([users, orders, softDeleteTable]);
+
+  it("parses relations with optional column selections", () => {
+    const expand = parseExpand(users, tables, "orders(id, total),posts,");
+    expect(expand.map((e) => [e.relation.name, e.select])).toEqual([
+      ["orders", ["id", "total"]],
+      ["posts", undefined],
+    ]);
+  });
+
+  it("treats an empty column list as all columns", () => {
+    expect(parseExpand(orders, tables, "user()")[0].select).toBeUndefined();
+  });
+
+  it("throws for unknown relations", () => {
+    expect(() => parseExpand(users, tables, "comments")).toThrow(
+      "Unknown relation 'comments' for users. Available: orders, posts"
+    );
+    expect(() => parseExpand(makeNoPkTable(), tables, "users")).toThrow("Available: none");
+  });
+
+  it("throws for malformed items and duplicates", () => {
+    expect(() => parseExpand(orders, tables, "user(id)x")).toThrow("Invalid expand item 'user(id)x'");
+    expect(() => parseExpand(orders, tables, "user(id")).toThrow("Unbalanced parentheses or quotes in expand parameter");
+    expect(() => parseExpand(orders, tables, "user,user(id)")).toThrow("Relation 'user' is expanded more than once");
+  });
+});
+
+describe("match conditions", () => {
+  it("applies fixed equality conditions before filters", () => {
+    const result = buildSelectQuery(users, { match: { id: "7" }, filters: { name: "Alice" } });
+    expect(result.text).toBe(
+      'SELECT * FROM "public"."users" WHERE "id" = $1 AND "name" = $2 ORDER BY "id" ASC LIMIT $3 OFFSET $4'
+    );
+    expect(result.values).toEqual(["7", "Alice", 50, 0]);
+    expect(buildCountQuery(users, { match: { id: "7" } }).text).toContain('WHERE "id" = $1');
+  });
+
+  it("rejects unknown match columns", () => {
+    expect(() => buildSelectQuery(users, { match: { nope: 1 } })).toThrow("Filter column 'nope' does not exist");
+  });
+});
+
+describe("expand in select queries", () => {
+  const orders = makeTableWithForeignKeys();
+  const { tables } = makeDatabaseSchema([users, orders, makeNoPkTable()]);
+
+  it("embeds forward relations as a correlated row_to_json subquery", () => {
+    const result = buildSelectQuery(orders, { select: ["id"], expand: parseExpand(orders, tables, "user(id,name)") });
+    expect(result.text).toBe(
+      'SELECT "id", (SELECT row_to_json("_row") FROM (SELECT "id", "name" FROM "public"."users" AS "_rel" ' +
+      'WHERE "_rel"."id" = "public"."orders"."user_id" LIMIT 1) "_row") AS "user" ' +
+      'FROM "public"."orders" ORDER BY "id" ASC LIMIT $1 OFFSET $2'
+    );
+  });
+
+  it("embeds reverse relations as a capped json_agg ordered by primary key", () => {
+    const result = buildSelectByPkQuery(users, { id: 1 }, undefined, parseExpand(users, tables, "orders"));
+    expect(result.text).toBe(
+      'SELECT *, (SELECT COALESCE(json_agg("_row"), \'[]\'::json) FROM (SELECT * FROM "public"."orders" AS "_rel" ' +
+      'WHERE "_rel"."user_id" = "public"."users"."id" ORDER BY "_rel"."id" LIMIT 1000) "_row") AS "orders", ' +
+      '"xmin"::text AS "__version" FROM "public"."users" WHERE "id" = $1 LIMIT 1'
+    );
+    expect(result.values).toEqual([1]);
+  });
+
+  it("omits ORDER BY for related tables without a primary key", () => {
+    const noPk = makeNoPkTable();
+    const logs: TableInfo = {
+      ...noPk,
+      columns: [...noPk.columns, makeColumn({ name: "user_id", udtName: "int4" })],
+      foreignKeys: [{ constraintName: "audit_logs_user_id_fkey", column: "user_id", refSchema: "public", refTable: "users", refColumn: "id" }],
+    };
+    const all = makeDatabaseSchema([users, logs]).tables;
+    const result = buildSelectQuery(users, { expand: parseExpand(users, all, "audit_logs(event)") });
+    expect(result.text).toContain('WHERE "_rel"."user_id" = "public"."users"."id" LIMIT 1000) "_row") AS "audit_logs"');
+  });
+
+  it("validates the embedded column selection", () => {
+    expect(() => buildSelectQuery(orders, { expand: parseExpand(orders, tables, "user(nope)") })).toThrow(
+      "None of the requested columns exist: nope"
+    );
+  });
+
+  it("embeds relations in cursor queries before the cursor columns", () => {
+    const result = buildCursorSelectQuery(orders, { cursor: "", select: ["id"], expand: parseExpand(orders, tables, "user(name)") });
+    expect(result.text).toMatch(/^SELECT "id", \(SELECT row_to_json.* AS "user", "id"::text AS "__cursor_0" FROM "public"."orders"/);
+  });
+});
+
 // ── buildSelectByPkQuery ────────────────────────────────────────────
 
 describe("buildSelectByPkQuery", () => {
@@ -329,6 +903,21 @@ describe("buildSelectByPkQuery", () => {
     expect(result.text).toContain('"name", "email"');
     expect(result.text).not.toContain("SELECT *");
   });
+
+  it("returns the row version for ETags", () => {
+    const result = buildSelectByPkQuery(users, { id: "42" }, ["name"]);
+    expect(result.text).toBe('SELECT "name", "xmin"::text AS "__version" FROM "public"."users" WHERE "id" = $1 LIMIT 1');
+  });
+});
+
+describe("buildSelectByKeyQuery", () => {
+  it("matches the given unique key columns", () => {
+    const result = buildSelectByKeyQuery(users, { email: "a@b.c" }, ["id", "name"]);
+    expect(result).toEqual({
+      text: 'SELECT "id", "name", "xmin"::text AS "__version" FROM "public"."users" WHERE "email" = $1 LIMIT 1',
+      values: ["a@b.c"],
+    });
+  });
 });
 
 // ── buildInsertQuery ────────────────────────────────────────────────
@@ -464,6 +1053,157 @@ describe("buildBulkInsertQuery", () => {
   });
 });
 
+// ── Upsert (ON CONFLICT) ────────────────────────────────────────────
+
+describe("listConflictTargets", () => {
+  it("lists the primary key, unique constraints and plain unique indexes once each", () => {
+    const indexed: TableInfo = {
+      ...users,
+      indexes: [
+        { name: "users_email_idx", columns: ["email"], method: "btree", unique: true, predicate: null },
+        { name: "users_name_idx", columns: ["name"], method: "btree", unique: false, predicate: null },
+        { name: "users_name_active_key", columns: ["name", "active"], method: "btree", unique: true, predicate: null },
+      ],
+    };
+
+    expect(listConflictTargets(indexed)).toEqual([["id"], ["email"], ["name", "active"]]);
+    expect(listConflictTargets(makeNoPkTable())).toEqual([]);
+  });
+});
+
+describe("resolveConflictTarget", () => {
+  it("defaults to the primary key", () => {
+    expect(resolveConflictTarget(users)).toEqual(["id"]);
+    expect(resolveConflictTarget(compositePk, [])).toEqual(["user_id", "role_id"]);
+  });
+
+  it("accepts the primary key or a unique constraint in any order", () => {
+    expect(resolveConflictTarget(users, ["email"])).toEqual(["email"]);
+    expect(resolveConflictTarget(compositePk, ["role_id", "user_id"])).toEqual(["user_id", "role_id"]);
+  });
+
+  it("accepts unique indexes without a predicate", () => {
+    const indexed: TableInfo = {
+      ...users,
+      indexes: [
+        { name: "users_name_active_key", columns: ["name", "active"], method: "btree", unique: true, predicate: null },
+        { name: "users_active_name_key", columns: ["name"], method: "btree", unique: true, predicate: "active" },
+        { name: "users_lower_name_key", columns: ["lower(name)"], method: "btree", unique: true, predicate: null },
+      ],
+    };
+
+    expect(resolveConflictTarget(indexed, ["active", "name"])).toEqual(["name", "active"]);
+    expect(() => resolveConflictTarget(indexed, ["name"])).toThrow(
+      "onConflict columns (name) must match the primary key, a unique constraint or a unique index of users. " +
+      "Available: (id), (email), (name,active)"
+    );
+  });
+
+  it("rejects other columns", () => {
+    expect(() => resolveConflictTarget(users, ["name"])).toThrow(
+      "onConflict columns (name) must match the primary key, a unique constraint or a unique index of users. " +
+      "Available: (id), (email)"
+    );
+    expect(() => resolveConflictTarget(users, ["id", "email"])).toThrow("must match");
+    expect(() => resolveConflictTarget(makeNoPkTable(), ["event"])).toThrow("Available: none");
+  });
+
+  it("requires explicit columns for tables without a primary key", () => {
+    expect(() => resolveConflictTarget(makeNoPkTable())).toThrow(
+      "audit_logs has no primary key; specify onConflict columns of a unique constraint"
+    );
+  });
+});
+
+// ── Unique keys and indexes ─────────────────────────────────────────
+
+describe("listUniqueKeyColumns", () => {
+  const index = (name: string, columns: string[], extra: Partial<TableInfo["indexes"][number]> = {}) =>
+    ({ name, columns, method: "btree", unique: true, predicate: null, ...extra });
+
+  it("lists single-column unique constraints other than the primary key", () => {
+    expect(listUniqueKeyColumns(users)).toEqual(["email"]);
+    expect(listUniqueKeyColumns({ ...users, uniqueConstraints: [{ name: "users_id_key", columns: ["id"] }] })).toEqual([]);
+    expect(listUniqueKeyColumns(compositePk)).toEqual([]);
+  });
+
+  it("adds unique indexes on plain columns and skips partial, composite and expression ones", () => {
+    const table = {
+      ...users,
+      indexes: [
+        index("users_name_key", ["name"]),
+        index("users_email_idx", ["email"]),
+        index("users_active_key", ["active"], { predicate: "(active IS TRUE)" }),
+        index("users_name_active_key", ["name", "active"]),
+        index("users_lower_email_key", ["lower((email)::text)"]),
+        index("users_name_idx", ["name"], { unique: false }),
+      ],
+    };
+    expect(listUniqueKeyColumns(table)).toEqual(["email", "name"]);
+  });
+});
+
+describe("listIndexedColumns", () => {
+  it("lists leading columns of keys and indexes, sortable only through btree", () => {
+    const table = {
+      ...users,
+      indexes: [
+        { name: "users_name_active_idx", columns: ["name", "active"], method: "btree", unique: false, predicate: null },
+        { name: "users_active_hash", columns: ["active"], method: "hash", unique: false, predicate: null },
+        { name: "users_partial_idx", columns: ["created_at"], method: "btree", unique: false, predicate: "(active)" },
+        { name: "users_lower_email_idx", columns: ["lower((email)::text)"], method: "btree", unique: false, predicate: null },
+      ],
+    };
+    expect(listIndexedColumns(table)).toEqual({
+      filterable: ["id", "email", "name", "active"],
+      sortable: ["id", "email", "name"],
+    });
+  });
+
+  it("is empty for a table without keys or indexes", () => {
+    expect(listIndexedColumns(makeNoPkTable())).toEqual({ filterable: [], sortable: [] });
+  });
+});
+
+describe("upsert inserts", () => {
+  it("updates the non-target columns on conflict", () => {
+    const result = buildInsertQuery(users, { email: "a@b.com", name: "Alice" }, { conflictColumns: ["email"], action: "update" });
+    expect(result.text).toBe(
+      'INSERT INTO "public"."users" ("name", "email") VALUES ($1, $2) ' +
+      'ON CONFLICT ("email") DO UPDATE SET "name" = EXCLUDED."name" RETURNING *'
+    );
+  });
+
+  it("includes the auto updated_at in the update set", () => {
+    const result = buildInsertQuery(softDeleteTable, { id: 1, title: "T" }, { conflictColumns: ["id"], action: "update" });
+    expect(result.text).toContain(
+      'ON CONFLICT ("id") DO UPDATE SET "title" = EXCLUDED."title", "updated_at" = EXCLUDED."updated_at" RETURNING *'
+    );
+  });
+
+  it("re-assigns the target when only target columns are inserted", () => {
+    const result = buildInsertQuery(users, { id: 1 }, { conflictColumns: ["id"], action: "update" });
+    expect(result.text).toContain('ON CONFLICT ("id") DO UPDATE SET "id" = EXCLUDED."id" RETURNING *');
+  });
+
+  it("does nothing on conflict in ignore mode", () => {
+    const result = buildInsertQuery(users, { id: 1, name: "A" }, { conflictColumns: ["id"], action: "ignore" });
+    expect(result.text).toBe('INSERT INTO "public"."users" ("id", "name") VALUES ($1, $2) ON CONFLICT ("id") DO NOTHING RETURNING *');
+  });
+
+  it("applies to bulk inserts", () => {
+    const result = buildBulkInsertQuery(
+      compositePk,
+      [{ user_id: 1, role_id: 2, granted_at: "2024-01-01" }, { user_id: 1, role_id: 3 }],
+      { conflictColumns: ["user_id", "role_id"], action: "update" },
+    );
+    expect(result.text).toBe(
+      'INSERT INTO "public"."user_roles" ("user_id", "role_id", "granted_at") VALUES ($1, $2, $3), ($4, $5, $6) ' +
+      'ON CONFLICT ("user_id", "role_id") DO UPDATE SET "granted_at" = EXCLUDED."granted_at" RETURNING *'
+    );
+  });
+});
+
 // ── buildUpdateQuery ────────────────────────────────────────────────
 
 describe("buildUpdateQuery", () => {
@@ -533,6 +1273,33 @@ describe("buildUpdateQuery", () => {
 
 // ── buildDeleteQuery ────────────────────────────────────────────────
 
+describe("conditional updates and deletes", () => {
+  it("returns the new row version from updates", () => {
+    const result = buildUpdateQuery(users, { id: "42" }, { name: "Bob" });
+    expect(result.text).toBe('UPDATE "public"."users" SET "name" = $1 WHERE "id" = $2 RETURNING *, "xmin"::text AS "__version"');
+  });
+
+  it("only updates while the row version matches", () => {
+    const result = buildUpdateQuery(compositePk, { user_id: "1", role_id: "2" }, { granted_at: "2025-01-01" }, ["77", "78"]);
+    expect(result.text).toBe(
+      'UPDATE "public"."user_roles" SET "granted_at" = $1 WHERE "user_id" = $2 AND "role_id" = $3 AND "xmin"::text = ANY($4) ' +
+      'RETURNING *, "xmin"::text AS "__version"'
+    );
+    expect(result.values).toEqual(["2025-01-01", "1", "2", ["77", "78"]]);
+  });
+
+  it("only deletes while the row version matches", () => {
+    expect(buildDeleteQuery(users, { id: "42" }, ["77"]).text).toBe(
+      'DELETE FROM "public"."users" WHERE "id" = $1 AND "xmin"::text = ANY($2) RETURNING *, "xmin"::text AS "__version"'
+    );
+    const soft = buildDeleteQuery(softDeleteTable, { id: "5" }, []);
+    expect(soft.text).toContain('WHERE "id" = $1 AND "xmin"::text = ANY($2) RETURNING *');
+    expect(soft.values).toEqual(["5", []]);
+  });
+});
+
+// ── buildDeleteQuery (soft/hard) ─────────────────────────────────────
+
 describe("buildDeleteQuery", () => {
   it("generates DELETE for single PK", () => {
     const result = buildDeleteQuery(users, { id: "42" });
@@ -564,9 +1331,13 @@ describe("buildDeleteQuery", () => {
     const softOnlyTable: TableInfo = {
       schema: "public",
       name: "events",
+      kind: "table",
+      writable: true,
       fqn: '"public"."events"',
       routePath: "events",
       primaryKeys: ["id"],
+      uniqueConstraints: [],
+      indexes: [],
       foreignKeys: [],
       columns: [
         makeColumn({ name: "id", dataType: "integer", udtName: "int4", hasDefault: true, ordinalPosition: 1 }),
@@ -587,6 +1358,253 @@ describe("buildDeleteQuery", () => {
   });
 });
 
+// ── Bulk update / delete ───────────────────────────────────────────
+
+describe("buildBulkUpdateQuery", () => {
+  it("numbers filter params after the SET values", () => {
+    const result = buildBulkUpdateQuery(
+      users,
+      { filters: { active: "eq:false" }, filterGroups: ["or(name.eq.a,name.eq.b)"] },
+      { name: "Archived", email: "x@y.z" },
+    );
+    expect(result.text).toBe(
+      'UPDATE "public"."users" SET "name" = $1, "email" = $2 WHERE "active" = $3 AND ("name" = $4 OR "name" = $5) RETURNING *'
+    );
+    expect(result.values).toEqual(["Archived", "x@y.z", "false", "a", "b"]);
+  });
+
+  it("auto-sets updated_at and never updates the primary key", () => {
+    const result = buildBulkUpdateQuery(softDeleteTable, { filters: { user_id: "eq:1" } }, { id: 9, title: "T" });
+    expect(result.text).toBe('UPDATE "public"."posts" SET "title" = $1, "updated_at" = NOW() WHERE "user_id" = $2 RETURNING *');
+  });
+
+  it("refuses to run without a filter", () => {
+    expect(() => buildBulkUpdateQuery(users, {}, { name: "x" })).toThrow(
+      "Bulk update requires at least one filter (filter.{column}=... or an or=/and= group); refusing to update every row of users"
+    );
+  });
+
+  it("throws when no updatable columns are given", () => {
+    expect(() => buildBulkUpdateQuery(users, { filters: { id: "eq:1" } }, { id: 2 })).toThrow("No valid columns provided for update");
+  });
+});
+
+describe("buildBulkDeleteQuery", () => {
+  it("deletes rows matching the filter", () => {
+    const result = buildBulkDeleteQuery(makeNoPkTable(), { filters: { event: "in:a,b" } });
+    expect(result.text).toBe('DELETE FROM "public"."audit_logs" WHERE "event" IN ($1, $2) RETURNING *');
+    expect(result.values).toEqual(["a", "b"]);
+  });
+
+  it("soft-deletes when the table has deleted_at", () => {
+    const result = buildBulkDeleteQuery(softDeleteTable, { filterGroups: ["not.and(user_id.eq.1)"] });
+    expect(result.text).toBe(
+      'UPDATE "public"."posts" SET "deleted_at" = NOW(), "updated_at" = NOW() WHERE NOT ("user_id" = $1) RETURNING *'
+    );
+  });
+
+  it("refuses to run without a filter", () => {
+    expect(() => buildBulkDeleteQuery(users, { filters: undefined, filterGroups: [] })).toThrow("refusing to delete every row of users");
+  });
+});
+
+// ── Row filters ────────────────────────────────────────────────────
+
+describe("row filters", () => {
+  const posts: TableInfo = { ...softDeleteTable, rowFilter: { user_id: "42" } };
+  const orders: TableInfo = { ...makeTableWithForeignKeys(), rowFilter: { user_id: "42" } };
+
+  it("limits list, count and cursor queries before other conditions", () => {
+    const result = buildSelectQuery(posts, { match: { id: "7" }, filters: { title: "T" } });
+    expect(result.text).toBe(
+      'SELECT * FROM "public"."posts" WHERE "user_id" = $1 AND "id" = $2 AND "title" = $3 ORDER BY "id" ASC LIMIT $4 OFFSET $5'
+    );
+    expect(result.values).toEqual(["42", "7", "T", 50, 0]);
+    expect(buildCountQuery(posts, {}).text).toBe('SELECT COUNT(*) AS total FROM "public"."posts" WHERE "user_id" = $1');
+    expect(buildCursorSelectQuery(posts, { cursor: "" }).text).toContain('WHERE "user_id" = $1 ORDER BY');
+  });
+
+  it("limits embedded rows, binding their values after the WHERE values", () => {
+    const tables = makeDatabaseSchema([users, orders]).tables;
+    const result = buildSelectQuery(users, { filters: { id: "1" }, expand: parseExpand(users, tables, "orders(id)") });
+    expect(result.text).toContain('WHERE "_rel"."user_id" = "public"."users"."id" AND "_rel"."user_id" = $2 ORDER BY');
+    expect(result.values).toEqual(["1", "42", 50, 0]);
+
+    const one = buildSelectByKeyQuery(users, { email: "a@b.c" }, undefined, parseExpand(users, tables, "orders"));
+    expect(one.values).toEqual(["a@b.c", "42"]);
+  });
+
+  it("limits lookups, updates and deletes by key", () => {
+    expect(buildSelectByPkQuery(posts, { id: 1 }).text).toContain('WHERE "id" = $1 AND "user_id" = $2 LIMIT 1');
+
+    const update = buildUpdateQuery(posts, { id: 1 }, { title: "T", user_id: 7 }, ['"5"']);
+    expect(update.text).toBe(
+      'UPDATE "public"."posts" SET "title" = $1, "updated_at" = NOW() WHERE "id" = $2 AND "user_id" = $3 AND "xmin"::text = ANY($4) ' +
+      'RETURNING *, "xmin"::text AS "__version"'
+    );
+    expect(update.values).toEqual(["T", 1, "42", ['"5"']]);
+
+    const del = buildDeleteQuery(posts, { id: 1 });
+    expect(del.text).toContain('WHERE "id" = $1 AND "user_id" = $2');
+    expect(del.values).toEqual([1, "42"]);
+  });
+
+  it("never updates filtered columns", () => {
+    expect(() => buildUpdateQuery(posts, { id: 1 }, { user_id: 7 })).toThrow("No valid columns provided for update");
+  });
+
+  it("forces the filter values onto inserted rows", () => {
+    const result = buildInsertQuery(orders, { user_id: 7, total: 5 });
+    expect(result.text).toBe('INSERT INTO "public"."orders" ("user_id", "total") VALUES ($1, $2) RETURNING *');
+    expect(result.values).toEqual(["42", 5]);
+
+    const bulk = buildBulkInsertQuery(orders, [{ total: 5 }, { total: 6, user_id: 7 }]);
+    expect(bulk.text).toBe('INSERT INTO "public"."orders" ("total", "user_id") VALUES ($1, $2), ($3, $4) RETURNING *');
+    expect(bulk.values).toEqual([5, "42", 6, "42"]);
+  });
+
+  it("leaves existing rows outside the filter alone on upsert", () => {
+    const upsert = { conflictColumns: ["id"], action: "update" as const };
+    const result = buildInsertQuery(orders, { id: 1, total: 5 }, upsert);
+    expect(result.text).toBe(
+      'INSERT INTO "public"."orders" ("id", "user_id", "total") VALUES ($1, $2, $3) ' +
+      'ON CONFLICT ("id") DO UPDATE SET "user_id" = EXCLUDED."user_id", "total" = EXCLUDED."total" ' +
+      'WHERE "public"."orders"."user_id" = $4 RETURNING *'
+    );
+    expect(result.values).toEqual([1, "42", 5, "42"]);
+
+    const bulk = buildBulkInsertQuery(orders, [{ id: 1, total: 5 }], upsert);
+    expect(bulk.text).toContain('WHERE "public"."orders"."user_id" = $4 RETURNING *');
+    expect(bulk.values).toEqual([1, 5, "42", "42"]);
+  });
+
+  it("limits bulk updates and deletes, but does not count as their filter", () => {
+    const update = buildBulkUpdateQuery(posts, { filters: { title: "eq:T" } }, { title: "U" }, posts);
+    expect(update.text).toBe(
+      'UPDATE "public"."posts" SET "title" = $1, "updated_at" = NOW() WHERE "user_id" = $2 AND "title" = $3 RETURNING *'
+    );
+    expect(buildBulkDeleteQuery(posts, { filters: { title: "eq:T" } }).values).toEqual(["42", "T"]);
+    expect(() => buildBulkDeleteQuery(posts, {})).toThrow("refusing to delete every row of posts");
+  });
+});
+
+// ── buildRefreshQuery ──────────────────────────────────────────────
+
+describe("buildRefreshQuery", () => {
+  it("refreshes a materialized view, optionally concurrently", () => {
+    const view = makeMaterializedViewTable();
+    expect(buildRefreshQuery(view)).toEqual({ text: 'REFRESH MATERIALIZED VIEW "public"."order_totals"', values: [] });
+    expect(buildRefreshQuery(view, true).text).toBe('REFRESH MATERIALIZED VIEW CONCURRENTLY "public"."order_totals"');
+  });
+
+  it("rejects anything else", () => {
+    expect(() => buildRefreshQuery(users)).toThrow("users is not a materialized view");
+  });
+});
+
+// ── Identity and generated columns ─────────────────────────────────
+
+describe("identity and generated columns", () => {
+  const invoices = makeGeneratedColumnsTable();
+
+  it("treats identity ALWAYS and generated columns as read-only", () => {
+    expect(invoices.columns.map(isReadOnlyColumn)).toEqual([true, false, false, true]);
+  });
+
+  it("drops read-only columns from inserts", () => {
+    expect(buildInsertQuery(invoices, { id: 1, number: 1001, subtotal: 10, total: 12 })).toEqual({
+      text: 'INSERT INTO "public"."invoices" ("number", "subtotal") VALUES ($1, $2) RETURNING *',
+      values: [1001, 10],
+    });
+    expect(() => buildInsertQuery(invoices, { total: 12 })).toThrow("No valid columns provided for insert");
+  });
+
+  it("drops read-only columns from bulk inserts", () => {
+    const query = buildBulkInsertQuery(invoices, [{ subtotal: 10, total: 12 }, { id: 5, subtotal: 20 }]);
+    expect(query.text).toBe('INSERT INTO "public"."invoices" ("subtotal") VALUES ($1), ($2) RETURNING *');
+    expect(query.values).toEqual([10, 20]);
+  });
+
+  it("drops read-only columns from updates", () => {
+    expect(buildUpdateQuery(invoices, { id: 1 }, { subtotal: 15, total: 99 }).text)
+      .toMatch(/^UPDATE "public"."invoices" SET "subtotal" = \$1 WHERE "id" = \$2/);
+    expect(() => buildBulkUpdateQuery(invoices, { filters: { id: "eq:1" } }, { total: 99 }))
+      .toThrow("No valid columns provided for update");
+  });
+});
+
+// ── buildRpcQuery / parseRpcResult ─────────────────────────────────
+
+describe("buildRpcQuery", () => {
+  const createOrder = makeVolatileFunction();
+  const topIds = makeSetReturningFunction();
+
+  it("calls a row-returning function with named, cast arguments", () => {
+    expect(buildRpcQuery(createOrder, { customer_id: 7, note: "rush" })).toEqual({
+      text: 'SELECT * FROM "public"."create_order"("customer_id" => $1::integer, "note" => $2::text)',
+      values: [7, "rush"],
+    });
+  });
+
+  it("leaves omitted arguments to their defaults but passes explicit nulls", () => {
+    expect(buildRpcQuery(createOrder, { customer_id: 7 }).text).toBe(
+      'SELECT * FROM "public"."create_order"("customer_id" => $1::integer)',
+    );
+    expect(buildRpcQuery(createOrder, { customer_id: 7, note: null }).values).toEqual([7, null]);
+  });
+
+  it("selects a scalar result as a single column", () => {
+    const fn = { ...createOrder, returnsRow: false, returnType: "int4", args: [] };
+    expect(buildRpcQuery(fn, {})).toEqual({ text: 'SELECT "public"."create_order"() AS "result"', values: [] });
+  });
+
+  it("pages a set-returning scalar function and counts its total in one statement", () => {
+    expect(buildRpcQuery(topIds, { since: "2024-01-01" }, { page: 3, pageSize: 10 })).toEqual({
+      text:
+        'WITH "_rpc" AS (SELECT * FROM "reporting"."top_customer_ids"("since" => $1::date) AS "_rpc"("value")) ' +
+        'SELECT (SELECT COUNT(*) FROM "_rpc") AS "total", ' +
+        'COALESCE((SELECT json_agg("_page"."value") FROM (SELECT * FROM "_rpc" LIMIT $2 OFFSET $3) AS "_page"), \'[]\') AS "data"',
+      values: ["2024-01-01", 10, 20],
+    });
+  });
+
+  it("aggregates whole rows for set-returning row functions, defaulting to the first page", () => {
+    const fn = { ...topIds, returnsRow: true, returnType: "customers" };
+    const query = buildRpcQuery(fn, { since: "2024-01-01" });
+    expect(query.text).toContain('FROM "reporting"."top_customer_ids"("since" => $1::date))');
+    expect(query.text).toContain('json_agg("_page")');
+    expect(query.values).toEqual(["2024-01-01", 50, 0]);
+  });
+});
+
+describe("parseRpcResult", () => {
+  it("returns the row or scalar of a single-valued function", () => {
+    const fn = makeVolatileFunction();
+    expect(parseRpcResult(fn, [{ id: 1, customer_id: 7 }])).toEqual({ data: { id: 1, customer_id: 7 } });
+    expect(parseRpcResult({ ...fn, returnsRow: false }, [{ result: 42 }])).toEqual({ data: 42 });
+  });
+
+  it("wraps set results in the list pagination envelope", () => {
+    const fn = makeSetReturningFunction();
+    expect(parseRpcResult(fn, [{ total: "21", data: [1, 2] }], { page: 2, pageSize: 10 })).toEqual({
+      data: [1, 2],
+      pagination: { page: 2, pageSize: 10, total: 21, totalPages: 3, totalIsEstimate: false },
+    });
+    expect(parseRpcResult(fn, [{ total: "0", data: [] }]).pagination).toEqual({
+      page: 1, pageSize: 50, total: 0, totalPages: 0, totalIsEstimate: false,
+    });
+  });
+});
+
+describe("functionArgColumns", () => {
+  it("maps arguments to nullable columns in declaration order", () => {
+    expect(functionArgColumns(makeVolatileFunction())).toEqual([
+      { name: "customer_id", dataType: "integer", udtName: "int4", isNullable: true, hasDefault: false, defaultValue: null, maxLength: null, ordinalPosition: 1 },
+      { name: "note", dataType: "text", udtName: "text", isNullable: true, hasDefault: true, defaultValue: null, maxLength: null, ordinalPosition: 2 },
+    ]);
+  });
+});
+
 // ── hasSoftDelete ──────────────────────────────────────────────────
 
 describe("hasSoftDelete", () => {
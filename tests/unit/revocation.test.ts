@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Pool } from "pg";
+import { createRevocationList, parseRevocationFile, RevocationList } from "../../src/auth/revocation.js";
+
+function makePool(rows: unknown[] = []) {
+  return { query: vi.fn().mockResolvedValue({ rows }) } as unknown as Pool & { query: ReturnType<typeof vi.fn> };
+}
+
+describe("parseRevocationFile", () => {
+  it("reads one entry per line, skipping blank lines and comments", () => {
+    const text = "# revoked keys\nold-service\n\n  0123456789abcdef  # leaked 2026-01-02\n   \n";
+    expect(parseRevocationFile(text)).toEqual(["old-service", "0123456789abcdef"]);
+  });
+});
+
+describe("createRevocationList", () => {
+  let dir: string;
+  let list: RevocationList | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "pgcrud-revocations-"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    list?.stop();
+    list = undefined;
+    rmSync(dir, { recursive: true, force: true });
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("revokes nothing until loaded", () => {
+    const file = join(dir, "revoked.txt");
+    writeFileSync(file, "svc\n");
+    list = createRevocationList({ file });
+    expect(list.isRevoked("svc", "0123456789abcdef")).toBe(false);
+  });
+
+  it("matches labels and fingerprints from a file", async () => {
+    const file = join(dir, "revoked.txt");
+    writeFileSync(file, "svc\n0123456789abcdef\n");
+    list = createRevocationList({ file });
+
+    expect(await list.reload()).toEqual({ revoked: 2 });
+    expect(list.isRevoked("svc", "ffffffffffffffff")).toBe(true);
+    expect(list.isRevoked("other", "0123456789abcdef")).toBe(true);
+    expect(list.isRevoked("other", "ffffffffffffffff")).toBe(false);
+  });
+
+  it("reads the entry column of a quoted table, skipping nulls", async () => {
+    const pool = makePool([{ entry: " svc " }, { entry: null }, { entry: "0123456789abcdef" }]);
+    list = createRevocationList({ table: 'auth.revoked "keys"', pool });
+
+    expect(await list.reload()).toEqual({ revoked: 2 });
+    expect(pool.query).toHaveBeenCalledWith('SELECT entry FROM "auth"."revoked ""keys"""');
+    expect(list.isRevoked("svc", "ffffffffffffffff")).toBe(true);
+  });
+
+  it("combines a file and a table", async () => {
+    const file = join(dir, "revoked.txt");
+    writeFileSync(file, "from-file\nshared\n");
+    list = createRevocationList({ file, table: "revoked_keys", pool: makePool([{ entry: "shared" }, { entry: "from-table" }]) });
+
+    expect(await list.reload()).toEqual({ revoked: 3 });
+    expect(list.isRevoked("from-table", "")).toBe(true);
+  });
+
+  it("replaces the list on reload, so removed entries are no longer revoked", async () => {
+    const file = join(dir, "revoked.txt");
+    writeFileSync(file, "svc\n");
+    list = createRevocationList({ file });
+    await list.reload();
+
+    writeFileSync(file, "# nothing revoked\n");
+    expect(await list.reload()).toEqual({ revoked: 0 });
+    expect(list.isRevoked("svc", "")).toBe(false);
+  });
+
+  it("keeps the previous list when a reload fails", async () => {
+    const file = join(dir, "revoked.txt");
+    writeFileSync(file, "svc\n");
+    list = createRevocationList({ file });
+    await list.reload();
+
+    rmSync(file);
+    await expect(list.reload()).rejects.toThrow(/ENOENT/);
+    expect(list.isRevoked("svc", "")).toBe(true);
+  });
+
+  describe("poll", () => {
+    it("reloads on every interval", async () => {
+      vi.useFakeTimers();
+      const pool = makePool([{ entry: "svc" }]);
+      list = createRevocationList({ table: "revoked_keys", pool });
+
+      list.poll(60);
+      await vi.advanceTimersByTimeAsync(59_000);
+      expect(list.isRevoked("svc", "")).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(list.isRevoked("svc", "")).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(pool.query).toHaveBeenCalledTimes(2);
+    });
+
+    it("logs failures instead of throwing", async () => {
+      vi.useFakeTimers();
+      const pool = makePool();
+      pool.query.mockRejectedValue(new Error("relation \"revoked_keys\" does not exist"));
+      list = createRevocationList({ table: "revoked_keys", pool });
+
+      list.poll(10);
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(console.error).toHaveBeenCalledWith(
+        "❌ Revocation list reload failed:",
+        "relation \"revoked_keys\" does not exist",
+      );
+    });
+
+    it("stops polling", async () => {
+      vi.useFakeTimers();
+      const pool = makePool();
+      list = createRevocationList({ table: "revoked_keys", pool });
+
+      list.poll(10);
+      list.stop();
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it("can be stopped without polling", () => {
+      list = createRevocationList({});
+      expect(() => list!.stop()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import type { TableInfo } from "../../src/db/introspector.js";
+import { computeDatabaseHash } from "../../src/db/introspector.js";
+import {
+  diffSchemas,
+  describeChange,
+  exportSchemaSnapshot,
+  importSchemaSnapshot,
+  SchemaChange,
+} from "../../src/db/schema-diff.js";
+import {
+  makeColumn,
+  makeUsersTable,
+  makeTableWithForeignKeys,
+  makeNonPublicSchemaTable,
+  makeViewTable,
+  makeVolatileFunction,
+  makeDatabaseSchema,
+} from "../fixtures/tables.js";
+
+/** Diff users against a modified copy of it */
+function diffUsers(modify: (table: TableInfo) => TableInfo) {
+  return diffSchemas(makeDatabaseSchema([makeUsersTable()]), makeDatabaseSchema([modify(makeUsersTable())]));
+}
+
+function withColumn(table: TableInfo, name: string, overrides: Parameters<typeof makeColumn>[0]): TableInfo {
+  return { ...table, columns: table.columns.map((c) => (c.name === name ? { ...c, ...overrides } : c)) };
+}
+
+describe("diffSchemas", () => {
+  it("reports no changes for identical schemas", () => {
+    const diff = diffSchemas(makeDatabaseSchema([makeUsersTable()]), makeDatabaseSchema([makeUsersTable()]));
+
+    expect(diff).toEqual({
+      fromHash: diff.toHash,
+      toHash: computeDatabaseHash(makeDatabaseSchema([makeUsersTable()])),
+      changed: false,
+      breaking: false,
+      changes: [],
+    });
+  });
+
+  it("reports added and removed tables", () => {
+    const diff = diffSchemas(
+      makeDatabaseSchema([makeUsersTable(), makeNonPublicSchemaTable()]),
+      makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]),
+    );
+
+    expect(diff.changes).toEqual([
+      { kind: "table_added", table: "public.orders", breaking: false },
+      { kind: "table_removed", table: "reporting.metrics", breaking: true },
+    ]);
+    expect(diff.changed).toBe(true);
+    expect(diff.breaking).toBe(true);
+  });
+
+  it("flags a new column as breaking only when inserts must now supply it", () => {
+    const diff = diffUsers((t) => ({
+      ...t,
+      columns: [
+        ...t.columns,
+        makeColumn({ name: "nickname", isNullable: true, maxLength: 50 }),
+        makeColumn({ name: "tenant_id", dataType: "integer", udtName: "int4" }),
+        makeColumn({ name: "seq", dataType: "bigint", udtName: "int8", identity: "always" }),
+        makeColumn({ name: "slug", dataType: "text", udtName: "text", isGenerated: true }),
+      ],
+    }));
+
+    expect(diff.changes).toEqual([
+      { kind: "column_added", table: "public.users", column: "nickname", to: "character varying(50)", breaking: false },
+      { kind: "column_added", table: "public.users", column: "tenant_id", to: "integer", breaking: true },
+      { kind: "column_added", table: "public.users", column: "seq", to: "bigint", breaking: false },
+      { kind: "column_added", table: "public.users", column: "slug", to: "text", breaking: false },
+    ]);
+  });
+
+  it("does not flag required columns added to read-only relations", () => {
+    const view = makeViewTable();
+    const diff = diffSchemas(
+      makeDatabaseSchema([view]),
+      makeDatabaseSchema([{ ...view, columns: [...view.columns, makeColumn({ name: "score", dataType: "integer", udtName: "int4" })] }]),
+    );
+
+    expect(diff.changes).toEqual([
+      { kind: "column_added", table: "public.active_users", column: "score", to: "integer", breaking: false },
+    ]);
+  });
+
+  it("reports removed columns as breaking", () => {
+    const diff = diffUsers((t) => ({ ...t, columns: t.columns.filter((c) => c.name !== "active") }));
+
+    expect(diff.changes).toEqual([
+      { kind: "column_removed", table: "public.users", column: "active", from: "boolean", breaking: true },
+    ]);
+  });
+
+  it("reports type changes, treating a longer or removed length limit as compatible", () => {
+    const diff = diffUsers((t) => withColumn(
+      withColumn(withColumn(t, "id", { dataType: "bigint", udtName: "int8" }), "name", { maxLength: 500 }),
+      "email",
+      { maxLength: null },
+    ));
+
+    expect(diff.changes).toEqual([
+      { kind: "column_type_changed", table: "public.users", column: "id", from: "integer", to: "bigint", breaking: true },
+      { kind: "column_type_changed", table: "public.users", column: "name", from: "character varying(255)", to: "character varying(500)", breaking: false },
+      { kind: "column_type_changed", table: "public.users", column: "email", from: "character varying(255)", to: "character varying", breaking: false },
+    ]);
+  });
+
+  it("reports a shorter length limit as breaking", () => {
+    const diff = diffUsers((t) => withColumn(t, "name", { maxLength: 100 }));
+
+    expect(diff.changes[0]).toMatchObject({ kind: "column_type_changed", breaking: true });
+  });
+
+  it("names array and user-defined types as written in DDL", () => {
+    const table: TableInfo = {
+      ...makeUsersTable(),
+      columns: [
+        makeColumn({ name: "tags", dataType: "ARRAY", udtName: "_text" }),
+        makeColumn({ name: "mood", dataType: "USER-DEFINED", udtName: "mood" }),
+      ],
+    };
+    const changed: TableInfo = {
+      ...table,
+      columns: [
+        makeColumn({ name: "tags", dataType: "ARRAY", udtName: "_varchar" }),
+        makeColumn({ name: "mood", dataType: "USER-DEFINED", udtName: "feeling" }),
+      ],
+    };
+
+    const diff = diffSchemas(makeDatabaseSchema([table]), makeDatabaseSchema([changed]));
+
+    expect(diff.changes.map((c) => [c.from, c.to])).toEqual([["text[]", "varchar[]"], ["mood", "feeling"]]);
+  });
+
+  it("flags only NOT NULL being added as a breaking nullability change", () => {
+    const diff = diffUsers((t) => withColumn(withColumn(t, "active", { isNullable: false }), "name", { isNullable: true }));
+
+    expect(diff.changes).toEqual([
+      { kind: "column_nullability_changed", table: "public.users", column: "name", from: false, to: true, breaking: false },
+      { kind: "column_nullability_changed", table: "public.users", column: "active", from: true, to: false, breaking: true },
+    ]);
+  });
+
+  it("reports primary key changes as breaking", () => {
+    const diff = diffUsers((t) => ({ ...t, primaryKeys: ["email"] }));
+
+    expect(diff.changes).toEqual([
+      { kind: "primary_key_changed", table: "public.users", from: ["id"], to: ["email"], breaking: true },
+    ]);
+  });
+
+  it("reports foreign keys by column and referenced column, ignoring renamed constraints", () => {
+    const orders = makeTableWithForeignKeys();
+    const changed: TableInfo = {
+      ...orders,
+      foreignKeys: [
+        { ...orders.foreignKeys[0], constraintName: "renamed_fkey" },
+        { constraintName: "orders_status_fkey", column: "status", refSchema: "public", refTable: "statuses", refColumn: "code" },
+      ],
+    };
+
+    const added = diffSchemas(makeDatabaseSchema([orders]), makeDatabaseSchema([changed]));
+    const removed = diffSchemas(makeDatabaseSchema([changed]), makeDatabaseSchema([orders]));
+
+    expect(added.changes).toEqual([
+      { kind: "foreign_key_added", table: "public.orders", column: "status", to: "public.statuses.code", breaking: false },
+    ]);
+    expect(removed.changes).toEqual([
+      { kind: "foreign_key_removed", table: "public.orders", column: "status", from: "public.statuses.code", breaking: true },
+    ]);
+  });
+
+  it("reports a changed hash without table changes for other differences", () => {
+    const diff = diffUsers((t) => ({ ...t, description: "People who can sign in" }));
+
+    expect(diff.changed).toBe(true);
+    expect(diff.changes).toEqual([]);
+    expect(diff.breaking).toBe(false);
+  });
+});
+
+describe("schema snapshots", () => {
+  it("round-trips a schema through JSON", () => {
+    const dbSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()], [makeVolatileFunction()]);
+
+    const snapshot = JSON.parse(JSON.stringify(exportSchemaSnapshot(dbSchema)));
+    const restored = importSchemaSnapshot(snapshot);
+
+    expect(snapshot.version).toBe(1);
+    expect(snapshot.databaseHash).toBe(computeDatabaseHash(dbSchema));
+    expect(computeDatabaseHash(restored)).toBe(snapshot.databaseHash);
+    expect(diffSchemas(dbSchema, restored).changed).toBe(false);
+  });
+
+  it("rejects anything else", () => {
+    for (const value of [null, "schema", { version: 2, schemas: [], tables: [], functions: [] }, { version: 1, schemas: [], tables: {} }]) {
+      expect(() => importSchemaSnapshot(value)).toThrow("Not a version 1 schema snapshot");
+    }
+  });
+});
+
+describe("describeChange", () => {
+  it.each<[SchemaChange, string]>([
+    [{ kind: "table_added", table: "public.orders", breaking: false }, "+ table public.orders"],
+    [{ kind: "table_removed", table: "public.orders", breaking: true }, "- table public.orders"],
+    [{ kind: "column_added", table: "public.users", column: "bio", to: "text", breaking: false }, "+ column public.users.bio text"],
+    [{ kind: "column_removed", table: "public.users", column: "bio", from: "text", breaking: true }, "- column public.users.bio text"],
+    [{ kind: "column_type_changed", table: "public.users", column: "id", from: "integer", to: "bigint", breaking: true }, "~ column public.users.id type integer → bigint"],
+    [{ kind: "column_nullability_changed", table: "public.users", column: "bio", from: true, to: false, breaking: true }, "~ column public.users.bio NULL → NOT NULL"],
+    [{ kind: "primary_key_changed", table: "public.users", from: ["id"], to: ["org_id", "id"], breaking: true }, "~ primary key public.users (id) → (org_id, id)"],
+    [{ kind: "foreign_key_added", table: "public.orders", column: "user_id", to: "public.users.id", breaking: false }, "+ foreign key public.orders.user_id → public.users.id"],
+    [{ kind: "foreign_key_removed", table: "public.orders", column: "user_id", from: "public.users.id", breaking: true }, "- foreign key public.orders.user_id → public.users.id"],
+  ])("describes %o", (change, expected) => {
+    expect(describeChange(change)).toBe(expected);
+  });
+});
@@ -6,12 +6,16 @@ vi.mock("../../src/config.js", () => ({
     defaultPageSize: 50,
     maxPageSize: 1000,
     maxBulkInsertRows: 1000,
+    maxBulkAffectedRows: 1000,
+    maxBatchOperations: 100,
+    countStrategy: "exact",
   },
+  COUNT_STRATEGIES: ["exact", "estimated", "none"],
 }));
 
-import { mapPgType, buildAgentColumn, buildAgentTable, buildApiInfo } from "../../src/routes/schema.js";
+import { mapPgType, buildAgentColumn, buildAgentTable, buildAgentFunction, buildApiInfo } from "../../src/routes/schema.js";
 import { config } from "../../src/config.js";
-import { makeColumn, makeUsersTable, makeNoPkTable, makeTableWithForeignKeys, makeNonPublicSchemaTable } from "../fixtures/tables.js";
+import { makeColumn, makeUsersTable, makeNoPkTable, makeTableWithForeignKeys, makeNonPublicSchemaTable, makeViewTable, makeTriggerViewTable, makeMaterializedViewTable, makeGeneratedColumnsTable, makeVolatileFunction, makeSetReturningFunction, makeDatabaseSchema } from "../fixtures/tables.js";
 
 // ── mapPgType ───────────────────────────────────────────────────────
 
@@ -86,6 +90,11 @@ describe("mapPgType", () => {
     expect(mapPgType(makeColumn({ udtName }))).toEqual({ type: "array", items: { type: "object" } });
   });
 
+  it("maps enum types to a string enum", () => {
+    const col = makeColumn({ udtName: "ticket_status", enumValues: ["open", "closed"] });
+    expect(mapPgType(col)).toEqual({ type: "string", enum: ["open", "closed"] });
+  });
+
   it("maps unknown types to string", () => {
     expect(mapPgType(makeColumn({ udtName: "xml" }))).toEqual({ type: "string" });
   });
@@ -145,6 +154,27 @@ describe("buildAgentColumn", () => {
     expect(result.format).toBe("uuid");
   });
 
+  it("includes enum labels and CHECK limits", () => {
+    const status = makeColumn({ name: "status", udtName: "ticket_status", enumValues: ["open", "closed"], isNullable: true });
+    const code = makeColumn({ name: "code", maxLength: 8, checks: { minLength: 3, maxLength: 12, pattern: "^[A-Z]+$" } });
+
+    expect(buildAgentColumn(status, users)).toEqual({
+      name: "status", type: "string", nullable: true, hasDefault: false, enum: ["open", "closed"],
+    });
+    expect(buildAgentColumn(code, users)).toMatchObject({ minLength: 3, maxLength: 8, pattern: "^[A-Z]+$" });
+  });
+
+  it("flags identity and generated columns as read-only", () => {
+    const [id, number, , total] = makeGeneratedColumnsTable().columns;
+    const invoices = makeGeneratedColumnsTable();
+
+    expect(buildAgentColumn(id, invoices)).toMatchObject({ pk: true, readOnly: true, identity: "always" });
+    expect(buildAgentColumn(number, invoices)).toMatchObject({ identity: "by_default" });
+    expect(buildAgentColumn(number, invoices)).not.toHaveProperty("readOnly");
+    expect(buildAgentColumn(total, invoices)).toMatchObject({ readOnly: true, generated: true, hasDefault: true });
+    expect(buildAgentColumn(total, invoices)).not.toHaveProperty("insertRequired");
+  });
+
   it("includes items for array columns", () => {
     const col = makeColumn({ udtName: "_int4", name: "tags" });
     const table = { ...users, columns: [...users.columns, col] };
@@ -168,6 +198,28 @@ describe("buildAgentTable", () => {
     expect(result.operations).toEqual(["list", "create"]);
   });
 
+  it("includes only read operations for a read-only view", () => {
+    const result = buildAgentTable(makeViewTable(), new Map());
+    expect(result.kind).toBe("view");
+    expect(result.writable).toBe(false);
+    expect(result.operations).toEqual(["list"]);
+  });
+
+  it("adds refresh for materialized views and keeps writes for updatable views with a PK", () => {
+    expect(buildAgentTable(makeMaterializedViewTable(), new Map()).operations).toEqual(["list", "refresh"]);
+    const updatableView = { ...makeUsersTable(), kind: "view" as const };
+    expect(buildAgentTable(updatableView, new Map()).operations).toEqual(["list", "create", "read", "update", "replace", "delete"]);
+  });
+
+  it("includes only the writes a view supports", () => {
+    expect(buildAgentTable(makeTriggerViewTable(), new Map()).operations).toEqual(["list", "create", "read", "delete"]);
+  });
+
+  it("includes read but no writes for a read-only relation with a PK", () => {
+    const readOnly = { ...makeUsersTable(), kind: "foreign_table" as const, writable: false };
+    expect(buildAgentTable(readOnly, new Map()).operations).toEqual(["list", "read"]);
+  });
+
   it("includes correct path for public schema table", () => {
     const users = makeUsersTable();
     const result = buildAgentTable(users, new Map());
@@ -189,6 +241,17 @@ describe("buildAgentTable", () => {
     expect(fk.refPath).toBe("/api/users");
   });
 
+  it("lists embeddable relations in both directions", () => {
+    const users = makeUsersTable();
+    const orders = makeTableWithForeignKeys();
+    const tables = makeDatabaseSchema([users, orders]).tables;
+
+    expect(buildAgentTable(orders, tables).relations).toEqual([{ name: "user", kind: "one", path: "/api/users" }]);
+    expect(buildAgentTable(users, tables).relations).toEqual([
+      { name: "orders", kind: "many", path: "/api/orders", nestedPath: "/api/users/{id}/orders" },
+    ]);
+  });
+
   it("identifies searchable columns (varchar/text types)", () => {
     const users = makeUsersTable();
     const result = buildAgentTable(users, new Map());
@@ -200,6 +263,29 @@ describe("buildAgentTable", () => {
     expect(result.searchableColumns).not.toContain("active");
   });
 
+  it("describes indexes, indexed columns and unique-key lookups", () => {
+    const index = { name: "users_active_idx", columns: ["active"], method: "hash", unique: false, predicate: null };
+    const result = buildAgentTable({ ...makeUsersTable(), indexes: [index] }, new Map());
+    expect(result.indexes).toEqual([index]);
+    expect(result.lookups).toEqual([{ column: "email", path: "/api/users/by/email/{value}" }]);
+    expect(result.filterableColumns).toEqual(["id", "email", "active"]);
+    expect(result.sortableColumns).toEqual(["id", "email"]);
+  });
+
+  it("includes table and column comments as descriptions", () => {
+    const users = makeUsersTable();
+    const documented = {
+      ...users,
+      description: "People who can sign in",
+      columns: users.columns.map((c) => (c.name === "active" ? { ...c, description: "False once the account is closed" } : c)),
+    };
+    const result = buildAgentTable(documented, new Map());
+    expect(result.description).toBe("People who can sign in");
+    expect(result.columns.find((c) => c.name === "active")!.description).toBe("False once the account is closed");
+    expect(result.columns.find((c) => c.name === "name")!.description).toBeUndefined();
+    expect(buildAgentTable(users, new Map())).not.toHaveProperty("description");
+  });
+
   it("includes primaryKeys", () => {
     const users = makeUsersTable();
     const result = buildAgentTable(users, new Map());
@@ -218,6 +304,35 @@ describe("buildAgentTable", () => {
 
 // ── buildApiInfo ────────────────────────────────────────────────────
 
+describe("buildAgentFunction", () => {
+  it("describes a volatile function's route, arguments and result", () => {
+    expect(buildAgentFunction(makeVolatileFunction())).toEqual({
+      name: "create_order",
+      schema: "public",
+      path: "/api/_rpc/public__create_order",
+      volatility: "volatile",
+      permission: "w",
+      args: [
+        { name: "customer_id", type: "integer", required: true },
+        { name: "note", type: "string", required: false },
+      ],
+      returns: { type: "orders", set: false, row: true },
+    });
+  });
+
+  it("needs only read permission for stable functions and keeps argument formats", () => {
+    const fn = buildAgentFunction(makeSetReturningFunction());
+    expect(fn.permission).toBe("r");
+    expect(fn.args).toEqual([{ name: "since", type: "string", format: "date", required: true }]);
+    expect(fn.returns).toEqual({ type: "int4", set: true, row: false });
+  });
+
+  it("includes item types for array arguments", () => {
+    const fn = { ...makeSetReturningFunction(), args: [{ name: "ids", dataType: "integer[]", udtName: "_int4", hasDefault: false }] };
+    expect(buildAgentFunction(fn).args[0].items).toEqual({ type: "integer" });
+  });
+});
+
 describe("buildApiInfo", () => {
   it("returns correct base structure", () => {
     const info = buildApiInfo();
@@ -249,6 +364,30 @@ describe("buildApiInfo", () => {
     expect(info.bulkInsert.maxRows).toBe(1000);
   });
 
+  it("includes the bulk mutation row limit", () => {
+    const info = buildApiInfo();
+    expect(info.bulkMutation.methods).toEqual(["PATCH", "DELETE"]);
+    expect(info.bulkMutation.maxAffectedRows).toBe(1000);
+  });
+
+  it("describes the materialized view refresh endpoint", () => {
+    const info = buildApiInfo();
+    expect(info.materializedViews.path).toBe("/api/{view}/_refresh");
+    expect(info.materializedViews.method).toBe("POST");
+  });
+
+  it("describes the batch endpoint", () => {
+    const info = buildApiInfo();
+    expect(info.batch.path).toBe("/api/_batch");
+    expect(info.batch.maxOperations).toBe(100);
+  });
+
+  it("describes the RPC endpoints", () => {
+    const info = buildApiInfo();
+    expect(info.rpc.pathPattern).toBe("/api/_rpc/{schema}__{function}");
+    expect(info.rpc.method).toBe("POST");
+  });
+
   it("shows empty methods when auth is disabled", () => {
     (config as any).apiKeysEnabled = false;
     const info = buildApiInfo();
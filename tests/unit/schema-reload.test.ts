@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("../../src/db/introspector.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/db/introspector.js")>()),
+  introspectDatabase: vi.fn(),
+}));
+
+import { EventEmitter } from "node:events";
+import type { Pool } from "pg";
+import { introspectDatabase, computeDatabaseHash } from "../../src/db/introspector.js";
+import { createSchemaReloader, SchemaReloader } from "../../src/db/schema-reload.js";
+import { makeUsersTable, makeTableWithForeignKeys, makeVolatileFunction, makeDatabaseSchema } from "../fixtures/tables.js";
+
+const introspect = vi.mocked(introspectDatabase);
+
+function makeListenClient(query = vi.fn().mockResolvedValue({ rows: [] })) {
+  return Object.assign(new EventEmitter(), { query, release: vi.fn() });
+}
+
+function setup(connect = vi.fn()) {
+  const dbSchema = makeDatabaseSchema([makeUsersTable()]);
+  const changedSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()], [makeVolatileFunction()]);
+  const apply = vi.fn().mockResolvedValue(undefined);
+  const pool = { connect } as unknown as Pool;
+  const reloader = createSchemaReloader({ pool, dbSchema, apply });
+  return { dbSchema, changedSchema, apply, pool, reloader };
+}
+
+describe("createSchemaReloader", () => {
+  let reloader: SchemaReloader | undefined;
+
+  beforeEach(() => {
+    introspect.mockReset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    reloader?.stop();
+    reloader = undefined;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("reload", () => {
+    it("applies a changed schema and reports its size", async () => {
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.changedSchema);
+
+      const result = await reloader.reload();
+
+      const hash = computeDatabaseHash(ctx.changedSchema);
+      expect(ctx.apply).toHaveBeenCalledWith(ctx.changedSchema, hash);
+      expect(result).toEqual({ changed: true, databaseHash: hash, tables: 2, functions: 1 });
+    });
+
+    it("does not apply an unchanged schema", async () => {
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(makeDatabaseSchema([makeUsersTable()]));
+
+      const result = await reloader.reload();
+
+      expect(ctx.apply).not.toHaveBeenCalled();
+      expect(result).toEqual({ changed: false, databaseHash: computeDatabaseHash(ctx.dbSchema), tables: 1, functions: 0 });
+    });
+
+    it("compares later reloads against the last applied schema", async () => {
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.changedSchema);
+
+      await reloader.reload();
+      const result = await reloader.reload();
+
+      expect(ctx.apply).toHaveBeenCalledOnce();
+      expect(result.changed).toBe(false);
+    });
+
+    it("keeps the previous schema when applying fails", async () => {
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.changedSchema);
+      ctx.apply.mockRejectedValueOnce(new Error("bad route"));
+
+      await expect(reloader.reload()).rejects.toThrow("bad route");
+      const result = await reloader.reload();
+
+      expect(result.changed).toBe(true);
+      expect(ctx.apply).toHaveBeenCalledTimes(2);
+    });
+
+    it("runs once more after an in-flight reload, shared by every caller", async () => {
+      const ctx = setup();
+      reloader = ctx.reloader;
+      let finishFirst!: (schema: typeof ctx.dbSchema) => void;
+      introspect
+        .mockImplementationOnce(() => new Promise((resolve) => { finishFirst = resolve; }))
+        .mockResolvedValueOnce(ctx.changedSchema);
+
+      const first = reloader.reload();
+      const second = reloader.reload();
+      const third = reloader.reload();
+      expect(third).toBe(second);
+
+      finishFirst(ctx.dbSchema);
+      expect((await first).changed).toBe(false);
+      expect((await second).changed).toBe(true);
+      expect(introspect).toHaveBeenCalledTimes(2);
+    });
+
+    it("still runs the queued reload when the in-flight one fails", async () => {
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect
+        .mockRejectedValueOnce(new Error("connection reset"))
+        .mockResolvedValueOnce(ctx.changedSchema);
+
+      const first = reloader.reload();
+      const second = reloader.reload();
+
+      await expect(first).rejects.toThrow("connection reset");
+      expect((await second).changed).toBe(true);
+    });
+  });
+
+  describe("poll", () => {
+    it("reloads on every interval", async () => {
+      vi.useFakeTimers();
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.changedSchema);
+
+      reloader.poll(30);
+      await vi.advanceTimersByTimeAsync(29_000);
+      expect(introspect).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(ctx.apply).toHaveBeenCalledOnce();
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(introspect).toHaveBeenCalledTimes(2);
+    });
+
+    it("logs failures instead of throwing", async () => {
+      vi.useFakeTimers();
+      const ctx = setup();
+      reloader = ctx.reloader;
+      introspect.mockRejectedValue(new Error("timeout"));
+
+      reloader.poll(10);
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect(console.error).toHaveBeenCalledWith("❌ Schema reload (poll) failed:", "timeout");
+    });
+
+    it("stops polling", async () => {
+      vi.useFakeTimers();
+      const ctx = setup();
+      ctx.reloader.poll(10);
+      ctx.reloader.stop();
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(introspect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listen", () => {
+    it("subscribes to the quoted channel and reloads on its notifications", async () => {
+      const client = makeListenClient();
+      const ctx = setup(vi.fn().mockResolvedValue(client));
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.changedSchema);
+
+      await reloader.listen('ddl"events');
+      expect(client.query).toHaveBeenCalledWith('LISTEN "ddl""events"');
+
+      client.emit("notification", { channel: "other" });
+      expect(introspect).not.toHaveBeenCalled();
+
+      client.emit("notification", { channel: 'ddl"events' });
+      await vi.waitFor(() => expect(ctx.apply).toHaveBeenCalledOnce());
+    });
+
+    it("logs failed reloads triggered by a notification", async () => {
+      const client = makeListenClient();
+      const ctx = setup(vi.fn().mockResolvedValue(client));
+      reloader = ctx.reloader;
+      introspect.mockRejectedValue(new Error("timeout"));
+
+      await reloader.listen("pgcrud_reload");
+      client.emit("notification", { channel: "pgcrud_reload" });
+
+      await vi.waitFor(() => {
+        expect(console.error).toHaveBeenCalledWith("❌ Schema reload (notify) failed:", "timeout");
+      });
+    });
+
+    it("releases the client and rethrows when LISTEN fails", async () => {
+      const client = makeListenClient(vi.fn().mockRejectedValue(new Error("permission denied")));
+      const ctx = setup(vi.fn().mockResolvedValue(client));
+      reloader = ctx.reloader;
+
+      await expect(reloader.listen("pgcrud_reload")).rejects.toThrow("permission denied");
+      expect(client.release).toHaveBeenCalledWith(true);
+
+      // Errors on the abandoned client are ignored
+      client.emit("error", new Error("late"));
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it("reconnects after losing the connection and reloads in case DDL was missed", async () => {
+      vi.useFakeTimers();
+      const lost = makeListenClient();
+      const fresh = makeListenClient();
+      const connect = vi.fn().mockResolvedValueOnce(lost).mockResolvedValueOnce(fresh);
+      const ctx = setup(connect);
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.changedSchema);
+
+      await reloader.listen("pgcrud_reload");
+      lost.emit("error", new Error("terminating connection"));
+
+      expect(lost.release).toHaveBeenCalledWith(true);
+      expect(console.error).toHaveBeenCalledWith("❌ Schema reload listener lost its connection:", "terminating connection");
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(fresh.query).toHaveBeenCalledWith('LISTEN "pgcrud_reload"');
+      expect(ctx.apply).toHaveBeenCalledOnce();
+    });
+
+    it("keeps retrying while the database is unreachable", async () => {
+      vi.useFakeTimers();
+      const lost = makeListenClient();
+      const fresh = makeListenClient();
+      const connect = vi.fn()
+        .mockResolvedValueOnce(lost)
+        .mockRejectedValueOnce(new Error("ECONNREFUSED"))
+        .mockResolvedValueOnce(fresh);
+      const ctx = setup(connect);
+      reloader = ctx.reloader;
+      introspect.mockResolvedValue(ctx.dbSchema);
+
+      await reloader.listen("pgcrud_reload");
+      lost.emit("error", new Error("terminating connection"));
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(console.error).toHaveBeenCalledWith("❌ Schema reload listener could not reconnect:", "ECONNREFUSED");
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      expect(connect).toHaveBeenCalledTimes(3);
+      expect(fresh.query).toHaveBeenCalledWith('LISTEN "pgcrud_reload"');
+    });
+
+    it("releases the listener once stopped", async () => {
+      const client = makeListenClient();
+      const ctx = setup(vi.fn().mockResolvedValue(client));
+
+      await ctx.reloader.listen("pgcrud_reload");
+      ctx.reloader.stop();
+
+      expect(client.release).toHaveBeenCalledWith(true);
+    });
+
+    it("abandons a reconnect that completes after stopping", async () => {
+      vi.useFakeTimers();
+      const lost = makeListenClient();
+      const fresh = makeListenClient();
+      let connected!: (client: typeof fresh) => void;
+      const connect = vi.fn()
+        .mockResolvedValueOnce(lost)
+        .mockImplementationOnce(() => new Promise((resolve) => { connected = resolve; }));
+      const ctx = setup(connect);
+
+      await ctx.reloader.listen("pgcrud_reload");
+      lost.emit("error", new Error("terminating connection"));
+      await vi.advanceTimersByTimeAsync(5_000);
+      ctx.reloader.stop();
+      connected(fresh);
+
+      await vi.waitFor(() => expect(fresh.release).toHaveBeenCalledWith(true));
+    });
+
+    it("stops retrying when a reconnect fails after stopping", async () => {
+      vi.useFakeTimers();
+      const lost = makeListenClient();
+      let refuse!: (err: Error) => void;
+      const connect = vi.fn()
+        .mockResolvedValueOnce(lost)
+        .mockImplementationOnce(() => new Promise((_, reject) => { refuse = reject; }));
+      const ctx = setup(connect);
+
+      await ctx.reloader.listen("pgcrud_reload");
+      lost.emit("error", new Error("terminating connection"));
+      await vi.advanceTimersByTimeAsync(5_000);
+      ctx.reloader.stop();
+      refuse(new Error("ECONNREFUSED"));
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(connect).toHaveBeenCalledTimes(2);
+    });
+  });
+});
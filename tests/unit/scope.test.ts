@@ -0,0 +1,284 @@
+import { describe, it, expect } from "vitest";
+import type { TableInfo } from "../../src/db/introspector.js";
+import type { Expansion } from "../../src/db/query-builder.js";
+import type { SchemaPermissions, RowFilters } from "../../src/auth/api-key.js";
+import {
+  hiddenColumns,
+  isColumnWritable,
+  rowFilterOf,
+  hasRowFilters,
+  denyUnfilterableTables,
+  checkRowFilters,
+  scopeRows,
+  scopeTable,
+  scopeTables,
+  scopeDatabaseSchema,
+  findUnwritableColumn,
+  redactRows,
+} from "../../src/auth/scope.js";
+import {
+  makeUsersTable,
+  makeTableWithForeignKeys,
+  makeNonPublicSchemaTable,
+  makeVolatileFunction,
+  makeDatabaseSchema,
+} from "../fixtures/tables.js";
+
+const PERMISSIONS: SchemaPermissions = {
+  public: "rw",
+  "public.users.email": "-",
+  "public.users.id": "-",
+  "public.users.active": "r",
+  "public.orders.user_id": "-",
+};
+
+const ROW_FILTERS: RowFilters = {
+  "*": { tenant_id: "1" },
+  public: { user_id: "42" },
+  "public.users": { id: "42" },
+  "public.plans": {},
+};
+
+function makeIndexedUsersTable(): TableInfo {
+  return {
+    ...makeUsersTable(),
+    indexes: [
+      { name: "users_name_idx", columns: ["name"], method: "btree", unique: false, predicate: null },
+      { name: "users_lower_email_idx", columns: ["email", "name"], method: "btree", unique: false, predicate: null },
+    ],
+  };
+}
+
+describe("hiddenColumns", () => {
+  it("lists '-' columns of the table, never its primary key", () => {
+    expect(hiddenColumns(makeUsersTable(), PERMISSIONS)).toEqual(["email"]);
+    expect(hiddenColumns(makeTableWithForeignKeys(), PERMISSIONS)).toEqual(["user_id"]);
+  });
+
+  it("is empty without column rules", () => {
+    expect(hiddenColumns(makeUsersTable(), { public: "rw" })).toEqual([]);
+    expect(hiddenColumns(makeUsersTable(), null)).toEqual([]);
+  });
+});
+
+describe("isColumnWritable", () => {
+  it("treats read-only and hidden columns as unwritable", () => {
+    const users = makeUsersTable();
+    expect(isColumnWritable(users, PERMISSIONS, "name")).toBe(true);
+    expect(isColumnWritable(users, PERMISSIONS, "active")).toBe(false);
+    expect(isColumnWritable(users, PERMISSIONS, "email")).toBe(false);
+    expect(isColumnWritable(users, PERMISSIONS, "id")).toBe(false);
+  });
+});
+
+describe("rowFilterOf", () => {
+  const orders = makeTableWithForeignKeys();
+
+  it("prefers the table's entry, then its schema's, then the wildcard's", () => {
+    expect(rowFilterOf(makeUsersTable(), ROW_FILTERS)).toEqual({ id: "42" });
+    expect(rowFilterOf(orders, ROW_FILTERS)).toEqual({ user_id: "42" });
+    expect(rowFilterOf(orders, { "*": { user_id: "1" } })).toEqual({ user_id: "1" });
+  });
+
+  it("keeps columns the table lacks, which denyUnfilterableTables denies it for", () => {
+    expect(rowFilterOf(makeNonPublicSchemaTable(), ROW_FILTERS)).toEqual({ tenant_id: "1" });
+    expect(rowFilterOf(orders, { public: { user_id: "42", region: "eu" } })).toEqual({ user_id: "42", region: "eu" });
+  });
+
+  it("pins nothing on exempted tables", () => {
+    expect(rowFilterOf({ ...orders, name: "plans" }, ROW_FILTERS)).toBeUndefined();
+    expect(rowFilterOf(orders, undefined)).toBeUndefined();
+  });
+});
+
+describe("denyUnfilterableTables", () => {
+  const dbSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]);
+
+  it("denies tables whose own entry pins a column they lack", () => {
+    const rowFilters = { "public.users": { tenant_id: "42" }, public: { user_id: "42" } };
+    expect(denyUnfilterableTables({ public: "rw" }, rowFilters, dbSchema)).toEqual({ public: "rw", "public.users": "-" });
+    expect(denyUnfilterableTables(null, rowFilters, dbSchema)).toEqual({ "*": "rw", "public.users": "-" });
+  });
+
+  it("denies tables lacking a column of their schema's or the wildcard entry", () => {
+    expect(denyUnfilterableTables({ public: "rw" }, { public: { user_id: "42" } }, dbSchema)).toEqual({
+      public: "rw",
+      "public.users": "-",
+    });
+    expect(denyUnfilterableTables(null, { "*": { id: "1", user_id: "42" } }, dbSchema)).toEqual({
+      "*": "rw",
+      "public.users": "-",
+    });
+  });
+
+  it("returns the permissions unchanged when every table can be pinned or is exempted", () => {
+    const permissions = { public: "rw" };
+    expect(denyUnfilterableTables(permissions, { public: { user_id: "42" }, "public.users": {} }, dbSchema)).toBe(permissions);
+    expect(denyUnfilterableTables(permissions, { public: { id: "42" } }, dbSchema)).toBe(permissions);
+    expect(denyUnfilterableTables(null, undefined, dbSchema)).toBeNull();
+  });
+});
+
+describe("checkRowFilters", () => {
+  const dbSchema = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys(), makeNonPublicSchemaTable()]);
+
+  it("reports missing tables and columns", () => {
+    const report = checkRowFilters(
+      { "public.users": { tenant_id: "1" }, "public.nope": { user_id: "1" }, reporting: { user_id: "1" } },
+      dbSchema,
+    );
+    expect(report.errors).toEqual([
+      'Table "public.users" has no column "tenant_id"; the key will be denied access to it',
+      'Row filter target "public.nope" matches no table',
+      'Row filter column "user_id" of "reporting" matches no table',
+    ]);
+  });
+
+  it("lists the tables a schema or wildcard entry denies", () => {
+    expect(checkRowFilters({ "*": { user_id: "42" }, "public.plans": {} }, dbSchema)).toEqual({
+      errors: [],
+      denied: ["public.users", "reporting.metrics"],
+    });
+    expect(checkRowFilters({ "*": { id: "1", user_id: "42" }, "public.users": {} }, dbSchema)).toEqual({
+      errors: [],
+      denied: ["reporting.metrics"],
+    });
+    expect(checkRowFilters({ public: { user_id: "42" }, "public.users": { id: "1" } }, dbSchema)).toEqual({
+      errors: [],
+      denied: [],
+    });
+  });
+});
+
+describe("hasRowFilters", () => {
+  it("checks for any non-empty entry", () => {
+    expect(hasRowFilters({ "public.orders": { user_id: "1" } })).toBe(true);
+    expect(hasRowFilters({ "*": { user_id: "1" } })).toBe(true);
+    expect(hasRowFilters({ "reporting.metrics": {}, public: { user_id: "1" } })).toBe(true);
+    expect(hasRowFilters({ "reporting.metrics": {} })).toBe(false);
+    expect(hasRowFilters(undefined)).toBe(false);
+  });
+});
+
+describe("scopeRows", () => {
+  it("sets the row filter, keeping every column", () => {
+    const orders = makeTableWithForeignKeys();
+    const scoped = scopeRows(orders, ROW_FILTERS);
+
+    expect(scoped.rowFilter).toEqual({ user_id: "42" });
+    expect(scoped.columns).toBe(orders.columns);
+    expect(scopeRows(orders, { public: {} })).toBe(orders);
+  });
+});
+
+describe("scopeTable", () => {
+  it("drops hidden columns with their constraints and indexes", () => {
+    const scoped = scopeTable(makeIndexedUsersTable(), PERMISSIONS);
+
+    expect(scoped.columns.map((c) => c.name)).toEqual(["id", "name", "active"]);
+    expect(scoped.primaryKeys).toEqual(["id"]);
+    expect(scoped.uniqueConstraints).toEqual([]);
+    expect(scoped.indexes.map((i) => i.name)).toEqual(["users_name_idx"]);
+  });
+
+  it("drops foreign keys on hidden columns", () => {
+    expect(scopeTable(makeTableWithForeignKeys(), PERMISSIONS).foreignKeys).toEqual([]);
+  });
+
+  it("returns the table itself when nothing is hidden", () => {
+    const users = makeUsersTable();
+    expect(scopeTable(users, { public: "rw", "public.users.active": "r" })).toBe(users);
+  });
+
+  it("limits rows by filtered columns, even hidden ones", () => {
+    const scoped = scopeTable(makeTableWithForeignKeys(), PERMISSIONS, ROW_FILTERS);
+
+    expect(scoped.columns.map((c) => c.name)).not.toContain("user_id");
+    expect(scoped.rowFilter).toEqual({ user_id: "42" });
+  });
+});
+
+describe("scopeTables", () => {
+  it("scopes every table, or returns the map when the key has no column rules", () => {
+    const tables = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]).tables;
+
+    expect(scopeTables(tables, { public: "r" })).toBe(tables);
+    const scoped = scopeTables(tables, PERMISSIONS);
+    expect(scoped.get('"public"."users"')!.columns).toHaveLength(3);
+    expect(scoped.get('"public"."orders"')!.columns).toHaveLength(3);
+  });
+
+  it("scopes every table when the key has row filters", () => {
+    const tables = makeDatabaseSchema([makeUsersTable(), makeTableWithForeignKeys()]).tables;
+
+    const scoped = scopeTables(tables, { public: "r" }, ROW_FILTERS);
+    expect(scoped).not.toBe(tables);
+    expect(scoped.get('"public"."orders"')!.rowFilter).toEqual({ user_id: "42" });
+  });
+});
+
+describe("scopeDatabaseSchema", () => {
+  it("keeps accessible tables, scoped, and functions of accessible schemas", () => {
+    const dbSchema = makeDatabaseSchema(
+      [makeUsersTable(), makeTableWithForeignKeys(), makeNonPublicSchemaTable()],
+      [makeVolatileFunction()],
+    );
+
+    const scoped = scopeDatabaseSchema(dbSchema, { "reporting.metrics": "r", "reporting.metrics.value": "-" });
+
+    expect(scoped.schemas).toEqual(["reporting"]);
+    expect(Array.from(scoped.tables.keys())).toEqual(['"reporting"."metrics"']);
+    expect(scoped.tables.get('"reporting"."metrics"')!.columns.map((c) => c.name)).not.toContain("value");
+    expect(scoped.functions.size).toBe(0);
+
+    const publicOnly = scopeDatabaseSchema(dbSchema, { public: "rw" });
+    expect(publicOnly.schemas).toEqual(["public"]);
+    expect(publicOnly.functions.size).toBe(1);
+  });
+});
+
+describe("findUnwritableColumn", () => {
+  it("finds the first read-only or hidden column set by any row", () => {
+    const users = makeUsersTable();
+    expect(findUnwritableColumn(users, PERMISSIONS, [{ name: "A" }, { name: "B", active: false }])).toBe("active");
+    expect(findUnwritableColumn(users, PERMISSIONS, [{ name: "A" }])).toBeUndefined();
+    expect(findUnwritableColumn(users, { public: "rw" }, [{ active: false }])).toBeUndefined();
+  });
+});
+
+describe("redactRows", () => {
+  const users = makeUsersTable();
+  const orders = makeTableWithForeignKeys();
+
+  it("removes hidden columns in place", () => {
+    const rows = [{ id: 1, name: "A", email: "a@test.com" }];
+
+    expect(redactRows(rows, users, PERMISSIONS)).toBe(rows);
+    expect(rows).toEqual([{ id: 1, name: "A" }]);
+  });
+
+  it("redacts embedded objects and arrays", () => {
+    const expand: Expansion[] = [
+      { relation: { name: "user", kind: "one", table: users, columns: [{ local: "user_id", remote: "id" }] } },
+    ];
+    const rows = [
+      { id: 1, user_id: 1, user: { id: 1, email: "a@test.com" } },
+      { id: 2, user_id: 2, user: null },
+    ];
+    const parents = [{ id: 1, email: "a@test.com", orders: [{ id: 1, user_id: 1, total: 5 }] }];
+    const childExpand: Expansion[] = [
+      { relation: { name: "orders", kind: "many", table: orders, columns: [{ local: "id", remote: "user_id" }] } },
+    ];
+
+    redactRows(rows, orders, PERMISSIONS, expand);
+    redactRows(parents, users, PERMISSIONS, childExpand);
+
+    expect(rows).toEqual([{ id: 1, user: { id: 1 } }, { id: 2, user: null }]);
+    expect(parents).toEqual([{ id: 1, orders: [{ id: 1, total: 5 }] }]);
+  });
+
+  it("leaves rows alone without hidden columns", () => {
+    const rows = [{ id: 1, name: "A", email: "a@test.com" }];
+    expect(redactRows(rows, users, { public: "r" }, [])).toEqual([{ id: 1, name: "A", email: "a@test.com" }]);
+  });
+});
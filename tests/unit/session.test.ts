@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { FastifyRequest } from "fastify";
+import { config } from "../../src/config.js";
+import { resolveDbSession, requestDbSession, buildSessionQuery } from "../../src/db/session.js";
+
+describe("resolveDbSession", () => {
+  afterEach(() => {
+    config.keyRoles = {};
+    config.dbSessionClaims = false;
+  });
+
+  it("is undefined without a key or anything to set", () => {
+    config.keyRoles = { "*": "api_user" };
+    expect(resolveDbSession(undefined)).toBeUndefined();
+
+    config.keyRoles = {};
+    expect(resolveDbSession("admin")).toBeUndefined();
+  });
+
+  it("prefers the key's role, then its label's, then the '*' entry", () => {
+    config.keyRoles = { reporting: "analyst", "*": "api_user" };
+
+    expect(resolveDbSession("reporting", "auditor")).toEqual({ role: "auditor", settings: {} });
+    expect(resolveDbSession("reporting")).toEqual({ role: "analyst", settings: {} });
+    expect(resolveDbSession("other")).toEqual({ role: "api_user", settings: {} });
+  });
+
+  it("adds request.jwt.claims and app.api_key_label when enabled", () => {
+    config.dbSessionClaims = true;
+
+    expect(resolveDbSession("svc", "api_user")).toEqual({
+      role: "api_user",
+      settings: { "request.jwt.claims": '{"sub":"svc","role":"api_user"}', "app.api_key_label": "svc" },
+    });
+    expect(resolveDbSession("svc")!.settings["request.jwt.claims"]).toBe('{"sub":"svc"}');
+  });
+
+  it("passes a JWT's own claims on as request.jwt.claims", () => {
+    config.dbSessionClaims = true;
+    const tokenClaims = { sub: "alice", email: "alice@example.com", exp: 2000 };
+
+    expect(resolveDbSession("jwt:alice", undefined, tokenClaims)).toEqual({
+      role: undefined,
+      settings: { "request.jwt.claims": JSON.stringify(tokenClaims), "app.api_key_label": "jwt:alice" },
+    });
+  });
+});
+
+describe("requestDbSession", () => {
+  it("resolves the session of the request's key", () => {
+    const request = { apiKeyLabel: "svc", apiKeyRole: "api_user" } as FastifyRequest;
+    expect(requestDbSession(request)).toEqual({ role: "api_user", settings: {} });
+    expect(requestDbSession({} as FastifyRequest)).toBeUndefined();
+  });
+});
+
+describe("buildSessionQuery", () => {
+  it("sets the role and settings for the transaction with bound values", () => {
+    expect(buildSessionQuery({ role: "api_user", settings: { "app.api_key_label": "svc" } })).toEqual({
+      text: "SELECT set_config($1, $2, true), set_config($3, $4, true)",
+      values: ["role", "api_user", "app.api_key_label", "svc"],
+    });
+    expect(buildSessionQuery({ settings: { "app.api_key_label": "svc" } }).values).toEqual(["app.api_key_label", "svc"]);
+  });
+});
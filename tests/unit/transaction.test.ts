@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Pool } from "pg";
+import { withTransaction, sessionPool } from "../../src/db/transaction.js";
+
+function makePool(query = vi.fn().mockResolvedValue({ rows: [] })) {
+  const client = { query, release: vi.fn() };
+  const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as Pool;
+  return { pool, client };
+}
+
+describe("withTransaction", () => {
+  it("commits and returns the callback result", async () => {
+    const { pool, client } = makePool();
+
+    const result = await withTransaction(pool, async (c) => {
+      await c.query("SELECT 1");
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(client.query.mock.calls.map((c) => c[0])).toEqual(["BEGIN", "SELECT 1", "COMMIT"]);
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it("applies a session right after BEGIN", async () => {
+    const { pool, client } = makePool();
+
+    await withTransaction(pool, (c) => c.query("SELECT 1"), { role: "api_user", settings: {} });
+
+    expect(client.query.mock.calls.map((c) => c[0])).toEqual([
+      "BEGIN",
+      { text: "SELECT set_config($1, $2, true)", values: ["role", "api_user"] },
+      "SELECT 1",
+      "COMMIT",
+    ]);
+  });
+
+  it("rolls back and rethrows when the callback fails", async () => {
+    const { pool, client } = makePool();
+
+    await expect(withTransaction(pool, async () => {
+      throw new Error("boom");
+    })).rejects.toThrow("boom");
+
+    expect(client.query.mock.calls.map((c) => c[0])).toEqual(["BEGIN", "ROLLBACK"]);
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it("rethrows the original error when ROLLBACK itself fails", async () => {
+    const query = vi.fn()
+      .mockResolvedValueOnce({ rows: [] })
+      .mockRejectedValueOnce(new Error("connection lost"));
+    const { pool, client } = makePool(query);
+
+    await expect(withTransaction(pool, async () => {
+      throw new Error("boom");
+    })).rejects.toThrow("boom");
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+});
+
+describe("sessionPool", () => {
+  it("returns the pool itself without a session", () => {
+    const { pool } = makePool();
+    expect(sessionPool(pool, undefined)).toBe(pool);
+  });
+
+  it("runs each query in a transaction as the session", async () => {
+    const query = vi.fn().mockResolvedValue({ rows: [{ id: 1 }] });
+    const { pool, client } = makePool(query);
+    const db = sessionPool(pool, { role: "api_user", settings: {} });
+
+    const result = await db.query({ text: "SELECT * FROM t" });
+
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(query.mock.calls.map((c) => c[0])).toEqual([
+      "BEGIN",
+      { text: "SELECT set_config($1, $2, true)", values: ["role", "api_user"] },
+      { text: "SELECT * FROM t" },
+      "COMMIT",
+    ]);
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+});